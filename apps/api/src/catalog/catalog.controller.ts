@@ -1,12 +1,18 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
+  Param,
+  Query,
   HttpCode,
   HttpStatus,
   HttpException,
+  UseGuards,
 } from '@nestjs/common';
 import { CatalogService, CatalogSyncResult } from './catalog.service';
+import { CatalogQueue } from '../queues/catalog.queue';
+import { AuthGuard, RoleGuard, Roles } from '../auth/guards/auth.guard';
 
 interface SyncCatalogDto {
   locationId?: string;
@@ -15,13 +21,17 @@ interface SyncCatalogDto {
 
 interface SyncCatalogResponse {
   success: boolean;
+  runId: string;
   result: CatalogSyncResult;
   message: string;
 }
 
 @Controller('admin/square/catalog')
 export class CatalogController {
-  constructor(private readonly catalogService: CatalogService) {}
+  constructor(
+    private readonly catalogService: CatalogService,
+    private readonly catalogQueue: CatalogQueue,
+  ) {}
 
   @Post('sync')
   @HttpCode(HttpStatus.OK)
@@ -35,17 +45,22 @@ export class CatalogController {
       const locationId = body.locationId || null;
       const forceResync = body.forceResync || false;
 
-      const result = await this.catalogService.syncSquareCatalog(
+      const { runId, result } = await this.catalogService.runManualSync(
         locationId,
         forceResync,
       );
 
       return {
         success: true,
+        runId,
         result,
         message: 'Catalog sync completed successfully',
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
       
@@ -61,5 +76,53 @@ export class CatalogController {
       );
     }
   }
-}
 
+  /**
+   * Where scheduled syncs stand: the run in progress (if any), the last
+   * finished run with its errors, and the worker's cron schedule.
+   */
+  @Get('sync/status')
+  @UseGuards(AuthGuard, RoleGuard)
+  @Roles('OWNER', 'MANAGER')
+  async getSyncStatus() {
+    const [running, lastRun, schedule] = await Promise.all([
+      this.catalogService.findRunningRun(),
+      this.catalogService.getLastFinishedRun(),
+      this.catalogQueue.getSchedule().catch(error => {
+        console.error('[CATALOG_SYNC] Could not read the catalog queue schedule:', error);
+        return null;
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: { running, lastRun, schedule },
+    };
+  }
+
+  @Get('sync/runs')
+  @UseGuards(AuthGuard, RoleGuard)
+  @Roles('OWNER', 'MANAGER')
+  async getSyncRuns(@Query('limit') limit?: string) {
+    const take = Math.min(Math.max(parseInt(limit || '20', 10) || 20, 1), 100);
+    const runs = await this.catalogService.getRecentRuns(take);
+
+    return {
+      success: true,
+      data: runs,
+      count: runs.length,
+    };
+  }
+
+  @Get('sync/runs/:id')
+  @UseGuards(AuthGuard, RoleGuard)
+  @Roles('OWNER', 'MANAGER')
+  async getSyncRun(@Param('id') id: string) {
+    const run = await this.catalogService.getRun(id);
+
+    return {
+      success: true,
+      data: run,
+    };
+  }
+}
@@ -1,12 +1,14 @@
 import { Module } from '@nestjs/common';
 import { CatalogController } from './catalog.controller';
 import { CatalogService } from './catalog.service';
+import { CatalogQueue } from '../queues/catalog.queue';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule],
   controllers: [CatalogController],
-  providers: [CatalogService, PrismaService],
+  providers: [CatalogService, CatalogQueue, PrismaService],
   exports: [CatalogService],
 })
 export class CatalogModule {}
-
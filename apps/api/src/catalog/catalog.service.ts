@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { Prisma } from '@prisma/client';
 import { SquareClient, SquareEnvironment } from 'square';
@@ -25,6 +25,11 @@ export interface CatalogSyncError {
   skipped: boolean;
 }
 
+// A RUNNING CatalogSyncRun older than this belongs to a process that died
+// mid-sync and no longer blocks new runs (same window as the worker's
+// CATALOG_SYNC_STALE_MS).
+const RUN_STALE_MS = 2 * 60 * 60 * 1000;
+
 interface CatalogData {
   productName: string | null;
   productDescription: string | null;
@@ -486,4 +491,88 @@ export class CatalogService {
 
     return result;
   }
-}
\ No newline at end of file
+
+  // --------------------------------------------------------------------------
+  // Run history (CatalogSyncRun)
+  // --------------------------------------------------------------------------
+
+  /**
+   * The admin screen's sync, recorded as a MANUAL run next to the worker's
+   * scheduled ones. Refused while another sync is still running.
+   */
+  async runManualSync(
+    locationId: string | null,
+    forceResync: boolean,
+  ): Promise<{ runId: string; result: CatalogSyncResult }> {
+    const running = await this.findRunningRun();
+    if (running) {
+      throw new ConflictException(
+        `A ${running.trigger.toLowerCase()} catalog sync started at ${running.startedAt.toISOString()} is still running`,
+      );
+    }
+
+    const run = await this.prisma.catalogSyncRun.create({
+      data: { trigger: 'MANUAL', locationId, forceResync },
+    });
+
+    try {
+      const result = await this.syncSquareCatalog(locationId, forceResync);
+      await this.prisma.catalogSyncRun.update({
+        where: { id: run.id },
+        data: {
+          status: result.errors.length > 0 ? 'PARTIAL' : 'SUCCEEDED',
+          totalVariationsFound: result.totalVariationsFound,
+          variationsProcessed: result.variationsProcessed,
+          productsCreated: result.productsCreated,
+          mappingsCreated: result.mappingsCreated,
+          mappingsSkipped: result.mappingsSkipped,
+          errorCount: result.errors.length,
+          errors: result.errors.map(e => ({ ...e })),
+          finishedAt: new Date(),
+        },
+      });
+      return { runId: run.id, result };
+    } catch (error) {
+      await this.prisma.catalogSyncRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'FAILED',
+          errorMessage: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  async findRunningRun() {
+    return this.prisma.catalogSyncRun.findFirst({
+      where: { status: 'RUNNING', startedAt: { gt: new Date(Date.now() - RUN_STALE_MS) } },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  /** Most recent runs first, without the per-variation error lists. */
+  async getRecentRuns(limit: number) {
+    return this.prisma.catalogSyncRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+      omit: { errors: true },
+    });
+  }
+
+  async getLastFinishedRun() {
+    return this.prisma.catalogSyncRun.findFirst({
+      where: { finishedAt: { not: null } },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  async getRun(id: string) {
+    const run = await this.prisma.catalogSyncRun.findUnique({ where: { id } });
+    if (!run) {
+      throw new NotFoundException(`Catalog sync run ${id} not found`);
+    }
+    return run;
+  }
+}
@@ -166,9 +166,46 @@ export class DataController {
       // 5. Delete InventoryReceiving (references Inventory via inventoryBatchId)
       await this.prisma.inventoryReceiving.deleteMany({});
 
+      // 5a. Delete refund reversals and void lines (RESTRICT fkeys on Inventory, InventoryConsumption, SaleItem)
+      await this.prisma.saleItemReversal.deleteMany({});
+      await this.prisma.saleVoidLine.deleteMany({});
+
       // 5b. Delete InventoryConsumption (RESTRICT fkey on Inventory)
       await this.prisma.inventoryConsumption.deleteMany({});
 
+      // 5c. Delete pending-cost positions (RESTRICT fkeys on SaleItem, Product)
+      await this.prisma.pendingCostConsumption.deleteMany({});
+
+      // 5d. Delete drift findings (RESTRICT fkey on Product; they compare the batches deleted below)
+      await this.prisma.inventoryDrift.deleteMany({});
+
+      // 5e. Delete transfer orders (lines and batches cascade; RESTRICT fkeys on Inventory, Product)
+      await this.prisma.transferOrder.deleteMany({});
+
+      // 5f. Delete count sessions (lines and entries cascade; RESTRICT fkey on Product)
+      await this.prisma.countSession.deleteMany({});
+
+      // 5g. Delete purchase orders (lines cascade; RESTRICT fkey on Product)
+      await this.prisma.purchaseOrder.deleteMany({});
+
+      // 5h. Delete receiving invoices (their receivings were deleted in step 5)
+      await this.prisma.receivingInvoice.deleteMany({});
+
+      // 5i. Delete reorder settings (RESTRICT fkey on Product)
+      await this.prisma.reorderSetting.deleteMany({});
+
+      // 5j. Delete recall cases (their write-offs keep a null recallCaseId)
+      await this.prisma.recallCase.deleteMany({});
+
+      // 5k. Delete batch cost revisions (restatements cascade; RESTRICT fkey on Inventory)
+      await this.prisma.batchCostRevision.deleteMany({});
+
+      // 5l. Delete queued Square changes (they name the deleted products by id)
+      await this.prisma.squareSyncOutbox.deleteMany({});
+
+      // 5m. Delete inventory snapshots (lines cascade; they record the batches deleted below)
+      await this.prisma.inventorySnapshot.deleteMany({});
+
       // 6. Delete Inventory (references products)
       const deletedInventory = await this.prisma.inventory.deleteMany({});
       
@@ -264,6 +301,17 @@ export class DataController {
       const counts = await this.prisma.$transaction(async (tx) => {
         // Order matters: children (FK holders) before the parents they
         // reference, mirroring the schema's foreign key graph.
+        const saleItemReversal = await tx.saleItemReversal.deleteMany({});
+        const saleRefund = await tx.saleRefund.deleteMany({});
+        const saleVoidLine = await tx.saleVoidLine.deleteMany({});
+        const saleVoid = await tx.saleVoid.deleteMany({});
+        const pendingCostConsumption = await tx.pendingCostConsumption.deleteMany({});
+        const inventoryDrift = await tx.inventoryDrift.deleteMany({});
+        const unmappedSaleLine = await tx.unmappedSaleLine.deleteMany({});
+        const transferOrder = await tx.transferOrder.deleteMany({}); // Lines and batches cascade
+        const countSession = await tx.countSession.deleteMany({}); // Lines and entries cascade
+        const saleDiscount = await tx.saleDiscount.deleteMany({});
+        const saleTender = await tx.saleTender.deleteMany({});
         const inventoryConsumption = await tx.inventoryConsumption.deleteMany({});
         const costApproval = await tx.costApproval.deleteMany({});
         const catalogMapping = await tx.catalogMapping.deleteMany({});
@@ -271,6 +319,12 @@ export class DataController {
         const supplierCostHistory = await tx.supplierCostHistory.deleteMany({});
         const supplierProduct = await tx.supplierProduct.deleteMany({});
         const inventoryReceiving = await tx.inventoryReceiving.deleteMany({});
+        const purchaseOrder = await tx.purchaseOrder.deleteMany({}); // Lines cascade
+        const receivingInvoice = await tx.receivingInvoice.deleteMany({});
+        const reorderSetting = await tx.reorderSetting.deleteMany({});
+        const recallCase = await tx.recallCase.deleteMany({});
+        const batchCostRevision = await tx.batchCostRevision.deleteMany({}); // Restatements cascade
+        const squareSyncOutbox = await tx.squareSyncOutbox.deleteMany({});
         const inventoryAdjustment = await tx.inventoryAdjustment.deleteMany({});
         const saleItem = await tx.saleItem.deleteMany({});
         const inventory = await tx.inventory.deleteMany({});
@@ -283,8 +337,12 @@ export class DataController {
         const employeeLocationAssignment = await tx.employeeLocationAssignment.deleteMany({});
         const employeeSession = await tx.employeeSession.deleteMany({});
         const auditLog = await tx.auditLog.deleteMany({});
+        const deadLetterJob = await tx.deadLetterJob.deleteMany({});
+        const catalogSyncRun = await tx.catalogSyncRun.deleteMany({});
+        const webhookEvent = await tx.webhookEvent.deleteMany({});
         const cutoverLock = await tx.cutoverLock.deleteMany({});
         const demandSignal = await tx.demandSignal.deleteMany({});
+        const inventorySnapshot = await tx.inventorySnapshot.deleteMany({}); // Lines cascade
         const cutover = await tx.cutover.deleteMany({});
         const extractionSession = await tx.extractionSession.deleteMany({});
         const product = await tx.product.deleteMany({});
@@ -295,6 +353,17 @@ export class DataController {
         const user = await tx.user.deleteMany({});
 
         return {
+          saleItemReversal: saleItemReversal.count,
+          saleRefund: saleRefund.count,
+          saleVoidLine: saleVoidLine.count,
+          saleVoid: saleVoid.count,
+          pendingCostConsumption: pendingCostConsumption.count,
+          inventoryDrift: inventoryDrift.count,
+          unmappedSaleLine: unmappedSaleLine.count,
+          transferOrder: transferOrder.count,
+          countSession: countSession.count,
+          saleDiscount: saleDiscount.count,
+          saleTender: saleTender.count,
           inventoryConsumption: inventoryConsumption.count,
           costApproval: costApproval.count,
           catalogMapping: catalogMapping.count,
@@ -302,6 +371,12 @@ export class DataController {
           supplierCostHistory: supplierCostHistory.count,
           supplierProduct: supplierProduct.count,
           inventoryReceiving: inventoryReceiving.count,
+          purchaseOrder: purchaseOrder.count,
+          receivingInvoice: receivingInvoice.count,
+          reorderSetting: reorderSetting.count,
+          recallCase: recallCase.count,
+          batchCostRevision: batchCostRevision.count,
+          squareSyncOutbox: squareSyncOutbox.count,
           inventoryAdjustment: inventoryAdjustment.count,
           saleItem: saleItem.count,
           inventory: inventory.count,
@@ -314,8 +389,12 @@ export class DataController {
           employeeLocationAssignment: employeeLocationAssignment.count,
           employeeSession: employeeSession.count,
           auditLog: auditLog.count,
+          deadLetterJob: deadLetterJob.count,
+          catalogSyncRun: catalogSyncRun.count,
+          webhookEvent: webhookEvent.count,
           cutoverLock: cutoverLock.count,
           demandSignal: demandSignal.count,
+          inventorySnapshot: inventorySnapshot.count,
           cutover: cutover.count,
           extractionSession: extractionSession.count,
           product: product.count,
@@ -747,25 +747,20 @@ export class InventoryAgingService {
       expiryFilter.gte = now;
     }
 
-    // Query receivings that have an expiry date within the threshold
-    // and whose linked inventory batch still has quantity > 0
-    const receivings = await this.prisma.inventoryReceiving.findMany({
+    // Batches with stock whose expiry date is within the threshold. Lot and
+    // expiry are on the batch itself, so transferred stock is included too.
+    const batches = await this.prisma.inventory.findMany({
       where: {
         expiryDate: expiryFilter,
-        inventoryBatch: {
-          quantity: { gt: 0 },
-          ...(locationId && { locationId }),
-        },
+        quantity: { gt: 0 },
+        ...(locationId && { locationId }),
       },
       include: {
         product: {
           select: { id: true, name: true, sku: true, categoryId: true },
         },
-        supplier: {
-          select: { id: true, name: true },
-        },
-        inventoryBatch: {
-          select: { id: true, quantity: true, unitCost: true, receivedAt: true },
+        createdByReceiving: {
+          select: { id: true, supplier: { select: { id: true, name: true } } },
         },
       },
       orderBy: {
@@ -779,34 +774,33 @@ export class InventoryAgingService {
       batches: ExpiringBatchInfo[];
     }>();
 
-    for (const rec of receivings) {
-      const batch = rec.inventoryBatch;
+    for (const batch of batches) {
       const daysUntilExpiry = Math.floor(
-        (rec.expiryDate!.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
+        (batch.expiryDate!.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
       );
-      const isExpired = rec.expiryDate! < now;
+      const isExpired = batch.expiryDate! < now;
       const cashValue = new Decimal(batch.quantity).mul(batch.unitCost);
 
       const batchInfo: ExpiringBatchInfo = {
         batchId: batch.id,
-        receivingId: rec.id,
+        receivingId: batch.createdByReceiving?.id ?? null,
         quantity: batch.quantity,
         unitCost: batch.unitCost,
         cashValue,
-        expiryDate: rec.expiryDate!,
+        expiryDate: batch.expiryDate!,
         daysUntilExpiry,
         isExpired,
-        batchNumber: rec.batchNumber,
-        supplierName: rec.supplier?.name ?? null,
+        batchNumber: batch.batchNumber,
+        supplierName: batch.createdByReceiving?.supplier?.name ?? null,
         receivedAt: batch.receivedAt,
       };
 
-      const existing = productMap.get(rec.productId);
+      const existing = productMap.get(batch.productId);
       if (existing) {
         existing.batches.push(batchInfo);
       } else {
-        productMap.set(rec.productId, {
-          product: rec.product,
+        productMap.set(batch.productId, {
+          product: batch.product,
           batches: [batchInfo],
         });
       }
@@ -871,7 +865,7 @@ export class InventoryAgingService {
 
 export interface ExpiringBatchInfo {
   batchId: string;
-  receivingId: string;
+  receivingId: string | null; // Null for transferred stock
   quantity: number;
   unitCost: Decimal;
   cashValue: Decimal;
@@ -88,6 +88,7 @@ export class InventoryMigrationController {
         name: true,
         initials: true,
         contactInfo: true,
+        leadTimeDays: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -112,7 +113,13 @@ export class InventoryMigrationController {
   @Post('suppliers/:id/update')
   async updateSupplier(
     @Param('id') id: string,
-    @Body() body: { name?: string; initials?: string[] | string | null; contactInfo?: string | null; isActive?: boolean },
+    @Body() body: {
+      name?: string;
+      initials?: string[] | string | null;
+      contactInfo?: string | null;
+      leadTimeDays?: number | null;
+      isActive?: boolean;
+    },
   ) {
     const updateData: Prisma.SupplierUpdateInput = {};
     
@@ -120,6 +127,17 @@ export class InventoryMigrationController {
     if (body.contactInfo !== undefined) updateData.contactInfo = body.contactInfo?.trim() || null;
     if (body.isActive !== undefined) updateData.isActive = body.isActive;
 
+    // Lead time feeds reorder suggestions; null falls back to the default
+    if (body.leadTimeDays !== undefined) {
+      if (body.leadTimeDays !== null && (!Number.isInteger(body.leadTimeDays) || body.leadTimeDays < 0)) {
+        throw new HttpException(
+          { success: false, message: 'leadTimeDays must be a non-negative integer' },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      updateData.leadTimeDays = body.leadTimeDays;
+    }
+
     // Robust initials handling
     if (body.initials !== undefined) {
       if (Array.isArray(body.initials)) {
@@ -165,14 +183,14 @@ export class InventoryMigrationController {
 
   @Post('suppliers')
   async createSupplier(
-    @Body() body: { name: string; initials?: string[] | string | null; contactInfo?: string | null },
+    @Body() body: { name: string; initials?: string[] | string | null; contactInfo?: string | null; leadTimeDays?: number | null },
   ) {
     try {
       // 1. Find or create basic supplier
       const supplier = await this.supplierService.findOrCreateSupplier(body.name);
 
       // 2. If we need to add extra details, update immediately
-      const hasUpdates = body.initials || body.contactInfo;
+      const hasUpdates = body.initials || body.contactInfo || body.leadTimeDays != null;
       let finalSupplier = supplier;
 
       if (hasUpdates) {
@@ -182,6 +200,10 @@ export class InventoryMigrationController {
           updateData.contactInfo = body.contactInfo?.trim() || null;
         }
 
+        if (Number.isInteger(body.leadTimeDays) && body.leadTimeDays! >= 0) {
+          updateData.leadTimeDays = body.leadTimeDays;
+        }
+
         if (body.initials !== undefined) {
           if (Array.isArray(body.initials)) {
             updateData.initials = body.initials
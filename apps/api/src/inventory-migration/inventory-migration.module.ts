@@ -20,7 +20,7 @@ import { ProductsModule } from '../products/products.module';
     SupplierService,
     PrismaService,
   ],
-  exports: [InventoryMigrationService],
+  exports: [InventoryMigrationService, SquareInventoryService],
 })
 export class InventoryMigrationModule {}
 
@@ -1839,6 +1839,7 @@ export class InventoryMigrationService {
       this.prisma.placement.deleteMany({ where: { productId } }),
       this.prisma.inventoryAdjustment.deleteMany({ where: { productId } }),
       this.prisma.inventoryReceiving.deleteMany({ where: { productId } }),
+      this.prisma.inventoryDrift.deleteMany({ where: { productId } }),
       this.prisma.product.delete({ where: { id: productId } }),
     ]);
     this.logger.log(`[SQUARE_DELETE] Deleted Square catalog item and local Product ${productId}`);
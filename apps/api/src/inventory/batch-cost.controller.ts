@@ -0,0 +1,58 @@
+import { Controller, Get, Post, Body, Param, Req, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { BatchCostService } from './batch-cost.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface ReviseBatchCostDto {
+  unitCost: number;
+  reason: string; // Required: the revision restates past sales
+}
+
+@Controller('inventory/batches')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class BatchCostController {
+  constructor(private readonly batchCostService: BatchCostService) {}
+
+  @Get(':id/cost-revisions')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getRevisions(@Req() req: any, @Param('id') id: string) {
+    const revisions = await this.batchCostService.getRevisions(id, this.scope(req));
+    return {
+      success: true,
+      data: revisions,
+      count: revisions.length,
+    };
+  }
+
+  /** Correct the batch's unit cost and restate everything costed from it. OWNER only: it rewrites past COGS. */
+  @Post(':id/cost')
+  @Roles('OWNER')
+  async reviseCost(@Req() req: any, @Param('id') id: string, @Body() body: ReviseBatchCostDto) {
+    if (typeof body?.unitCost !== 'number' || !body.reason) {
+      throw new HttpException(
+        { success: false, message: 'Missing required fields: unitCost, reason' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const revision = await this.batchCostService.reviseBatchCost(id, {
+      unitCost: body.unitCost,
+      reason: body.reason,
+      by: req.employee.id,
+    });
+
+    return {
+      success: true,
+      message: `Batch cost revised: ${revision.restatements.length} record(s) restated, COGS delta ${revision.cogsDelta.toString()}`,
+      data: revision,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private scope(req: any): string | undefined {
+    const currentLocation = req.currentLocation;
+    return currentLocation.role === 'OWNER' ? undefined : currentLocation.locationId;
+  }
+}
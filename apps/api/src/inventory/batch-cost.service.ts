@@ -0,0 +1,362 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { lockStock, type StockKey } from './stock-lock';
+import { restateCost, summarizeCogsRestatements, unitCostOf, type RestatementKind } from './cost-restatement';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReviseBatchCostInput {
+  unitCost: number;
+  reason: string;
+  by?: string;
+}
+
+const REVISION_INCLUDE = {
+  inventory: {
+    select: {
+      id: true,
+      productId: true,
+      locationId: true,
+      quantity: true,
+      unitCost: true,
+      receivedAt: true,
+      batchNumber: true,
+      source: true,
+    },
+  },
+  restatements: { orderBy: { effectiveAt: 'asc' } },
+  childRevisions: {
+    select: { id: true, inventoryId: true, locationId: true, cogsDelta: true },
+  },
+} satisfies Prisma.BatchCostRevisionInclude;
+
+const ADJUSTMENT_COST_SELECT = {
+  id: true,
+  quantity: true,
+  totalCost: true,
+  adjustedAt: true,
+} satisfies Prisma.InventoryAdjustmentSelect;
+
+// Everything costed from a batch, as restated by a revision
+const RESTATED_INCLUDE = {
+  consumptions: {
+    include: {
+      saleItem: { select: { id: true, saleId: true, sale: { select: { createdAt: true } } } },
+      adjustment: { select: { ...ADJUSTMENT_COST_SELECT, reversedBy: { select: ADJUSTMENT_COST_SELECT } } },
+      reversals: { include: { refund: { select: { refundedAt: true } } } },
+      voidLines: { include: { saleVoid: { select: { voidedAt: true } } } },
+    },
+  },
+  createdByAdjustment: { select: ADJUSTMENT_COST_SELECT },
+  createdByReceiving: { select: { id: true, quantity: true, totalCost: true, receivedAt: true } },
+  transferredOut: { select: { id: true, destinationBatchId: true } },
+} satisfies Prisma.InventoryInclude;
+
+type AdjustmentCost = Prisma.InventoryAdjustmentGetPayload<{ select: typeof ADJUSTMENT_COST_SELECT }>;
+
+type RestatementRow = Prisma.CostRestatementCreateManyRevisionInput & {
+  kind: RestatementKind;
+  previousCost: Prisma.Decimal;
+  delta: Prisma.Decimal;
+};
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Batch cost corrections. A unitCost typo at cutover or receiving reaches
+ * every sale, refund and adjustment costed from the batch; a revision
+ * re-prices all of them in one transaction and keeps a CostRestatement per
+ * record changed, so nothing is overwritten without a trace and reports can
+ * show how much each period moved.
+ */
+@Injectable()
+export class BatchCostService {
+  private readonly logger = new Logger(BatchCostService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // --------------------------------------------------------------------------
+  // Queries
+  // --------------------------------------------------------------------------
+
+  async getRevisions(inventoryId: string, scopeLocationId?: string) {
+    const batch = await this.prisma.inventory.findUnique({
+      where: { id: inventoryId },
+      select: { locationId: true },
+    });
+    if (!batch || (scopeLocationId && batch.locationId !== scopeLocationId)) {
+      throw new NotFoundException(`Batch ${inventoryId} not found`);
+    }
+
+    return this.prisma.batchCostRevision.findMany({
+      where: { inventoryId },
+      include: REVISION_INCLUDE,
+      orderBy: { revisedAt: 'desc' },
+    });
+  }
+
+  async getRevision(id: string) {
+    const revision = await this.prisma.batchCostRevision.findUnique({
+      where: { id },
+      include: REVISION_INCLUDE,
+    });
+    if (!revision) {
+      throw new NotFoundException(`Cost revision ${id} not found`);
+    }
+    return revision;
+  }
+
+  // --------------------------------------------------------------------------
+  // Revise
+  // --------------------------------------------------------------------------
+
+  /**
+   * Correct a batch's unitCost and restate what was costed from it. Batches
+   * received from it by transfer, still carrying the old cost, are revised
+   * with it. No cutover check: fixing opening-balance costs is the point.
+   */
+  async reviseBatchCost(inventoryId: string, input: ReviseBatchCostInput) {
+    if (!input.reason?.trim()) {
+      throw new BadRequestException('A reason is required to revise a batch cost');
+    }
+    if (!Number.isFinite(input.unitCost) || input.unitCost < 0) {
+      throw new BadRequestException('unitCost must be a non-negative number');
+    }
+
+    const batch = await this.prisma.inventory.findUnique({ where: { id: inventoryId } });
+    if (!batch) {
+      throw new NotFoundException(`Batch ${inventoryId} not found`);
+    }
+    const newUnitCost = new Prisma.Decimal(input.unitCost);
+    if (batch.unitCost.equals(newUnitCost)) {
+      throw new BadRequestException(`Batch ${inventoryId} already costs ${newUnitCost.toString()}`);
+    }
+
+    const stock = await this.transferredStock(inventoryId);
+    const revisionId = await this.prisma.$transaction(
+      async (tx) => {
+        // Sales, adjustments and transfers draw batches under the stock lock;
+        // holding it for the whole tree keeps new draws out while re-pricing
+        await lockStock(tx, stock);
+        return this.revise(tx, inventoryId, newUnitCost, input, null);
+      },
+      { timeout: 30000 },
+    );
+
+    const revision = await this.getRevision(revisionId);
+    this.logger.log(
+      `[COST_REVISION] Batch ${inventoryId}: ${revision.previousUnitCost.toString()} → ${revision.newUnitCost.toString()}, ` +
+        `${revision.restatements.length} record(s) restated, COGS delta ${revision.cogsDelta.toString()}` +
+        (revision.childRevisions.length > 0 ? `, ${revision.childRevisions.length} transferred batch(es) revised` : ''),
+    );
+    return revision;
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  /** Product/location of the batch and of every batch transferred out of it, downstream. */
+  private async transferredStock(inventoryId: string): Promise<StockKey[]> {
+    const stock: StockKey[] = [];
+    const queue = [inventoryId];
+    while (queue.length > 0) {
+      const batch = await this.prisma.inventory.findUnique({
+        where: { id: queue.shift()! },
+        select: {
+          productId: true,
+          locationId: true,
+          transferredOut: { select: { destinationBatchId: true } },
+        },
+      });
+      if (!batch) continue;
+      stock.push({ productId: batch.productId, locationId: batch.locationId });
+      for (const draw of batch.transferredOut) {
+        if (draw.destinationBatchId) queue.push(draw.destinationBatchId);
+      }
+    }
+    return stock;
+  }
+
+  private async revise(
+    tx: Prisma.TransactionClient,
+    inventoryId: string,
+    newUnitCost: Prisma.Decimal,
+    input: ReviseBatchCostInput,
+    parentRevisionId: string | null,
+  ): Promise<string> {
+    const batch = await tx.inventory.findUniqueOrThrow({
+      where: { id: inventoryId },
+      include: RESTATED_INCLUDE,
+    });
+
+    const rows: RestatementRow[] = [];
+    const restate = (
+      row: Omit<RestatementRow, 'previousCost' | 'newCost' | 'delta' | 'locationId'>,
+      previousCost: Prisma.Decimal,
+      delta: Prisma.Decimal,
+    ) => {
+      if (delta.isZero()) return;
+      rows.push({ ...row, locationId: batch.locationId, previousCost, newCost: previousCost.add(delta), delta });
+    };
+
+    // Adjustments can draw from the batch more than once; restated once each
+    const adjustmentDeltas = new Map<string, { adjustment: AdjustmentCost; quantity: number; delta: Prisma.Decimal }>();
+    const addAdjustmentDelta = (adjustment: AdjustmentCost, quantity: number, delta: Prisma.Decimal) => {
+      const entry = adjustmentDeltas.get(adjustment.id) ?? { adjustment, quantity: 0, delta: new Prisma.Decimal(0) };
+      entry.quantity += quantity;
+      entry.delta = entry.delta.add(delta);
+      adjustmentDeltas.set(adjustment.id, entry);
+    };
+
+    for (const consumption of batch.consumptions) {
+      const restated = restateCost(consumption, newUnitCost);
+      await tx.inventoryConsumption.update({
+        where: { id: consumption.id },
+        data: { unitCost: newUnitCost, totalCost: restated.newCost },
+      });
+
+      const saleItem = consumption.saleItem;
+      if (saleItem && !restated.delta.isZero()) {
+        await tx.saleItem.update({
+          where: { id: saleItem.id },
+          data: { cost: { increment: restated.delta } },
+        });
+        await tx.sale.update({
+          where: { id: saleItem.saleId },
+          data: {
+            totalCost: { increment: restated.delta },
+            grossProfit: { decrement: restated.delta },
+          },
+        });
+        restate(
+          { kind: 'SALE', recordId: saleItem.id, effectiveAt: saleItem.sale.createdAt, saleId: saleItem.saleId, quantity: consumption.quantity },
+          restated.previousCost,
+          restated.delta,
+        );
+      }
+
+      const adjustment = consumption.adjustment;
+      if (adjustment) {
+        addAdjustmentDelta(adjustment, consumption.quantity, restated.delta);
+        // A reversal restored these units without drawing them; it follows
+        // the removal it undoes so the pair keeps netting to zero
+        if (adjustment.reversedBy) {
+          addAdjustmentDelta(adjustment.reversedBy, consumption.quantity, restated.delta);
+        }
+      }
+
+      for (const reversal of consumption.reversals) {
+        const refunded = restateCost(reversal, newUnitCost);
+        await tx.saleItemReversal.update({
+          where: { id: reversal.id },
+          data: { unitCost: newUnitCost, totalCost: refunded.newCost },
+        });
+        restate(
+          { kind: 'REFUND', recordId: reversal.id, effectiveAt: reversal.refund.refundedAt, saleId: saleItem?.saleId, quantity: reversal.quantity },
+          refunded.previousCost,
+          refunded.delta,
+        );
+      }
+
+      for (const line of consumption.voidLines) {
+        const voided = restateCost(line, newUnitCost);
+        await tx.saleVoidLine.update({
+          where: { id: line.id },
+          data: { unitCost: newUnitCost, totalCost: voided.newCost },
+        });
+        if (!voided.delta.isZero()) {
+          await tx.saleVoid.update({
+            where: { id: line.voidId },
+            data: { cost: { increment: voided.delta } },
+          });
+        }
+        restate(
+          { kind: 'VOID', recordId: line.id, effectiveAt: line.saleVoid.voidedAt, saleId: saleItem?.saleId, quantity: line.quantity },
+          voided.previousCost,
+          voided.delta,
+        );
+      }
+    }
+
+    // The adjustment or receiving that brought the batch in
+    if (batch.createdByAdjustment) {
+      const created = restateCost(batch.createdByAdjustment, newUnitCost);
+      addAdjustmentDelta(batch.createdByAdjustment, batch.createdByAdjustment.quantity, created.delta);
+    }
+    if (batch.createdByReceiving) {
+      const receiving = batch.createdByReceiving;
+      const received = restateCost(receiving, newUnitCost);
+      await tx.inventoryReceiving.update({
+        where: { id: receiving.id },
+        data: { unitCost: newUnitCost, totalCost: received.newCost },
+      });
+      restate(
+        { kind: 'RECEIVING', recordId: receiving.id, effectiveAt: receiving.receivedAt, quantity: receiving.quantity },
+        received.previousCost,
+        received.delta,
+      );
+    }
+
+    for (const { adjustment, quantity, delta } of adjustmentDeltas.values()) {
+      if (delta.isZero()) continue;
+      const totalCost = adjustment.totalCost.add(delta);
+      await tx.inventoryAdjustment.update({
+        where: { id: adjustment.id },
+        data: { totalCost, unitCost: unitCostOf(totalCost, adjustment.quantity) },
+      });
+      restate(
+        { kind: 'ADJUSTMENT', recordId: adjustment.id, effectiveAt: adjustment.adjustedAt, adjustmentId: adjustment.id, quantity },
+        adjustment.totalCost,
+        delta,
+      );
+    }
+
+    await tx.inventory.update({
+      where: { id: batch.id },
+      data: { unitCost: newUnitCost },
+    });
+
+    const revision = await tx.batchCostRevision.create({
+      data: {
+        inventoryId: batch.id,
+        locationId: batch.locationId,
+        productId: batch.productId,
+        previousUnitCost: batch.unitCost,
+        newUnitCost,
+        reason: input.reason.trim(),
+        remainingQuantity: batch.quantity,
+        cogsDelta: summarizeCogsRestatements(rows).net,
+        parentRevisionId,
+        revisedBy: input.by,
+        restatements: { createMany: { data: rows } },
+      },
+    });
+
+    // Units shipped from the batch carry its cost; received ones still at the
+    // old cost are revised in turn (one revised on its own since is left alone)
+    if (batch.transferredOut.length > 0) {
+      await tx.transferOrderBatch.updateMany({
+        where: { sourceBatchId: batch.id },
+        data: { unitCost: newUnitCost },
+      });
+      for (const draw of batch.transferredOut) {
+        if (!draw.destinationBatchId) continue;
+        const destination = await tx.inventory.findUnique({
+          where: { id: draw.destinationBatchId },
+          select: { unitCost: true },
+        });
+        if (destination?.unitCost.equals(batch.unitCost)) {
+          await this.revise(tx, draw.destinationBatchId, newUnitCost, input, revision.id);
+        }
+      }
+    }
+
+    return revision.id;
+  }
+}
@@ -47,9 +47,16 @@ export class BreakBulkController {
       adjustedBy: currentEmployee?.id,
     });
 
+    let message = `Broke ${body.cajaQuantity} caja(s) into ${result.looseUnitsCreated} loose units`;
+    if (result.squareSync) {
+      message += result.squareSync.synced
+        ? ' (synced to Square)'
+        : ` (Square sync failed: ${result.squareSync.error})`;
+    }
+
     return {
       success: true,
-      message: `Broke ${body.cajaQuantity} caja(s) into ${result.looseUnitsCreated} loose units`,
+      message,
       data: result,
     };
   }
@@ -20,15 +20,10 @@ export interface BreakBulkInput {
  * them, same as the owner's manual today's-workflow (open a box, recount in
  * Square, add the new loose stock) but automated and cost-tracked.
  *
- * Reuses InventoryAdjustmentService.createAdjustment for both legs — same
- * FIFO consumption / batch creation / Square-sync code already used for
- * every other adjustment type, no new inventory-mutation logic here.
- *
- * ponytail: the two createAdjustment calls are not wrapped in one DB
- * transaction (createAdjustment owns its own) — matches this codebase's
- * existing TRANSFER_OUT/TRANSFER_IN pattern, which has the same gap. If the
- * second call fails after the first succeeds, the error is surfaced clearly
- * rather than silently swallowed so it can be reconciled manually.
+ * Both legs run as one InventoryAdjustmentService.applyMovement: the
+ * cajas come out in FIFO order and the loose units go in carrying exactly
+ * the cost that left, in the same transaction — a failure on either leg
+ * rolls back both. Square hears about the two legs together afterwards.
  */
 @Injectable()
 export class BreakBulkService {
@@ -60,50 +55,45 @@ export class BreakBulkService {
     const looseUnits = looseUnitsFromCajas(input.cajaQuantity, cajaProduct.cantidad);
     const reason = input.reason ?? `Break bulk: ${input.cajaQuantity} caja(s) -> ${looseUnits} loose units`;
 
-    // Leg 1: consume cajas from this product's inventory (FIFO, weighted cost)
-    const outResult = await this.adjustments.createAdjustment({
-      locationId: input.locationId,
-      productId: input.cajaProductId,
-      type: 'BREAK_BULK_OUT',
-      quantity: -input.cajaQuantity,
-      reason,
-      notes: input.notes,
-      syncToSquare: input.syncToSquare,
+    const movement = await this.adjustments.applyMovement({
+      legs: [
+        // Leg 0: consume cajas from this product's inventory (FIFO, weighted cost)
+        {
+          locationId: input.locationId,
+          productId: input.cajaProductId,
+          type: 'BREAK_BULK_OUT',
+          quantity: -input.cajaQuantity,
+          reason,
+          notes: input.notes,
+          label: cajaProduct.name,
+        },
+        // Leg 1: create the loose units at the preserved cost basis
+        {
+          locationId: input.locationId,
+          productId: cajaProduct.sueltoProductId,
+          type: 'BREAK_BULK_IN',
+          quantity: looseUnits,
+          costFrom: 0,
+          reason,
+          notes: input.notes,
+        },
+      ],
       adjustedBy: input.adjustedBy,
+      syncToSquare: input.syncToSquare,
     });
+    const [cajaAdjustment, looseAdjustment] = movement.legs;
 
-    const unitCost = costPerLooseUnit(Number(outResult.adjustment.totalCost), looseUnits);
-
-    // Leg 2: create the loose units at the preserved cost basis
-    let inResult: Awaited<ReturnType<InventoryAdjustmentService['createAdjustment']>>;
-    try {
-      inResult = await this.adjustments.createAdjustment({
-        locationId: input.locationId,
-        productId: cajaProduct.sueltoProductId,
-        type: 'BREAK_BULK_IN',
-        quantity: looseUnits,
-        unitCost,
-        reason,
-        notes: input.notes,
-        syncToSquare: input.syncToSquare,
-        adjustedBy: input.adjustedBy,
-      });
-    } catch (error) {
-      this.logger.error(
-        `[BREAK_BULK] Consumed ${input.cajaQuantity} caja(s) of ${input.cajaProductId} (adjustment ${outResult.adjustment.id}) but failed to create loose units on ${cajaProduct.sueltoProductId} — reconcile manually. Error: ${error instanceof Error ? error.message : String(error)}`,
-      );
-      throw error;
-    }
-
+    const unitCost = costPerLooseUnit(Number(cajaAdjustment.adjustment.totalCost), looseUnits);
     this.logger.log(
       `[BREAK_BULK] Broke ${input.cajaQuantity} caja(s) of ${input.cajaProductId} into ${looseUnits} loose units of ${cajaProduct.sueltoProductId} at $${unitCost.toFixed(4)}/unit`,
     );
 
     return {
-      cajaAdjustment: outResult,
-      looseAdjustment: inResult,
+      cajaAdjustment,
+      looseAdjustment,
       looseUnitsCreated: looseUnits,
       costPerLooseUnit: unitCost,
+      squareSync: movement.squareSync,
     };
   }
 }
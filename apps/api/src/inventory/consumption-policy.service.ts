@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, type ConsumptionPolicy } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { orderBatchesForPolicy, resolveConsumptionPolicy } from './consumption-policy';
+
+/**
+ * Looks up which batch order (FIFO or FEFO) applies to a product and returns
+ * its batches in that order. The sale worker resolves the policy the same
+ * way (getConsumptionPolicy in sale.worker.ts).
+ */
+@Injectable()
+export class ConsumptionPolicyService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getPolicy(productId: string, client: Prisma.TransactionClient = this.prisma): Promise<ConsumptionPolicy> {
+    const product = await client.product.findUnique({
+      where: { id: productId },
+      select: { consumptionPolicy: true, categoryId: true },
+    });
+    if (!product || product.consumptionPolicy) {
+      return product?.consumptionPolicy ?? 'FIFO';
+    }
+
+    const categoryPolicies: (ConsumptionPolicy | null)[] = [];
+    const seen = new Set<string>();
+    let categoryId = product.categoryId;
+    while (categoryId && !seen.has(categoryId)) {
+      seen.add(categoryId);
+      const category = await client.category.findUnique({
+        where: { id: categoryId },
+        select: { consumptionPolicy: true, parentId: true },
+      });
+      if (!category) break;
+      categoryPolicies.push(category.consumptionPolicy);
+      if (category.consumptionPolicy) break;
+      categoryId = category.parentId;
+    }
+
+    return resolveConsumptionPolicy(null, categoryPolicies);
+  }
+
+  /**
+   * Batches with stock, in the order the product's policy consumes them. To
+   * consume them, read inside a transaction holding the stock lock
+   * (lockStock in stock-lock.ts) and pass that transaction as client.
+   */
+  async getBatchesInConsumptionOrder(
+    productId: string,
+    locationId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ) {
+    const policy = await this.getPolicy(productId, client);
+    const batches = await client.inventory.findMany({
+      where: { productId, locationId, quantity: { gt: 0 } },
+      orderBy: { receivedAt: 'asc' },
+    });
+
+    return { policy, batches: orderBatchesForPolicy(batches, policy) };
+  }
+}
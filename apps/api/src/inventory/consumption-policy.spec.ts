@@ -0,0 +1,68 @@
+import { Prisma } from '@prisma/client';
+import {
+  drawFromBatches,
+  findSkippedBatches,
+  orderBatchesForPolicy,
+  resolveConsumptionPolicy,
+} from './consumption-policy';
+
+const early = { id: 'early', receivedAt: new Date('2026-01-01'), expiryDate: new Date('2027-06-01') };
+const late = { id: 'late', receivedAt: new Date('2026-03-01'), expiryDate: new Date('2026-12-01') };
+const undated = { id: 'undated', receivedAt: new Date('2025-12-01'), expiryDate: null };
+
+describe('orderBatchesForPolicy', () => {
+  it('FIFO orders by receivedAt', () => {
+    expect(orderBatchesForPolicy([late, early, undated], 'FIFO').map(b => b.id)).toEqual(['undated', 'early', 'late']);
+  });
+
+  it('FEFO orders by expiry with undated batches last', () => {
+    expect(orderBatchesForPolicy([undated, early, late], 'FEFO').map(b => b.id)).toEqual(['late', 'early', 'undated']);
+  });
+});
+
+describe('resolveConsumptionPolicy', () => {
+  it('falls back from product to the nearest category to FIFO', () => {
+    expect(resolveConsumptionPolicy('FEFO', [])).toBe('FEFO');
+    expect(resolveConsumptionPolicy(null, [null, 'FEFO', 'FIFO'])).toBe('FEFO');
+    expect(resolveConsumptionPolicy(null, [])).toBe('FIFO');
+  });
+});
+
+describe('findSkippedBatches', () => {
+  it('flags a batch that sorts first under the policy but was passed over', () => {
+    // FIFO sale drew from the oldest lot, but under FEFO the later-received
+    // lot expires first and still had stock.
+    const skipped = findSkippedBatches([early], [{ ...late, stockAtSale: 4 }], 'FEFO');
+    expect(skipped.map(s => s.batch.id)).toEqual(['late']);
+    expect(skipped[0].consumedInstead.id).toBe('early');
+  });
+
+  it('accepts the same consumption under the policy it followed', () => {
+    expect(findSkippedBatches([early], [{ ...late, stockAtSale: 4 }], 'FIFO')).toEqual([]);
+  });
+
+  it('ignores earlier batches that were already empty', () => {
+    expect(findSkippedBatches([early], [{ ...late, stockAtSale: 0 }], 'FEFO')).toEqual([]);
+  });
+});
+
+describe('drawFromBatches', () => {
+  const batches = [
+    { id: 'a', quantity: 2, unitCost: new Prisma.Decimal('1.50') },
+    { id: 'b', quantity: 0, unitCost: new Prisma.Decimal('9.99') },
+    { id: 'c', quantity: 5, unitCost: new Prisma.Decimal('2.00') },
+  ];
+
+  it('takes batches in the given order, skipping empty ones', () => {
+    const result = drawFromBatches(batches, 3);
+    expect(result.draws.map(d => [d.batchId, d.quantity])).toEqual([['a', 2], ['c', 1]]);
+    expect(result.totalCost.toString()).toBe('5');
+    expect(result.remaining).toBe(0);
+  });
+
+  it('reports what the batches could not cover', () => {
+    const result = drawFromBatches(batches, 10);
+    expect(result.remaining).toBe(3);
+    expect(result.totalCost.toString()).toBe('13');
+  });
+});
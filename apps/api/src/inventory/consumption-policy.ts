@@ -0,0 +1,108 @@
+import { Prisma, type ConsumptionPolicy } from '@prisma/client';
+
+/**
+ * Pure batch-ordering rules for the FIFO/FEFO consumption policy — no DB
+ * access. Mirrors apps/worker/src/fifo.ts, which applies the same order to
+ * sales; adjustments and the compliance check here must agree with it.
+ */
+
+export interface OrderableBatch {
+  receivedAt: Date;
+  expiryDate: Date | null; // Inventory.expiryDate
+}
+
+/**
+ * Effective policy: the product's own, else the nearest category up the
+ * hierarchy that sets one (categoryPolicies runs from the product's category
+ * to the root), else FIFO.
+ */
+export function resolveConsumptionPolicy(
+  productPolicy: ConsumptionPolicy | null,
+  categoryPolicies: (ConsumptionPolicy | null)[],
+): ConsumptionPolicy {
+  return productPolicy ?? categoryPolicies.find(p => p !== null) ?? 'FIFO';
+}
+
+/**
+ * FIFO: receivedAt asc. FEFO: soonest expiryDate first, undated batches after
+ * every dated one, receivedAt asc between equals.
+ */
+export function compareBatchesForPolicy(a: OrderableBatch, b: OrderableBatch, policy: ConsumptionPolicy): number {
+  if (policy === 'FEFO') {
+    if (a.expiryDate && b.expiryDate) {
+      const byExpiry = a.expiryDate.getTime() - b.expiryDate.getTime();
+      if (byExpiry !== 0) return byExpiry;
+    } else if (a.expiryDate || b.expiryDate) {
+      return a.expiryDate ? -1 : 1;
+    }
+  }
+  return a.receivedAt.getTime() - b.receivedAt.getTime();
+}
+
+export function orderBatchesForPolicy<T extends OrderableBatch>(batches: T[], policy: ConsumptionPolicy): T[] {
+  return [...batches].sort((a, b) => compareBatchesForPolicy(a, b, policy));
+}
+
+export interface SkippableBatch extends OrderableBatch {
+  id: string;
+  stockAtSale: number; // Lower bound on what the batch held when the sale ran
+}
+
+export interface SkippedBatch<T extends SkippableBatch> {
+  batch: T;
+  consumedInstead: OrderableBatch & { id: string };
+}
+
+/**
+ * Batches a consumption should have drawn from first: ones that sort
+ * strictly before the last batch it did consume and still held stock then.
+ * Consuming in policy order only ever reaches a later batch once every
+ * earlier one is empty.
+ */
+export function findSkippedBatches<T extends SkippableBatch>(
+  consumed: (OrderableBatch & { id: string })[],
+  others: T[],
+  policy: ConsumptionPolicy,
+): SkippedBatch<T>[] {
+  if (consumed.length === 0) return [];
+  const ordered = orderBatchesForPolicy(consumed, policy);
+  const last = ordered[ordered.length - 1];
+  const consumedIds = new Set(consumed.map(c => c.id));
+
+  return others
+    .filter(b => !consumedIds.has(b.id) && b.stockAtSale > 0 && compareBatchesForPolicy(b, last, policy) < 0)
+    .map(batch => ({ batch, consumedInstead: last }));
+}
+
+export interface BatchDraw {
+  batchId: string;
+  quantity: number;
+  unitCost: Prisma.Decimal;
+  cost: Prisma.Decimal;
+}
+
+/**
+ * Take quantity from batches already in consumption order. remaining is what
+ * the batches could not cover (the caller decides between refusing and
+ * pending cost).
+ */
+export function drawFromBatches(
+  batches: { id: string; quantity: number; unitCost: Prisma.Decimal }[],
+  quantity: number,
+): { draws: BatchDraw[]; remaining: number; totalCost: Prisma.Decimal } {
+  const draws: BatchDraw[] = [];
+  let remaining = quantity;
+  let totalCost = new Prisma.Decimal(0);
+
+  for (const batch of batches) {
+    if (remaining <= 0) break;
+    if (batch.quantity <= 0) continue;
+    const take = Math.min(batch.quantity, remaining);
+    const cost = batch.unitCost.mul(take);
+    draws.push({ batchId: batch.id, quantity: take, unitCost: batch.unitCost, cost });
+    totalCost = totalCost.add(cost);
+    remaining -= take;
+  }
+
+  return { draws, remaining, totalCost };
+}
@@ -0,0 +1,42 @@
+import { Prisma } from '@prisma/client';
+import { restateCost, summarizeCogsRestatements, unitCostOf } from './cost-restatement';
+
+const d = (v: Prisma.Decimal.Value) => new Prisma.Decimal(v);
+
+describe('restateCost', () => {
+  it('re-prices the units at the corrected cost', () => {
+    const restated = restateCost({ quantity: 3, totalCost: d('30') }, d('1.5'));
+    expect(restated.newCost.toString()).toBe('4.5');
+    expect(restated.delta.toString()).toBe('-25.5');
+  });
+
+  it('measures the delta from what was recorded', () => {
+    // Recorded at 10.0001 each; the correction lands exactly on 10
+    const restated = restateCost({ quantity: 2, totalCost: d('20.0002') }, d('10'));
+    expect(restated.previousCost.toString()).toBe('20.0002');
+    expect(restated.delta.toString()).toBe('-0.0002');
+  });
+});
+
+describe('unitCostOf', () => {
+  it('divides by the absolute quantity', () => {
+    expect(unitCostOf(d('12'), -4).toString()).toBe('3');
+    expect(unitCostOf(d('12'), 0).toString()).toBe('0');
+  });
+});
+
+describe('summarizeCogsRestatements', () => {
+  it('nets refund deltas against sale deltas and ignores other kinds', () => {
+    const totals = summarizeCogsRestatements([
+      { kind: 'SALE', delta: d('-9') },
+      { kind: 'SALE', delta: d('-3') },
+      { kind: 'REFUND', delta: d('-3') },
+      { kind: 'ADJUSTMENT', delta: d('-6') },
+      { kind: 'VOID', delta: d('-1') },
+    ]);
+    expect(totals.productCosts.toString()).toBe('-12');
+    expect(totals.refundReversals.toString()).toBe('-3');
+    expect(totals.net.toString()).toBe('-9');
+    expect(totals.count).toBe(3);
+  });
+});
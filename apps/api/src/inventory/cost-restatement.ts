@@ -0,0 +1,63 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Pure cost-restatement math — no DB access. Re-prices what was costed from
+ * a batch at its corrected unit cost, and rolls the recorded deltas up the
+ * way the COGS and P&L reports net sales against refunds.
+ */
+
+// SALE: InventoryConsumption + SaleItem/Sale. REFUND: SaleItemReversal.
+// VOID: SaleVoidLine. ADJUSTMENT: InventoryAdjustment. RECEIVING: InventoryReceiving.
+export type RestatementKind = 'SALE' | 'REFUND' | 'VOID' | 'ADJUSTMENT' | 'RECEIVING';
+
+export interface CostedQuantity {
+  quantity: number; // Units costed from the batch (absolute)
+  totalCost: Prisma.Decimal; // As recorded
+}
+
+export interface RestatedCost {
+  previousCost: Prisma.Decimal;
+  newCost: Prisma.Decimal;
+  delta: Prisma.Decimal; // newCost - previousCost
+}
+
+export interface RestatementDelta {
+  kind: RestatementKind;
+  delta: Prisma.Decimal;
+}
+
+export interface RestatementTotals {
+  productCosts: Prisma.Decimal; // Sale COGS moved by
+  refundReversals: Prisma.Decimal; // COGS handed back by refunds moved by
+  net: Prisma.Decimal; // productCosts - refundReversals
+  count: number;
+}
+
+/**
+ * The record's cost at the corrected unit cost. The delta is taken from what
+ * was recorded rather than quantity * old unitCost, so earlier rounding or a
+ * previous restatement is corrected too.
+ */
+export function restateCost(record: CostedQuantity, newUnitCost: Prisma.Decimal): RestatedCost {
+  const newCost = newUnitCost.mul(record.quantity);
+  return { previousCost: record.totalCost, newCost, delta: newCost.sub(record.totalCost) };
+}
+
+/** Unit cost of a record whose total was restated; zero-quantity records keep zero. */
+export function unitCostOf(totalCost: Prisma.Decimal, quantity: number): Prisma.Decimal {
+  return quantity === 0 ? new Prisma.Decimal(0) : totalCost.div(Math.abs(quantity));
+}
+
+/** Sale and refund deltas, as the reports net them; other kinds are not COGS. */
+export function summarizeCogsRestatements(rows: RestatementDelta[]): RestatementTotals {
+  let productCosts = new Prisma.Decimal(0);
+  let refundReversals = new Prisma.Decimal(0);
+  let count = 0;
+  for (const row of rows) {
+    if (row.kind === 'SALE') productCosts = productCosts.add(row.delta);
+    else if (row.kind === 'REFUND') refundReversals = refundReversals.add(row.delta);
+    else continue;
+    count++;
+  }
+  return { productCosts, refundReversals, net: productCosts.sub(refundReversals), count };
+}
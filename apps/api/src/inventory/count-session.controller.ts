@@ -0,0 +1,210 @@
+import { Controller, Get, Post, Delete, Body, Param, Query, Req, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { CountSessionStatus } from '@prisma/client';
+import { CountSessionService, type CountLineOrder } from './count-session.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface CreateCountSessionDto {
+  locationId?: string; // Defaults to the current location
+  categoryId?: string;
+  rackId?: string;
+  name?: string;
+  notes?: string;
+}
+
+interface CountEntryDto {
+  productId?: string;
+  sku?: string;
+  quantity: number;
+  clientRequestId?: string; // Dedup key for offline-queue replay (iOS)
+}
+
+interface CommitCountSessionDto {
+  unitCosts?: Record<string, number>; // productId -> cost for positive variances
+  syncToSquare?: boolean; // If true, also update Square inventory
+}
+
+@Controller('inventory/counts')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class CountSessionController {
+  constructor(private readonly countService: CountSessionService) {}
+
+  // --------------------------------------------------------------------------
+  // Query endpoints - counting staff see sessions; the preview is for managers
+  // --------------------------------------------------------------------------
+
+  @Get()
+  @Roles('OWNER', 'MANAGER', 'CASHIER', 'ACCOUNTANT')
+  async getSessions(@Req() req: any, @Query('locationId') locationId?: string, @Query('status') status?: string) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
+
+    const statusFilter = status?.toUpperCase();
+    if (statusFilter && !Object.values(CountSessionStatus).includes(statusFilter as CountSessionStatus)) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Invalid status. Must be one of: ${Object.values(CountSessionStatus).join(', ')}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const sessions = await this.countService.getSessions({
+      locationId: targetLocationId,
+      status: statusFilter as CountSessionStatus | undefined,
+    });
+
+    return {
+      success: true,
+      data: sessions,
+      count: sessions.length,
+    };
+  }
+
+  /** ?sort=placement lists lines rack by rack, the way a count sheet is walked. */
+  @Get(':id')
+  @Roles('OWNER', 'MANAGER', 'CASHIER', 'ACCOUNTANT')
+  async getSession(@Req() req: any, @Param('id') id: string, @Query('sort') sort?: string) {
+    const session = await this.countService.getSession(id, this.scope(req), this.lineOrder(sort));
+    return {
+      success: true,
+      data: session,
+    };
+  }
+
+  /** Variances and cost impact as a commit would book them now. Nothing is written. */
+  @Get(':id/preview')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async previewSession(@Req() req: any, @Param('id') id: string, @Query('sort') sort?: string) {
+    const preview = await this.countService.previewSession(id, this.scope(req), undefined, this.lineOrder(sort));
+    return {
+      success: true,
+      data: preview,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Counting - scanning records what is on the shelf without touching stock
+  // --------------------------------------------------------------------------
+
+  @Post(':id/entries')
+  @Roles('OWNER', 'MANAGER', 'CASHIER')
+  async addEntry(@Req() req: any, @Param('id') id: string, @Body() body: CountEntryDto) {
+    if ((!body?.productId && !body?.sku) || typeof body.quantity !== 'number') {
+      throw new HttpException(
+        { success: false, message: 'Missing required fields: productId or sku, quantity' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const result = await this.countService.addEntry(id, {
+      productId: body.productId,
+      sku: body.sku,
+      quantity: body.quantity,
+      clientRequestId: body.clientRequestId,
+      deviceId: req.device?.id,
+      countedBy: req.employee.id,
+      scopeLocationId: this.scope(req),
+    });
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Delete(':id/entries/:entryId')
+  @Roles('OWNER', 'MANAGER', 'CASHIER')
+  async deleteEntry(@Req() req: any, @Param('id') id: string, @Param('entryId') entryId: string) {
+    const result = await this.countService.deleteEntry(id, entryId, this.scope(req));
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Open, commit, cancel - OWNER, MANAGER
+  // --------------------------------------------------------------------------
+
+  @Post()
+  @Roles('OWNER', 'MANAGER')
+  async createSession(@Req() req: any, @Body() body: CreateCountSessionDto) {
+    const currentLocation = req.currentLocation;
+    const session = await this.countService.createSession({
+      locationId: currentLocation.role === 'OWNER' && body?.locationId ? body.locationId : currentLocation.locationId,
+      categoryId: body?.categoryId,
+      rackId: body?.rackId,
+      name: body?.name,
+      notes: body?.notes,
+      createdBy: req.employee.id,
+    });
+
+    return {
+      success: true,
+      data: session,
+    };
+  }
+
+  /** Book every variance as one set of COUNT_CORRECTION adjustments. */
+  @Post(':id/commit')
+  @Roles('OWNER', 'MANAGER')
+  async commitSession(@Req() req: any, @Param('id') id: string, @Body() body: CommitCountSessionDto) {
+    const unitCosts = body?.unitCosts;
+    if (
+      unitCosts !== undefined &&
+      (typeof unitCosts !== 'object' || Object.values(unitCosts).some(c => typeof c !== 'number' || c < 0))
+    ) {
+      throw new HttpException(
+        { success: false, message: 'unitCosts must map productId to a non-negative number' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const result = await this.countService.commitSession(id, {
+      unitCosts,
+      syncToSquare: body?.syncToSquare,
+      by: req.employee.id,
+      scopeLocationId: this.scope(req),
+    });
+
+    return {
+      success: true,
+      message: result.squareSync
+        ? result.squareSync.synced
+          ? 'Count committed (synced to Square)'
+          : `Count committed (Square sync failed: ${result.squareSync.error})`
+        : 'Count committed',
+      data: result,
+    };
+  }
+
+  @Post(':id/cancel')
+  @Roles('OWNER', 'MANAGER')
+  async cancelSession(@Req() req: any, @Param('id') id: string) {
+    const session = await this.countService.cancelSession(id, this.scope(req));
+    return {
+      success: true,
+      data: session,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private lineOrder(sort?: string): CountLineOrder {
+    if (sort === undefined || sort === 'counted' || sort === 'placement') {
+      return sort ?? 'counted';
+    }
+    throw new HttpException(
+      { success: false, message: 'Invalid sort. Must be one of: counted, placement' },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  private scope(req: any): string | undefined {
+    const currentLocation = req.currentLocation;
+    return currentLocation.role === 'OWNER' ? undefined : currentLocation.locationId;
+  }
+}
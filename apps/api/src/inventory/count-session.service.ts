@@ -0,0 +1,800 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma, type CountSessionStatus } from '@prisma/client';
+import { SquareClient, SquareEnvironment, Square } from 'square';
+import { PrismaService } from '../prisma/prisma.service';
+import { PendingCostService } from './pending-cost.service';
+import { ConsumptionPolicyService } from './consumption-policy.service';
+import { InventoryAdjustmentService } from './inventory-adjustment.service';
+import { RackService } from './rack.service';
+import { drawFromBatches, type BatchDraw } from './consumption-policy';
+import { lockStock } from './stock-lock';
+import { countVariance } from './count-session';
+import { placementLabel, sortByPlacement, type PlacementSpot } from './rack-layout';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Line order: as first counted (default), or the way staff walk the racks
+export type CountLineOrder = 'counted' | 'placement';
+
+export interface CreateCountSessionInput {
+  locationId: string;
+  categoryId?: string;
+  rackId?: string;
+  name?: string;
+  notes?: string;
+  createdBy?: string;
+}
+
+export interface CountEntryInput {
+  productId?: string;
+  sku?: string; // Alternative to productId for scanners
+  quantity: number;
+  deviceId?: string;
+  countedBy?: string;
+  clientRequestId?: string; // Dedup key for offline-queue replay (iOS)
+  scopeLocationId?: string;
+}
+
+export interface CommitCountSessionInput {
+  unitCosts?: Record<string, number>; // productId -> cost, for positive variances with no cost history
+  syncToSquare?: boolean;
+  by?: string;
+  scopeLocationId?: string;
+}
+
+type CountLineIssue = 'NEEDS_UNIT_COST' | 'INSUFFICIENT_STOCK';
+
+// A line's correction as it would be booked right now
+interface PlannedCorrection {
+  line: { id: string; productId: string; systemQuantity: number; countedQuantity: number };
+  product: { id: string; name: string; sku: string | null };
+  currentQuantity: number;
+  movementSinceCount: number;
+  variance: number;
+  expectedAfterCommit: number;
+  unitCost: Prisma.Decimal | null;
+  costImpact: Prisma.Decimal | null; // Signed: negative for shrinkage
+  draws: BatchDraw[]; // Batches a negative variance consumes
+  issue: CountLineIssue | null;
+}
+
+const SESSION_INCLUDE = {
+  location: { select: { id: true, name: true, squareId: true } },
+  category: { select: { id: true, name: true } },
+  rack: { select: { id: true, name: true } },
+  lines: {
+    include: {
+      product: { select: { id: true, name: true, sku: true } },
+      entries: { orderBy: { countedAt: 'asc' } },
+    },
+    orderBy: { firstCountedAt: 'asc' },
+  },
+} satisfies Prisma.CountSessionInclude;
+
+type SessionWithLines = Prisma.CountSessionGetPayload<{ include: typeof SESSION_INCLUDE }>;
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Cycle-count sessions. Devices scan entries into an OPEN session
+ * concurrently; the first scan of a product snapshots its on-hand, and the
+ * preview compares each line's summed count with that snapshot, so sales
+ * made while the count is under way don't show up as shrinkage. Commit
+ * books every variance as a COUNT_CORRECTION in one transaction under the
+ * stock lock — removals draw batches in the product's FIFO/FEFO order,
+ * additions become new batches that settle pending cost.
+ */
+@Injectable()
+export class CountSessionService {
+  private readonly logger = new Logger(CountSessionService.name);
+  private squareClient: SquareClient | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pendingCost: PendingCostService,
+    private readonly consumptionPolicy: ConsumptionPolicyService,
+    private readonly adjustments: InventoryAdjustmentService,
+    private readonly racks: RackService,
+  ) {}
+
+  // --------------------------------------------------------------------------
+  // Queries
+  // --------------------------------------------------------------------------
+
+  async getSessions(filter: { locationId?: string; status?: CountSessionStatus }) {
+    const sessions = await this.prisma.countSession.findMany({
+      where: {
+        ...(filter.locationId && { locationId: filter.locationId }),
+        ...(filter.status && { status: filter.status }),
+      },
+      include: {
+        location: { select: { id: true, name: true } },
+        category: { select: { id: true, name: true } },
+        rack: { select: { id: true, name: true } },
+        _count: { select: { lines: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+
+    return sessions.map(({ _count, ...session }) => ({ ...session, lineCount: _count.lines }));
+  }
+
+  async getSession(id: string, scopeLocationId?: string, order: CountLineOrder = 'counted') {
+    const session = await this.getScopedSession(id, scopeLocationId);
+    const spots = await this.racks.getSpots(session.locationId, session.lines.map(l => l.productId));
+    return this.serialize(session, spots, order);
+  }
+
+  /**
+   * Variances against system quantity and their cost impact, as commit would
+   * book them now. Also lists in-scope products with stock that nobody has
+   * counted yet — commit leaves those untouched.
+   */
+  async previewSession(
+    id: string,
+    scopeLocationId?: string,
+    unitCosts?: Record<string, number>,
+    order: CountLineOrder = 'counted',
+  ) {
+    const session = await this.getScopedSession(id, scopeLocationId);
+    this.assertStatus(session, 'OPEN');
+
+    const plan = await this.planCorrections(session.locationId, session.lines, this.prisma, unitCosts);
+    const counted = new Set(session.lines.map(l => l.productId));
+    const inScope = await this.onHand(session.locationId, await this.scopeProductFilter(session));
+    const uncountedIds = [...inScope.entries()]
+      .filter(([productId, quantity]) => !counted.has(productId) && quantity !== 0)
+      .map(([productId]) => productId);
+    const uncountedProducts = await this.prisma.product.findMany({
+      where: { id: { in: uncountedIds } },
+      select: { id: true, name: true, sku: true },
+      orderBy: { name: 'asc' },
+    });
+
+    const spots = await this.racks.getSpots(session.locationId, [...counted, ...uncountedIds]);
+    const placementOf = (productId: string) => {
+      const spot = spots.get(productId);
+      return spot ? placementLabel(spot) : null;
+    };
+    const ordered = <T extends { product: { id: string; name: string } }>(items: T[]) =>
+      order === 'placement' ? sortByPlacement(items, i => ({ productId: i.product.id, name: i.product.name }), spots) : items;
+
+    const sumCost = (lines: PlannedCorrection[]) =>
+      lines.reduce((sum, p) => sum.add(p.costImpact ?? 0), new Prisma.Decimal(0));
+    const over = plan.filter(p => p.variance > 0);
+    const short = plan.filter(p => p.variance < 0);
+
+    return {
+      sessionId: session.id,
+      lines: ordered(plan).map(p => ({
+        lineId: p.line.id,
+        product: p.product,
+        placement: placementOf(p.product.id),
+        systemQuantity: p.line.systemQuantity,
+        countedQuantity: p.line.countedQuantity,
+        currentQuantity: p.currentQuantity,
+        movementSinceCount: p.movementSinceCount,
+        variance: p.variance,
+        expectedAfterCommit: p.expectedAfterCommit,
+        unitCost: p.unitCost?.toString() ?? null,
+        costImpact: p.costImpact?.toString() ?? null,
+        issue: p.issue,
+      })),
+      uncounted: ordered(uncountedProducts.map(product => ({ product }))).map(({ product }) => ({
+        product,
+        placement: placementOf(product.id),
+        currentQuantity: inScope.get(product.id)!,
+      })),
+      totals: {
+        linesCounted: plan.length,
+        linesWithVariance: over.length + short.length,
+        unitsOver: over.reduce((sum, p) => sum + p.variance, 0),
+        unitsShort: short.reduce((sum, p) => sum - p.variance, 0),
+        costOver: sumCost(over).toString(),
+        costShort: sumCost(short).neg().toString(),
+        netCostImpact: sumCost(plan).toString(),
+      },
+      canCommit: plan.length > 0 && plan.every(p => !p.issue),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Session lifecycle
+  // --------------------------------------------------------------------------
+
+  async createSession(input: CreateCountSessionInput) {
+    if (input.categoryId && input.rackId) {
+      throw new BadRequestException('Scope a count session to a category or a rack, not both');
+    }
+
+    const location = await this.prisma.location.findUnique({ where: { id: input.locationId } });
+    if (!location) {
+      throw new NotFoundException(`Location ${input.locationId} not found`);
+    }
+    if (input.categoryId) {
+      const category = await this.prisma.category.findUnique({ where: { id: input.categoryId } });
+      if (!category) {
+        throw new NotFoundException(`Category ${input.categoryId} not found`);
+      }
+    }
+    if (input.rackId) {
+      const rack = await this.prisma.rack.findUnique({ where: { id: input.rackId } });
+      if (!rack || rack.locationId !== input.locationId) {
+        throw new NotFoundException(`Rack ${input.rackId} not found at ${location.name}`);
+      }
+    }
+
+    const session = await this.prisma.countSession.create({
+      data: {
+        locationId: input.locationId,
+        categoryId: input.categoryId,
+        rackId: input.rackId,
+        name: input.name,
+        notes: input.notes,
+        createdBy: input.createdBy,
+      },
+    });
+
+    this.logger.log(`[COUNT] Opened session ${session.id} at ${location.name}`);
+    return this.getSession(session.id);
+  }
+
+  async cancelSession(id: string, scopeLocationId?: string) {
+    const session = await this.getScopedSession(id, scopeLocationId);
+    this.assertStatus(session, 'OPEN');
+
+    const claimed = await this.prisma.countSession.updateMany({
+      where: { id, status: 'OPEN' },
+      data: { status: 'CANCELLED', cancelledAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictException(`Count session ${id} changed status meanwhile`);
+    }
+
+    this.logger.log(`[COUNT] Cancelled session ${id}`);
+    return this.getSession(id);
+  }
+
+  // --------------------------------------------------------------------------
+  // Entries (any number of devices at once)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Add one scan to the session. Entries for the same product add up; the
+   * first one creates the line and snapshots the product's on-hand.
+   */
+  async addEntry(id: string, input: CountEntryInput) {
+    if (input.clientRequestId) {
+      const existing = await this.prisma.countEntry.findUnique({
+        where: { clientRequestId: input.clientRequestId },
+        include: { line: true },
+      });
+      if (existing && existing.line.sessionId === id) {
+        this.logger.log(`[COUNT] Duplicate clientRequestId ${input.clientRequestId} — returning entry ${existing.id}`);
+        const { line, ...entry } = existing;
+        return { entry, line };
+      }
+    }
+
+    if (!Number.isInteger(input.quantity) || input.quantity < 0) {
+      throw new BadRequestException('Counted quantity must be a non-negative integer');
+    }
+
+    const session = await this.getScopedSession(id, input.scopeLocationId);
+    this.assertStatus(session, 'OPEN');
+
+    const product = await this.prisma.product.findFirst({
+      where: input.productId ? { id: input.productId } : { sku: input.sku },
+      select: { id: true, name: true },
+    });
+    if (!product) {
+      throw new NotFoundException(`Product ${input.productId ?? input.sku} not found`);
+    }
+    const inScope = await this.prisma.product.count({
+      where: { id: product.id, ...(await this.scopeProductFilter(session)) },
+    });
+    if (inScope === 0) {
+      throw new BadRequestException(`${product.name} is not in this count session's scope`);
+    }
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      await this.lockOpenSession(tx, id);
+
+      const key = { sessionId_productId: { sessionId: id, productId: product.id } };
+      if (!(await tx.countSessionLine.findUnique({ where: key }))) {
+        const onHand = await this.onHand(session.locationId, { id: product.id }, tx);
+        // skipDuplicates: another device may be creating the same line right now
+        await tx.countSessionLine.createMany({
+          data: [{ sessionId: id, productId: product.id, systemQuantity: onHand.get(product.id) ?? 0 }],
+          skipDuplicates: true,
+        });
+      }
+
+      const line = await tx.countSessionLine.update({
+        where: key,
+        data: { countedQuantity: { increment: input.quantity } },
+      });
+      const entry = await tx.countEntry.create({
+        data: {
+          lineId: line.id,
+          quantity: input.quantity,
+          deviceId: input.deviceId,
+          countedBy: input.countedBy,
+          clientRequestId: input.clientRequestId,
+        },
+      });
+      return { entry, line };
+    });
+
+    this.logger.log(
+      `[COUNT] Session ${id}: +${input.quantity} ${product.name} (line total ${result.line.countedQuantity})`,
+    );
+    return result;
+  }
+
+  /**
+   * Remove a mistaken scan. A line left without entries is removed too, so
+   * rescanning the product takes a fresh snapshot.
+   */
+  async deleteEntry(id: string, entryId: string, scopeLocationId?: string) {
+    const session = await this.getScopedSession(id, scopeLocationId);
+    this.assertStatus(session, 'OPEN');
+
+    const lineRemoved = await this.prisma.$transaction(async (tx) => {
+      await this.lockOpenSession(tx, id);
+
+      const entry = await tx.countEntry.findUnique({ where: { id: entryId }, include: { line: true } });
+      if (!entry || entry.line.sessionId !== id) {
+        throw new NotFoundException(`Count entry ${entryId} not found`);
+      }
+
+      await tx.countEntry.delete({ where: { id: entryId } });
+      const remaining = await tx.countEntry.count({ where: { lineId: entry.lineId } });
+      if (remaining === 0) {
+        await tx.countSessionLine.delete({ where: { id: entry.lineId } });
+        return true;
+      }
+      await tx.countSessionLine.update({
+        where: { id: entry.lineId },
+        data: { countedQuantity: { decrement: entry.quantity } },
+      });
+      return false;
+    });
+
+    return { deleted: true, lineRemoved };
+  }
+
+  // --------------------------------------------------------------------------
+  // Commit
+  // --------------------------------------------------------------------------
+
+  /**
+   * OPEN → COMMITTED. Books every non-zero variance as a COUNT_CORRECTION,
+   * all or nothing: if any line lacks a unit cost or the stock to remove,
+   * nothing is booked and the session stays open.
+   */
+  async commitSession(id: string, input: CommitCountSessionInput) {
+    const session = await this.getScopedSession(id, input.scopeLocationId);
+    this.assertStatus(session, 'OPEN');
+    if (session.lines.length === 0) {
+      throw new BadRequestException('Nothing has been counted in this session');
+    }
+
+    const committedAt = new Date();
+    if (await this.adjustments.checkCutoverLock(session.locationId, committedAt)) {
+      throw new BadRequestException(
+        'Cannot make adjustments before the cutover date. The inventory for this location is locked.',
+      );
+    }
+
+    const booked = await this.prisma.$transaction(
+      async (tx) => {
+        // The claim waits for entries being written (lockOpenSession) and
+        // turns away any that arrive after it
+        const claimed = await tx.countSession.updateMany({
+          where: { id, status: 'OPEN' },
+          data: { status: 'COMMITTED', committedAt, committedBy: input.by },
+        });
+        if (claimed.count === 0) {
+          throw new ConflictException(`Count session ${id} changed status meanwhile`);
+        }
+
+        const lines = await tx.countSessionLine.findMany({
+          where: { sessionId: id },
+          include: { product: { select: { id: true, name: true, sku: true } } },
+        });
+        await lockStock(
+          tx,
+          lines.map(l => ({ productId: l.productId, locationId: session.locationId })),
+        );
+
+        const plan = await this.planCorrections(session.locationId, lines, tx, input.unitCosts);
+        const blocked = plan.filter(p => p.issue);
+        if (blocked.length > 0) {
+          throw new BadRequestException(
+            `Cannot commit: ${blocked
+              .map(p =>
+                p.issue === 'NEEDS_UNIT_COST'
+                  ? `${p.product.name} needs a unit cost`
+                  : `${p.product.name} has only ${p.currentQuantity} on hand to remove ${-p.variance}`,
+              )
+              .join('; ')}`,
+          );
+        }
+
+        const reason = `Cycle count${session.name ? `: ${session.name}` : ''}`;
+        const corrections: Array<{ productId: string; quantity: number }> = [];
+        for (const p of plan) {
+          if (p.variance === 0) continue;
+          const notes =
+            `System ${p.line.systemQuantity} at count, counted ${p.line.countedQuantity}` +
+            (p.movementSinceCount !== 0 ? `, ${p.movementSinceCount} moved since (session ${id})` : ` (session ${id})`);
+          const adjustmentId =
+            p.variance < 0
+              ? await this.bookRemoval(tx, session.locationId, p, reason, notes, input.by, committedAt)
+              : await this.bookAddition(tx, session.locationId, p, reason, notes, input.by, committedAt);
+          await tx.countSessionLine.update({ where: { id: p.line.id }, data: { adjustmentId } });
+          corrections.push({ productId: p.line.productId, quantity: p.variance });
+        }
+        return corrections;
+      },
+      { timeout: 30000 }, // One adjustment per counted line
+    );
+
+    this.logger.log(
+      `[COUNT] Committed session ${id}: ${booked.length} correction(s) from ${session.lines.length} counted line(s)`,
+    );
+
+    let squareSync: { synced: boolean; error?: string } | undefined;
+    if (input.syncToSquare && booked.length > 0) {
+      squareSync = await this.pushCorrectionsToSquare(session, booked);
+      await this.prisma.countSession.update({
+        where: { id },
+        data: { squareSynced: squareSync.synced, squareSyncError: squareSync.error ?? null },
+      });
+    }
+
+    return { ...(await this.getSession(id)), squareSync };
+  }
+
+  private async bookRemoval(
+    tx: Prisma.TransactionClient,
+    locationId: string,
+    p: PlannedCorrection,
+    reason: string,
+    notes: string,
+    by: string | undefined,
+    at: Date,
+  ): Promise<string> {
+    const totalCost = p.costImpact!.neg();
+    const adjustment = await tx.inventoryAdjustment.create({
+      data: {
+        locationId,
+        productId: p.line.productId,
+        type: 'COUNT_CORRECTION',
+        quantity: p.variance,
+        reason,
+        notes,
+        unitCost: p.unitCost!,
+        totalCost,
+        adjustedBy: by,
+        effectiveDate: at,
+      },
+    });
+
+    for (const draw of p.draws) {
+      await tx.inventory.update({
+        where: { id: draw.batchId },
+        data: { quantity: { decrement: draw.quantity } },
+      });
+    }
+    await tx.inventoryConsumption.createMany({
+      data: p.draws.map(d => ({
+        inventoryId: d.batchId,
+        adjustmentId: adjustment.id,
+        quantity: d.quantity,
+        unitCost: d.unitCost,
+        totalCost: d.cost,
+      })),
+    });
+    return adjustment.id;
+  }
+
+  private async bookAddition(
+    tx: Prisma.TransactionClient,
+    locationId: string,
+    p: PlannedCorrection,
+    reason: string,
+    notes: string,
+    by: string | undefined,
+    at: Date,
+  ): Promise<string> {
+    const batch = await tx.inventory.create({
+      data: {
+        locationId,
+        productId: p.line.productId,
+        quantity: p.variance,
+        receivedAt: at,
+        unitCost: p.unitCost!,
+        source: 'ADJUSTMENT',
+      },
+    });
+    const adjustment = await tx.inventoryAdjustment.create({
+      data: {
+        locationId,
+        productId: p.line.productId,
+        type: 'COUNT_CORRECTION',
+        quantity: p.variance,
+        reason,
+        notes,
+        unitCost: p.unitCost!,
+        totalCost: p.costImpact!,
+        createdBatchId: batch.id,
+        adjustedBy: by,
+        effectiveDate: at,
+      },
+    });
+    await this.pendingCost.settleFromBatch(tx, batch);
+    return adjustment.id;
+  }
+
+  // --------------------------------------------------------------------------
+  // Square Client
+  // --------------------------------------------------------------------------
+  private getSquareClient(): SquareClient | null {
+    if (!this.squareClient) {
+      const token = process.env.SQUARE_ACCESS_TOKEN?.trim();
+      if (!token) {
+        this.logger.warn('SQUARE_ACCESS_TOKEN not set - Square sync disabled');
+        return null;
+      }
+
+      const env = process.env.SQUARE_ENVIRONMENT?.toLowerCase();
+      const nodeEnv = process.env.NODE_ENV?.toLowerCase();
+      const isSandbox = env === 'sandbox' || nodeEnv === 'development';
+
+      this.squareClient = new SquareClient({
+        token,
+        environment: isSandbox ? SquareEnvironment.Sandbox : SquareEnvironment.Production,
+        version: '2025-01-23', // pinned so an SDK bump can't silently change behavior
+      });
+    }
+    return this.squareClient;
+  }
+
+  // --------------------------------------------------------------------------
+  // Square Inventory Sync
+  // --------------------------------------------------------------------------
+
+  /**
+   * Push the booked corrections as relative ADJUSTMENTs, the way single
+   * count corrections sync (NONE → IN_STOCK, IN_STOCK → WASTE). A relative
+   * change, unlike a PHYSICAL_COUNT, keeps sales Square took since the count.
+   */
+  private async pushCorrectionsToSquare(
+    session: SessionWithLines,
+    corrections: Array<{ productId: string; quantity: number }>,
+  ): Promise<{ synced: boolean; error?: string }> {
+    const client = this.getSquareClient();
+    if (!client) {
+      return { synced: false, error: 'Square client not configured' };
+    }
+    if (!session.location.squareId) {
+      return { synced: false, error: 'Location not linked to Square' };
+    }
+
+    try {
+      const mappings = await this.prisma.catalogMapping.findMany({
+        where: { productId: { in: corrections.map(c => c.productId) } },
+        select: { productId: true, squareVariationId: true },
+      });
+      const variationByProduct = new Map(mappings.map(m => [m.productId, m.squareVariationId]));
+      const occurredAt = new Date().toISOString();
+      const referenceId = `count-session-${session.id}`;
+
+      const changes: Square.InventoryChange[] = corrections
+        .filter(c => variationByProduct.has(c.productId))
+        .map(c => ({
+          type: 'ADJUSTMENT',
+          adjustment: {
+            catalogObjectId: variationByProduct.get(c.productId)!,
+            locationId: session.location.squareId!,
+            quantity: Math.abs(c.quantity).toString(),
+            fromState: c.quantity > 0 ? 'NONE' : 'IN_STOCK',
+            toState: c.quantity > 0 ? 'IN_STOCK' : 'WASTE',
+            occurredAt,
+            referenceId,
+          },
+        }));
+
+      if (changes.length > 0) {
+        this.logger.log(`[SQUARE_SYNC] Syncing count session ${session.id}: ${changes.length} change(s)`);
+        await client.inventory.batchCreateChanges({ idempotencyKey: referenceId, changes });
+      }
+
+      const unmapped = corrections.length - changes.length;
+      return unmapped > 0
+        ? { synced: false, error: `${unmapped} product(s) not mapped to Square catalog` }
+        : { synced: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`[SQUARE_SYNC] Failed to sync count session ${session.id}: ${errorMessage}`);
+      return { synced: false, error: errorMessage };
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  /**
+   * Each line's variance, cost and whether it can be booked. Negative
+   * variances are costed from the batches they would consume; positive ones
+   * at the given unit cost, else the product's last known cost.
+   */
+  private async planCorrections(
+    locationId: string,
+    lines: Array<PlannedCorrection['line'] & { product: PlannedCorrection['product'] }>,
+    client: Prisma.TransactionClient,
+    unitCosts?: Record<string, number>,
+  ): Promise<PlannedCorrection[]> {
+    const current = await this.onHand(locationId, { id: { in: lines.map(l => l.productId) } }, client);
+    const plan: PlannedCorrection[] = [];
+
+    for (const line of lines) {
+      const currentQuantity = current.get(line.productId) ?? 0;
+      const { variance, movementSinceCount, expectedAfterCommit } = countVariance(line, currentQuantity);
+      const planned: PlannedCorrection = {
+        line,
+        product: line.product,
+        currentQuantity,
+        movementSinceCount,
+        variance,
+        expectedAfterCommit,
+        unitCost: null,
+        costImpact: variance === 0 ? new Prisma.Decimal(0) : null,
+        draws: [],
+        issue: null,
+      };
+
+      if (variance < 0) {
+        const { batches } = await this.consumptionPolicy.getBatchesInConsumptionOrder(
+          line.productId,
+          locationId,
+          client,
+        );
+        const { draws, remaining, totalCost } = drawFromBatches(batches, -variance);
+        if (remaining > 0) {
+          planned.issue = 'INSUFFICIENT_STOCK';
+        } else {
+          planned.draws = draws;
+          planned.unitCost = totalCost.div(-variance);
+          planned.costImpact = totalCost.neg();
+        }
+      } else if (variance > 0) {
+        const cost = unitCosts?.[line.productId] ?? (await this.adjustments.getLastKnownCost(line.productId, locationId));
+        if (cost === null || cost === undefined || cost < 0) {
+          planned.issue = 'NEEDS_UNIT_COST';
+        } else {
+          planned.unitCost = new Prisma.Decimal(cost);
+          planned.costImpact = planned.unitCost.mul(variance);
+        }
+      }
+
+      plan.push(planned);
+    }
+    return plan;
+  }
+
+  /**
+   * On-hand per product as the counter sees it: batches minus open
+   * pending-cost units, the same figure drift checks compare with Square.
+   */
+  private async onHand(
+    locationId: string,
+    productFilter: Prisma.ProductWhereInput,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<Map<string, number>> {
+    const [batches, pending] = await Promise.all([
+      client.inventory.groupBy({
+        by: ['productId'],
+        where: { locationId, quantity: { gt: 0 }, product: productFilter },
+        _sum: { quantity: true },
+      }),
+      client.pendingCostConsumption.groupBy({
+        by: ['productId'],
+        where: { locationId, remainingQuantity: { gt: 0 }, product: productFilter },
+        _sum: { remainingQuantity: true },
+      }),
+    ]);
+
+    const onHand = new Map<string, number>();
+    for (const row of batches) {
+      onHand.set(row.productId, row._sum.quantity || 0);
+    }
+    for (const row of pending) {
+      onHand.set(row.productId, (onHand.get(row.productId) ?? 0) - (row._sum.remainingQuantity || 0));
+    }
+    return onHand;
+  }
+
+  /** Products a session covers: its category (with subcategories), its rack, or the whole location. */
+  private async scopeProductFilter(session: {
+    categoryId: string | null;
+    rackId: string | null;
+  }): Promise<Prisma.ProductWhereInput> {
+    if (session.rackId) {
+      return { placements: { some: { section: { rackId: session.rackId } } } };
+    }
+    if (!session.categoryId) {
+      return {};
+    }
+
+    const categories = await this.prisma.category.findMany({ select: { id: true, parentId: true } });
+    const ids = new Set([session.categoryId]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const c of categories) {
+        if (c.parentId && ids.has(c.parentId) && !ids.has(c.id)) {
+          ids.add(c.id);
+          grew = true;
+        }
+      }
+    }
+    return { categoryId: { in: [...ids] } };
+  }
+
+  /**
+   * Share-lock the session row and check it is still OPEN. Entry writes hold
+   * this until they commit, so the commit's claim (an UPDATE of the same
+   * row) waits for them, and entries arriving after the claim see COMMITTED.
+   */
+  private async lockOpenSession(tx: Prisma.TransactionClient, id: string) {
+    const rows = await tx.$queryRaw<Array<{ status: string }>>`
+      SELECT "status"::text AS "status" FROM "CountSession" WHERE "id" = ${id} FOR SHARE`;
+    if (rows[0]?.status !== 'OPEN') {
+      throw new ConflictException(`Count session ${id} is no longer open`);
+    }
+  }
+
+  private async getScopedSession(id: string, scopeLocationId: string | undefined) {
+    const session = await this.prisma.countSession.findUnique({ where: { id }, include: SESSION_INCLUDE });
+    if (!session || (scopeLocationId && session.locationId !== scopeLocationId)) {
+      throw new NotFoundException(`Count session ${id} not found`);
+    }
+    return session;
+  }
+
+  private assertStatus(session: { id: string; status: CountSessionStatus }, expected: CountSessionStatus) {
+    if (session.status !== expected) {
+      throw new ConflictException(`Count session ${session.id} is ${session.status}, expected ${expected}`);
+    }
+  }
+
+  private serialize(session: SessionWithLines, spots: Map<string, PlacementSpot>, order: CountLineOrder) {
+    const { location, ...rest } = session;
+    const lines =
+      order === 'placement'
+        ? sortByPlacement(session.lines, l => ({ productId: l.productId, name: l.product.name }), spots)
+        : session.lines;
+
+    return {
+      ...rest,
+      location: { id: location.id, name: location.name },
+      lines: lines.map(line => {
+        const spot = spots.get(line.productId);
+        return {
+          ...line,
+          placement: spot ? placementLabel(spot) : null,
+          variance: line.countedQuantity - line.systemQuantity, // Against the snapshot; preview adds cost
+        };
+      }),
+    };
+  }
+}
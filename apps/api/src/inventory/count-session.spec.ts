@@ -0,0 +1,31 @@
+import { countVariance } from './count-session';
+
+describe('countVariance', () => {
+  it('is counted minus system when nothing moved during the count', () => {
+    expect(countVariance({ systemQuantity: 10, countedQuantity: 8 }, 10)).toEqual({
+      variance: -2,
+      movementSinceCount: 0,
+      expectedAfterCommit: 8,
+    });
+  });
+
+  it('keeps the correction fixed when sales land after the product was counted', () => {
+    expect(countVariance({ systemQuantity: 10, countedQuantity: 8 }, 7)).toEqual({
+      variance: -2,
+      movementSinceCount: -3,
+      expectedAfterCommit: 5,
+    });
+  });
+
+  it('carries a receipt made after counting through to the result', () => {
+    expect(countVariance({ systemQuantity: 4, countedQuantity: 5 }, 16)).toEqual({
+      variance: 1,
+      movementSinceCount: 12,
+      expectedAfterCommit: 17,
+    });
+  });
+
+  it('reports no variance for a matching count', () => {
+    expect(countVariance({ systemQuantity: 6, countedQuantity: 6 }, 6).variance).toBe(0);
+  });
+});
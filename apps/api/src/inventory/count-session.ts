@@ -0,0 +1,31 @@
+/**
+ * Pure cycle-count math — no DB access. A line's system quantity is the
+ * on-hand snapshot taken when the product was first scanned; the counted
+ * quantity is the sum of every device's entries.
+ */
+
+export interface CountedLine {
+  systemQuantity: number;
+  countedQuantity: number;
+}
+
+export interface CountVariance {
+  variance: number; // COUNT_CORRECTION quantity: counted - system at count time
+  movementSinceCount: number; // Sales (negative) and receipts (positive) since the snapshot
+  expectedAfterCommit: number; // On-hand once the correction is booked
+}
+
+/**
+ * Variance of a counted line against the stock it was counted against.
+ * Stock that moved after the snapshot moved on the shelf too, so it changes
+ * what is on hand now but not the correction: a line counted at 8 against a
+ * system 10, followed by 3 sales, still corrects by -2 and ends at 5.
+ */
+export function countVariance(line: CountedLine, currentQuantity: number): CountVariance {
+  const variance = line.countedQuantity - line.systemQuantity;
+  return {
+    variance,
+    movementSinceCount: currentQuantity - line.systemQuantity,
+    expectedAfterCommit: currentQuantity + variance,
+  };
+}
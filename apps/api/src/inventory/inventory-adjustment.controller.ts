@@ -32,6 +32,12 @@ interface CreateAdjustmentDto {
   clientRequestId?: string; // Dedup key for offline-queue replay (iOS)
 }
 
+interface ReverseAdjustmentDto {
+  reason?: string;
+  notes?: string;
+  syncToSquare?: boolean; // If true, also undo the change in Square
+}
+
 /**
  * Parse a date string that could be either:
  * - Date-only: "2026-02-03" -> treated as local date (noon to avoid timezone edge cases)
@@ -208,6 +214,33 @@ export class InventoryAdjustmentController {
     }, req);
   }
 
+  // --------------------------------------------------------------------------
+  // Reverse a mistaken adjustment - OWNER, MANAGER only
+  // --------------------------------------------------------------------------
+  @Post(':id/reverse')
+  @Roles('OWNER', 'MANAGER')
+  async reverseAdjustment(@Param('id') id: string, @Body() body: ReverseAdjustmentDto, @Req() req: any) {
+    const result = await this.adjustmentService.reverseAdjustment(id, {
+      reason: body?.reason,
+      notes: body?.notes,
+      adjustedBy: req.employee.id,
+      syncToSquare: body?.syncToSquare,
+    });
+
+    let message = `Adjustment ${id} reversed: ${Math.abs(result.adjustment.quantity)} units ${result.adjustment.quantity > 0 ? 'restored' : 'removed'}`;
+    if (result.squareSync) {
+      message += result.squareSync.synced
+        ? ' (synced to Square)'
+        : ` (Square sync failed: ${result.squareSync.error})`;
+    }
+
+    return {
+      success: true,
+      message,
+      data: result,
+    };
+  }
+
   // --------------------------------------------------------------------------
   // Query endpoints - OWNER, MANAGER can view all adjustments
   // --------------------------------------------------------------------------
@@ -316,7 +349,7 @@ export class InventoryAdjustmentController {
       value: type,
       label: type.replace(/_/g, ' ').toLowerCase().replace(/^\w/, c => c.toUpperCase()),
       isPositive: ['FOUND', 'RETURN', 'TRANSFER_IN'].includes(type),
-      isNegative: ['DAMAGE', 'THEFT', 'EXPIRED', 'TRANSFER_OUT', 'WRITE_OFF'].includes(type),
+      isNegative: ['DAMAGE', 'THEFT', 'EXPIRED', 'TRANSFER_OUT', 'WRITE_OFF', 'RECALL'].includes(type),
       isVariable: ['COUNT_CORRECTION', 'OTHER'].includes(type),
     }));
 
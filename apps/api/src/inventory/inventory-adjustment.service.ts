@@ -1,8 +1,11 @@
-import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { Prisma, AdjustmentType } from '@prisma/client';
-import { SquareClient, SquareEnvironment } from 'square';
-import { randomUUID } from 'crypto';
+import { Prisma, AdjustmentType, type InventoryAdjustment } from '@prisma/client';
+import { PendingCostService, type PendingCostSettlementResult } from './pending-cost.service';
+import { ConsumptionPolicyService } from './consumption-policy.service';
+import { SquareOutboxService } from './square-outbox.service';
+import { adjustmentChange } from './square-outbox';
+import { lockStock } from './stock-lock';
 
 // ============================================================================
 // Types
@@ -22,7 +25,14 @@ interface CreateAdjustmentInput {
   clientRequestId?: string; // Dedup key for offline-queue replay (iOS)
 }
 
-interface AdjustmentResult {
+interface ReverseAdjustmentInput {
+  reason?: string; // Defaults to "Reversal of adjustment <id>"
+  notes?: string;
+  adjustedBy?: string;
+  syncToSquare?: boolean;
+}
+
+export interface AdjustmentResult {
   adjustment: {
     id: string;
     type: AdjustmentType;
@@ -39,6 +49,8 @@ interface AdjustmentResult {
     newTotal: number;
     batchesConsumed?: number; // For negative adjustments
     batchCreated?: string; // For positive adjustments
+    batchesRestored?: number; // For reversals of removals
+    batchRemoved?: string; // For reversals of additions
   };
   consumptions?: Array<{
     inventoryId: string;
@@ -49,8 +61,58 @@ interface AdjustmentResult {
     synced: boolean;
     error?: string;
   };
+  pendingCostSettled?: PendingCostSettlementResult; // For positive adjustments
+  reverses?: string; // For reversals: the adjustment undone
+}
+
+/** One side of a stock movement, applied within the caller's transaction. */
+export interface StockLeg {
+  locationId: string;
+  productId: string;
+  type: AdjustmentType;
+  quantity: number; // Negative = withdraw, positive = deposit
+  reason?: string;
+  notes?: string | null;
+  effectiveDate?: Date;
+  adjustedBy?: string;
+  clientRequestId?: string;
+  label?: string; // Names the stock in an insufficient-inventory error, e.g. "Amoxicilina at Centro"
+}
+
+/** The batch a deposit creates. */
+export interface DepositBatch {
+  unitCost: Prisma.Decimal;
+  totalCost?: Prisma.Decimal; // Carried from another leg; defaults to unitCost × quantity
+  receivedAt?: Date; // Defaults to the effective date; a transfer keeps the source batch's
+  source?: string; // Defaults to ADJUSTMENT
+  batchNumber?: string | null;
+  expiryDate?: Date | null;
+}
+
+export interface MovementLeg extends Omit<StockLeg, 'effectiveDate' | 'adjustedBy' | 'clientRequestId'> {
+  unitCost?: number; // Deposits priced on their own; defaults to the last known cost
+  costFrom?: number; // Deposits: index of an earlier withdrawal whose total cost this leg takes on
 }
 
+export interface MovementInput {
+  legs: MovementLeg[];
+  effectiveDate?: Date;
+  adjustedBy?: string;
+  syncToSquare?: boolean;
+}
+
+export interface MovementResult {
+  legs: AdjustmentResult[]; // In leg order
+  squareSync?: {
+    synced: boolean;
+    error?: string;
+  };
+}
+
+// Legs of a transfer or break-bulk: undoing one alone would leave the other
+// location or product holding units that were never taken from anywhere.
+const MOVEMENT_TYPES: AdjustmentType[] = ['TRANSFER_OUT', 'TRANSFER_IN', 'BREAK_BULK_OUT', 'BREAK_BULK_IN'];
+
 interface ConsumedBatch {
   batchId: string;
   quantityConsumed: number;
@@ -65,128 +127,13 @@ interface ConsumedBatch {
 @Injectable()
 export class InventoryAdjustmentService {
   private readonly logger = new Logger(InventoryAdjustmentService.name);
-  private squareClient: SquareClient | null = null;
-
-  constructor(private readonly prisma: PrismaService) {}
-
-  // --------------------------------------------------------------------------
-  // Square Client
-  // --------------------------------------------------------------------------
-  private getSquareClient(): SquareClient | null {
-    if (!this.squareClient) {
-      const token = process.env.SQUARE_ACCESS_TOKEN?.trim();
-      if (!token) {
-        this.logger.warn('SQUARE_ACCESS_TOKEN not set - Square sync disabled');
-        return null;
-      }
 
-      const env = process.env.SQUARE_ENVIRONMENT?.toLowerCase();
-      const nodeEnv = process.env.NODE_ENV?.toLowerCase();
-      const isSandbox = env === 'sandbox' || nodeEnv === 'development';
-
-      this.squareClient = new SquareClient({
-        token,
-        environment: isSandbox ? SquareEnvironment.Sandbox : SquareEnvironment.Production,
-        version: '2025-01-23', // pinned so an SDK bump can't silently change behavior
-      });
-    }
-    return this.squareClient;
-  }
-
-  // --------------------------------------------------------------------------
-  // Square Inventory Sync
-  // --------------------------------------------------------------------------
-  private async syncToSquare(
-    locationId: string,
-    productId: string,
-    quantityChange: number,
-    adjustmentType: string
-  ): Promise<{ synced: boolean; error?: string }> {
-    const client = this.getSquareClient();
-    if (!client) {
-      return { synced: false, error: 'Square client not configured' };
-    }
-
-    try {
-      // Get the Square location ID
-      const location = await this.prisma.location.findUnique({
-        where: { id: locationId },
-        select: { squareId: true },
-      });
-
-      if (!location?.squareId) {
-        return { synced: false, error: 'Location not linked to Square' };
-      }
-
-      // Get the Square catalog object ID (variation ID) for this product
-      const catalogMapping = await this.prisma.catalogMapping.findFirst({
-        where: { productId },
-        select: { squareVariationId: true },
-      });
-
-      if (!catalogMapping?.squareVariationId) {
-        return { synced: false, error: 'Product not mapped to Square catalog' };
-      }
-
-      // Determine the correct state transition based on adjustment type
-      // Square supported transitions:
-      // - NONE → IN_STOCK (receiving)
-      // - IN_STOCK → SOLD (sale)
-      // - IN_STOCK → WASTE (damage, expired, theft, write-off)
-      // - UNLINKED_RETURN → IN_STOCK (returns)
-      
-      let fromState: 'NONE' | 'IN_STOCK' | 'UNLINKED_RETURN';
-      let toState: 'IN_STOCK' | 'WASTE';
-      
-      if (quantityChange > 0) {
-        // Positive adjustment (adding inventory)
-        // For RETURN type, use UNLINKED_RETURN → IN_STOCK
-        // For FOUND or other positive types, use NONE → IN_STOCK
-        if (adjustmentType === 'RETURN') {
-          fromState = 'UNLINKED_RETURN';
-          toState = 'IN_STOCK';
-        } else {
-          fromState = 'NONE';
-          toState = 'IN_STOCK';
-        }
-      } else {
-        // Negative adjustment (removing inventory)
-        // Use IN_STOCK → WASTE for most negative adjustments
-        // (WASTE covers damage, expired, theft, write-off, etc.)
-        fromState = 'IN_STOCK';
-        toState = 'WASTE';
-      }
-
-      // Call Square Inventory API
-      this.logger.log(`[SQUARE_SYNC] Syncing adjustment: catalogObjectId=${catalogMapping.squareVariationId}, locationId=${location.squareId}, quantity=${Math.abs(quantityChange)}, ${fromState} → ${toState}, type=${adjustmentType}`);
-      
-      const response = await client.inventory.batchCreateChanges({
-        idempotencyKey: randomUUID(),
-        changes: [
-          {
-            type: 'ADJUSTMENT',
-            adjustment: {
-              catalogObjectId: catalogMapping.squareVariationId,
-              locationId: location.squareId,
-              quantity: Math.abs(quantityChange).toString(),
-              fromState: fromState as any,
-              toState: toState as any,
-              occurredAt: new Date().toISOString(),
-              referenceId: `adjustment-${adjustmentType}-${Date.now()}`,
-            },
-          },
-        ],
-      });
-
-      this.logger.log(`[SQUARE_SYNC] Successfully synced adjustment to Square. Response counts: ${JSON.stringify(response.counts || 'no counts')}`);
-      return { synced: true };
-
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error(`[SQUARE_SYNC] Failed to sync to Square: ${errorMessage}`);
-      return { synced: false, error: errorMessage };
-    }
-  }
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pendingCost: PendingCostService,
+    private readonly consumptionPolicy: ConsumptionPolicyService,
+    private readonly squareOutbox: SquareOutboxService,
+  ) {}
 
   // --------------------------------------------------------------------------
   // Main adjustment method
@@ -255,7 +202,7 @@ export class InventoryAdjustmentService {
   }
 
   // --------------------------------------------------------------------------
-  // Negative adjustment (consume inventory via FIFO)
+  // Negative adjustment (consume inventory in the product's FIFO/FEFO order)
   // --------------------------------------------------------------------------
   private async processNegativeAdjustment(
     input: CreateAdjustmentInput,
@@ -264,121 +211,37 @@ export class InventoryAdjustmentService {
   ): Promise<AdjustmentResult> {
     const quantityToRemove = Math.abs(input.quantity);
 
-    // Check if we have enough inventory
+    // Fail fast on the unlocked total; re-checked below under the lock
     if (quantityToRemove > previousTotal) {
       throw new BadRequestException(
         `Insufficient inventory: requested ${quantityToRemove}, available ${previousTotal}`
       );
     }
 
-    // Get inventory batches (FIFO order - oldest first)
-    const batches = await this.prisma.inventory.findMany({
-      where: {
-        productId: input.productId,
-        locationId: input.locationId,
-        quantity: { gt: 0 },
-      },
-      orderBy: { receivedAt: 'asc' },
-    });
-
-    // Calculate FIFO consumption
-    const consumedBatches: ConsumedBatch[] = [];
-    let remainingToConsume = quantityToRemove;
-    let totalCost = new Prisma.Decimal(0);
-
-    for (const batch of batches) {
-      if (remainingToConsume <= 0) break;
-
-      const quantityFromBatch = Math.min(batch.quantity, remainingToConsume);
-      const costContribution = batch.unitCost.mul(quantityFromBatch);
-
-      consumedBatches.push({
-        batchId: batch.id,
-        quantityConsumed: quantityFromBatch,
-        unitCost: batch.unitCost,
-        costContribution,
-      });
-
-      totalCost = totalCost.add(costContribution);
-      remainingToConsume -= quantityFromBatch;
-    }
-
-    // Calculate weighted average unit cost
-    const weightedUnitCost = totalCost.div(quantityToRemove);
-
     // Execute in transaction
-    const result = await this.prisma.$transaction(async (tx) => {
-      // 1. Create the adjustment record
-      const adjustment = await tx.inventoryAdjustment.create({
-        data: {
-          locationId: input.locationId,
-          productId: input.productId,
-          type: input.type,
-          quantity: input.quantity, // Negative value
-          reason: input.reason,
-          notes: input.notes,
-          unitCost: input.unitCost ? new Prisma.Decimal(input.unitCost) : weightedUnitCost,
-          totalCost: totalCost,
-          effectiveDate: input.effectiveDate || new Date(),
-          adjustedBy: input.adjustedBy,
-          clientRequestId: input.clientRequestId,
-        },
-      });
-
-      // 2. Deduct from inventory batches
-      for (const consumed of consumedBatches) {
-        await tx.inventory.update({
-          where: { id: consumed.batchId },
-          data: {
-            quantity: { decrement: consumed.quantityConsumed },
-          },
-        });
-      }
-
-      // 3. Create consumption records for audit trail
-      await tx.inventoryConsumption.createMany({
-        data: consumedBatches.map((c) => ({
-          inventoryId: c.batchId,
-          adjustmentId: adjustment.id,
-          quantity: c.quantityConsumed,
-          unitCost: c.unitCost,
-          totalCost: c.costContribution,
-        })),
-      });
-
-      return adjustment;
+    const outcome = await this.prisma.$transaction(async (tx) => {
+      // Lock the product's stock so a concurrent sale can't consume the
+      // same batches between the read and the decrement (stock-lock.ts)
+      await lockStock(tx, [{ productId: input.productId, locationId: input.locationId }]);
+
+      const withdrawal = await this.withdrawStock(tx, input, input.unitCost);
+      const squareKey = input.syncToSquare ? await this.enqueueSquareSync(tx, [withdrawal.adjustment]) : null;
+      return { ...withdrawal, squareKey };
     });
+    const { adjustment: result, consumedBatches, totalCost, availableTotal, squareKey } = outcome;
 
     this.logger.log(
       `[ADJUSTMENT] Negative adjustment ${result.id}: removed ${quantityToRemove} units from ${consumedBatches.length} batches, total cost ${totalCost.toString()}`
     );
 
-    // Optionally sync to Square
-    let squareSync: { synced: boolean; error?: string } | undefined;
-    if (input.syncToSquare) {
-      squareSync = await this.syncToSquare(
-        input.locationId,
-        input.productId,
-        input.quantity, // negative
-        input.type // Pass the adjustment type for proper state transition
-      );
-    }
+    // Square is told only once the removal has committed
+    const squareSync = squareKey ? await this.squareOutbox.send(squareKey) : undefined;
 
     return {
-      adjustment: {
-        id: result.id,
-        type: result.type,
-        quantity: result.quantity,
-        unitCost: result.unitCost.toString(),
-        totalCost: result.totalCost.toString(),
-        reason: result.reason,
-        notes: result.notes,
-        adjustedAt: result.adjustedAt,
-        effectiveDate: result.effectiveDate,
-      },
+      adjustment: this.summarize(result),
       inventoryImpact: {
-        previousTotal,
-        newTotal: previousTotal - quantityToRemove,
+        previousTotal: availableTotal,
+        newTotal: availableTotal - quantityToRemove,
         batchesConsumed: consumedBatches.length,
       },
       consumptions: consumedBatches.map((c) => ({
@@ -410,76 +273,484 @@ export class InventoryAdjustmentService {
       input.unitCost = lastCost;
     }
 
-    const totalCost = new Prisma.Decimal(input.unitCost).mul(input.quantity);
-
     // Execute in transaction
     const result = await this.prisma.$transaction(async (tx) => {
-      // 1. Create new inventory batch
-      const inventoryBatch = await tx.inventory.create({
+      await lockStock(tx, [{ productId: input.productId, locationId: input.locationId }]);
+      const deposit = await this.depositStock(tx, input, { unitCost: new Prisma.Decimal(input.unitCost!) });
+      const squareKey = input.syncToSquare ? await this.enqueueSquareSync(tx, [deposit.adjustment]) : null;
+      return { ...deposit, squareKey };
+    });
+
+    this.logger.log(
+      `[ADJUSTMENT] Positive adjustment ${result.adjustment.id}: added ${input.quantity} units as batch ${result.inventoryBatch.id}, cost ${result.adjustment.totalCost.toString()}`
+    );
+
+    const squareSync = result.squareKey ? await this.squareOutbox.send(result.squareKey) : undefined;
+
+    return {
+      adjustment: this.summarize(result.adjustment),
+      inventoryImpact: {
+        previousTotal,
+        newTotal: previousTotal + input.quantity - (result.pendingCostSettled?.settledQuantity ?? 0),
+        batchCreated: result.inventoryBatch.id,
+      },
+      squareSync,
+      ...(result.pendingCostSettled && { pendingCostSettled: result.pendingCostSettled }),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Multi-leg movements (break-bulk, transfers)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Apply several legs in one transaction: all of them happen or none does.
+   * Legs run in order, so a deposit can take on the cost of an earlier
+   * withdrawal (costFrom) — units leave one product or location and arrive
+   * at another with their cost basis intact. Square hears about every leg
+   * through one outbox row, sent after the commit.
+   */
+  async applyMovement(input: MovementInput): Promise<MovementResult> {
+    const { legs } = input;
+    if (legs.length === 0) {
+      throw new BadRequestException('A movement needs at least one leg');
+    }
+    legs.forEach((leg, i) => {
+      if (!Number.isInteger(leg.quantity) || leg.quantity === 0) {
+        throw new BadRequestException(`Leg ${i}: quantity must be a non-zero integer`);
+      }
+      if (leg.costFrom !== undefined) {
+        const source = legs[leg.costFrom];
+        if (leg.quantity < 0 || leg.costFrom >= i || !source || source.quantity > 0) {
+          throw new BadRequestException(`Leg ${i}: costFrom must name an earlier withdrawal`);
+        }
+      }
+    });
+
+    const productIds = [...new Set(legs.map(l => l.productId))];
+    const locationIds = [...new Set(legs.map(l => l.locationId))];
+    const [productCount, locationCount] = await Promise.all([
+      this.prisma.product.count({ where: { id: { in: productIds } } }),
+      this.prisma.location.count({ where: { id: { in: locationIds } } }),
+    ]);
+    if (productCount !== productIds.length || locationCount !== locationIds.length) {
+      throw new NotFoundException('One or more products or locations not found');
+    }
+
+    for (const locationId of locationIds) {
+      if (await this.checkCutoverLock(locationId, input.effectiveDate || new Date())) {
+        throw new BadRequestException(
+          'Cannot make adjustments before the cutover date. The inventory for this location is locked.'
+        );
+      }
+    }
+
+    // Deposits priced on their own need a cost before the transaction opens
+    const ownCosts = new Map<number, Prisma.Decimal>();
+    for (const [i, leg] of legs.entries()) {
+      if (leg.quantity < 0 || leg.costFrom !== undefined) continue;
+      const unitCost = leg.unitCost ?? (await this.getLastKnownCost(leg.productId, leg.locationId));
+      if (unitCost === null || unitCost === undefined) {
+        throw new BadRequestException(`Leg ${i}: unit cost is required. No previous cost history found.`);
+      }
+      ownCosts.set(i, new Prisma.Decimal(unitCost));
+    }
+
+    const outcome = await this.prisma.$transaction(async (tx) => {
+      await lockStock(tx, legs.map(l => ({ productId: l.productId, locationId: l.locationId })));
+
+      const results: AdjustmentResult[] = [];
+      const withdrawnCost = new Map<number, Prisma.Decimal>();
+      const adjustments: Array<{ id: string; locationId: string; productId: string; type: AdjustmentType; quantity: number }> = [];
+
+      for (const [i, movementLeg] of legs.entries()) {
+        const leg: StockLeg = { ...movementLeg, effectiveDate: input.effectiveDate, adjustedBy: input.adjustedBy };
+
+        if (leg.quantity < 0) {
+          const withdrawal = await this.withdrawStock(tx, leg);
+          withdrawnCost.set(i, withdrawal.totalCost);
+          adjustments.push(withdrawal.adjustment);
+          results.push({
+            adjustment: this.summarize(withdrawal.adjustment),
+            inventoryImpact: {
+              previousTotal: withdrawal.availableTotal,
+              newTotal: withdrawal.availableTotal + leg.quantity,
+              batchesConsumed: withdrawal.consumedBatches.length,
+            },
+            consumptions: withdrawal.consumedBatches.map((c) => ({
+              inventoryId: c.batchId,
+              quantity: c.quantityConsumed,
+              unitCost: c.unitCost.toString(),
+            })),
+          });
+          continue;
+        }
+
+        const current = await tx.inventory.aggregate({
+          where: { productId: leg.productId, locationId: leg.locationId, quantity: { gt: 0 } },
+          _sum: { quantity: true },
+        });
+        const previousTotal = current._sum.quantity || 0;
+
+        const carried = movementLeg.costFrom !== undefined ? withdrawnCost.get(movementLeg.costFrom)! : null;
+        const deposit = await this.depositStock(
+          tx,
+          leg,
+          carried
+            ? { unitCost: carried.div(leg.quantity), totalCost: carried }
+            : { unitCost: ownCosts.get(i)! },
+        );
+        adjustments.push(deposit.adjustment);
+        results.push({
+          adjustment: this.summarize(deposit.adjustment),
+          inventoryImpact: {
+            previousTotal,
+            newTotal: previousTotal + leg.quantity - (deposit.pendingCostSettled?.settledQuantity ?? 0),
+            batchCreated: deposit.inventoryBatch.id,
+          },
+          ...(deposit.pendingCostSettled && { pendingCostSettled: deposit.pendingCostSettled }),
+        });
+      }
+
+      const squareKey = input.syncToSquare ? await this.enqueueSquareSync(tx, adjustments) : null;
+      return { results, squareKey };
+    });
+
+    this.logger.log(
+      `[MOVEMENT] Applied ${legs.length} leg(s): ${outcome.results.map(r => `${r.adjustment.type} ${r.adjustment.quantity}`).join(', ')}`
+    );
+
+    const squareSync = outcome.squareKey ? await this.squareOutbox.send(outcome.squareKey) : undefined;
+    return { legs: outcome.results, squareSync };
+  }
+
+  /**
+   * Take a leg's units out of stock in the product's FIFO/FEFO order, within
+   * the caller's transaction. The caller must already hold the stock lock for
+   * the product and location (stock-lock.ts). `recordedUnitCost` overrides
+   * the unit cost written on the adjustment; the batches still give up their
+   * own cost.
+   */
+  async withdrawStock(tx: Prisma.TransactionClient, leg: StockLeg, recordedUnitCost?: number) {
+    const quantityToRemove = Math.abs(leg.quantity);
+
+    // 1. Get inventory batches in consumption order (oldest or soonest-expiring first)
+    const { batches } = await this.consumptionPolicy.getBatchesInConsumptionOrder(leg.productId, leg.locationId, tx);
+    const availableTotal = batches.reduce((sum, b) => sum + b.quantity, 0);
+    if (quantityToRemove > availableTotal) {
+      throw new BadRequestException(
+        `Insufficient inventory${leg.label ? ` of ${leg.label}` : ''}: requested ${quantityToRemove}, available ${availableTotal}`
+      );
+    }
+
+    // 2. Calculate consumption
+    const consumedBatches: ConsumedBatch[] = [];
+    let remainingToConsume = quantityToRemove;
+    let totalCost = new Prisma.Decimal(0);
+
+    for (const batch of batches) {
+      if (remainingToConsume <= 0) break;
+
+      const quantityFromBatch = Math.min(batch.quantity, remainingToConsume);
+      const costContribution = batch.unitCost.mul(quantityFromBatch);
+
+      consumedBatches.push({
+        batchId: batch.id,
+        quantityConsumed: quantityFromBatch,
+        unitCost: batch.unitCost,
+        costContribution,
+      });
+
+      totalCost = totalCost.add(costContribution);
+      remainingToConsume -= quantityFromBatch;
+    }
+
+    // Calculate weighted average unit cost
+    const weightedUnitCost = totalCost.div(quantityToRemove);
+
+    // 3. Create the adjustment record
+    const adjustment = await tx.inventoryAdjustment.create({
+      data: {
+        locationId: leg.locationId,
+        productId: leg.productId,
+        type: leg.type,
+        quantity: -quantityToRemove,
+        reason: leg.reason,
+        notes: leg.notes,
+        unitCost: recordedUnitCost ? new Prisma.Decimal(recordedUnitCost) : weightedUnitCost,
+        totalCost: totalCost,
+        effectiveDate: leg.effectiveDate || new Date(),
+        adjustedBy: leg.adjustedBy,
+        clientRequestId: leg.clientRequestId,
+      },
+    });
+
+    // 4. Deduct from inventory batches
+    for (const consumed of consumedBatches) {
+      await tx.inventory.update({
+        where: { id: consumed.batchId },
         data: {
-          locationId: input.locationId,
-          productId: input.productId,
-          quantity: input.quantity,
-          receivedAt: input.effectiveDate || new Date(),
-          unitCost: new Prisma.Decimal(input.unitCost!),
-          source: 'ADJUSTMENT',
+          quantity: { decrement: consumed.quantityConsumed },
         },
       });
+    }
+
+    // 5. Create consumption records for audit trail
+    await tx.inventoryConsumption.createMany({
+      data: consumedBatches.map((c) => ({
+        inventoryId: c.batchId,
+        adjustmentId: adjustment.id,
+        quantity: c.quantityConsumed,
+        unitCost: c.unitCost,
+        totalCost: c.costContribution,
+      })),
+    });
 
-      // 2. Create adjustment record (with reference to created batch)
-      const adjustment = await tx.inventoryAdjustment.create({
+    return { adjustment, consumedBatches, totalCost, availableTotal, batches };
+  }
+
+  /**
+   * Put a leg's units into stock as a new batch, within the caller's
+   * transaction, and settle units sold while the system showed none on hand.
+   * The caller must hold the leg's stock lock, so a sale going to pending
+   * cost can't commit between the batch and its settlement.
+   */
+  async depositStock(tx: Prisma.TransactionClient, leg: StockLeg, batch: DepositBatch) {
+    const effectiveDate = leg.effectiveDate || new Date();
+
+    // 1. Create new inventory batch
+    const inventoryBatch = await tx.inventory.create({
+      data: {
+        locationId: leg.locationId,
+        productId: leg.productId,
+        quantity: leg.quantity,
+        receivedAt: batch.receivedAt ?? effectiveDate,
+        unitCost: batch.unitCost,
+        source: batch.source ?? 'ADJUSTMENT',
+        batchNumber: batch.batchNumber,
+        expiryDate: batch.expiryDate,
+      },
+    });
+
+    // 2. Create adjustment record (with reference to created batch)
+    const adjustment = await tx.inventoryAdjustment.create({
+      data: {
+        locationId: leg.locationId,
+        productId: leg.productId,
+        type: leg.type,
+        quantity: leg.quantity,
+        reason: leg.reason,
+        notes: leg.notes,
+        unitCost: batch.unitCost,
+        totalCost: batch.totalCost ?? batch.unitCost.mul(leg.quantity),
+        createdBatchId: inventoryBatch.id,
+        effectiveDate,
+        adjustedBy: leg.adjustedBy,
+        clientRequestId: leg.clientRequestId,
+      },
+    });
+
+    // 3. Settle units sold while the system showed none on hand
+    const pendingCostSettled = await this.pendingCost.settleFromBatch(tx, inventoryBatch);
+
+    return { adjustment, inventoryBatch, pendingCostSettled };
+  }
+
+  /** Queue the Square side of adjustments committed together, as one outbox row. */
+  private async enqueueSquareSync(
+    tx: Prisma.TransactionClient,
+    adjustments: Array<{ id: string; locationId: string; productId: string; type: AdjustmentType; quantity: number }>,
+  ): Promise<string> {
+    const key = `adjustment-${adjustments[0].id}`;
+    await this.squareOutbox.enqueue(tx, {
+      idempotencyKey: key,
+      referenceId: key,
+      changes: adjustments.map(adjustmentChange),
+    });
+    return key;
+  }
+
+  // --------------------------------------------------------------------------
+  // Reversal (undo a mistaken adjustment on the batches it touched)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Book the compensating adjustment for a mistaken one. A removal is put back
+   * into the exact batches its consumptions drew from, at the cost they left
+   * with; an addition takes its created batch back out, and is refused once
+   * any of that batch has been sold or drawn.
+   */
+  async reverseAdjustment(adjustmentId: string, input: ReverseAdjustmentInput): Promise<AdjustmentResult> {
+    const original = await this.prisma.inventoryAdjustment.findUnique({
+      where: { id: adjustmentId },
+      include: {
+        reversedBy: { select: { id: true } },
+        refundReversal: { select: { id: true } },
+        transferOutLine: { select: { id: true } },
+        countSessionLine: { select: { id: true } },
+      },
+    });
+    if (!original) {
+      throw new NotFoundException(`Adjustment ${adjustmentId} not found`);
+    }
+    if (original.reversesId) {
+      throw new BadRequestException(`Adjustment ${adjustmentId} is itself a reversal and cannot be reversed`);
+    }
+    if (original.reversedBy) {
+      throw new ConflictException(`Adjustment ${adjustmentId} was already reversed by ${original.reversedBy.id}`);
+    }
+
+    const owner = MOVEMENT_TYPES.includes(original.type) || original.transferOutLine
+      ? 'a transfer or break-bulk'
+      : original.refundReversal
+        ? 'a refund'
+        : original.countSessionLine
+          ? 'a count session'
+          : original.recallCaseId
+            ? 'a recall case'
+            : null;
+    if (owner) {
+      throw new BadRequestException(`Adjustment ${adjustmentId} was booked by ${owner} and cannot be reversed on its own`);
+    }
+
+    // The original's date is the one whose stock changes back
+    const isLocked = await this.checkCutoverLock(original.locationId, original.effectiveDate);
+    if (isLocked) {
+      throw new BadRequestException(
+        'Cannot reverse an adjustment dated before the cutover date. The inventory for this location is locked.'
+      );
+    }
+
+    const reversalQuantity = -original.quantity;
+    const outcome = await this.prisma.$transaction(async (tx) => {
+      await lockStock(tx, [{ productId: original.productId, locationId: original.locationId }]);
+
+      // Re-checked under the lock: a second reversal of the same adjustment
+      // waits on it and must see the first
+      const existing = await tx.inventoryAdjustment.findUnique({
+        where: { reversesId: original.id },
+        select: { id: true },
+      });
+      if (existing) {
+        throw new ConflictException(`Adjustment ${adjustmentId} was already reversed by ${existing.id}`);
+      }
+
+      const current = await tx.inventory.aggregate({
+        where: { productId: original.productId, locationId: original.locationId, quantity: { gt: 0 } },
+        _sum: { quantity: true },
+      });
+      const previousTotal = current._sum.quantity || 0;
+
+      const reversalData = {
+        locationId: original.locationId,
+        productId: original.productId,
+        type: original.type,
+        quantity: reversalQuantity,
+        reason: input.reason || `Reversal of adjustment ${original.id}`,
+        notes: input.notes,
+        adjustedBy: input.adjustedBy,
+        reversesId: original.id,
+      };
+
+      if (original.quantity < 0) {
+        const consumptions = await tx.inventoryConsumption.findMany({
+          where: { adjustmentId: original.id },
+          orderBy: { consumedAt: 'asc' },
+        });
+        if (consumptions.length === 0) {
+          throw new BadRequestException(`Adjustment ${adjustmentId} has no batch trail to restore`);
+        }
+
+        // Same cost as the removal, so the pair nets to zero
+        const reversal = await tx.inventoryAdjustment.create({
+          data: { ...reversalData, unitCost: original.unitCost, totalCost: original.totalCost },
+        });
+
+        let settledQuantity = 0;
+        let settledCost = new Prisma.Decimal(0);
+        let saleItemsRestated = 0;
+        for (const c of consumptions) {
+          const batch = await tx.inventory.update({
+            where: { id: c.inventoryId },
+            data: { quantity: { increment: c.quantity } },
+          });
+          // Units sold meanwhile with nothing on hand are owed by what comes back
+          const settled = await this.pendingCost.settleFromBatch(tx, { ...batch, quantity: c.quantity });
+          if (settled) {
+            settledQuantity += settled.settledQuantity;
+            settledCost = settledCost.add(settled.settledCost);
+            saleItemsRestated += settled.saleItemsRestated;
+          }
+        }
+
+        const pendingCostSettled: PendingCostSettlementResult | null = settledQuantity > 0
+          ? { settledQuantity, settledCost: settledCost.toString(), saleItemsRestated }
+          : null;
+        const squareKey = input.syncToSquare ? await this.enqueueSquareSync(tx, [reversal]) : null;
+        return { reversal, previousTotal, consumptions, pendingCostSettled, removedBatch: null, squareKey };
+      }
+
+      const batch = original.createdBatchId
+        ? await tx.inventory.findUnique({ where: { id: original.createdBatchId } })
+        : null;
+      if (!batch) {
+        throw new BadRequestException(`Adjustment ${adjustmentId} has no created batch to remove`);
+      }
+      if (batch.quantity < original.quantity) {
+        throw new ConflictException(
+          `Batch ${batch.id} from adjustment ${adjustmentId} has already been consumed ` +
+            `(${original.quantity - batch.quantity} of ${original.quantity} units); it can no longer be reversed`
+        );
+      }
+
+      const totalCost = batch.unitCost.mul(original.quantity);
+      const reversal = await tx.inventoryAdjustment.create({
+        data: { ...reversalData, unitCost: batch.unitCost, totalCost },
+      });
+      await tx.inventory.update({
+        where: { id: batch.id },
+        data: { quantity: { decrement: original.quantity } },
+      });
+      await tx.inventoryConsumption.create({
         data: {
-          locationId: input.locationId,
-          productId: input.productId,
-          type: input.type,
-          quantity: input.quantity,
-          reason: input.reason,
-          notes: input.notes,
-          unitCost: new Prisma.Decimal(input.unitCost!),
-          totalCost: totalCost,
-          createdBatchId: inventoryBatch.id,
-          effectiveDate: input.effectiveDate || new Date(),
-          adjustedBy: input.adjustedBy,
-          clientRequestId: input.clientRequestId,
+          inventoryId: batch.id,
+          adjustmentId: reversal.id,
+          quantity: original.quantity,
+          unitCost: batch.unitCost,
+          totalCost,
         },
       });
 
-      return { adjustment, inventoryBatch };
+      const squareKey = input.syncToSquare ? await this.enqueueSquareSync(tx, [reversal]) : null;
+      return { reversal, previousTotal, consumptions: null, pendingCostSettled: null, removedBatch: batch.id, squareKey };
     });
+    const { reversal, previousTotal, consumptions, pendingCostSettled, removedBatch, squareKey } = outcome;
 
     this.logger.log(
-      `[ADJUSTMENT] Positive adjustment ${result.adjustment.id}: added ${input.quantity} units as batch ${result.inventoryBatch.id}, cost ${totalCost.toString()}`
+      `[ADJUSTMENT] Reversal ${reversal.id} of ${original.id}: ${reversalQuantity > 0 ? 'restored' : 'removed'} ` +
+        `${Math.abs(reversalQuantity)} units of product ${original.productId}, cost ${reversal.totalCost.toString()}`
     );
 
-    // Optionally sync to Square
-    let squareSync: { synced: boolean; error?: string } | undefined;
-    if (input.syncToSquare) {
-      squareSync = await this.syncToSquare(
-        input.locationId,
-        input.productId,
-        input.quantity, // positive
-        input.type // Pass the adjustment type for proper state transition
-      );
-    }
+    const squareSync = squareKey ? await this.squareOutbox.send(squareKey) : undefined;
 
     return {
-      adjustment: {
-        id: result.adjustment.id,
-        type: result.adjustment.type,
-        quantity: result.adjustment.quantity,
-        unitCost: result.adjustment.unitCost.toString(),
-        totalCost: result.adjustment.totalCost.toString(),
-        reason: result.adjustment.reason,
-        notes: result.adjustment.notes,
-        adjustedAt: result.adjustment.adjustedAt,
-        effectiveDate: result.adjustment.effectiveDate,
-      },
+      adjustment: this.summarize(reversal),
       inventoryImpact: {
         previousTotal,
-        newTotal: previousTotal + input.quantity,
-        batchCreated: result.inventoryBatch.id,
+        newTotal: previousTotal + reversalQuantity - (pendingCostSettled?.settledQuantity ?? 0),
+        ...(consumptions && { batchesRestored: new Set(consumptions.map((c) => c.inventoryId)).size }),
+        ...(removedBatch && { batchRemoved: removedBatch }),
       },
+      ...(removedBatch && {
+        consumptions: [{
+          inventoryId: removedBatch,
+          quantity: original.quantity,
+          unitCost: reversal.unitCost.toString(),
+        }],
+      }),
       squareSync,
+      ...(pendingCostSettled && { pendingCostSettled }),
+      reverses: original.id,
     };
   }
 
@@ -487,6 +758,20 @@ export class InventoryAdjustmentService {
   // Helper methods
   // --------------------------------------------------------------------------
 
+  private summarize(adjustment: InventoryAdjustment): AdjustmentResult['adjustment'] {
+    return {
+      id: adjustment.id,
+      type: adjustment.type,
+      quantity: adjustment.quantity,
+      unitCost: adjustment.unitCost.toString(),
+      totalCost: adjustment.totalCost.toString(),
+      reason: adjustment.reason,
+      notes: adjustment.notes,
+      adjustedAt: adjustment.adjustedAt,
+      effectiveDate: adjustment.effectiveDate,
+    };
+  }
+
   private async findByClientRequestId(clientRequestId: string): Promise<AdjustmentResult | null> {
     const existing = await this.prisma.inventoryAdjustment.findUnique({
       where: { clientRequestId },
@@ -528,7 +813,8 @@ export class InventoryAdjustmentService {
     };
   }
 
-  private async checkCutoverLock(locationId: string, effectiveDate: Date): Promise<boolean> {
+  /** Whether a cutover lock covers the date at this location (also used by count sessions). */
+  async checkCutoverLock(locationId: string, effectiveDate: Date): Promise<boolean> {
     const lock = await this.prisma.cutoverLock.findFirst({
       where: {
         OR: [
@@ -542,7 +828,8 @@ export class InventoryAdjustmentService {
     return !!lock;
   }
 
-  private async getLastKnownCost(productId: string, locationId: string): Promise<number | null> {
+  /** Unit cost for stock added without one: preferred supplier, last batch, approved cost. */
+  async getLastKnownCost(productId: string, locationId: string): Promise<number | null> {
     // Try supplier product cost first
     const supplierProduct = await this.prisma.supplierProduct.findFirst({
       where: { productId, isPreferred: true },
@@ -595,6 +882,7 @@ export class InventoryAdjustmentService {
         createdBatch: {
           select: { id: true, quantity: true, unitCost: true, receivedAt: true },
         },
+        reversedBy: { select: { id: true, adjustedAt: true, adjustedBy: true } },
       },
     });
 
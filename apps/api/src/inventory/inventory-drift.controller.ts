@@ -0,0 +1,103 @@
+import { Controller, Get, Post, Body, Param, Query, Req, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { InventoryDriftService, type DriftResolutionAction } from './inventory-drift.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface ScanDriftDto {
+  locationId?: string;
+}
+
+interface ResolveDriftDto {
+  action: DriftResolutionAction;
+  unitCost?: number;
+}
+
+const RESOLUTION_ACTIONS: DriftResolutionAction[] = ['PUSH_TO_SQUARE', 'LOCAL_ADJUSTMENT'];
+const DRIFT_STATUSES = ['OPEN', 'RESOLVED', 'CLEARED', 'ALL'];
+
+@Controller('inventory/drift')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class InventoryDriftController {
+  constructor(private readonly driftService: InventoryDriftService) {}
+
+  // --------------------------------------------------------------------------
+  // Report - OWNER, MANAGER, ACCOUNTANT
+  // --------------------------------------------------------------------------
+  @Get()
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getDriftReport(
+    @Req() req: any,
+    @Query('locationId') locationId?: string,
+    @Query('status') status?: string,
+  ) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
+
+    const statusFilter = (status || 'OPEN').toUpperCase();
+    if (!DRIFT_STATUSES.includes(statusFilter)) {
+      throw new HttpException(
+        { success: false, message: `Invalid status. Must be one of: ${DRIFT_STATUSES.join(', ')}` },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const report = await this.driftService.getDriftReport(targetLocationId, statusFilter);
+
+    return {
+      success: true,
+      data: report,
+      count: report.findings.length,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Scan and resolve - OWNER, MANAGER only
+  // --------------------------------------------------------------------------
+
+  /** Scan one location, or (owners, no locationId) every Square-linked location. */
+  @Post('scan')
+  @Roles('OWNER', 'MANAGER')
+  async scan(@Req() req: any, @Body() body: ScanDriftDto) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? body?.locationId : currentLocation.locationId;
+
+    const results = targetLocationId
+      ? [await this.driftService.scanLocation(targetLocationId)]
+      : await this.driftService.scanAllLocations();
+
+    return {
+      success: true,
+      data: results,
+      count: results.length,
+    };
+  }
+
+  @Post(':id/resolve')
+  @Roles('OWNER', 'MANAGER')
+  async resolve(@Req() req: any, @Param('id') id: string, @Body() body: ResolveDriftDto) {
+    if (!body?.action || !RESOLUTION_ACTIONS.includes(body.action)) {
+      throw new HttpException(
+        { success: false, message: `Invalid action. Must be one of: ${RESOLUTION_ACTIONS.join(', ')}` },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (body.unitCost !== undefined && (typeof body.unitCost !== 'number' || body.unitCost < 0)) {
+      throw new HttpException(
+        { success: false, message: 'unitCost must be a non-negative number' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const currentLocation = req.currentLocation;
+    const result = await this.driftService.resolveDrift(id, {
+      action: body.action,
+      unitCost: body.unitCost,
+      resolvedBy: req.employee.id,
+      scopeLocationId: currentLocation.role === 'OWNER' ? undefined : currentLocation.locationId,
+    });
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+}
@@ -0,0 +1,352 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { SquareClient, SquareEnvironment } from 'square';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { SquareInventoryService } from '../inventory-migration/square-inventory.service';
+import { InventoryAdjustmentService } from './inventory-adjustment.service';
+import {
+  compareCounts,
+  countCorrectionQuantity,
+  driftAction,
+  resolveLocationVariations,
+  type DriftAction,
+} from './inventory-drift';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DriftResolutionAction = 'PUSH_TO_SQUARE' | 'LOCAL_ADJUSTMENT';
+
+export interface DriftScanResult {
+  locationId: string;
+  locationName: string;
+  productsChecked: number;
+  opened: number;
+  refreshed: number;
+  cleared: number;
+  ambiguousProductIds: string[];
+}
+
+interface ResolveDriftInput {
+  action: DriftResolutionAction;
+  unitCost?: number; // For a positive correction with no cost history
+  resolvedBy?: string;
+  scopeLocationId?: string; // Non-owners may only resolve their own location's findings
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Compares FIFO on-hand with Square's counts. Batches drift from Square when
+ * a sale fails in the worker, when someone edits a count in the Square
+ * dashboard, or when a receiving's Square sync fails. Scans run on demand;
+ * the worker checks single variations on inventory.count.updated
+ * (inventory-count.worker.ts) into the same InventoryDrift rows.
+ */
+@Injectable()
+export class InventoryDriftService {
+  private readonly logger = new Logger(InventoryDriftService.name);
+  private squareClient: SquareClient | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly squareInventory: SquareInventoryService,
+    private readonly adjustments: InventoryAdjustmentService,
+  ) {}
+
+  // --------------------------------------------------------------------------
+  // Square Client
+  // --------------------------------------------------------------------------
+  private getSquareClient(): SquareClient | null {
+    if (!this.squareClient) {
+      const token = process.env.SQUARE_ACCESS_TOKEN?.trim();
+      if (!token) {
+        this.logger.warn('SQUARE_ACCESS_TOKEN not set - Square sync disabled');
+        return null;
+      }
+
+      const env = process.env.SQUARE_ENVIRONMENT?.toLowerCase();
+      const nodeEnv = process.env.NODE_ENV?.toLowerCase();
+      const isSandbox = env === 'sandbox' || nodeEnv === 'development';
+
+      this.squareClient = new SquareClient({
+        token,
+        environment: isSandbox ? SquareEnvironment.Sandbox : SquareEnvironment.Production,
+        version: '2025-01-23', // pinned so an SDK bump can't silently change behavior
+      });
+    }
+    return this.squareClient;
+  }
+
+  // --------------------------------------------------------------------------
+  // Detection
+  // --------------------------------------------------------------------------
+
+  /**
+   * FIFO on-hand per product as Square would count it: batches on hand minus
+   * open pending-cost units (Square lets those sales take the count negative).
+   */
+  private async localOnHand(locationId: string, productIds?: string[]): Promise<Map<string, number>> {
+    const productFilter = productIds ? { productId: { in: productIds } } : {};
+    const [batches, pending] = await Promise.all([
+      this.prisma.inventory.groupBy({
+        by: ['productId'],
+        where: { locationId, quantity: { gt: 0 }, ...productFilter },
+        _sum: { quantity: true },
+      }),
+      this.prisma.pendingCostConsumption.groupBy({
+        by: ['productId'],
+        where: { locationId, remainingQuantity: { gt: 0 }, ...productFilter },
+        _sum: { remainingQuantity: true },
+      }),
+    ]);
+
+    const local = new Map<string, number>();
+    for (const row of batches) {
+      local.set(row.productId, row._sum.quantity || 0);
+    }
+    for (const row of pending) {
+      local.set(row.productId, (local.get(row.productId) ?? 0) - (row._sum.remainingQuantity || 0));
+    }
+    return local;
+  }
+
+  /**
+   * Compare every mapped product at one location and open, refresh or clear
+   * its drift finding.
+   */
+  async scanLocation(locationId: string): Promise<DriftScanResult> {
+    const location = await this.prisma.location.findUnique({ where: { id: locationId } });
+    if (!location) {
+      throw new NotFoundException(`Location ${locationId} not found`);
+    }
+    if (!location.squareId) {
+      throw new BadRequestException(`Location ${location.name} is not linked to Square`);
+    }
+
+    const [squareItems, mappings, local, openFindings] = await Promise.all([
+      this.squareInventory.fetchSquareInventory(location.squareId, true),
+      this.prisma.catalogMapping.findMany({
+        where: { OR: [{ locationId }, { locationId: null }] },
+        select: { squareVariationId: true, productId: true, locationId: true },
+      }),
+      this.localOnHand(locationId),
+      this.prisma.inventoryDrift.findMany({ where: { locationId, status: 'OPEN' } }),
+    ]);
+
+    const squareByVariation = new Map<string, number>();
+    for (const item of squareItems) {
+      squareByVariation.set(item.catalogObjectId, (squareByVariation.get(item.catalogObjectId) ?? 0) + item.quantity);
+    }
+
+    const { variationByProduct, ambiguousProductIds } = resolveLocationVariations(mappings, locationId);
+    const comparisons = compareCounts(variationByProduct, local, squareByVariation);
+    const openByProduct = new Map(openFindings.map(f => [f.productId, f]));
+
+    const tally: Record<DriftAction, number> = { open: 0, refresh: 0, clear: 0, none: 0 };
+    const now = new Date();
+
+    for (const comparison of comparisons) {
+      const open = openByProduct.get(comparison.productId);
+      const action = driftAction(!!open, comparison.localQuantity, comparison.squareQuantity);
+      tally[action]++;
+
+      if (action === 'open') {
+        await this.prisma.inventoryDrift.create({
+          data: { locationId, ...comparison, source: 'SCAN', detectedAt: now, checkedAt: now },
+        });
+      } else if (action === 'refresh' || action === 'clear') {
+        await this.prisma.inventoryDrift.update({
+          where: { id: open!.id },
+          data: {
+            squareVariationId: comparison.squareVariationId,
+            localQuantity: comparison.localQuantity,
+            squareQuantity: comparison.squareQuantity,
+            difference: comparison.difference,
+            source: 'SCAN',
+            checkedAt: now,
+            ...(action === 'clear' && { status: 'CLEARED', resolvedAt: now }),
+          },
+        });
+      }
+    }
+
+    this.logger.log(
+      `[DRIFT] Scanned ${location.name}: ${comparisons.length} products, ${tally.open} new, ${tally.refresh} still drifted, ${tally.clear} cleared, ${ambiguousProductIds.length} ambiguous`,
+    );
+
+    return {
+      locationId,
+      locationName: location.name,
+      productsChecked: comparisons.length,
+      opened: tally.open,
+      refreshed: tally.refresh,
+      cleared: tally.clear,
+      ambiguousProductIds,
+    };
+  }
+
+  /** Scan every active location linked to Square. */
+  async scanAllLocations(): Promise<DriftScanResult[]> {
+    const locations = await this.prisma.location.findMany({
+      where: { isActive: true, squareId: { not: null } },
+      orderBy: { name: 'asc' },
+    });
+
+    const results: DriftScanResult[] = [];
+    for (const location of locations) {
+      results.push(await this.scanLocation(location.id));
+    }
+    return results;
+  }
+
+  // --------------------------------------------------------------------------
+  // Report
+  // --------------------------------------------------------------------------
+
+  async getDriftReport(locationId: string | undefined, status: string) {
+    const findings = await this.prisma.inventoryDrift.findMany({
+      where: {
+        ...(locationId && { locationId }),
+        ...(status !== 'ALL' && { status }),
+      },
+      include: {
+        product: { select: { id: true, name: true, sku: true } },
+        location: { select: { id: true, name: true } },
+      },
+      orderBy: [{ status: 'asc' }, { checkedAt: 'desc' }],
+      take: 500,
+    });
+
+    const open = findings.filter(f => f.status === 'OPEN');
+    return {
+      summary: {
+        openFindings: open.length,
+        unitsSquareOver: open.reduce((sum, f) => sum + Math.max(f.difference, 0), 0),
+        unitsSquareUnder: open.reduce((sum, f) => sum + Math.max(-f.difference, 0), 0),
+        lastCheckedAt: findings.reduce<Date | null>(
+          (latest, f) => (!latest || f.checkedAt > latest ? f.checkedAt : latest),
+          null,
+        ),
+      },
+      findings,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Resolution
+  // --------------------------------------------------------------------------
+
+  /**
+   * Settle an OPEN finding one way or the other. Our side is re-read first
+   * (sales may have landed since the check); Square's side is the count from
+   * the last check, so rescan before resolving a finding that has sat a while.
+   */
+  async resolveDrift(driftId: string, input: ResolveDriftInput) {
+    const drift = await this.prisma.inventoryDrift.findUnique({
+      where: { id: driftId },
+      include: { location: true },
+    });
+    if (!drift || (input.scopeLocationId && drift.locationId !== input.scopeLocationId)) {
+      throw new NotFoundException(`Drift finding ${driftId} not found`);
+    }
+    if (drift.status !== 'OPEN') {
+      throw new ConflictException(`Drift finding ${driftId} is already ${drift.status}`);
+    }
+
+    const local = await this.localOnHand(drift.locationId, [drift.productId]);
+    const localQuantity = local.get(drift.productId) ?? 0;
+    let adjustmentId: string | null = null;
+    let pushedQuantity: number | null = null;
+
+    if (input.action === 'PUSH_TO_SQUARE') {
+      pushedQuantity = Math.max(localQuantity, 0);
+      await this.pushCountToSquare(drift.location.squareId, drift.squareVariationId, pushedQuantity, drift.id);
+      this.squareInventory.clearInventoryCache(drift.location.squareId!);
+    } else {
+      const quantity = countCorrectionQuantity(localQuantity, drift.squareQuantity);
+      if (quantity !== 0) {
+        const result = await this.adjustments.createAdjustment({
+          locationId: drift.locationId,
+          productId: drift.productId,
+          type: 'COUNT_CORRECTION',
+          quantity,
+          reason: 'Square count drift',
+          notes: `Local ${localQuantity}, Square ${drift.squareQuantity} (drift ${drift.id})`,
+          unitCost: input.unitCost,
+          adjustedBy: input.resolvedBy,
+          syncToSquare: false, // Square already holds the target count
+        });
+        adjustmentId = result.adjustment.id;
+      }
+    }
+
+    const now = new Date();
+    const resolved = await this.prisma.inventoryDrift.update({
+      where: { id: drift.id },
+      data: {
+        status: 'RESOLVED',
+        resolution: input.action === 'PUSH_TO_SQUARE' ? 'PUSHED_TO_SQUARE' : 'LOCAL_ADJUSTMENT',
+        localQuantity,
+        difference: drift.squareQuantity - localQuantity,
+        adjustmentId,
+        resolvedBy: input.resolvedBy ?? null,
+        resolvedAt: now,
+        checkedAt: now,
+      },
+    });
+
+    this.logger.log(
+      `[DRIFT] Resolved ${drift.id} (${resolved.resolution}): local ${localQuantity}, Square ${drift.squareQuantity}` +
+        (pushedQuantity !== null ? `, pushed ${pushedQuantity}` : '') +
+        (adjustmentId ? `, adjustment ${adjustmentId}` : ''),
+    );
+
+    return { drift: resolved, adjustmentId, pushedQuantity };
+  }
+
+  /**
+   * Overwrite Square's IN_STOCK count with a PHYSICAL_COUNT, the same change
+   * a count edit in the Square dashboard makes.
+   */
+  private async pushCountToSquare(
+    squareLocationId: string | null,
+    squareVariationId: string,
+    quantity: number,
+    driftId: string,
+  ): Promise<void> {
+    const client = this.getSquareClient();
+    if (!client) {
+      throw new BadRequestException('Square client not configured');
+    }
+    if (!squareLocationId) {
+      throw new BadRequestException('Location not linked to Square');
+    }
+
+    try {
+      await client.inventory.batchCreateChanges({
+        idempotencyKey: randomUUID(),
+        changes: [
+          {
+            type: 'PHYSICAL_COUNT',
+            physicalCount: {
+              catalogObjectId: squareVariationId,
+              locationId: squareLocationId,
+              quantity: quantity.toString(),
+              state: 'IN_STOCK',
+              occurredAt: new Date().toISOString(),
+              referenceId: `drift-${driftId}`,
+            },
+          },
+        ],
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`[DRIFT] Failed to push count to Square: ${errorMessage}`);
+      throw new BadRequestException(`Square rejected the count: ${errorMessage}`);
+    }
+  }
+}
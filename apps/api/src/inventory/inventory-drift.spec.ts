@@ -0,0 +1,69 @@
+import {
+  compareCounts,
+  countCorrectionQuantity,
+  driftAction,
+  resolveLocationVariations,
+} from './inventory-drift';
+
+describe('resolveLocationVariations', () => {
+  it('lets a location mapping override the global one for the same variation', () => {
+    const { variationByProduct, ambiguousProductIds } = resolveLocationVariations(
+      [
+        { squareVariationId: 'V1', productId: 'P-global', locationId: null },
+        { squareVariationId: 'V1', productId: 'P-local', locationId: 'L1' },
+        { squareVariationId: 'V2', productId: 'P2', locationId: 'L2' },
+      ],
+      'L1',
+    );
+    expect([...variationByProduct]).toEqual([['P-local', 'V1']]);
+    expect(ambiguousProductIds).toEqual([]);
+  });
+
+  it('reports products mapped to several variations instead of comparing them', () => {
+    const { variationByProduct, ambiguousProductIds } = resolveLocationVariations(
+      [
+        { squareVariationId: 'V1', productId: 'P1', locationId: null },
+        { squareVariationId: 'V2', productId: 'P1', locationId: null },
+        { squareVariationId: 'V3', productId: 'P2', locationId: null },
+      ],
+      'L1',
+    );
+    expect([...variationByProduct]).toEqual([['P2', 'V3']]);
+    expect(ambiguousProductIds).toEqual(['P1']);
+  });
+});
+
+describe('compareCounts', () => {
+  it('treats counts missing on either side as zero', () => {
+    const comparisons = compareCounts(
+      new Map([['P1', 'V1'], ['P2', 'V2']]),
+      new Map([['P1', 5]]),
+      new Map([['V2', 3]]),
+    );
+    expect(comparisons).toEqual([
+      { productId: 'P1', squareVariationId: 'V1', localQuantity: 5, squareQuantity: 0, difference: -5 },
+      { productId: 'P2', squareVariationId: 'V2', localQuantity: 0, squareQuantity: 3, difference: 3 },
+    ]);
+  });
+});
+
+describe('driftAction', () => {
+  it('opens, refreshes and clears findings', () => {
+    expect(driftAction(false, 4, 6)).toBe('open');
+    expect(driftAction(false, 4, 4)).toBe('none');
+    expect(driftAction(true, 4, 5)).toBe('refresh');
+    expect(driftAction(true, 5, 5)).toBe('clear');
+  });
+});
+
+describe('countCorrectionQuantity', () => {
+  it('moves our on-hand to the Square count', () => {
+    expect(countCorrectionQuantity(10, 7)).toBe(-3);
+    expect(countCorrectionQuantity(2, 6)).toBe(4);
+  });
+
+  it('never corrects below zero and settles pending units first', () => {
+    expect(countCorrectionQuantity(4, -2)).toBe(-4);
+    expect(countCorrectionQuantity(-3, 5)).toBe(8);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Pure Square count drift math — no DB or Square access. A location's
+ * FIFO on-hand per product is compared with the Square IN_STOCK count of the
+ * variation mapped to it.
+ */
+
+export interface DriftMapping {
+  squareVariationId: string;
+  productId: string;
+  locationId: string | null; // null = global mapping
+}
+
+export interface LocationVariations {
+  variationByProduct: Map<string, string>; // productId -> squareVariationId
+  ambiguousProductIds: string[]; // Mapped to more than one variation here
+}
+
+export interface CountComparison {
+  productId: string;
+  squareVariationId: string;
+  localQuantity: number;
+  squareQuantity: number;
+  difference: number; // squareQuantity - localQuantity
+}
+
+export type DriftAction = 'open' | 'refresh' | 'clear' | 'none';
+
+/**
+ * Which variation stands for each product at a location. A location-specific
+ * mapping of a variation overrides its global one. A product reached by
+ * several variations has no single Square count to compare against (nor to
+ * push to), so it is reported instead of compared.
+ */
+export function resolveLocationVariations(mappings: DriftMapping[], locationId: string): LocationVariations {
+  const productByVariation = new Map<string, string>();
+  for (const mapping of mappings) {
+    if (mapping.locationId !== null && mapping.locationId !== locationId) continue;
+    if (mapping.locationId === null && productByVariation.has(mapping.squareVariationId)) continue;
+    productByVariation.set(mapping.squareVariationId, mapping.productId);
+  }
+
+  const variationsByProduct = new Map<string, string[]>();
+  for (const [variationId, productId] of productByVariation) {
+    variationsByProduct.set(productId, [...(variationsByProduct.get(productId) || []), variationId]);
+  }
+
+  const variationByProduct = new Map<string, string>();
+  const ambiguousProductIds: string[] = [];
+  for (const [productId, variationIds] of variationsByProduct) {
+    if (variationIds.length > 1) {
+      ambiguousProductIds.push(productId);
+    } else {
+      variationByProduct.set(productId, variationIds[0]);
+    }
+  }
+
+  return { variationByProduct, ambiguousProductIds };
+}
+
+/**
+ * One comparison per mapped product. Square leaves zero counts out of its
+ * response, so a variation it didn't return counts as 0.
+ */
+export function compareCounts(
+  variationByProduct: Map<string, string>,
+  localByProduct: Map<string, number>,
+  squareByVariation: Map<string, number>,
+): CountComparison[] {
+  const comparisons: CountComparison[] = [];
+  for (const [productId, squareVariationId] of variationByProduct) {
+    const localQuantity = localByProduct.get(productId) ?? 0;
+    const squareQuantity = squareByVariation.get(squareVariationId) ?? 0;
+    comparisons.push({
+      productId,
+      squareVariationId,
+      localQuantity,
+      squareQuantity,
+      difference: squareQuantity - localQuantity,
+    });
+  }
+  return comparisons;
+}
+
+/**
+ * What a check does to the product's drift finding: open one when the counts
+ * disagree, refresh the open one, or clear it once they agree again.
+ */
+export function driftAction(hasOpenFinding: boolean, localQuantity: number, squareQuantity: number): DriftAction {
+  const drifted = localQuantity !== squareQuantity;
+  if (hasOpenFinding) return drifted ? 'refresh' : 'clear';
+  return drifted ? 'open' : 'none';
+}
+
+/**
+ * COUNT_CORRECTION quantity that brings our on-hand to Square's count. We
+ * can't hold negative stock, so a negative Square count corrects to zero; a
+ * negative local figure (open pending-cost units) is settled by the positive
+ * correction's batch like any other receipt.
+ */
+export function countCorrectionQuantity(localQuantity: number, squareQuantity: number): number {
+  return Math.max(squareQuantity, 0) - localQuantity;
+}
@@ -26,7 +26,8 @@ interface ReceiveInventoryDto {
   unitCost: number;
   supplierId?: string;
   invoiceNumber?: string;
-  purchaseOrderId?: string;
+  purchaseOrderId?: string; // PurchaseOrder to receive against
+  purchaseOrderRef?: string; // Free-text PO number when there is no PurchaseOrder
   batchNumber?: string;
   expiryDate?: string;
   manufacturingDate?: string;
@@ -39,6 +40,30 @@ interface ReceiveInventoryDto {
   syncPriceToSquare?: boolean;
 }
 
+interface ReceiveInvoiceDto {
+  locationId?: string; // Defaults to the current location
+  supplierId?: string;
+  invoiceNumber?: string;
+  invoiceDate?: string;
+  purchaseOrderId?: string;
+  purchaseOrderRef?: string;
+  lines: Array<{
+    productId: string;
+    quantity: number;
+    unitCost: number; // As printed on the invoice
+    batchNumber?: string;
+    expiryDate?: string;
+    manufacturingDate?: string;
+    notes?: string;
+  }>;
+  charges?: Array<{ description: string; amount: number }>; // Freight, handling, ...
+  allocationMethod?: 'VALUE' | 'QUANTITY'; // How charges are spread (default VALUE)
+  invoiceTotal: number;
+  notes?: string;
+  syncToSquare?: boolean;
+  clientRequestId?: string; // Dedup key for offline-queue replay (iOS)
+}
+
 // Helper to extract error message
 function getErrorMessage(error: unknown): string {
   if (error instanceof Error) return error.message;
@@ -143,6 +168,7 @@ export class InventoryReceivingController {
       supplierId: body.supplierId,
       invoiceNumber: body.invoiceNumber,
       purchaseOrderId: body.purchaseOrderId,
+      purchaseOrderRef: body.purchaseOrderRef,
       batchNumber: body.batchNumber,
       expiryDate,
       manufacturingDate,
@@ -154,6 +180,9 @@ export class InventoryReceivingController {
 
     // Build response message
     let message = `Received ${body.quantity} units successfully`;
+    if (result.purchaseOrder?.variance.flags.length) {
+      message += ` | PO variance: ${result.purchaseOrder.variance.flags.join(', ')}`;
+    }
     if (result.squareSync) {
       message += result.squareSync.synced
         ? ' (synced to Square)'
@@ -210,6 +239,99 @@ export class InventoryReceivingController {
     };
   }
 
+  // --------------------------------------------------------------------------
+  // Receive a multi-line invoice with landed cost - OWNER, MANAGER only
+  // --------------------------------------------------------------------------
+  @Post('invoice')
+  @Roles('OWNER', 'MANAGER')
+  async receiveInvoice(@Body() body: ReceiveInvoiceDto, @Req() req: any) {
+    const currentLocation = req.currentLocation;
+
+    if (!Array.isArray(body?.lines) || body.lines.length === 0 || typeof body.invoiceTotal !== 'number') {
+      throw new HttpException(
+        { success: false, message: 'Missing required fields: lines, invoiceTotal' },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+    if (body.lines.some(l => !l?.productId || typeof l.quantity !== 'number' || typeof l.unitCost !== 'number')) {
+      throw new HttpException(
+        { success: false, message: 'Each line needs productId, quantity and unitCost' },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+    if (
+      body.charges !== undefined &&
+      (!Array.isArray(body.charges) || body.charges.some(c => !c?.description || typeof c.amount !== 'number'))
+    ) {
+      throw new HttpException(
+        { success: false, message: 'charges must be an array of { description, amount }' },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+    if (body.allocationMethod !== undefined && !['VALUE', 'QUANTITY'].includes(body.allocationMethod)) {
+      throw new HttpException(
+        { success: false, message: 'allocationMethod must be VALUE or QUANTITY' },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    const result = await this.receivingService.receiveInvoice({
+      locationId:
+        currentLocation.role === 'OWNER' && body.locationId ? body.locationId : currentLocation.locationId,
+      supplierId: body.supplierId,
+      invoiceNumber: body.invoiceNumber,
+      invoiceDate: body.invoiceDate ? this.parseDate(body.invoiceDate, 'invoiceDate') : undefined,
+      purchaseOrderId: body.purchaseOrderId,
+      purchaseOrderRef: body.purchaseOrderRef,
+      lines: body.lines.map(l => ({
+        productId: l.productId,
+        quantity: l.quantity,
+        unitCost: l.unitCost,
+        batchNumber: l.batchNumber,
+        expiryDate: l.expiryDate ? this.parseDate(l.expiryDate, 'expiryDate') : undefined,
+        manufacturingDate: l.manufacturingDate ? this.parseDate(l.manufacturingDate, 'manufacturingDate') : undefined,
+        notes: l.notes,
+      })),
+      charges: body.charges,
+      allocationMethod: body.allocationMethod,
+      invoiceTotal: body.invoiceTotal,
+      receivedBy: req.employee.id,
+      notes: body.notes,
+      syncToSquare: body.syncToSquare,
+      clientRequestId: body.clientRequestId,
+    });
+
+    const flagged = result.results.filter(r => r.purchaseOrder?.variance.flags.length);
+    const syncFailed = result.results.filter(r => r.squareSync && !r.squareSync.synced);
+    let message = `Received invoice with ${result.invoice.receivings.length} line(s)`;
+    if (flagged.length > 0) {
+      message += ` | ${flagged.length} with PO variances`;
+    }
+    if (syncFailed.length > 0) {
+      message += ` | Square sync failed for ${syncFailed.length} line(s)`;
+    }
+
+    return {
+      success: true,
+      message,
+      data: result,
+    };
+  }
+
+  @Get('invoice/:id')
+  @Roles('OWNER', 'MANAGER')
+  async getInvoice(@Req() req: any, @Param('id') id: string) {
+    const currentLocation = req.currentLocation;
+    const invoice = await this.receivingService.getInvoice(
+      id,
+      currentLocation.role === 'OWNER' ? undefined : currentLocation.locationId,
+    );
+    return {
+      success: true,
+      data: invoice,
+    };
+  }
+
   // --------------------------------------------------------------------------
   // Query endpoints - OWNER, MANAGER can view receivings
   // --------------------------------------------------------------------------
@@ -312,4 +434,18 @@ export class InventoryReceivingController {
       data: result,
     };
   }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+  private parseDate(value: string, field: string): Date {
+    const date = parseDateString(value);
+    if (isNaN(date.getTime())) {
+      throw new HttpException(
+        { success: false, message: `Invalid ${field} format` },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+    return date;
+  }
 }
@@ -3,6 +3,10 @@ import { PrismaService } from '../prisma/prisma.service';
 import { Prisma } from '@prisma/client';
 import { SquareClient, SquareEnvironment } from 'square';
 import { randomUUID } from 'crypto';
+import { PendingCostService, type PendingCostSettlementResult } from './pending-cost.service';
+import { PurchaseOrderService, type PurchaseOrderReceipt } from './purchase-order.service';
+import { allocateCharges, invoiceSubtotal, matchesInvoiceTotal, type ChargeAllocationMethod } from './landed-cost';
+import { lockStock } from './stock-lock';
 
 // ============================================================================
 // Types
@@ -15,7 +19,8 @@ interface ReceiveInventoryInput {
   unitCost: number;
   supplierId?: string;
   invoiceNumber?: string;
-  purchaseOrderId?: string;
+  purchaseOrderId?: string; // PurchaseOrder to receive against
+  purchaseOrderRef?: string; // Free-text PO number when there is no PurchaseOrder
   batchNumber?: string;
   expiryDate?: Date;
   manufacturingDate?: Date;
@@ -25,6 +30,57 @@ interface ReceiveInventoryInput {
   clientRequestId?: string; // Dedup key for offline-queue replay (iOS)
 }
 
+// One line as createReceiving writes it, once validated
+interface ReceivingLineInput extends Omit<ReceiveInventoryInput, 'unitCost' | 'syncToSquare'> {
+  unitCost: Prisma.Decimal.Value; // What the batch carries (landed cost on invoices)
+  supplierUnitCost?: Prisma.Decimal.Value; // Invoice price before allocated charges
+  invoiceId?: string;
+}
+
+interface ReceivePurchaseOrderInput {
+  lines?: Array<{
+    lineId: string;
+    quantity: number;
+    unitCost?: number; // Defaults to the line's expected cost
+    batchNumber?: string;
+    expiryDate?: Date;
+  }>; // Omitted: every outstanding line in full
+  invoiceNumber?: string;
+  receivedBy?: string;
+  syncToSquare?: boolean;
+  scopeLocationId?: string;
+}
+
+interface InvoiceCharge {
+  description: string;
+  amount: number;
+}
+
+interface ReceiveInvoiceInput {
+  locationId: string;
+  supplierId?: string;
+  invoiceNumber?: string;
+  invoiceDate?: Date;
+  purchaseOrderId?: string;
+  purchaseOrderRef?: string;
+  lines: Array<{
+    productId: string;
+    quantity: number;
+    unitCost: number; // As printed on the invoice
+    batchNumber?: string;
+    expiryDate?: Date;
+    manufacturingDate?: Date;
+    notes?: string;
+  }>;
+  charges?: InvoiceCharge[]; // Freight, handling, ... spread over the lines
+  allocationMethod?: ChargeAllocationMethod; // Default VALUE
+  invoiceTotal: number; // Must equal lines + charges
+  receivedBy?: string;
+  notes?: string;
+  syncToSquare?: boolean;
+  clientRequestId?: string; // Dedup key for offline-queue replay (iOS)
+}
+
 interface ReceivingResult {
   receiving: {
     id: string;
@@ -45,6 +101,8 @@ interface ReceivingResult {
     synced: boolean;
     error?: string;
   };
+  pendingCostSettled?: PendingCostSettlementResult;
+  purchaseOrder?: PurchaseOrderReceipt & { id: string }; // Receipts made against a PO
   inventoryTotal: number;
 }
 
@@ -57,7 +115,11 @@ export class InventoryReceivingService {
   private readonly logger = new Logger(InventoryReceivingService.name);
   private squareClient: SquareClient | null = null;
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pendingCost: PendingCostService,
+    private readonly purchaseOrders: PurchaseOrderService,
+  ) {}
 
   // --------------------------------------------------------------------------
   // Square Client
@@ -193,6 +255,9 @@ export class InventoryReceivingService {
       throw new NotFoundException(`Location ${input.locationId} not found`);
     }
 
+    const { purchaseOrderId, purchaseOrderRef, supplierId } = await this.resolvePurchaseOrder(input);
+    input.supplierId = supplierId;
+
     // Check supplier if provided
     if (input.supplierId) {
       const supplier = await this.prisma.supplier.findUnique({
@@ -203,113 +268,10 @@ export class InventoryReceivingService {
       }
     }
 
-    const totalCost = new Prisma.Decimal(input.unitCost).mul(input.quantity);
-
     // Execute in transaction
     const result = await this.prisma.$transaction(async (tx) => {
-      // 1. Create inventory batch
-      const inventoryBatch = await tx.inventory.create({
-        data: {
-          locationId: input.locationId,
-          productId: input.productId,
-          quantity: input.quantity,
-          receivedAt: new Date(),
-          unitCost: new Prisma.Decimal(input.unitCost),
-          source: 'PURCHASE',
-        },
-      });
-
-      // 2. Create receiving record
-      const receiving = await tx.inventoryReceiving.create({
-        data: {
-          locationId: input.locationId,
-          productId: input.productId,
-          supplierId: input.supplierId,
-          quantity: input.quantity,
-          unitCost: new Prisma.Decimal(input.unitCost),
-          totalCost,
-          invoiceNumber: input.invoiceNumber,
-          purchaseOrderId: input.purchaseOrderId,
-          batchNumber: input.batchNumber,
-          expiryDate: input.expiryDate,
-          manufacturingDate: input.manufacturingDate,
-          inventoryBatchId: inventoryBatch.id,
-          receivedBy: input.receivedBy,
-          notes: input.notes,
-          clientRequestId: input.clientRequestId,
-        },
-      });
-
-      // 3. Update supplier product cost if supplier provided
-      if (input.supplierId) {
-        // Check if this supplier is already the preferred one for this product
-        const existingPreferred = await tx.supplierProduct.findFirst({
-          where: {
-            productId: input.productId,
-            isPreferred: true,
-          },
-          select: { supplierId: true },
-        });
-
-        const isNewPreferred = !existingPreferred || existingPreferred.supplierId !== input.supplierId;
-
-        // If the receiving supplier is different from current preferred,
-        // clear the old preferred flag so the new supplier becomes preferred
-        if (isNewPreferred) {
-          await tx.supplierProduct.updateMany({
-            where: {
-              productId: input.productId,
-              isPreferred: true,
-            },
-            data: { isPreferred: false },
-          });
-        }
-
-        await tx.supplierProduct.upsert({
-          where: {
-            supplierId_productId: {
-              supplierId: input.supplierId,
-              productId: input.productId,
-            },
-          },
-          create: {
-            supplierId: input.supplierId,
-            productId: input.productId,
-            cost: new Prisma.Decimal(input.unitCost),
-            isPreferred: true,
-            notes: `Auto-created from receiving ${receiving.id}`,
-          },
-          update: {
-            cost: new Prisma.Decimal(input.unitCost),
-            isPreferred: true,
-          },
-        });
-
-        // 4. Add to supplier cost history
-        const costHistoryEntry = await tx.supplierCostHistory.create({
-          data: {
-            productId: input.productId,
-            supplierId: input.supplierId,
-            unitCost: new Prisma.Decimal(input.unitCost),
-            effectiveAt: new Date(),
-            source: 'INVENTORY_UPDATE',
-            isCurrent: true,
-          },
-        });
-
-        // Mark previous history as not current
-        await tx.supplierCostHistory.updateMany({
-          where: {
-            productId: input.productId,
-            supplierId: input.supplierId,
-            isCurrent: true,
-            id: { not: costHistoryEntry.id }, // Exclude the one we just created
-          },
-          data: { isCurrent: false },
-        });
-      }
-
-      return { receiving, inventoryBatch };
+      await lockStock(tx, [{ productId: input.productId, locationId: input.locationId }]);
+      return this.createReceiving(tx, { ...input, purchaseOrderId, purchaseOrderRef });
     });
 
     // Get updated inventory total
@@ -358,15 +320,388 @@ export class InventoryReceivingService {
       },
       inventoryBatch: {
         id: result.inventoryBatch.id,
-        quantity: result.inventoryBatch.quantity,
+        quantity: result.inventoryBatch.quantity - (result.pendingCostSettled?.settledQuantity ?? 0),
         unitCost: result.inventoryBatch.unitCost.toString(),
         receivedAt: result.inventoryBatch.receivedAt,
       },
       squareSync,
+      ...(result.pendingCostSettled && { pendingCostSettled: result.pendingCostSettled }),
+      ...(result.purchaseOrder && { purchaseOrder: { id: purchaseOrderId!, ...result.purchaseOrder } }),
       inventoryTotal: inventoryTotal._sum.quantity || 0,
     };
   }
 
+  /**
+   * Receive several lines of a purchase order, one receiving per line. Each
+   * line commits on its own, so a failure (say, the order was closed
+   * meanwhile) is reported against that line and earlier lines stand.
+   */
+  async receivePurchaseOrder(purchaseOrderId: string, input: ReceivePurchaseOrderInput) {
+    const order = await this.purchaseOrders.getPurchaseOrder(purchaseOrderId, input.scopeLocationId);
+    const draft = await this.purchaseOrders.getReceivingDraft(purchaseOrderId, input.scopeLocationId);
+    const orderLines = new Map(order.lines.map(l => [l.id, l]));
+
+    const wanted: NonNullable<ReceivePurchaseOrderInput['lines']> =
+      input.lines ?? draft.lines.map(l => ({ lineId: l.lineId, quantity: l.quantity }));
+    if (wanted.length === 0) {
+      throw new BadRequestException('Nothing to receive: every line is fully received');
+    }
+    for (const line of wanted) {
+      if (!orderLines.has(line.lineId)) {
+        throw new BadRequestException(`Line ${line.lineId} is not on purchase order ${purchaseOrderId}`);
+      }
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new BadRequestException(`Quantity for line ${line.lineId} must be a positive integer`);
+      }
+    }
+
+    const results: Array<{ lineId: string; result?: ReceivingResult; error?: string }> = [];
+    for (const line of wanted) {
+      const orderLine = orderLines.get(line.lineId)!;
+      try {
+        const result = await this.receiveInventory({
+          locationId: order.locationId,
+          productId: orderLine.product.id,
+          quantity: line.quantity,
+          unitCost: line.unitCost ?? Number(orderLine.expectedUnitCost),
+          supplierId: order.supplierId,
+          invoiceNumber: input.invoiceNumber,
+          purchaseOrderId,
+          batchNumber: line.batchNumber,
+          expiryDate: line.expiryDate,
+          receivedBy: input.receivedBy,
+          syncToSquare: input.syncToSquare,
+        });
+        results.push({ lineId: line.lineId, result });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error(`[RECEIVING] PO ${purchaseOrderId} line ${line.lineId} failed: ${errorMessage}`);
+        results.push({ lineId: line.lineId, error: errorMessage });
+      }
+    }
+
+    return {
+      purchaseOrder: await this.purchaseOrders.getPurchaseOrder(purchaseOrderId),
+      results,
+    };
+  }
+
+  /**
+   * Receive a whole supplier invoice: every line becomes a batch in one
+   * transaction, or none do. The lines plus charges must add up to the
+   * printed total; the charges are then allocated over the lines so each
+   * batch's unitCost is its landed cost, while the supplier's cost and PO
+   * variance keep the invoice price.
+   */
+  async receiveInvoice(input: ReceiveInvoiceInput) {
+    if (input.clientRequestId) {
+      const existing = await this.prisma.receivingInvoice.findUnique({
+        where: { clientRequestId: input.clientRequestId },
+        select: { id: true },
+      });
+      if (existing) {
+        this.logger.log(`[RECEIVING] Duplicate clientRequestId ${input.clientRequestId} — returning existing invoice ${existing.id}`);
+        return { invoice: await this.getInvoice(existing.id), results: [] };
+      }
+    }
+
+    // Validate input
+    if (input.lines.length === 0) {
+      throw new BadRequestException('An invoice needs at least one line');
+    }
+    if (input.lines.some(l => l.quantity <= 0)) {
+      throw new BadRequestException('Quantity must be positive');
+    }
+    if (input.lines.some(l => l.unitCost < 0)) {
+      throw new BadRequestException('Unit cost cannot be negative');
+    }
+    const charges = input.charges ?? [];
+    if (charges.some(c => c.amount < 0)) {
+      throw new BadRequestException('Charges cannot be negative');
+    }
+    const method = input.allocationMethod ?? 'VALUE';
+
+    const lineCosts = input.lines.map(l => ({ quantity: l.quantity, unitCost: new Prisma.Decimal(l.unitCost) }));
+    const chargesTotal = charges.reduce((sum, c) => sum.add(c.amount), new Prisma.Decimal(0));
+    const invoiceTotal = new Prisma.Decimal(input.invoiceTotal);
+    const subtotal = invoiceSubtotal(lineCosts);
+    if (!matchesInvoiceTotal(lineCosts, chargesTotal, invoiceTotal)) {
+      throw new BadRequestException(
+        `Lines (${subtotal.toFixed(2)}) plus charges (${chargesTotal.toFixed(2)}) do not match the invoice total ${invoiceTotal.toFixed(2)}`,
+      );
+    }
+
+    // Check products and location exist
+    const productIds = [...new Set(input.lines.map(l => l.productId))];
+    const found = await this.prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true },
+    });
+    const missing = productIds.filter(id => !found.some(p => p.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Product(s) not found: ${missing.join(', ')}`);
+    }
+
+    const location = await this.prisma.location.findUnique({
+      where: { id: input.locationId },
+    });
+    if (!location) {
+      throw new NotFoundException(`Location ${input.locationId} not found`);
+    }
+
+    const { purchaseOrderId, purchaseOrderRef, supplierId } = await this.resolvePurchaseOrder(input);
+    if (supplierId) {
+      const supplier = await this.prisma.supplier.findUnique({
+        where: { id: supplierId },
+      });
+      if (!supplier) {
+        throw new NotFoundException(`Supplier ${supplierId} not found`);
+      }
+    }
+
+    const allocated = allocateCharges(lineCosts, chargesTotal, method);
+
+    this.logger.log(
+      `[RECEIVING] Receiving invoice ${input.invoiceNumber ?? '(no number)'}: ${input.lines.length} line(s), ` +
+        `charges ${chargesTotal.toFixed(2)} by ${method} at location ${input.locationId}`,
+    );
+
+    const { invoice, created } = await this.prisma.$transaction(
+      async (tx) => {
+        // Every line's product up front, in lock order, before any batch is created
+        await lockStock(tx, input.lines.map(l => ({ productId: l.productId, locationId: input.locationId })));
+
+        const invoice = await tx.receivingInvoice.create({
+          data: {
+            locationId: input.locationId,
+            supplierId,
+            invoiceNumber: input.invoiceNumber,
+            invoiceDate: input.invoiceDate,
+            subtotal,
+            charges: charges.map(c => ({ description: c.description, amount: c.amount })),
+            chargesTotal,
+            allocationMethod: method,
+            invoiceTotal,
+            clientRequestId: input.clientRequestId,
+            receivedBy: input.receivedBy,
+            notes: input.notes,
+          },
+        });
+
+        const created: Array<Awaited<ReturnType<InventoryReceivingService['createReceiving']>>> = [];
+        for (const [i, line] of input.lines.entries()) {
+          created.push(
+            await this.createReceiving(tx, {
+              ...line,
+              locationId: input.locationId,
+              supplierId,
+              unitCost: allocated[i].landedUnitCost,
+              supplierUnitCost: line.unitCost,
+              invoiceId: invoice.id,
+              invoiceNumber: input.invoiceNumber,
+              purchaseOrderId,
+              purchaseOrderRef,
+              receivedBy: input.receivedBy,
+            }),
+          );
+        }
+        return { invoice, created };
+      },
+      { timeout: 30000 },
+    );
+
+    this.logger.log(`[RECEIVING] Created invoice ${invoice.id} with ${created.length} receiving(s)`);
+
+    // Optionally sync each line to Square; the stock is booked either way
+    const results: Array<{
+      receivingId: string;
+      pendingCostSettled?: PendingCostSettlementResult;
+      purchaseOrder?: PurchaseOrderReceipt & { id: string };
+      squareSync?: { synced: boolean; error?: string };
+    }> = [];
+    for (const line of created) {
+      let squareSync: { synced: boolean; error?: string } | undefined;
+      if (input.syncToSquare) {
+        squareSync = await this.syncToSquare(input.locationId, line.receiving.productId, line.receiving.quantity);
+        await this.prisma.inventoryReceiving.update({
+          where: { id: line.receiving.id },
+          data: {
+            squareSynced: squareSync.synced,
+            squareSyncedAt: squareSync.synced ? new Date() : null,
+            squareSyncError: squareSync.error || null,
+          },
+        });
+      }
+      results.push({
+        receivingId: line.receiving.id,
+        ...(line.pendingCostSettled && { pendingCostSettled: line.pendingCostSettled }),
+        ...(line.purchaseOrder && { purchaseOrder: { id: purchaseOrderId!, ...line.purchaseOrder } }),
+        squareSync,
+      });
+    }
+
+    return { invoice: await this.getInvoice(invoice.id), results };
+  }
+
+  /**
+   * Receiving against a purchase order. Older clients send their free-text
+   * PO number in purchaseOrderId; with no order behind it, it is kept as the
+   * reference that field used to be. A real order supplies the supplier.
+   */
+  private async resolvePurchaseOrder(input: {
+    locationId: string;
+    supplierId?: string;
+    purchaseOrderId?: string;
+    purchaseOrderRef?: string;
+  }): Promise<{ purchaseOrderId?: string; purchaseOrderRef?: string; supplierId?: string }> {
+    if (!input.purchaseOrderId) {
+      return { purchaseOrderRef: input.purchaseOrderRef, supplierId: input.supplierId };
+    }
+    const isOrder = await this.prisma.purchaseOrder.count({ where: { id: input.purchaseOrderId } });
+    if (!isOrder) {
+      return { purchaseOrderRef: input.purchaseOrderRef ?? input.purchaseOrderId, supplierId: input.supplierId };
+    }
+    const order = await this.purchaseOrders.validateReceipt(input.purchaseOrderId, input.locationId, input.supplierId);
+    return { purchaseOrderId: input.purchaseOrderId, purchaseOrderRef: input.purchaseOrderRef, supplierId: order.supplierId };
+  }
+
+  /**
+   * The writes behind one received line, inside the caller's transaction,
+   * which must hold the product's stock lock so a pending-cost sale can't
+   * commit between the batch and its settlement: the batch, pending-cost settlement, the PO line, the receiving record
+   * and the supplier's current cost. unitCost is what the batch carries;
+   * supplierUnitCost (the invoice price, before allocated charges) is what
+   * the supplier's cost and PO variance are measured in — the same figure
+   * for a single receiving.
+   */
+  private async createReceiving(tx: Prisma.TransactionClient, input: ReceivingLineInput) {
+    const totalCost = new Prisma.Decimal(input.unitCost).mul(input.quantity);
+    const supplierUnitCost = new Prisma.Decimal(input.supplierUnitCost ?? input.unitCost);
+
+    // 1. Create inventory batch
+    const inventoryBatch = await tx.inventory.create({
+      data: {
+        locationId: input.locationId,
+        productId: input.productId,
+        quantity: input.quantity,
+        receivedAt: new Date(),
+        unitCost: new Prisma.Decimal(input.unitCost),
+        source: 'PURCHASE',
+        batchNumber: input.batchNumber,
+        expiryDate: input.expiryDate,
+      },
+    });
+
+    // 2. Settle units sold while the system showed none on hand
+    const pendingCostSettled = await this.pendingCost.settleFromBatch(tx, inventoryBatch);
+
+    // 3. Book the units onto the purchase order line, flagging variances
+    const purchaseOrder = input.purchaseOrderId
+      ? await this.purchaseOrders.applyReceipt(tx, {
+          purchaseOrderId: input.purchaseOrderId,
+          productId: input.productId,
+          quantity: input.quantity,
+          unitCost: supplierUnitCost,
+        })
+      : null;
+
+    // 4. Create receiving record
+    const receiving = await tx.inventoryReceiving.create({
+      data: {
+        locationId: input.locationId,
+        productId: input.productId,
+        supplierId: input.supplierId,
+        quantity: input.quantity,
+        unitCost: new Prisma.Decimal(input.unitCost),
+        totalCost,
+        invoiceNumber: input.invoiceNumber,
+        invoiceId: input.invoiceId,
+        invoiceUnitCost: input.supplierUnitCost !== undefined ? supplierUnitCost : undefined,
+        purchaseOrderRef: input.purchaseOrderRef,
+        purchaseOrderId: input.purchaseOrderId,
+        purchaseOrderLineId: purchaseOrder?.lineId,
+        batchNumber: input.batchNumber,
+        expiryDate: input.expiryDate,
+        manufacturingDate: input.manufacturingDate,
+        inventoryBatchId: inventoryBatch.id,
+        receivedBy: input.receivedBy,
+        notes: input.notes,
+        clientRequestId: input.clientRequestId,
+      },
+    });
+
+    // 5. Update supplier product cost if supplier provided
+    if (input.supplierId) {
+      // Check if this supplier is already the preferred one for this product
+      const existingPreferred = await tx.supplierProduct.findFirst({
+        where: {
+          productId: input.productId,
+          isPreferred: true,
+        },
+        select: { supplierId: true },
+      });
+
+      const isNewPreferred = !existingPreferred || existingPreferred.supplierId !== input.supplierId;
+
+      // If the receiving supplier is different from current preferred,
+      // clear the old preferred flag so the new supplier becomes preferred
+      if (isNewPreferred) {
+        await tx.supplierProduct.updateMany({
+          where: {
+            productId: input.productId,
+            isPreferred: true,
+          },
+          data: { isPreferred: false },
+        });
+      }
+
+      await tx.supplierProduct.upsert({
+        where: {
+          supplierId_productId: {
+            supplierId: input.supplierId,
+            productId: input.productId,
+          },
+        },
+        create: {
+          supplierId: input.supplierId,
+          productId: input.productId,
+          cost: supplierUnitCost,
+          isPreferred: true,
+          notes: `Auto-created from receiving ${receiving.id}`,
+        },
+        update: {
+          cost: supplierUnitCost,
+          isPreferred: true,
+        },
+      });
+
+      // 6. Add to supplier cost history
+      const costHistoryEntry = await tx.supplierCostHistory.create({
+        data: {
+          productId: input.productId,
+          supplierId: input.supplierId,
+          unitCost: supplierUnitCost,
+          effectiveAt: new Date(),
+          source: 'INVENTORY_UPDATE',
+          isCurrent: true,
+        },
+      });
+
+      // Mark previous history as not current
+      await tx.supplierCostHistory.updateMany({
+        where: {
+          productId: input.productId,
+          supplierId: input.supplierId,
+          isCurrent: true,
+          id: { not: costHistoryEntry.id }, // Exclude the one we just created
+        },
+        data: { isCurrent: false },
+      });
+    }
+
+    return { receiving, inventoryBatch, pendingCostSettled, purchaseOrder };
+  }
+
   private async findByClientRequestId(clientRequestId: string): Promise<ReceivingResult | null> {
     const existing = await this.prisma.inventoryReceiving.findUnique({
       where: { clientRequestId },
@@ -404,6 +739,39 @@ export class InventoryReceivingService {
   // Query methods
   // --------------------------------------------------------------------------
 
+  /** An invoice with its lines; each line shows the charges allocated to it. */
+  async getInvoice(invoiceId: string, scopeLocationId?: string) {
+    const invoice = await this.prisma.receivingInvoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        location: { select: { id: true, name: true } },
+        supplier: { select: { id: true, name: true } },
+        receivings: {
+          include: { product: { select: { id: true, name: true, sku: true } } },
+          orderBy: { receivedAt: 'asc' },
+        },
+      },
+    });
+
+    if (!invoice || (scopeLocationId && invoice.locationId !== scopeLocationId)) {
+      throw new NotFoundException(`Invoice ${invoiceId} not found`);
+    }
+
+    return {
+      ...invoice,
+      subtotal: invoice.subtotal.toString(),
+      chargesTotal: invoice.chargesTotal.toString(),
+      invoiceTotal: invoice.invoiceTotal.toString(),
+      receivings: invoice.receivings.map(r => ({
+        ...r,
+        unitCost: r.unitCost.toString(),
+        totalCost: r.totalCost.toString(),
+        invoiceUnitCost: r.invoiceUnitCost?.toString() ?? null,
+        allocatedCharges: r.invoiceUnitCost ? r.unitCost.sub(r.invoiceUnitCost).mul(r.quantity).toString() : null,
+      })),
+    };
+  }
+
   async getReceiving(receivingId: string) {
     const receiving = await this.prisma.inventoryReceiving.findUnique({
       where: { id: receivingId },
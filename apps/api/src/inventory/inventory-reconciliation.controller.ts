@@ -186,7 +186,7 @@ export class InventoryReconciliationController {
 
   /**
    * Verify FIFO compliance for a sale
-   * Checks that inventory was consumed in correct chronological order
+   * Checks each item against the policy it was sold under (FIFO or FEFO)
    */
   @Get('verify-fifo/:saleId')
   async verifyFIFOCompliance(@Param('saleId') saleId: string) {
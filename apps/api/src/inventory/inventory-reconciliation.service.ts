@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { Prisma } from '@prisma/client';
+import { Prisma, type ConsumptionPolicy } from '@prisma/client';
+import { findSkippedBatches } from './consumption-policy';
 
 /**
  * Reconciliation result for a single product/location
@@ -19,6 +20,7 @@ export interface ProductReconciliation {
   openingBalance: number;
   totalReceived: number;  // From purchases/adjustments (future)
   totalConsumed: number;  // From InventoryConsumption records
+  totalVoided: number;    // Consumed units returned to batches by SaleVoid
   expectedQuantity: number;
   
   // Discrepancy
@@ -60,8 +62,9 @@ export interface ConsumptionSummary {
   periodStart: Date;
   periodEnd: Date;
   
-  totalQuantityConsumed: number;
+  totalQuantityConsumed: number; // Net of voided sales
   totalCostConsumed: Prisma.Decimal;
+  totalQuantityVoided: number;
   averageUnitCost: Prisma.Decimal;
   
   saleCount: number;
@@ -127,6 +130,20 @@ export class InventoryReconciliationService {
 
     const totalConsumed = consumptions.reduce((sum, c) => sum + c.quantity, 0);
 
+    // Voided sales keep their consumption rows (append-only) but put the
+    // units back in the batches, so they must not count as gone.
+    const voidLines = await this.prisma.saleVoidLine.findMany({
+      where: {
+        inventory: {
+          productId,
+          locationId,
+        },
+      },
+      select: { quantity: true },
+    });
+
+    const totalVoided = voidLines.reduce((sum, v) => sum + v.quantity, 0);
+
     // Calculate opening balance (sum of all batch quantities when received)
     // This is the initial quantity before any consumption
     const openingBalance = batches.reduce((sum, b) => {
@@ -150,9 +167,10 @@ export class InventoryReconciliationService {
       currentQuantity,
       currentValue,
       
-      openingBalance: currentQuantity + totalConsumed, // Reconstructed
+      openingBalance: currentQuantity + totalConsumed - totalVoided, // Reconstructed
       totalReceived: 0, // Future: from purchase orders
       totalConsumed,
+      totalVoided,
       expectedQuantity: currentQuantity + totalConsumed - totalConsumed, // = currentQuantity
       
       discrepancy,
@@ -265,12 +283,20 @@ export class InventoryReconciliationService {
         saleItem: {
           select: { saleId: true },
         },
+        voidLines: {
+          select: { quantity: true, totalCost: true },
+        },
       },
     });
 
-    const totalQuantityConsumed = consumptions.reduce((sum, c) => sum + c.quantity, 0);
+    const totalQuantityVoided = consumptions.reduce(
+      (sum, c) => sum + c.voidLines.reduce((s, v) => s + v.quantity, 0),
+      0,
+    );
+    const totalQuantityConsumed =
+      consumptions.reduce((sum, c) => sum + c.quantity, 0) - totalQuantityVoided;
     const totalCostConsumed = consumptions.reduce(
-      (sum, c) => sum.add(c.totalCost),
+      (sum, c) => c.voidLines.reduce((s, v) => s.sub(v.totalCost), sum.add(c.totalCost)),
       new Prisma.Decimal(0),
     );
 
@@ -278,8 +304,13 @@ export class InventoryReconciliationService {
       ? totalCostConsumed.div(totalQuantityConsumed)
       : new Prisma.Decimal(0);
 
-    // Count unique sales and batches
-    const uniqueSales = new Set(consumptions.map(c => c.saleItem?.saleId).filter(Boolean));
+    // Count unique sales and batches (a fully voided consumption isn't a sale)
+    const uniqueSales = new Set(
+      consumptions
+        .filter(c => c.voidLines.reduce((s, v) => s + v.quantity, 0) < c.quantity)
+        .map(c => c.saleItem?.saleId)
+        .filter(Boolean),
+    );
     const uniqueBatches = new Set(consumptions.map(c => c.inventoryId));
 
     return {
@@ -292,6 +323,7 @@ export class InventoryReconciliationService {
       
       totalQuantityConsumed,
       totalCostConsumed,
+      totalQuantityVoided,
       averageUnitCost,
       
       saleCount: uniqueSales.size,
@@ -335,14 +367,17 @@ export class InventoryReconciliationService {
   }
 
   /**
-   * Verify FIFO compliance for a sale
-   * Checks that batches were consumed in correct chronological order
+   * Verify a sale consumed batches in the order its policy requires (FIFO, or
+   * FEFO for items sold under it). An item is out of order when some batch of
+   * the same product at the sale's location sorts before the last batch the
+   * item drew from and still held stock when the sale ran.
    */
   async verifyFIFOCompliance(saleId: string): Promise<{
     isCompliant: boolean;
     violations: Array<{
       saleItemId: string;
       productId: string;
+      policy: ConsumptionPolicy;
       message: string;
     }>;
   }> {
@@ -354,12 +389,14 @@ export class InventoryReconciliationService {
             consumptions: {
               include: {
                 inventory: {
-                  select: { receivedAt: true },
+                  select: {
+                    id: true,
+                    receivedAt: true,
+                    createdAt: true,
+                    expiryDate: true,
+                  },
                 },
               },
-              orderBy: {
-                inventory: { receivedAt: 'asc' },
-              },
             },
           },
         },
@@ -373,24 +410,68 @@ export class InventoryReconciliationService {
     const violations: Array<{
       saleItemId: string;
       productId: string;
+      policy: ConsumptionPolicy;
       message: string;
     }> = [];
 
     for (const item of sale.items) {
-      const consumptions = item.consumptions;
-      
-      // Check if consumptions are in FIFO order
-      for (let i = 1; i < consumptions.length; i++) {
-        const prev = consumptions[i - 1];
-        const curr = consumptions[i];
-        
-        if (curr.inventory.receivedAt < prev.inventory.receivedAt) {
-          violations.push({
-            saleItemId: item.id,
-            productId: item.productId,
-            message: `Batch consumed out of FIFO order: batch from ${curr.inventory.receivedAt.toISOString()} consumed after batch from ${prev.inventory.receivedAt.toISOString()}`,
-          });
-        }
+      if (item.consumptions.length === 0) continue;
+      const policy = item.consumptionPolicy ?? 'FIFO';
+
+      // Pending-cost settlements land on this item later, from batches
+      // received after the sale; only what existed at sale time is judged.
+      const soldAt = new Date(Math.min(...item.consumptions.map(c => c.consumedAt.getTime())));
+      const consumed = item.consumptions
+        .filter(c => c.inventory.createdAt <= soldAt)
+        .map(c => ({
+          id: c.inventory.id,
+          receivedAt: c.inventory.receivedAt,
+          expiryDate: c.inventory.expiryDate,
+        }));
+
+      const others = await this.prisma.inventory.findMany({
+        where: {
+          productId: item.productId,
+          locationId: sale.locationId,
+          createdAt: { lte: soldAt },
+          id: { notIn: consumed.map(c => c.id) },
+        },
+        select: {
+          id: true,
+          quantity: true,
+          receivedAt: true,
+          expiryDate: true,
+          consumptions: { where: { consumedAt: { gt: soldAt } }, select: { quantity: true } },
+          refundReversals: { where: { createdAt: { gt: soldAt } }, select: { quantity: true } },
+          voidLines: { where: { createdAt: { gt: soldAt } }, select: { quantity: true } },
+        },
+      });
+
+      // Stock then = stock now + what left since - what came back since
+      const candidates = others.map(b => ({
+        id: b.id,
+        receivedAt: b.receivedAt,
+        expiryDate: b.expiryDate,
+        stockAtSale:
+          b.quantity +
+          b.consumptions.reduce((sum, c) => sum + c.quantity, 0) -
+          b.refundReversals.reduce((sum, r) => sum + r.quantity, 0) -
+          b.voidLines.reduce((sum, v) => sum + v.quantity, 0),
+      }));
+
+      for (const { batch, consumedInstead } of findSkippedBatches(consumed, candidates, policy)) {
+        violations.push({
+          saleItemId: item.id,
+          productId: item.productId,
+          policy,
+          message:
+            `Batch consumed out of ${policy} order: batch ${batch.id} (received ${batch.receivedAt.toISOString()}` +
+            (batch.expiryDate ? `, expires ${batch.expiryDate.toISOString()}` : '') +
+            `) still held ${batch.stockAtSale} unit(s) but batch ${consumedInstead.id} (received ` +
+            `${consumedInstead.receivedAt.toISOString()}` +
+            (consumedInstead.expiryDate ? `, expires ${consumedInstead.expiryDate.toISOString()}` : '') +
+            ') was drawn from',
+        });
       }
     }
 
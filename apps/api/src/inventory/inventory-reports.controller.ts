@@ -6,6 +6,7 @@ import {
   Req,
   UseGuards,
   NotFoundException,
+  BadRequestException,
 } from '@nestjs/common';
 import { InventoryReportsService } from './inventory-reports.service';
 import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
@@ -58,15 +59,28 @@ export class InventoryReportsController {
   async getInventoryValuationReport(
     @Req() req: any,
     @Query('locationId') locationId?: string,
-    @Query('productId') productId?: string
+    @Query('productId') productId?: string,
+    @Query('asOf') asOf?: string
   ) {
     const currentLocation = req.currentLocation;
     const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
 
-    const report = await this.reportsService.getInventoryValuationReport({
-      locationId: targetLocationId,
-      productId,
-    });
+    // A bare date (YYYY-MM-DD) means the close of that day
+    const parsedAsOf = asOf ? new Date(asOf) : undefined;
+    if (parsedAsOf && isNaN(parsedAsOf.getTime())) {
+      throw new BadRequestException('asOf must be a valid date');
+    }
+
+    const report = parsedAsOf
+      ? await this.reportsService.getInventoryValuationAsOf({
+          asOf: /^\d{4}-\d{2}-\d{2}$/.test(asOf!) ? endOfDay(parsedAsOf) : parsedAsOf,
+          locationId: targetLocationId,
+          productId,
+        })
+      : await this.reportsService.getInventoryValuationReport({
+          locationId: targetLocationId,
+          productId,
+        });
 
     return {
       success: true,
@@ -179,6 +193,32 @@ export class InventoryReportsController {
     };
   }
 
+  // --------------------------------------------------------------------------
+  // Sales Summary - gross vs net sales, discounts, taxes, tips, payment methods
+  // --------------------------------------------------------------------------
+  @Get('sales-summary')
+  @Roles('OWNER', 'ACCOUNTANT')
+  async getSalesSummaryReport(
+    @Req() req: any,
+    @Query('locationId') locationId?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string
+  ) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
+
+    const report = await this.reportsService.getSalesSummaryReport({
+      locationId: targetLocationId,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? endOfDay(new Date(endDate)) : undefined,
+    });
+
+    return {
+      success: true,
+      data: report,
+    };
+  }
+
   // --------------------------------------------------------------------------
   // Dashboard Summary (all key metrics in one call) - All authenticated users
   // --------------------------------------------------------------------------
@@ -236,6 +276,7 @@ export class InventoryReportsController {
           grossMarginPercent: cogs.summary.grossMarginPercent,
           totalUnitsSold: cogs.summary.totalUnitsSold,
           totalSales: cogs.summary.totalSales,
+          refunds: cogs.summary.refunds,
         },
         inventory: {
           totalUnits: valuation.summary.totalUnits,
@@ -270,6 +311,30 @@ export class InventoryReportsController {
     };
   }
 
+  // --------------------------------------------------------------------------
+  // Pending Cost - sale units still waiting on stock to be costed
+  // --------------------------------------------------------------------------
+  @Get('pending-cost')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getPendingCostReport(
+    @Req() req: any,
+    @Query('locationId') locationId?: string,
+    @Query('productId') productId?: string
+  ) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
+
+    const report = await this.reportsService.getPendingCostReport({
+      locationId: targetLocationId,
+      productId,
+    });
+
+    return {
+      success: true,
+      data: report,
+    };
+  }
+
   // --------------------------------------------------------------------------
   // Batch Detail - Full history for a single FIFO batch
   // --------------------------------------------------------------------------
@@ -1,6 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { Prisma } from '@prisma/client';
+import { SaleRefundService } from './sale-refund.service';
+import { summarizeCogsRestatements, type RestatementKind } from './cost-restatement';
+import { nearestAnchor, movementWindow, rollQuantities, unitCostAt, type BatchMovement } from './valuation-history';
 
 // ============================================================================
 // Types
@@ -15,18 +18,23 @@ interface COGSReport {
   period: DateRange;
   locationId?: string;
   summary: {
-    totalCOGS: string;
-    totalRevenue: string;
+    totalCOGS: string; // Net of refunded units
+    totalRevenue: string; // Net sales: gross sales minus refunds
     grossProfit: string;
     grossMarginPercent: string;
-    totalUnitsSold: number;
+    totalUnitsSold: number; // Net of refunded units
     totalSales: number;
+    grossSalesRevenue: string;
+    grossCOGS: string;
+    refunds: RefundSummary;
+    restatements: RestatementSummary;
   };
   byProduct: Array<{
     productId: string;
     productName: string;
     sku: string | null;
     unitsSold: number;
+    unitsRefunded: number;
     totalCost: string;
     totalRevenue: string;
     grossProfit: string;
@@ -41,6 +49,23 @@ interface COGSReport {
   }>;
 }
 
+interface RefundSummary {
+  count: number;
+  amount: string; // Money refunded
+  cost: string; // COGS reversed (restocked or later written off)
+  units: number;
+  unitemizedAmount: string; // Refunded without returning items
+}
+
+// How far batch cost revisions moved the period's COGS. Already included in
+// the report's figures; shown so a closed period's change can be explained.
+interface RestatementSummary {
+  count: number;
+  productCosts: string;
+  refundReversals: string;
+  net: string; // productCosts - refundReversals
+}
+
 interface InventoryValuationReport {
   asOfDate: Date;
   locationId?: string;
@@ -72,12 +97,21 @@ interface InventoryValuationReport {
     days60to90: { units: number; value: string };
     over90Days: { units: number; value: string };
   };
+  // Valuation as of a past date: where each location's quantities were rolled from
+  basis?: Array<{
+    locationId: string;
+    anchor: 'SNAPSHOT' | 'LIVE';
+    anchorAt: Date;
+    snapshotId: string | null;
+    movements: number;
+  }>;
 }
 
 interface ProfitMarginReport {
   period: DateRange;
   locationId?: string;
   overallMargin: string;
+  refunds: RefundSummary;
   byProduct: Array<{
     productId: string;
     productName: string;
@@ -86,6 +120,7 @@ interface ProfitMarginReport {
     profit: string;
     marginPercent: string;
     unitsSold: number;
+    unitsRefunded: number;
   }>;
   trends: Array<{
     date: string;
@@ -96,6 +131,92 @@ interface ProfitMarginReport {
   }>;
 }
 
+interface PendingCostReport {
+  asOfDate: Date;
+  locationId?: string;
+  summary: {
+    openPositions: number;
+    units: number; // Sold but not yet costed
+    productsAffected: number;
+    estimatedCost: string; // units x last known unit cost; settles at the next batch's actual cost
+  };
+  byProduct: Array<{
+    productId: string;
+    productName: string;
+    sku: string | null;
+    locationId: string;
+    locationName: string;
+    units: number;
+    positions: number;
+    oldestAt: Date;
+    lastKnownUnitCost: string | null;
+    estimatedCost: string | null;
+  }>;
+  positions: Array<{
+    id: string;
+    saleId: string;
+    saleSquareId: string;
+    saleItemId: string;
+    productId: string;
+    locationId: string;
+    quantity: number;
+    remainingQuantity: number;
+    settledCost: string;
+    createdAt: Date;
+  }>;
+}
+
+interface SalesSummaryReport {
+  period: DateRange;
+  locationId?: string;
+  summary: {
+    salesCount: number;
+    grossSales: string; // Before discounts, excluding tax
+    discounts: string;
+    netSales: string; // grossSales - discounts
+    taxes: string;
+    refunds: string;
+    netRevenue: string; // netSales + taxes - refunds (= P&L revenue.netSales)
+    serviceCharges: string;
+    tips: string;
+    totalCollected: string; // What Square took in, tips and service charges included
+    salesWithoutBreakdown: number; // Processed before capture; counted at totalRevenue as gross = net
+  };
+  byPaymentMethod: Array<{
+    type: string;
+    tenders: number;
+    amount: string; // Including tips
+    tips: string;
+  }>;
+  byDiscount: Array<{
+    name: string;
+    type: string | null;
+    percentage: string | null;
+    amount: string;
+    lines: number; // Sale lines the discount was allocated to
+  }>;
+}
+
+// Receiving metadata for batch-level detail (lot#, expiry, supplier)
+const VALUATION_BATCH_INCLUDE = {
+  product: {
+    select: { id: true, name: true, sku: true },
+  },
+  createdByReceiving: {
+    select: {
+      batchNumber: true,
+      expiryDate: true,
+      manufacturingDate: true,
+      invoiceNumber: true,
+      supplier: {
+        select: { id: true, name: true },
+      },
+    },
+  },
+} satisfies Prisma.InventoryInclude;
+
+type ValuationBatch = Prisma.InventoryGetPayload<{ include: typeof VALUATION_BATCH_INCLUDE }>;
+
 // ============================================================================
 // Service
 // ============================================================================
@@ -104,7 +225,46 @@ interface ProfitMarginReport {
 export class InventoryReportsService {
   private readonly logger = new Logger(InventoryReportsService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly refunds: SaleRefundService,
+  ) {}
+
+  private toRefundSummary(totals: Awaited<ReturnType<SaleRefundService['getRefundTotals']>>): RefundSummary {
+    return {
+      count: totals.count,
+      amount: totals.amount.toString(),
+      cost: totals.cost.toString(),
+      units: totals.units,
+      unitemizedAmount: totals.unitemizedAmount.toString(),
+    };
+  }
+
+  private async getCogsRestatements(options: { locationId?: string } & DateRange): Promise<RestatementSummary> {
+    const { locationId, startDate, endDate } = options;
+    const rows = await this.prisma.costRestatement.findMany({
+      where: {
+        kind: { in: ['SALE', 'REFUND'] },
+        // Voided sales (and refunds folded into their void) are out of the reports
+        sale: { saleVoid: null, ...(locationId && { locationId }) },
+        ...((startDate || endDate) && {
+          effectiveAt: {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+          },
+        }),
+      },
+      select: { kind: true, delta: true },
+    });
+
+    const totals = summarizeCogsRestatements(rows.map(r => ({ kind: r.kind as RestatementKind, delta: r.delta })));
+    return {
+      count: totals.count,
+      productCosts: totals.productCosts.toString(),
+      refundReversals: totals.refundReversals.toString(),
+      net: totals.net.toString(),
+    };
+  }
 
   // --------------------------------------------------------------------------
   // COGS Report (Cost of Goods Sold)
@@ -118,7 +278,9 @@ export class InventoryReportsService {
     const { locationId, startDate, endDate, groupByCategory } = options;
 
     // Build where clause for sales
+    // Voided sales were reversed in full (SaleVoid) and never count.
     const salesWhere: Prisma.SaleWhereInput = {
+      saleVoid: null,
       ...(locationId && { locationId }),
       ...((startDate || endDate) && {
         createdAt: {
@@ -156,6 +318,7 @@ export class InventoryReportsService {
       categoryId: string | null;
       categoryName: string;
       unitsSold: number;
+      unitsRefunded: number;
       totalCost: Prisma.Decimal;
       totalRevenue: Prisma.Decimal;
     }>();
@@ -184,6 +347,7 @@ export class InventoryReportsService {
             categoryId: item.product.categoryId,
             categoryName: item.product.category?.name || 'Uncategorized',
             unitsSold: item.quantity,
+            unitsRefunded: 0,
             totalCost: itemCost,
             totalRevenue: itemRevenue,
           });
@@ -195,6 +359,46 @@ export class InventoryReportsService {
       }
     }
 
+    // Net out refunds. A product refunded in this period but sold in an
+    // earlier one shows up with negative net units/revenue, which is correct
+    // for the period; it's looked up here because no sale brought it in.
+    const refundTotals = await this.refunds.getRefundTotals({ locationId, startDate, endDate });
+    const restatements = await this.getCogsRestatements({ locationId, startDate, endDate });
+    const refundOnlyIds = [...refundTotals.byProduct.keys()].filter(id => !productMap.has(id));
+    const refundOnlyProducts = refundOnlyIds.length > 0
+      ? await this.prisma.product.findMany({
+          where: { id: { in: refundOnlyIds } },
+          select: { id: true, name: true, sku: true, categoryId: true, category: { select: { name: true } } },
+        })
+      : [];
+    for (const product of refundOnlyProducts) {
+      productMap.set(product.id, {
+        productId: product.id,
+        productName: product.name,
+        sku: product.sku,
+        categoryId: product.categoryId,
+        categoryName: product.category?.name || 'Uncategorized',
+        unitsSold: 0,
+        unitsRefunded: 0,
+        totalCost: new Prisma.Decimal(0),
+        totalRevenue: new Prisma.Decimal(0),
+      });
+    }
+    for (const [productId, refunded] of refundTotals.byProduct) {
+      const p = productMap.get(productId);
+      if (!p) continue;
+      p.unitsSold -= refunded.units;
+      p.unitsRefunded += refunded.units;
+      p.totalCost = p.totalCost.sub(refunded.cost);
+      p.totalRevenue = p.totalRevenue.sub(refunded.revenue);
+    }
+
+    const grossSalesRevenue = totalRevenue;
+    const grossCOGS = totalCOGS;
+    totalRevenue = totalRevenue.sub(refundTotals.amount);
+    totalCOGS = totalCOGS.sub(refundTotals.cost);
+    totalUnitsSold -= refundTotals.units;
+
     const grossProfit = totalRevenue.sub(totalCOGS);
     const grossMarginPercent = totalRevenue.gt(0)
       ? grossProfit.div(totalRevenue).mul(100)
@@ -213,6 +417,7 @@ export class InventoryReportsService {
           productName: p.productName,
           sku: p.sku,
           unitsSold: p.unitsSold,
+          unitsRefunded: p.unitsRefunded,
           totalCost: p.totalCost.toString(),
           totalRevenue: p.totalRevenue.toString(),
           grossProfit: profit.toString(),
@@ -265,6 +470,10 @@ export class InventoryReportsService {
         grossMarginPercent: grossMarginPercent.toFixed(2),
         totalUnitsSold,
         totalSales: sales.length,
+        grossSalesRevenue: grossSalesRevenue.toString(),
+        grossCOGS: grossCOGS.toString(),
+        refunds: this.toRefundSummary(refundTotals),
+        restatements,
       },
       byProduct,
       byCategory,
@@ -279,35 +488,196 @@ export class InventoryReportsService {
     productId?: string;
   }): Promise<InventoryValuationReport> {
     const { locationId, productId } = options;
-    const now = new Date();
 
     // Get all inventory batches with positive quantity
-    // Include receiving metadata for batch-level detail (lot#, expiry, supplier)
     const inventoryBatches = await this.prisma.inventory.findMany({
       where: {
         quantity: { gt: 0 },
         ...(locationId && { locationId }),
         ...(productId && { productId }),
       },
-      include: {
-        product: {
-          select: { id: true, name: true, sku: true },
-        },
-        createdByReceiving: {
-          select: {
-            batchNumber: true,
-            expiryDate: true,
-            manufacturingDate: true,
-            invoiceNumber: true,
-            supplier: {
-              select: { id: true, name: true },
-            },
-          },
-        },
-      },
+      include: VALUATION_BATCH_INCLUDE,
       orderBy: [{ productId: 'asc' }, { receivedAt: 'asc' }],
     });
 
+    return this.buildValuationReport(inventoryBatches, new Date(), locationId);
+  }
+
+  /**
+   * Inventory valuation as of a past moment. Each location starts from its
+   * nearest anchor — the closest nightly snapshot, or live stock if that is
+   * closer — and rolls batch quantities to `asOf` through the movements
+   * recorded in between (see valuation-history.ts). Batches are valued at
+   * the unitCost they had then; cost revisions made later don't reach back.
+   */
+  async getInventoryValuationAsOf(options: {
+    asOf: Date;
+    locationId?: string;
+    productId?: string;
+  }): Promise<InventoryValuationReport> {
+    const { asOf, locationId, productId } = options;
+    const now = new Date();
+    if (asOf >= now) {
+      return this.getInventoryValuationReport({ locationId, productId });
+    }
+
+    const locations = locationId
+      ? [{ id: locationId }]
+      : await this.prisma.location.findMany({ select: { id: true } });
+
+    const quantities = new Map<string, number>();
+    const basis: NonNullable<InventoryValuationReport['basis']> = [];
+    for (const location of locations) {
+      const [before, after] = await Promise.all([
+        this.prisma.inventorySnapshot.findFirst({
+          where: { locationId: location.id, takenAt: { lte: asOf } },
+          orderBy: { takenAt: 'desc' },
+        }),
+        this.prisma.inventorySnapshot.findFirst({
+          where: { locationId: location.id, takenAt: { gt: asOf } },
+          orderBy: { takenAt: 'asc' },
+        }),
+      ]);
+      const anchor = nearestAnchor(
+        [...(before ? [before] : []), ...(after ? [after] : []), { id: null, takenAt: now }],
+        asOf,
+      )!;
+
+      const atAnchor = anchor.id
+        ? await this.prisma.inventorySnapshotLine.findMany({
+            where: { snapshotId: anchor.id, ...(productId && { productId }) },
+            select: { inventoryId: true, quantity: true },
+          })
+        : await this.prisma.inventory.findMany({
+            where: { locationId: location.id, quantity: { gt: 0 }, ...(productId && { productId }) },
+            select: { id: true, quantity: true },
+          });
+
+      const movements = await this.loadBatchMovements(location.id, movementWindow(anchor.takenAt, asOf), productId);
+      const rolled = rollQuantities(
+        new Map(atAnchor.map(b => ['inventoryId' in b ? b.inventoryId : b.id, b.quantity])),
+        anchor.takenAt,
+        asOf,
+        movements,
+      );
+      for (const [inventoryId, quantity] of rolled) {
+        quantities.set(inventoryId, quantity);
+      }
+      basis.push({
+        locationId: location.id,
+        anchor: anchor.id ? 'SNAPSHOT' : 'LIVE',
+        anchorAt: anchor.takenAt,
+        snapshotId: anchor.id,
+        movements: movements.length,
+      });
+    }
+
+    // Batches deleted since (discontinued products removed) can't be valued
+    const batchIds = [...quantities.keys()];
+    const [batches, revisions] = await Promise.all([
+      this.prisma.inventory.findMany({
+        where: { id: { in: batchIds } },
+        include: VALUATION_BATCH_INCLUDE,
+        orderBy: [{ productId: 'asc' }, { receivedAt: 'asc' }],
+      }),
+      this.prisma.batchCostRevision.findMany({
+        where: { inventoryId: { in: batchIds }, revisedAt: { gt: asOf } },
+        select: { inventoryId: true, revisedAt: true, previousUnitCost: true },
+      }),
+    ]);
+
+    const historical = batches.map(b => ({
+      ...b,
+      quantity: quantities.get(b.id)!,
+      unitCost: unitCostAt(b.unitCost, revisions.filter(r => r.inventoryId === b.id), asOf),
+    }));
+
+    this.logger.log(
+      `[VALUATION] As of ${asOf.toISOString()}: ${historical.length} batch(es) across ${locations.length} location(s)`,
+    );
+    return { ...this.buildValuationReport(historical, asOf, locationId), basis };
+  }
+
+  /**
+   * Every change to a location's batch quantities in after < at <= upTo.
+   * Each stock write leaves a dated record: consumptions take units out; a
+   * new batch, a refund restock, a void and the reversal of a removal put
+   * units back. A new batch counts at its original quantity, worked out from
+   * its current one and everything recorded against it since.
+   */
+  private async loadBatchMovements(
+    locationId: string,
+    window: { after: Date; upTo: Date },
+    productId?: string,
+  ): Promise<BatchMovement[]> {
+    const inWindow = { gt: window.after, lte: window.upTo };
+    const batchScope = { locationId, ...(productId && { productId }) };
+
+    const [consumptions, createdBatches, restocks, voidLines, reversals] = await Promise.all([
+      this.prisma.inventoryConsumption.findMany({
+        where: { consumedAt: inWindow, inventory: batchScope },
+        select: { inventoryId: true, quantity: true, consumedAt: true },
+      }),
+      this.prisma.inventory.findMany({
+        where: { ...batchScope, createdAt: inWindow },
+        select: { id: true, quantity: true, createdAt: true },
+      }),
+      this.prisma.saleItemReversal.findMany({
+        where: { createdAt: inWindow, inventory: batchScope },
+        select: { inventoryId: true, quantity: true, createdAt: true },
+      }),
+      this.prisma.saleVoidLine.findMany({
+        where: { createdAt: inWindow, inventory: batchScope },
+        select: { inventoryId: true, quantity: true, createdAt: true },
+      }),
+      this.prisma.inventoryAdjustment.findMany({
+        where: { ...batchScope, reversesId: { not: null }, quantity: { gt: 0 }, adjustedAt: inWindow },
+        select: { adjustedAt: true, reverses: { select: { consumptions: { select: { inventoryId: true, quantity: true } } } } },
+      }),
+    ]);
+
+    const movements: BatchMovement[] = [
+      ...consumptions.map(c => ({ inventoryId: c.inventoryId, at: c.consumedAt, quantity: -c.quantity })),
+      ...restocks.map(r => ({ inventoryId: r.inventoryId, at: r.createdAt, quantity: r.quantity })),
+      ...voidLines.map(v => ({ inventoryId: v.inventoryId, at: v.createdAt, quantity: v.quantity })),
+      ...reversals.flatMap(r =>
+        (r.reverses?.consumptions ?? []).map(c => ({ inventoryId: c.inventoryId, at: r.adjustedAt, quantity: c.quantity })),
+      ),
+    ];
+
+    if (createdBatches.length > 0) {
+      const ids = createdBatches.map(b => b.id);
+      const [consumed, restocked, voided, restored] = await Promise.all([
+        this.prisma.inventoryConsumption.groupBy({ by: ['inventoryId'], where: { inventoryId: { in: ids } }, _sum: { quantity: true } }),
+        this.prisma.saleItemReversal.groupBy({ by: ['inventoryId'], where: { inventoryId: { in: ids } }, _sum: { quantity: true } }),
+        this.prisma.saleVoidLine.groupBy({ by: ['inventoryId'], where: { inventoryId: { in: ids } }, _sum: { quantity: true } }),
+        this.prisma.inventoryConsumption.findMany({
+          where: { inventoryId: { in: ids }, adjustment: { reversedBy: { quantity: { gt: 0 } } } },
+          select: { inventoryId: true, quantity: true },
+        }),
+      ]);
+
+      const net = new Map<string, number>();
+      const add = (inventoryId: string, quantity: number) => net.set(inventoryId, (net.get(inventoryId) ?? 0) + quantity);
+      consumed.forEach(c => add(c.inventoryId, c._sum.quantity ?? 0));
+      restocked.forEach(r => add(r.inventoryId, -(r._sum.quantity ?? 0)));
+      voided.forEach(v => add(v.inventoryId, -(v._sum.quantity ?? 0)));
+      restored.forEach(c => add(c.inventoryId, -c.quantity));
+
+      for (const batch of createdBatches) {
+        movements.push({ inventoryId: batch.id, at: batch.createdAt, quantity: batch.quantity + (net.get(batch.id) ?? 0) });
+      }
+    }
+
+    return movements;
+  }
+
+  /** Value batches (at the quantity and unitCost given) with ages as of `now`. */
+  private buildValuationReport(
+    inventoryBatches: ValuationBatch[],
+    now: Date,
+    locationId?: string,
+  ): InventoryValuationReport {
     // Group by product
     const productMap = new Map<string, {
       productId: string;
@@ -369,7 +739,8 @@ export class InventoryReportsService {
           agingSummary.over90Days.value = agingSummary.over90Days.value.add(value);
         }
 
-        // Pull batch-level metadata from the linked receiving record
+        // Lot/expiry live on the batch (also set on transferred stock);
+        // supplier metadata comes from the linked receiving record
         const receiving = b.createdByReceiving;
 
         return {
@@ -379,9 +750,9 @@ export class InventoryReportsService {
           value: value.toString(),
           receivedAt: b.receivedAt,
           age: ageDays,
-          source: b.source ?? null,           // "PURCHASE", "OPENING_BALANCE", "ADJUSTMENT"
-          batchNumber: receiving?.batchNumber ?? null,
-          expiryDate: receiving?.expiryDate ?? null,
+          source: b.source ?? null,           // "PURCHASE", "OPENING_BALANCE", "ADJUSTMENT", "TRANSFER"
+          batchNumber: b.batchNumber,
+          expiryDate: b.expiryDate,
           manufacturingDate: receiving?.manufacturingDate ?? null,
           invoiceNumber: receiving?.invoiceNumber ?? null,
           supplierId: receiving?.supplier?.id ?? null,
@@ -450,6 +821,7 @@ export class InventoryReportsService {
     const { locationId, startDate, endDate } = options;
 
     const salesWhere: Prisma.SaleWhereInput = {
+      saleVoid: null,
       ...(locationId && { locationId }),
       ...((startDate || endDate) && {
         createdAt: {
@@ -481,6 +853,7 @@ export class InventoryReportsService {
       revenue: Prisma.Decimal;
       cost: Prisma.Decimal;
       unitsSold: number;
+      unitsRefunded: number;
     }>();
 
     // Daily trends
@@ -512,6 +885,7 @@ export class InventoryReportsService {
             revenue,
             cost,
             unitsSold: item.quantity,
+            unitsRefunded: 0,
           });
         }
 
@@ -526,6 +900,41 @@ export class InventoryReportsService {
       }
     }
 
+    // Net out refunds, dated by when the money went back
+    const refundTotals = await this.refunds.getRefundTotals({ locationId, startDate, endDate });
+    totalRevenue = totalRevenue.sub(refundTotals.amount);
+    totalCost = totalCost.sub(refundTotals.cost);
+
+    const refundOnlyIds = [...refundTotals.byProduct.keys()].filter(id => !productMap.has(id));
+    const refundOnlyProducts = refundOnlyIds.length > 0
+      ? await this.prisma.product.findMany({ where: { id: { in: refundOnlyIds } }, select: { id: true, name: true } })
+      : [];
+    for (const product of refundOnlyProducts) {
+      productMap.set(product.id, {
+        productId: product.id,
+        productName: product.name,
+        revenue: new Prisma.Decimal(0),
+        cost: new Prisma.Decimal(0),
+        unitsSold: 0,
+        unitsRefunded: 0,
+      });
+    }
+    for (const [productId, refunded] of refundTotals.byProduct) {
+      const p = productMap.get(productId);
+      if (!p) continue;
+      p.revenue = p.revenue.sub(refunded.revenue);
+      p.cost = p.cost.sub(refunded.cost);
+      p.unitsSold -= refunded.units;
+      p.unitsRefunded += refunded.units;
+    }
+
+    for (const [date, refunded] of refundTotals.byDate) {
+      const daily = dailyMap.get(date) || { revenue: new Prisma.Decimal(0), cost: new Prisma.Decimal(0) };
+      daily.revenue = daily.revenue.sub(refunded.revenue);
+      daily.cost = daily.cost.sub(refunded.cost);
+      dailyMap.set(date, daily);
+    }
+
     const totalProfit = totalRevenue.sub(totalCost);
     const overallMargin = totalRevenue.gt(0)
       ? totalProfit.div(totalRevenue).mul(100).toFixed(2)
@@ -546,6 +955,7 @@ export class InventoryReportsService {
           profit: profit.toString(),
           marginPercent: margin,
           unitsSold: p.unitsSold,
+          unitsRefunded: p.unitsRefunded,
         };
       })
       .sort((a, b) => parseFloat(b.profit) - parseFloat(a.profit));
@@ -571,6 +981,7 @@ export class InventoryReportsService {
       period: { startDate, endDate },
       locationId,
       overallMargin,
+      refunds: this.toRefundSummary(refundTotals),
       byProduct,
       trends,
     };
@@ -832,6 +1243,7 @@ export class InventoryReportsService {
 
     // 1. Get Sales Revenue and COGS
     const salesWhere: Prisma.SaleWhereInput = {
+      saleVoid: null,
       ...(locationId && { locationId }),
       ...((startDate || endDate) && {
         createdAt: {
@@ -851,9 +1263,15 @@ export class InventoryReportsService {
       _count: { id: true },
     });
 
-    const revenue = salesAgg._sum.totalRevenue || new Prisma.Decimal(0);
-    const cogs = salesAgg._sum.totalCost || new Prisma.Decimal(0);
-    const grossProfit = salesAgg._sum.grossProfit || new Prisma.Decimal(0);
+    const grossSales = salesAgg._sum.totalRevenue || new Prisma.Decimal(0);
+    const grossCogs = salesAgg._sum.totalCost || new Prisma.Decimal(0);
+
+    // Refunds reduce revenue and hand back the reversed cost; a returned unit
+    // later written off re-enters below as shrinkage via its WRITE_OFF.
+    const refundTotals = await this.refunds.getRefundTotals({ locationId, startDate, endDate });
+    const revenue = grossSales.sub(refundTotals.amount);
+    const cogs = grossCogs.sub(refundTotals.cost);
+    const grossProfit = revenue.sub(cogs);
 
     // 2. Get Operating Expenses
     const expenseWhere: Prisma.ExpenseWhereInput = {
@@ -888,6 +1306,9 @@ export class InventoryReportsService {
         },
       }),
       quantity: { lt: 0 }, // Only losses
+      // A reversed mistake and its reversal are not shrinkage
+      reversesId: null,
+      reversedBy: { is: null },
     };
 
     const adjustmentLosses = await this.prisma.inventoryAdjustment.aggregate({
@@ -897,6 +1318,13 @@ export class InventoryReportsService {
 
     const shrinkage = adjustmentLosses._sum.totalCost || new Prisma.Decimal(0);
 
+    // Batch cost revisions already restated both; reported so a closed period's change shows
+    const restatements = await this.getCogsRestatements({ locationId, startDate, endDate });
+    const shrinkageRestatement = await this.prisma.costRestatement.aggregate({
+      where: { kind: 'ADJUSTMENT', adjustment: adjustmentWhere },
+      _sum: { delta: true },
+    });
+
     // 4. Calculate Net Profit
     const operatingExpenses = totalExpenses.add(shrinkage);
     const netProfit = grossProfit.sub(operatingExpenses);
@@ -926,13 +1354,17 @@ export class InventoryReportsService {
       locationId,
       // Income Statement
       revenue: {
-        sales: revenue.toString(),
+        sales: grossSales.toString(),
+        refunds: refundTotals.amount.toString(),
+        netSales: revenue.toString(),
         // Could add other income sources here
         total: revenue.toString(),
       },
       costOfGoodsSold: {
-        productCosts: cogs.toString(),
+        productCosts: grossCogs.toString(),
+        refundReversals: refundTotals.cost.toString(),
         total: cogs.toString(),
+        restatements,
       },
       grossProfit: {
         amount: grossProfit.toString(),
@@ -941,6 +1373,7 @@ export class InventoryReportsService {
       operatingExpenses: {
         byType: expenseBreakdown,
         shrinkage: shrinkage.toString(), // Inventory losses
+        shrinkageRestated: (shrinkageRestatement._sum.delta || new Prisma.Decimal(0)).toString(),
         total: operatingExpenses.toString(),
       },
       netProfit: {
@@ -957,11 +1390,206 @@ export class InventoryReportsService {
         netProfit: netProfit.toString(),
         netMarginPercent: netMarginPercent.toFixed(2),
         salesCount: salesAgg._count.id,
+        refundCount: refundTotals.count,
         expenseCount: expenses.length,
       },
     };
   }
 
+  // --------------------------------------------------------------------------
+  // Sales Summary - gross vs net, discounts, taxes, tips and payment methods
+  // --------------------------------------------------------------------------
+  async getSalesSummaryReport(options: {
+    locationId?: string;
+    startDate?: Date;
+    endDate?: Date;
+  }): Promise<SalesSummaryReport> {
+    const { locationId, startDate, endDate } = options;
+
+    const salesWhere: Prisma.SaleWhereInput = {
+      saleVoid: null,
+      ...(locationId && { locationId }),
+      ...((startDate || endDate) && {
+        createdAt: {
+          ...(startDate && { gte: startDate }),
+          ...(endDate && { lte: endDate }),
+        },
+      }),
+    };
+
+    const [captured, legacy, tenderGroups, discountGroups, refundTotals] = await Promise.all([
+      this.prisma.sale.aggregate({
+        where: { ...salesWhere, grossSales: { not: null } },
+        _sum: {
+          grossSales: true,
+          discountTotal: true,
+          taxTotal: true,
+          tipTotal: true,
+          serviceChargeTotal: true,
+          totalCollected: true,
+        },
+        _count: { id: true },
+      }),
+      this.prisma.sale.aggregate({
+        where: { ...salesWhere, grossSales: null },
+        _sum: { totalRevenue: true },
+        _count: { id: true },
+      }),
+      this.prisma.saleTender.groupBy({
+        by: ['type'],
+        where: { sale: salesWhere },
+        _sum: { amount: true, tipAmount: true },
+        _count: { id: true },
+      }),
+      this.prisma.saleDiscount.groupBy({
+        by: ['name', 'type', 'percentage'],
+        where: { sale: salesWhere },
+        _sum: { amount: true },
+        _count: { id: true },
+      }),
+      this.refunds.getRefundTotals({ locationId, startDate, endDate }),
+    ]);
+
+    const zero = new Prisma.Decimal(0);
+    const legacyRevenue = legacy._sum.totalRevenue || zero;
+
+    const grossSales = (captured._sum.grossSales || zero).add(legacyRevenue);
+    const discounts = captured._sum.discountTotal || zero;
+    const netSales = grossSales.sub(discounts);
+    const taxes = captured._sum.taxTotal || zero;
+    const netRevenue = netSales.add(taxes).sub(refundTotals.amount);
+    const totalCollected = (captured._sum.totalCollected || zero).add(legacyRevenue);
+
+    return {
+      period: { startDate, endDate },
+      locationId,
+      summary: {
+        salesCount: captured._count.id + legacy._count.id,
+        grossSales: grossSales.toString(),
+        discounts: discounts.toString(),
+        netSales: netSales.toString(),
+        taxes: taxes.toString(),
+        refunds: refundTotals.amount.toString(),
+        netRevenue: netRevenue.toString(),
+        serviceCharges: (captured._sum.serviceChargeTotal || zero).toString(),
+        tips: (captured._sum.tipTotal || zero).toString(),
+        totalCollected: totalCollected.toString(),
+        salesWithoutBreakdown: legacy._count.id,
+      },
+      byPaymentMethod: tenderGroups
+        .map(group => ({
+          type: group.type,
+          tenders: group._count.id,
+          amount: (group._sum.amount || zero).toString(),
+          tips: (group._sum.tipAmount || zero).toString(),
+        }))
+        .sort((a, b) => parseFloat(b.amount) - parseFloat(a.amount)),
+      byDiscount: discountGroups
+        .map(group => ({
+          name: group.name,
+          type: group.type,
+          percentage: group.percentage,
+          amount: (group._sum.amount || zero).toString(),
+          lines: group._count.id,
+        }))
+        .sort((a, b) => parseFloat(b.amount) - parseFloat(a.amount)),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Pending Cost Report - open oversold positions (Location.allowPendingCost)
+  // --------------------------------------------------------------------------
+  async getPendingCostReport(options: { locationId?: string; productId?: string }): Promise<PendingCostReport> {
+    const positions = await this.prisma.pendingCostConsumption.findMany({
+      where: {
+        remainingQuantity: { gt: 0 },
+        ...(options.locationId && { locationId: options.locationId }),
+        ...(options.productId && { productId: options.productId }),
+      },
+      include: {
+        product: { select: { name: true, sku: true } },
+        location: { select: { name: true } },
+        saleItem: { select: { sale: { select: { id: true, squareId: true } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Latest batch cost per product/location — only an estimate, the actual
+    // cost is whatever the settling batch was bought at.
+    const lastBatches = positions.length
+      ? await this.prisma.inventory.findMany({
+          where: {
+            productId: { in: [...new Set(positions.map(p => p.productId))] },
+            locationId: { in: [...new Set(positions.map(p => p.locationId))] },
+          },
+          orderBy: { receivedAt: 'desc' },
+          distinct: ['productId', 'locationId'],
+          select: { productId: true, locationId: true, unitCost: true },
+        })
+      : [];
+    const lastCost = new Map(lastBatches.map(b => [`${b.productId}:${b.locationId}`, b.unitCost]));
+
+    const byProduct = new Map<string, PendingCostReport['byProduct'][number]>();
+    let units = 0;
+    let estimatedCost = new Prisma.Decimal(0);
+
+    for (const position of positions) {
+      const key = `${position.productId}:${position.locationId}`;
+      let row = byProduct.get(key);
+      if (!row) {
+        const unitCost = lastCost.get(key);
+        row = {
+          productId: position.productId,
+          productName: position.product.name,
+          sku: position.product.sku,
+          locationId: position.locationId,
+          locationName: position.location.name,
+          units: 0,
+          positions: 0,
+          oldestAt: position.createdAt,
+          lastKnownUnitCost: unitCost ? unitCost.toString() : null,
+          estimatedCost: null,
+        };
+        byProduct.set(key, row);
+      }
+      row.units += position.remainingQuantity;
+      row.positions++;
+      units += position.remainingQuantity;
+    }
+
+    for (const row of byProduct.values()) {
+      if (row.lastKnownUnitCost !== null) {
+        const cost = new Prisma.Decimal(row.lastKnownUnitCost).mul(row.units);
+        row.estimatedCost = cost.toString();
+        estimatedCost = estimatedCost.add(cost);
+      }
+    }
+
+    return {
+      asOfDate: new Date(),
+      locationId: options.locationId,
+      summary: {
+        openPositions: positions.length,
+        units,
+        productsAffected: byProduct.size,
+        estimatedCost: estimatedCost.toString(),
+      },
+      byProduct: [...byProduct.values()].sort((a, b) => b.units - a.units),
+      positions: positions.map(p => ({
+        id: p.id,
+        saleId: p.saleItem.sale.id,
+        saleSquareId: p.saleItem.sale.squareId,
+        saleItemId: p.saleItemId,
+        productId: p.productId,
+        locationId: p.locationId,
+        quantity: p.quantity,
+        remainingQuantity: p.remainingQuantity,
+        settledCost: p.settledCost.toString(),
+        createdAt: p.createdAt,
+      })),
+    };
+  }
+
   // ============================================================================
   // Batch Detail - Full history for a single inventory batch
   // ============================================================================
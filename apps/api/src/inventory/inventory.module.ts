@@ -11,12 +11,37 @@ import { InventoryReportsController } from './inventory-reports.controller';
 import { InventoryReportsService } from './inventory-reports.service';
 import { ExpenseController } from './expense.controller';
 import { ExpenseService } from './expense.service';
+import { SaleRefundController } from './sale-refund.controller';
+import { SaleRefundService } from './sale-refund.service';
+import { PendingCostService } from './pending-cost.service';
+import { ConsumptionPolicyService } from './consumption-policy.service';
+import { InventoryDriftController } from './inventory-drift.controller';
+import { InventoryDriftService } from './inventory-drift.service';
+import { UnmappedSaleLineController } from './unmapped-sale-line.controller';
+import { UnmappedSaleLineService } from './unmapped-sale-line.service';
+import { TransferOrderController } from './transfer-order.controller';
+import { TransferOrderService } from './transfer-order.service';
+import { CountSessionController } from './count-session.controller';
+import { CountSessionService } from './count-session.service';
+import { PurchaseOrderController } from './purchase-order.controller';
+import { PurchaseOrderService } from './purchase-order.service';
+import { ReorderController } from './reorder.controller';
+import { ReorderService } from './reorder.service';
+import { RecallController } from './recall.controller';
+import { RecallService } from './recall.service';
+import { BatchCostController } from './batch-cost.controller';
+import { BatchCostService } from './batch-cost.service';
+import { SquareOutboxController } from './square-outbox.controller';
+import { SquareOutboxService } from './square-outbox.service';
+import { RackController } from './rack.controller';
+import { RackService } from './rack.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuthModule } from '../auth/auth.module';
 import { ProductsModule } from '../products/products.module';
+import { InventoryMigrationModule } from '../inventory-migration/inventory-migration.module';
 
 @Module({
-  imports: [forwardRef(() => AuthModule), ProductsModule],
+  imports: [forwardRef(() => AuthModule), ProductsModule, InventoryMigrationModule],
   controllers: [
     InventoryReconciliationController,
     InventoryAdjustmentController,
@@ -24,6 +49,17 @@ import { ProductsModule } from '../products/products.module';
     InventoryReceivingController,
     InventoryReportsController,
     ExpenseController,
+    SaleRefundController,
+    InventoryDriftController,
+    UnmappedSaleLineController,
+    TransferOrderController,
+    CountSessionController,
+    PurchaseOrderController,
+    ReorderController,
+    RecallController,
+    BatchCostController,
+    SquareOutboxController,
+    RackController,
   ],
   providers: [
     InventoryReconciliationService,
@@ -32,6 +68,19 @@ import { ProductsModule } from '../products/products.module';
     InventoryReceivingService,
     InventoryReportsService,
     ExpenseService,
+    SaleRefundService,
+    PendingCostService,
+    ConsumptionPolicyService,
+    InventoryDriftService,
+    UnmappedSaleLineService,
+    TransferOrderService,
+    CountSessionService,
+    PurchaseOrderService,
+    ReorderService,
+    RecallService,
+    BatchCostService,
+    SquareOutboxService,
+    RackService,
     PrismaService,
   ],
   exports: [
@@ -41,6 +90,19 @@ import { ProductsModule } from '../products/products.module';
     InventoryReceivingService,
     InventoryReportsService,
     ExpenseService,
+    SaleRefundService,
+    PendingCostService,
+    ConsumptionPolicyService,
+    InventoryDriftService,
+    UnmappedSaleLineService,
+    TransferOrderService,
+    CountSessionService,
+    PurchaseOrderService,
+    ReorderService,
+    RecallService,
+    BatchCostService,
+    SquareOutboxService,
+    RackService,
   ],
 })
 export class InventoryModule {}
@@ -0,0 +1,50 @@
+import { Prisma } from '@prisma/client';
+import { allocateCharges, matchesInvoiceTotal } from './landed-cost';
+
+const d = (v: Prisma.Decimal.Value) => new Prisma.Decimal(v);
+
+const lines = [
+  { quantity: 10, unitCost: d('3.00') }, // 30
+  { quantity: 5, unitCost: d('14.00') }, // 70
+];
+
+describe('allocateCharges', () => {
+  it('spreads charges by line value', () => {
+    const [a, b] = allocateCharges(lines, d('20'), 'VALUE');
+    expect(a.allocatedCharges.toString()).toBe('6');
+    expect(a.landedUnitCost.toString()).toBe('3.6');
+    expect(b.allocatedCharges.toString()).toBe('14');
+    expect(b.landedUnitCost.toString()).toBe('16.8');
+  });
+
+  it('spreads charges by quantity', () => {
+    const [a, b] = allocateCharges(lines, d('15'), 'QUANTITY');
+    expect(a.allocatedCharges.toString()).toBe('10');
+    expect(b.allocatedCharges.toString()).toBe('5');
+    expect(b.landedUnitCost.toString()).toBe('15');
+  });
+
+  it('gives the rounding remainder to the last line so the total is exact', () => {
+    const three = [1, 1, 1].map(quantity => ({ quantity, unitCost: d(1) }));
+    const allocated = allocateCharges(three, d('10'), 'VALUE');
+    expect(allocated.map(l => l.allocatedCharges.toString())).toEqual(['3.3333', '3.3333', '3.3334']);
+    expect(allocated.reduce((sum, l) => sum.add(l.allocatedCharges), d(0)).toString()).toBe('10');
+  });
+
+  it('falls back to quantity when every line is free', () => {
+    const free = [
+      { quantity: 3, unitCost: d(0) },
+      { quantity: 1, unitCost: d(0) },
+    ];
+    const [a, b] = allocateCharges(free, d('8'), 'VALUE');
+    expect(a.allocatedCharges.toString()).toBe('6');
+    expect(b.landedUnitCost.toString()).toBe('2');
+  });
+});
+
+describe('matchesInvoiceTotal', () => {
+  it('accepts a total within a cent and rejects anything further off', () => {
+    expect(matchesInvoiceTotal(lines, d('20'), d('120.01'))).toBe(true);
+    expect(matchesInvoiceTotal(lines, d('20'), d('120.02'))).toBe(false);
+  });
+});
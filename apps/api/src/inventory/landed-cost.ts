@@ -0,0 +1,72 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Pure landed-cost math — no DB access. Spreads invoice-level charges
+ * (freight, handling, ...) over the invoice lines so each batch carries what
+ * the stock actually cost to get on the shelf.
+ */
+
+export type ChargeAllocationMethod = 'VALUE' | 'QUANTITY';
+
+export interface InvoiceLineCost {
+  quantity: number;
+  unitCost: Prisma.Decimal; // As printed on the invoice
+}
+
+export interface AllocatedLine {
+  lineValue: Prisma.Decimal; // quantity * unitCost
+  allocatedCharges: Prisma.Decimal;
+  landedUnitCost: Prisma.Decimal; // (lineValue + allocatedCharges) / quantity
+}
+
+// Invoices are printed to the cent; anything closer is rounding on the supplier's side
+export const INVOICE_TOTAL_TOLERANCE = new Prisma.Decimal('0.01');
+
+export function invoiceSubtotal(lines: InvoiceLineCost[]): Prisma.Decimal {
+  return lines.reduce((sum, l) => sum.add(l.unitCost.mul(l.quantity)), new Prisma.Decimal(0));
+}
+
+/** True when lines plus charges add up to the printed total, within a cent. */
+export function matchesInvoiceTotal(
+  lines: InvoiceLineCost[],
+  charges: Prisma.Decimal,
+  invoiceTotal: Prisma.Decimal,
+): boolean {
+  return invoiceSubtotal(lines).add(charges).sub(invoiceTotal).abs().lte(INVOICE_TOTAL_TOLERANCE);
+}
+
+/**
+ * Split `charges` across lines in proportion to line value or quantity. The
+ * last line takes whatever rounding leaves over, so allocations always sum
+ * to exactly `charges`. VALUE falls back to QUANTITY when every line is free
+ * (samples, no-charge replacements) — there is nothing to be proportional to.
+ */
+export function allocateCharges(
+  lines: InvoiceLineCost[],
+  charges: Prisma.Decimal,
+  method: ChargeAllocationMethod,
+): AllocatedLine[] {
+  const values = lines.map(l => l.unitCost.mul(l.quantity));
+  const totalValue = values.reduce((sum, v) => sum.add(v), new Prisma.Decimal(0));
+  const byValue = method === 'VALUE' && !totalValue.isZero();
+
+  const weights = byValue ? values : lines.map(l => new Prisma.Decimal(l.quantity));
+  const totalWeight = byValue ? totalValue : weights.reduce((sum, w) => sum.add(w), new Prisma.Decimal(0));
+
+  let allocatedSoFar = new Prisma.Decimal(0);
+  return lines.map((line, i) => {
+    const allocatedCharges =
+      i === lines.length - 1
+        ? charges.sub(allocatedSoFar)
+        : totalWeight.isZero()
+          ? new Prisma.Decimal(0)
+          : charges.mul(weights[i]).div(totalWeight).toDecimalPlaces(4);
+    allocatedSoFar = allocatedSoFar.add(allocatedCharges);
+
+    return {
+      lineValue: values[i],
+      allocatedCharges,
+      landedUnitCost: values[i].add(allocatedCharges).div(line.quantity),
+    };
+  });
+}
@@ -0,0 +1,105 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { allocateBatchToPendingCosts } from './pending-cost';
+
+export interface PendingCostSettlementResult {
+  settledQuantity: number;
+  settledCost: string;
+  saleItemsRestated: number;
+}
+
+/**
+ * Settles PendingCostConsumption rows — sale units the worker recorded
+ * without cost at a location running with allowPendingCost — against a batch
+ * that has just been created. Runs inside the caller's transaction so the
+ * batch never exists with its owed units still counted as on hand.
+ */
+@Injectable()
+export class PendingCostService {
+  private readonly logger = new Logger(PendingCostService.name);
+
+  /**
+   * Draw the owed units from the new batch at its unitCost: each settlement
+   * becomes an InventoryConsumption against the SaleItem (so the FIFO audit
+   * trail still sums to SaleItem.cost), the SaleItem and its Sale are
+   * restated, and the batch keeps only what is left over.
+   */
+  async settleFromBatch(
+    tx: Prisma.TransactionClient,
+    batch: { id: string; productId: string; locationId: string; quantity: number; unitCost: Prisma.Decimal },
+  ): Promise<PendingCostSettlementResult | null> {
+    const open = await tx.pendingCostConsumption.findMany({
+      where: { productId: batch.productId, locationId: batch.locationId, remainingQuantity: { gt: 0 } },
+      orderBy: { createdAt: 'asc' },
+      include: { saleItem: { select: { saleId: true } } },
+    });
+    if (open.length === 0) return null;
+
+    const settlements = allocateBatchToPendingCosts(open, batch.quantity);
+    if (settlements.length === 0) return null;
+
+    const byId = new Map(open.map(p => [p.id, p]));
+    const now = new Date();
+    let settledQuantity = 0;
+    let settledCost = new Prisma.Decimal(0);
+
+    for (const settlement of settlements) {
+      const position = byId.get(settlement.pendingId)!;
+      const cost = batch.unitCost.mul(settlement.quantity);
+      const remaining = position.remainingQuantity - settlement.quantity;
+
+      await tx.inventoryConsumption.create({
+        data: {
+          inventoryId: batch.id,
+          saleItemId: position.saleItemId,
+          quantity: settlement.quantity,
+          unitCost: batch.unitCost,
+          totalCost: cost,
+        },
+      });
+
+      await tx.pendingCostConsumption.update({
+        where: { id: position.id },
+        data: {
+          remainingQuantity: remaining,
+          settledCost: { increment: cost },
+          ...(remaining === 0 && { settledAt: now }),
+        },
+      });
+
+      await tx.saleItem.update({
+        where: { id: position.saleItemId },
+        data: { cost: { increment: cost } },
+      });
+
+      await tx.sale.update({
+        where: { id: position.saleItem.saleId },
+        data: {
+          totalCost: { increment: cost },
+          grossProfit: { decrement: cost },
+        },
+      });
+
+      settledQuantity += settlement.quantity;
+      settledCost = settledCost.add(cost);
+    }
+
+    // The owed units left the shelf when they were sold; they never become
+    // sellable stock in this batch.
+    await tx.inventory.update({
+      where: { id: batch.id },
+      data: { quantity: { decrement: settledQuantity } },
+    });
+
+    this.logger.log(
+      `[PENDING_COST] Batch ${batch.id} settled ${settledQuantity} pending unit(s) of product ${batch.productId} ` +
+        `across ${settlements.length} sale item(s), cost ${settledCost.toString()}`,
+    );
+
+    return {
+      settledQuantity,
+      settledCost: settledCost.toString(),
+      saleItemsRestated: settlements.length,
+    };
+  }
+}
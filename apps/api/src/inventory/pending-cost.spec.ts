@@ -0,0 +1,29 @@
+import { allocateBatchToPendingCosts } from './pending-cost';
+
+describe('allocateBatchToPendingCosts', () => {
+  it('settles the oldest positions first', () => {
+    const positions = [
+      { id: 'old', remainingQuantity: 2 },
+      { id: 'new', remainingQuantity: 3 },
+    ];
+    expect(allocateBatchToPendingCosts(positions, 10)).toEqual([
+      { pendingId: 'old', quantity: 2 },
+      { pendingId: 'new', quantity: 3 },
+    ]);
+  });
+
+  it('partially settles when the batch is smaller than what is owed', () => {
+    const positions = [
+      { id: 'old', remainingQuantity: 4 },
+      { id: 'new', remainingQuantity: 3 },
+    ];
+    expect(allocateBatchToPendingCosts(positions, 5)).toEqual([
+      { pendingId: 'old', quantity: 4 },
+      { pendingId: 'new', quantity: 1 },
+    ]);
+  });
+
+  it('settles nothing from an empty batch', () => {
+    expect(allocateBatchToPendingCosts([{ id: 'p', remainingQuantity: 2 }], 0)).toEqual([]);
+  });
+});
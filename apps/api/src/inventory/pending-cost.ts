@@ -0,0 +1,39 @@
+/**
+ * Pure pending-cost settlement math — no DB access. Units sold while the
+ * system showed no stock are owed by the next batch that arrives; this
+ * decides how much of a new batch goes to which open position.
+ */
+
+export interface OpenPendingPosition {
+  id: string;
+  remainingQuantity: number;
+}
+
+export interface PendingSettlement {
+  pendingId: string;
+  quantity: number;
+}
+
+/**
+ * Settle positions oldest-first (callers pass them ordered by createdAt) —
+ * the same order FIFO would have used had the stock been on hand. Never
+ * takes more than the batch holds; whatever the batch can't cover stays open
+ * for the next one.
+ */
+export function allocateBatchToPendingCosts(
+  positions: OpenPendingPosition[],
+  batchQuantity: number,
+): PendingSettlement[] {
+  const settlements: PendingSettlement[] = [];
+  let available = batchQuantity;
+
+  for (const position of positions) {
+    if (available <= 0) break;
+    const quantity = Math.min(position.remainingQuantity, available);
+    if (quantity <= 0) continue;
+    settlements.push({ pendingId: position.id, quantity });
+    available -= quantity;
+  }
+
+  return settlements;
+}
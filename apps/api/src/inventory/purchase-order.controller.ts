@@ -0,0 +1,289 @@
+import { Controller, Get, Post, Patch, Body, Param, Query, Req, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { PurchaseOrderStatus } from '@prisma/client';
+import { PurchaseOrderService, type PurchaseOrderLineInput } from './purchase-order.service';
+import { InventoryReceivingService } from './inventory-receiving.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface CreatePurchaseOrderDto {
+  supplierId: string;
+  locationId?: string; // Defaults to the current location
+  lines: PurchaseOrderLineInput[];
+  reference?: string;
+  expectedAt?: string;
+  notes?: string;
+}
+
+interface UpdatePurchaseOrderDto {
+  lines?: PurchaseOrderLineInput[];
+  reference?: string | null;
+  expectedAt?: string | null;
+  notes?: string | null;
+}
+
+interface ReceivePurchaseOrderDto {
+  lines?: Array<{
+    lineId: string;
+    quantity: number;
+    unitCost?: number;
+    batchNumber?: string;
+    expiryDate?: string;
+  }>; // Omitted: every outstanding line in full at its expected cost
+  invoiceNumber?: string;
+  syncToSquare?: boolean;
+}
+
+/**
+ * Parse a date string that could be either:
+ * - Date-only: "2026-02-03" -> treated as local date (noon to avoid timezone edge cases)
+ * - Full ISO: "2026-02-03T12:00:00Z" -> parsed as-is
+ */
+function parseDateString(dateStr: string): Date {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return new Date(year, month - 1, day, 12, 0, 0);
+  }
+  return new Date(dateStr);
+}
+
+@Controller('inventory/purchase-orders')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class PurchaseOrderController {
+  constructor(
+    private readonly purchaseOrderService: PurchaseOrderService,
+    private readonly receivingService: InventoryReceivingService,
+  ) {}
+
+  // --------------------------------------------------------------------------
+  // Query endpoints - OWNER, MANAGER, ACCOUNTANT
+  // --------------------------------------------------------------------------
+
+  @Get()
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getPurchaseOrders(
+    @Req() req: any,
+    @Query('locationId') locationId?: string,
+    @Query('supplierId') supplierId?: string,
+    @Query('status') status?: string,
+  ) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
+
+    const statusFilter = status?.toUpperCase();
+    if (statusFilter && !Object.values(PurchaseOrderStatus).includes(statusFilter as PurchaseOrderStatus)) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Invalid status. Must be one of: ${Object.values(PurchaseOrderStatus).join(', ')}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const orders = await this.purchaseOrderService.getPurchaseOrders({
+      locationId: targetLocationId,
+      supplierId,
+      status: statusFilter as PurchaseOrderStatus | undefined,
+    });
+
+    return {
+      success: true,
+      data: orders,
+      count: orders.length,
+    };
+  }
+
+  /** Units on open (sent or partially received) orders per product at a location. */
+  @Get('on-order')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getOnOrder(@Req() req: any, @Query('locationId') locationId?: string) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId =
+      currentLocation.role === 'OWNER' && locationId ? locationId : currentLocation.locationId;
+
+    const onOrder = await this.purchaseOrderService.getOnOrder(targetLocationId);
+    const data = [...onOrder.entries()].map(([productId, quantity]) => ({ productId, quantity }));
+
+    return {
+      success: true,
+      data,
+      count: data.length,
+    };
+  }
+
+  @Get(':id')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getPurchaseOrder(@Req() req: any, @Param('id') id: string) {
+    const order = await this.purchaseOrderService.getPurchaseOrder(id, this.scope(req));
+    return {
+      success: true,
+      data: order,
+    };
+  }
+
+  /** Receiving lines prefilled from what is still outstanding. */
+  @Get(':id/receiving-draft')
+  @Roles('OWNER', 'MANAGER')
+  async getReceivingDraft(@Req() req: any, @Param('id') id: string) {
+    const draft = await this.purchaseOrderService.getReceivingDraft(id, this.scope(req));
+    return {
+      success: true,
+      data: draft,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Draft, send, receive, close - OWNER, MANAGER
+  // --------------------------------------------------------------------------
+
+  @Post()
+  @Roles('OWNER', 'MANAGER')
+  async createPurchaseOrder(@Req() req: any, @Body() body: CreatePurchaseOrderDto) {
+    if (!body?.supplierId || !Array.isArray(body.lines)) {
+      throw new HttpException(
+        { success: false, message: 'Missing required fields: supplierId, lines' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    this.validateLines(body.lines);
+
+    const currentLocation = req.currentLocation;
+    const order = await this.purchaseOrderService.createPurchaseOrder({
+      supplierId: body.supplierId,
+      locationId: currentLocation.role === 'OWNER' && body.locationId ? body.locationId : currentLocation.locationId,
+      lines: body.lines,
+      reference: body.reference,
+      expectedAt: body.expectedAt ? this.parseDate(body.expectedAt, 'expectedAt') : undefined,
+      notes: body.notes,
+      createdBy: req.employee.id,
+    });
+
+    return {
+      success: true,
+      data: order,
+    };
+  }
+
+  @Patch(':id')
+  @Roles('OWNER', 'MANAGER')
+  async updatePurchaseOrder(@Req() req: any, @Param('id') id: string, @Body() body: UpdatePurchaseOrderDto) {
+    if (body?.lines !== undefined) {
+      if (!Array.isArray(body.lines)) {
+        throw new HttpException({ success: false, message: 'lines must be an array' }, HttpStatus.BAD_REQUEST);
+      }
+      this.validateLines(body.lines);
+    }
+
+    const order = await this.purchaseOrderService.updatePurchaseOrder(
+      id,
+      {
+        lines: body?.lines,
+        reference: body?.reference,
+        expectedAt: body?.expectedAt
+          ? this.parseDate(body.expectedAt, 'expectedAt')
+          : body?.expectedAt === null ? null : undefined,
+        notes: body?.notes,
+      },
+      this.scope(req),
+    );
+
+    return {
+      success: true,
+      data: order,
+    };
+  }
+
+  @Post(':id/send')
+  @Roles('OWNER', 'MANAGER')
+  async sendPurchaseOrder(@Req() req: any, @Param('id') id: string) {
+    const order = await this.purchaseOrderService.sendPurchaseOrder(id, this.scope(req));
+    return {
+      success: true,
+      data: order,
+    };
+  }
+
+  /** Receive outstanding lines; each becomes a receiving linked to the order. */
+  @Post(':id/receive')
+  @Roles('OWNER', 'MANAGER')
+  async receivePurchaseOrder(@Req() req: any, @Param('id') id: string, @Body() body: ReceivePurchaseOrderDto) {
+    if (
+      body?.lines !== undefined &&
+      (!Array.isArray(body.lines) || body.lines.some(l => !l?.lineId || typeof l.quantity !== 'number'))
+    ) {
+      throw new HttpException(
+        { success: false, message: 'lines must be an array of { lineId, quantity }' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (body?.lines?.some(l => l.unitCost !== undefined && (typeof l.unitCost !== 'number' || l.unitCost < 0))) {
+      throw new HttpException({ success: false, message: 'Unit cost cannot be negative' }, HttpStatus.BAD_REQUEST);
+    }
+
+    const result = await this.receivingService.receivePurchaseOrder(id, {
+      lines: body?.lines?.map(l => ({
+        lineId: l.lineId,
+        quantity: l.quantity,
+        unitCost: l.unitCost,
+        batchNumber: l.batchNumber,
+        expiryDate: l.expiryDate ? this.parseDate(l.expiryDate, 'expiryDate') : undefined,
+      })),
+      invoiceNumber: body?.invoiceNumber,
+      receivedBy: req.employee.id,
+      syncToSquare: body?.syncToSquare,
+      scopeLocationId: this.scope(req),
+    });
+
+    const failed = result.results.filter(r => r.error);
+    const flagged = result.results.filter(r => r.result?.purchaseOrder?.variance.flags.length);
+    return {
+      success: failed.length === 0,
+      message:
+        `Received ${result.results.length - failed.length} of ${result.results.length} line(s)` +
+        (flagged.length > 0 ? `, ${flagged.length} with variances` : '') +
+        (failed.length > 0 ? ` | ${failed.map(f => f.error).join('; ')}` : ''),
+      data: result,
+    };
+  }
+
+  @Post(':id/close')
+  @Roles('OWNER', 'MANAGER')
+  async closePurchaseOrder(@Req() req: any, @Param('id') id: string) {
+    const order = await this.purchaseOrderService.closePurchaseOrder(id, req.employee.id, this.scope(req));
+    return {
+      success: true,
+      data: order,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private scope(req: any): string | undefined {
+    const currentLocation = req.currentLocation;
+    return currentLocation.role === 'OWNER' ? undefined : currentLocation.locationId;
+  }
+
+  private validateLines(lines: PurchaseOrderLineInput[]) {
+    for (const line of lines) {
+      if (
+        !line?.productId ||
+        typeof line.quantity !== 'number' ||
+        (line.expectedUnitCost !== undefined && typeof line.expectedUnitCost !== 'number')
+      ) {
+        throw new HttpException(
+          { success: false, message: 'Each line needs productId and quantity (expectedUnitCost optional)' },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+    }
+  }
+
+  private parseDate(value: string, field: string): Date {
+    const date = parseDateString(value);
+    if (isNaN(date.getTime())) {
+      throw new HttpException({ success: false, message: `Invalid ${field} format` }, HttpStatus.BAD_REQUEST);
+    }
+    return date;
+  }
+}
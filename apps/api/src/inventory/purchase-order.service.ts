@@ -0,0 +1,404 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma, type PurchaseOrderStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { outstandingQuantity, receiptVariance, statusAfterReceipt, type ReceiptVariance } from './purchase-order';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PurchaseOrderLineInput {
+  productId: string;
+  quantity: number;
+  expectedUnitCost?: number; // Defaults to the supplier's current cost for the product
+}
+
+export interface CreatePurchaseOrderInput {
+  supplierId: string;
+  locationId: string;
+  lines: PurchaseOrderLineInput[];
+  reference?: string;
+  expectedAt?: Date;
+  notes?: string;
+  createdBy?: string;
+}
+
+export interface UpdatePurchaseOrderInput {
+  lines?: PurchaseOrderLineInput[];
+  reference?: string | null;
+  expectedAt?: Date | null;
+  notes?: string | null;
+}
+
+export interface PurchaseOrderReceipt {
+  lineId: string | null;
+  status: PurchaseOrderStatus;
+  variance: ReceiptVariance;
+}
+
+// Statuses a receipt can be booked against
+const RECEIVABLE: PurchaseOrderStatus[] = ['SENT', 'PARTIALLY_RECEIVED'];
+
+const PO_INCLUDE = {
+  supplier: { select: { id: true, name: true } },
+  location: { select: { id: true, name: true } },
+  lines: {
+    include: {
+      product: { select: { id: true, name: true, sku: true } },
+      receivings: { select: { id: true, quantity: true, unitCost: true, receivedAt: true, invoiceNumber: true } },
+    },
+    orderBy: { id: 'asc' },
+  },
+} satisfies Prisma.PurchaseOrderInclude;
+
+type PurchaseOrderWithLines = Prisma.PurchaseOrderGetPayload<{ include: typeof PO_INCLUDE }>;
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Purchase orders: DRAFT → SENT → PARTIALLY_RECEIVED → CLOSED. Receiving
+ * itself stays in InventoryReceivingService; a receipt made against a PO
+ * calls applyReceipt inside its transaction to move the line and status on
+ * and to report how it compares with what was ordered.
+ */
+@Injectable()
+export class PurchaseOrderService {
+  private readonly logger = new Logger(PurchaseOrderService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // --------------------------------------------------------------------------
+  // Queries
+  // --------------------------------------------------------------------------
+
+  async getPurchaseOrders(filter: { locationId?: string; supplierId?: string; status?: PurchaseOrderStatus }) {
+    const orders = await this.prisma.purchaseOrder.findMany({
+      where: {
+        ...(filter.locationId && { locationId: filter.locationId }),
+        ...(filter.supplierId && { supplierId: filter.supplierId }),
+        ...(filter.status && { status: filter.status }),
+      },
+      include: PO_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+    return orders.map(o => this.serialize(o));
+  }
+
+  async getPurchaseOrder(id: string, scopeLocationId?: string) {
+    return this.serialize(await this.getScopedOrder(id, scopeLocationId));
+  }
+
+  /**
+   * A receiving prefilled from the order: every line still outstanding, at
+   * its outstanding quantity and expected cost.
+   */
+  async getReceivingDraft(id: string, scopeLocationId?: string) {
+    const order = await this.getScopedOrder(id, scopeLocationId);
+    this.assertReceivable(order);
+
+    return {
+      purchaseOrderId: order.id,
+      supplierId: order.supplierId,
+      locationId: order.locationId,
+      lines: order.lines
+        .filter(line => outstandingQuantity(line) > 0)
+        .map(line => ({
+          lineId: line.id,
+          product: line.product,
+          quantity: outstandingQuantity(line),
+          unitCost: line.expectedUnitCost.toString(),
+        })),
+    };
+  }
+
+  /**
+   * Units ordered but not yet received per product at a location, across
+   * SENT and PARTIALLY_RECEIVED orders. Drafts aren't on order yet, unless
+   * asked for — reorder suggestions count them so a drafted order isn't
+   * suggested twice.
+   */
+  async getOnOrder(
+    locationId: string,
+    productIds?: string[],
+    options?: { includeDrafts?: boolean },
+  ): Promise<Map<string, number>> {
+    const statuses: PurchaseOrderStatus[] = options?.includeDrafts ? ['DRAFT', ...RECEIVABLE] : RECEIVABLE;
+    const lines = await this.prisma.purchaseOrderLine.findMany({
+      where: {
+        purchaseOrder: { locationId, status: { in: statuses } },
+        ...(productIds && { productId: { in: productIds } }),
+      },
+      select: { productId: true, quantityOrdered: true, quantityReceived: true },
+    });
+
+    const onOrder = new Map<string, number>();
+    for (const line of lines) {
+      const outstanding = outstandingQuantity(line);
+      if (outstanding > 0) {
+        onOrder.set(line.productId, (onOrder.get(line.productId) ?? 0) + outstanding);
+      }
+    }
+    return onOrder;
+  }
+
+  // --------------------------------------------------------------------------
+  // Draft
+  // --------------------------------------------------------------------------
+
+  async createPurchaseOrder(input: CreatePurchaseOrderInput) {
+    const [supplier, location] = await Promise.all([
+      this.prisma.supplier.findUnique({ where: { id: input.supplierId } }),
+      this.prisma.location.findUnique({ where: { id: input.locationId } }),
+    ]);
+    if (!supplier) {
+      throw new NotFoundException(`Supplier ${input.supplierId} not found`);
+    }
+    if (!location) {
+      throw new NotFoundException(`Location ${input.locationId} not found`);
+    }
+
+    const lines = await this.resolveLines(input.supplierId, input.lines);
+    const order = await this.prisma.purchaseOrder.create({
+      data: {
+        supplierId: input.supplierId,
+        locationId: input.locationId,
+        reference: input.reference,
+        expectedAt: input.expectedAt,
+        notes: input.notes,
+        createdBy: input.createdBy,
+        lines: { create: lines },
+      },
+    });
+
+    this.logger.log(`[PURCHASE_ORDER] Created ${order.id}: ${lines.length} line(s) from ${supplier.name}`);
+    return this.getPurchaseOrder(order.id);
+  }
+
+  /** Replace the lines and/or edit the header while the order is a DRAFT. */
+  async updatePurchaseOrder(id: string, input: UpdatePurchaseOrderInput, scopeLocationId?: string) {
+    const order = await this.getScopedOrder(id, scopeLocationId);
+    this.assertStatus(order, 'DRAFT');
+    const lines = input.lines ? await this.resolveLines(order.supplierId, input.lines) : undefined;
+
+    await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.purchaseOrder.updateMany({
+        where: { id, status: 'DRAFT' },
+        data: {
+          ...(input.reference !== undefined && { reference: input.reference }),
+          ...(input.expectedAt !== undefined && { expectedAt: input.expectedAt }),
+          ...(input.notes !== undefined && { notes: input.notes }),
+        },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictException(`Purchase order ${id} changed status meanwhile`);
+      }
+      if (lines) {
+        await tx.purchaseOrderLine.deleteMany({ where: { purchaseOrderId: id } });
+        await tx.purchaseOrderLine.createMany({ data: lines.map(l => ({ ...l, purchaseOrderId: id })) });
+      }
+    });
+
+    return this.getPurchaseOrder(id);
+  }
+
+  /** DRAFT → SENT: the order is placed and its lines count as on order. */
+  async sendPurchaseOrder(id: string, scopeLocationId?: string) {
+    const order = await this.getScopedOrder(id, scopeLocationId);
+    this.assertStatus(order, 'DRAFT');
+
+    const claimed = await this.prisma.purchaseOrder.updateMany({
+      where: { id, status: 'DRAFT' },
+      data: { status: 'SENT', sentAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictException(`Purchase order ${id} changed status meanwhile`);
+    }
+
+    this.logger.log(`[PURCHASE_ORDER] Sent ${id}`);
+    return this.getPurchaseOrder(id);
+  }
+
+  /** Close an order early; whatever is still outstanding is no longer expected. */
+  async closePurchaseOrder(id: string, closedBy?: string, scopeLocationId?: string) {
+    const order = await this.getScopedOrder(id, scopeLocationId);
+    if (order.status === 'CLOSED') {
+      throw new ConflictException(`Purchase order ${id} is already CLOSED`);
+    }
+
+    const claimed = await this.prisma.purchaseOrder.updateMany({
+      where: { id, status: { not: 'CLOSED' } },
+      data: { status: 'CLOSED', closedAt: new Date(), closedBy },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictException(`Purchase order ${id} changed status meanwhile`);
+    }
+
+    const dropped = order.lines.reduce((sum, line) => sum + outstandingQuantity(line), 0);
+    this.logger.log(`[PURCHASE_ORDER] Closed ${id} (${dropped} unit(s) outstanding dropped)`);
+    return this.getPurchaseOrder(id);
+  }
+
+  // --------------------------------------------------------------------------
+  // Receiving against an order
+  // --------------------------------------------------------------------------
+
+  /**
+   * Checks before a receipt's transaction starts, so a bad PO fails without
+   * touching stock. Returns the order's supplier to default the receipt to.
+   */
+  async validateReceipt(purchaseOrderId: string, locationId: string, supplierId?: string) {
+    const order = await this.prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: { supplier: { select: { name: true } } },
+    });
+    if (!order || order.locationId !== locationId) {
+      throw new NotFoundException(`Purchase order ${purchaseOrderId} not found at this location`);
+    }
+    this.assertReceivable(order);
+    if (supplierId && supplierId !== order.supplierId) {
+      throw new BadRequestException(`Purchase order ${purchaseOrderId} is for supplier ${order.supplier.name}`);
+    }
+    return { supplierId: order.supplierId };
+  }
+
+  /**
+   * Book a receipt onto its order, inside the receiving's transaction. The
+   * order row is locked so concurrent receipts move the status on one at a
+   * time; the status is re-checked under that lock.
+   */
+  async applyReceipt(
+    tx: Prisma.TransactionClient,
+    receipt: { purchaseOrderId: string; productId: string; quantity: number; unitCost: Prisma.Decimal },
+  ): Promise<PurchaseOrderReceipt> {
+    const rows = await tx.$queryRaw<Array<{ status: PurchaseOrderStatus }>>`
+      SELECT "status"::text AS "status" FROM "PurchaseOrder" WHERE "id" = ${receipt.purchaseOrderId} FOR UPDATE`;
+    const order = { id: receipt.purchaseOrderId, status: rows[0]?.status };
+    this.assertReceivable(order);
+
+    const line = await tx.purchaseOrderLine.findUnique({
+      where: { purchaseOrderId_productId: { purchaseOrderId: receipt.purchaseOrderId, productId: receipt.productId } },
+    });
+    const variance = receiptVariance(line, receipt.quantity, receipt.unitCost);
+
+    if (line) {
+      await tx.purchaseOrderLine.update({
+        where: { id: line.id },
+        data: { quantityReceived: { increment: receipt.quantity } },
+      });
+    }
+
+    const lines = await tx.purchaseOrderLine.findMany({
+      where: { purchaseOrderId: receipt.purchaseOrderId },
+      select: { quantityOrdered: true, quantityReceived: true },
+    });
+    const status = statusAfterReceipt(lines);
+    await tx.purchaseOrder.update({
+      where: { id: receipt.purchaseOrderId },
+      data: { status, ...(status === 'CLOSED' && { closedAt: new Date() }) },
+    });
+
+    return { lineId: line?.id ?? null, status, variance };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private async getScopedOrder(id: string, scopeLocationId: string | undefined) {
+    const order = await this.prisma.purchaseOrder.findUnique({ where: { id }, include: PO_INCLUDE });
+    if (!order || (scopeLocationId && order.locationId !== scopeLocationId)) {
+      throw new NotFoundException(`Purchase order ${id} not found`);
+    }
+    return order;
+  }
+
+  private assertStatus(order: { id: string; status: PurchaseOrderStatus }, expected: PurchaseOrderStatus) {
+    if (order.status !== expected) {
+      throw new ConflictException(`Purchase order ${order.id} is ${order.status}, expected ${expected}`);
+    }
+  }
+
+  private assertReceivable(order: { id: string; status: PurchaseOrderStatus | undefined }) {
+    if (!order.status || !RECEIVABLE.includes(order.status)) {
+      throw new ConflictException(
+        order.status === 'DRAFT'
+          ? `Purchase order ${order.id} has not been sent yet`
+          : `Purchase order ${order.id} is ${order.status ?? 'gone'} and can't be received against`,
+      );
+    }
+  }
+
+  /** Validate lines and fill in expected costs from the supplier's current price. */
+  private async resolveLines(supplierId: string, lines: PurchaseOrderLineInput[]) {
+    if (lines.length === 0) {
+      throw new BadRequestException('A purchase order needs at least one line');
+    }
+    for (const line of lines) {
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new BadRequestException(`Quantity for product ${line.productId} must be a positive integer`);
+      }
+      if (line.expectedUnitCost !== undefined && line.expectedUnitCost < 0) {
+        throw new BadRequestException(`Expected cost for product ${line.productId} cannot be negative`);
+      }
+    }
+    const productIds = [...new Set(lines.map(l => l.productId))];
+    if (productIds.length !== lines.length) {
+      throw new BadRequestException('Each product can appear on only one line');
+    }
+
+    const [products, supplierCosts] = await Promise.all([
+      this.prisma.product.findMany({ where: { id: { in: productIds } }, select: { id: true, name: true } }),
+      this.prisma.supplierProduct.findMany({
+        where: { supplierId, productId: { in: productIds } },
+        select: { productId: true, cost: true },
+      }),
+    ]);
+    if (products.length !== productIds.length) {
+      throw new NotFoundException('One or more products not found');
+    }
+    const names = new Map(products.map(p => [p.id, p.name]));
+    const costs = new Map(supplierCosts.map(c => [c.productId, c.cost]));
+
+    return lines.map(line => {
+      const expected =
+        line.expectedUnitCost !== undefined ? new Prisma.Decimal(line.expectedUnitCost) : costs.get(line.productId);
+      if (!expected) {
+        throw new BadRequestException(
+          `No expected cost for ${names.get(line.productId)}: give expectedUnitCost, this supplier has no price on file`,
+        );
+      }
+      return { productId: line.productId, quantityOrdered: line.quantity, expectedUnitCost: expected };
+    });
+  }
+
+  private serialize(order: PurchaseOrderWithLines) {
+    const lines = order.lines.map(line => {
+      const receivedCost = line.receivings.reduce((sum, r) => sum.add(r.unitCost.mul(r.quantity)), new Prisma.Decimal(0));
+      const averageUnitCost = line.quantityReceived > 0 ? receivedCost.div(line.quantityReceived) : null;
+      return {
+        id: line.id,
+        product: line.product,
+        quantityOrdered: line.quantityOrdered,
+        quantityReceived: line.quantityReceived,
+        quantityOutstanding: outstandingQuantity(line),
+        quantityVariance: line.quantityReceived - line.quantityOrdered,
+        expectedUnitCost: line.expectedUnitCost.toString(),
+        averageUnitCost: averageUnitCost?.toString() ?? null,
+        unitCostVariance: averageUnitCost?.sub(line.expectedUnitCost).toString() ?? null,
+        receivings: line.receivings.map(r => ({ ...r, unitCost: r.unitCost.toString() })),
+      };
+    });
+
+    return {
+      ...order,
+      lines,
+      expectedTotal: order.lines
+        .reduce((sum, l) => sum.add(l.expectedUnitCost.mul(l.quantityOrdered)), new Prisma.Decimal(0))
+        .toString(),
+      quantityOutstanding: lines.reduce((sum, l) => sum + l.quantityOutstanding, 0),
+    };
+  }
+}
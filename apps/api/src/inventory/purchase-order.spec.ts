@@ -0,0 +1,62 @@
+import { Prisma } from '@prisma/client';
+import { outstandingQuantity, receiptVariance, statusAfterReceipt } from './purchase-order';
+
+const line = { quantityOrdered: 10, quantityReceived: 4, expectedUnitCost: new Prisma.Decimal('12.50') };
+
+describe('receiptVariance', () => {
+  it('flags nothing for a receipt at the ordered cost within the ordered quantity', () => {
+    expect(receiptVariance(line, 6, new Prisma.Decimal('12.50'))).toEqual({
+      flags: [],
+      quantityOrdered: 10,
+      quantityReceived: 10,
+      quantityOutstanding: 0,
+      expectedUnitCost: '12.5',
+      unitCostDifference: '0',
+      unitCostDifferencePct: 0,
+    });
+  });
+
+  it('flags over-receipt once the running total passes the ordered quantity', () => {
+    const variance = receiptVariance(line, 8, new Prisma.Decimal('12.50'));
+    expect(variance.flags).toEqual(['OVER_RECEIVED']);
+    expect(variance.quantityReceived).toBe(12);
+    expect(variance.quantityOutstanding).toBe(0);
+  });
+
+  it('flags cost in either direction with the difference', () => {
+    const above = receiptVariance(line, 2, new Prisma.Decimal('13.75'));
+    expect(above.flags).toEqual(['COST_ABOVE_EXPECTED']);
+    expect(above.unitCostDifference).toBe('1.25');
+    expect(above.unitCostDifferencePct).toBe(10);
+
+    expect(receiptVariance(line, 2, new Prisma.Decimal('12')).flags).toEqual(['COST_BELOW_EXPECTED']);
+  });
+
+  it('flags a product the order never had', () => {
+    expect(receiptVariance(null, 3, new Prisma.Decimal(5)).flags).toEqual(['NOT_ON_ORDER']);
+  });
+});
+
+describe('statusAfterReceipt', () => {
+  it('stays partially received while any line is outstanding', () => {
+    expect(
+      statusAfterReceipt([
+        { quantityOrdered: 5, quantityReceived: 5 },
+        { quantityOrdered: 3, quantityReceived: 1 },
+      ]),
+    ).toBe('PARTIALLY_RECEIVED');
+  });
+
+  it('closes once every line is in, over-receipts included', () => {
+    expect(
+      statusAfterReceipt([
+        { quantityOrdered: 5, quantityReceived: 6 },
+        { quantityOrdered: 3, quantityReceived: 3 },
+      ]),
+    ).toBe('CLOSED');
+  });
+
+  it('never reports negative outstanding', () => {
+    expect(outstandingQuantity({ quantityOrdered: 2, quantityReceived: 5 })).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Pure purchase-order math — no DB access. Compares what arrives with what
+ * was ordered, and decides when an order is fully received.
+ */
+
+export type ReceiptVarianceFlag = 'NOT_ON_ORDER' | 'OVER_RECEIVED' | 'COST_ABOVE_EXPECTED' | 'COST_BELOW_EXPECTED';
+
+export interface OrderedLine {
+  quantityOrdered: number;
+  quantityReceived: number; // Before this receipt
+  expectedUnitCost: Prisma.Decimal;
+}
+
+export interface ReceiptVariance {
+  flags: ReceiptVarianceFlag[];
+  quantityOrdered: number | null;
+  quantityReceived: number; // Line total including this receipt
+  quantityOutstanding: number;
+  expectedUnitCost: string | null;
+  unitCostDifference: string | null; // Received - expected
+  unitCostDifferencePct: number | null;
+}
+
+export function outstandingQuantity(line: { quantityOrdered: number; quantityReceived: number }): number {
+  return Math.max(line.quantityOrdered - line.quantityReceived, 0);
+}
+
+/**
+ * How one receipt compares with its PO line. A product the PO never ordered
+ * is NOT_ON_ORDER; otherwise quantity is flagged once the line's running
+ * total passes what was ordered, and cost whenever it differs from expected.
+ * Under-delivery isn't a flag here — it stays outstanding on the line.
+ */
+export function receiptVariance(line: OrderedLine | null, quantity: number, unitCost: Prisma.Decimal): ReceiptVariance {
+  if (!line) {
+    return {
+      flags: ['NOT_ON_ORDER'],
+      quantityOrdered: null,
+      quantityReceived: quantity,
+      quantityOutstanding: 0,
+      expectedUnitCost: null,
+      unitCostDifference: null,
+      unitCostDifferencePct: null,
+    };
+  }
+
+  const flags: ReceiptVarianceFlag[] = [];
+  const quantityReceived = line.quantityReceived + quantity;
+  if (quantityReceived > line.quantityOrdered) flags.push('OVER_RECEIVED');
+
+  const difference = unitCost.sub(line.expectedUnitCost);
+  if (difference.gt(0)) flags.push('COST_ABOVE_EXPECTED');
+  if (difference.lt(0)) flags.push('COST_BELOW_EXPECTED');
+
+  return {
+    flags,
+    quantityOrdered: line.quantityOrdered,
+    quantityReceived,
+    quantityOutstanding: outstandingQuantity({ quantityOrdered: line.quantityOrdered, quantityReceived }),
+    expectedUnitCost: line.expectedUnitCost.toString(),
+    unitCostDifference: difference.toString(),
+    unitCostDifferencePct: line.expectedUnitCost.isZero()
+      ? null
+      : difference.div(line.expectedUnitCost).mul(100).toDecimalPlaces(2).toNumber(),
+  };
+}
+
+/** Status once a receipt is booked: CLOSED when nothing is outstanding on any line. */
+export function statusAfterReceipt(
+  lines: Array<{ quantityOrdered: number; quantityReceived: number }>,
+): 'PARTIALLY_RECEIVED' | 'CLOSED' {
+  return lines.every(l => outstandingQuantity(l) === 0) ? 'CLOSED' : 'PARTIALLY_RECEIVED';
+}
@@ -0,0 +1,46 @@
+import { firstSpots, placementLabel, sortByPlacement, type PlacementSpot } from './rack-layout';
+
+const spot = (productId: string, rackName: string, rackPosition: number, sectionLabel: string, sectionPosition: number): PlacementSpot => ({
+  productId,
+  rackName,
+  rackPosition,
+  sectionLabel,
+  sectionPosition,
+});
+
+describe('placementLabel', () => {
+  it('joins rack and section', () => {
+    expect(placementLabel({ rackName: 'Rack B', sectionLabel: 'Shelf 3' })).toBe('Rack B / Shelf 3');
+  });
+});
+
+describe('firstSpots', () => {
+  it('keeps the spot a product is reached at first', () => {
+    const spots = firstSpots([
+      spot('p1', 'Rack B', 2, 'Shelf 1', 0),
+      spot('p1', 'Rack A', 1, 'Shelf 4', 3),
+      spot('p2', 'Rack A', 1, 'Shelf 2', 1),
+    ]);
+    expect(spots.get('p1')).toMatchObject({ rackName: 'Rack A', sectionLabel: 'Shelf 4' });
+    expect(spots.get('p2')).toMatchObject({ rackName: 'Rack A', sectionLabel: 'Shelf 2' });
+  });
+});
+
+describe('sortByPlacement', () => {
+  it('walks racks then sections, with unplaced products last by name', () => {
+    const spots = firstSpots([
+      spot('ibuprofeno', 'Rack B', 2, 'Shelf 1', 0),
+      spot('paracetamol', 'Rack A', 1, 'Shelf 3', 2),
+      spot('loratadina', 'Rack A', 1, 'Shelf 1', 0),
+    ]);
+    const items = ['paracetamol', 'vitamina c', 'ibuprofeno', 'alcohol', 'loratadina'].map(id => ({ productId: id, name: id }));
+
+    expect(sortByPlacement(items, i => i, spots).map(i => i.productId)).toEqual([
+      'loratadina',
+      'paracetamol',
+      'ibuprofeno',
+      'alcohol',
+      'vitamina c',
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Pure store-layout helpers — no DB access. A placement puts a product on a
+ * rack section; racks and sections carry a position so lists can follow the
+ * path staff actually walk.
+ */
+
+export interface PlacementSpot {
+  productId: string;
+  rackName: string;
+  rackPosition: number;
+  sectionLabel: string;
+  sectionPosition: number;
+}
+
+/** "Rack B / Shelf 3" */
+export function placementLabel(spot: { rackName: string; sectionLabel: string }): string {
+  return `${spot.rackName} / ${spot.sectionLabel}`;
+}
+
+/** Walking order: rack position, then section position; names break ties. */
+export function compareSpots(a: PlacementSpot, b: PlacementSpot): number {
+  return (
+    a.rackPosition - b.rackPosition ||
+    a.rackName.localeCompare(b.rackName) ||
+    a.sectionPosition - b.sectionPosition ||
+    a.sectionLabel.localeCompare(b.sectionLabel)
+  );
+}
+
+/** Each product's first spot in walking order; a product may sit on several shelves. */
+export function firstSpots(spots: PlacementSpot[]): Map<string, PlacementSpot> {
+  const first = new Map<string, PlacementSpot>();
+  for (const spot of [...spots].sort(compareSpots)) {
+    if (!first.has(spot.productId)) first.set(spot.productId, spot);
+  }
+  return first;
+}
+
+/**
+ * Items in walking order by their product's first spot. Products with no
+ * placement come last, by name, so nothing drops off a count sheet.
+ */
+export function sortByPlacement<T>(
+  items: T[],
+  key: (item: T) => { productId: string; name: string },
+  spots: Map<string, PlacementSpot>,
+): T[] {
+  return [...items].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    const sa = spots.get(ka.productId);
+    const sb = spots.get(kb.productId);
+    if (sa && sb) return compareSpots(sa, sb) || ka.name.localeCompare(kb.name);
+    if (sa || sb) return sa ? -1 : 1;
+    return ka.name.localeCompare(kb.name);
+  });
+}
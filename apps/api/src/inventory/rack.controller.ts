@@ -0,0 +1,164 @@
+import { Controller, Get, Post, Patch, Delete, Body, Param, Query, Req, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { RackService } from './rack.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface CreateRackDto {
+  locationId?: string; // Defaults to the current location
+  name: string;
+  position?: number; // Defaults to after the last rack
+}
+
+interface UpdateRackDto {
+  name?: string;
+  position?: number;
+}
+
+interface RackSectionDto {
+  label?: string;
+  size?: string | null;
+  position?: number;
+}
+
+interface PlacementDto {
+  productId: string;
+}
+
+@Controller('inventory/racks')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class RackController {
+  constructor(private readonly rackService: RackService) {}
+
+  // --------------------------------------------------------------------------
+  // Layout - everyone at the location can see where things are
+  // --------------------------------------------------------------------------
+
+  @Get()
+  @Roles('OWNER', 'MANAGER', 'CASHIER', 'ACCOUNTANT')
+  async getRacks(@Req() req: any, @Query('locationId') locationId?: string) {
+    const racks = await this.rackService.getRacks(this.targetLocation(req, locationId));
+    return {
+      success: true,
+      data: racks,
+      count: racks.length,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Racks and sections - OWNER, MANAGER
+  // --------------------------------------------------------------------------
+
+  @Post()
+  @Roles('OWNER', 'MANAGER')
+  async createRack(@Req() req: any, @Body() body: CreateRackDto) {
+    if (!body?.name) {
+      throw new HttpException({ success: false, message: 'Missing required field: name' }, HttpStatus.BAD_REQUEST);
+    }
+
+    const rack = await this.rackService.createRack(this.targetLocation(req, body.locationId), {
+      name: body.name,
+      position: body.position,
+    });
+    return {
+      success: true,
+      data: rack,
+    };
+  }
+
+  @Patch(':id')
+  @Roles('OWNER', 'MANAGER')
+  async updateRack(@Req() req: any, @Param('id') id: string, @Body() body: UpdateRackDto) {
+    const rack = await this.rackService.updateRack(id, { name: body?.name, position: body?.position }, this.scope(req));
+    return {
+      success: true,
+      data: rack,
+    };
+  }
+
+  /** Removes its sections and placements too. */
+  @Delete(':id')
+  @Roles('OWNER', 'MANAGER')
+  async deleteRack(@Req() req: any, @Param('id') id: string) {
+    const result = await this.rackService.deleteRack(id, this.scope(req));
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Post(':id/sections')
+  @Roles('OWNER', 'MANAGER')
+  async createSection(@Req() req: any, @Param('id') id: string, @Body() body: RackSectionDto) {
+    if (!body?.label) {
+      throw new HttpException({ success: false, message: 'Missing required field: label' }, HttpStatus.BAD_REQUEST);
+    }
+
+    const section = await this.rackService.createSection(id, body, this.scope(req));
+    return {
+      success: true,
+      data: section,
+    };
+  }
+
+  @Patch('sections/:sectionId')
+  @Roles('OWNER', 'MANAGER')
+  async updateSection(@Req() req: any, @Param('sectionId') sectionId: string, @Body() body: RackSectionDto) {
+    const section = await this.rackService.updateSection(sectionId, body ?? {}, this.scope(req));
+    return {
+      success: true,
+      data: section,
+    };
+  }
+
+  @Delete('sections/:sectionId')
+  @Roles('OWNER', 'MANAGER')
+  async deleteSection(@Req() req: any, @Param('sectionId') sectionId: string) {
+    const result = await this.rackService.deleteSection(sectionId, this.scope(req));
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Placements - OWNER, MANAGER
+  // --------------------------------------------------------------------------
+
+  @Post('sections/:sectionId/placements')
+  @Roles('OWNER', 'MANAGER')
+  async addPlacement(@Req() req: any, @Param('sectionId') sectionId: string, @Body() body: PlacementDto) {
+    if (!body?.productId) {
+      throw new HttpException({ success: false, message: 'Missing required field: productId' }, HttpStatus.BAD_REQUEST);
+    }
+
+    const placement = await this.rackService.addPlacement(sectionId, body.productId, this.scope(req));
+    return {
+      success: true,
+      data: placement,
+    };
+  }
+
+  @Delete('placements/:placementId')
+  @Roles('OWNER', 'MANAGER')
+  async removePlacement(@Req() req: any, @Param('placementId') placementId: string) {
+    const result = await this.rackService.removePlacement(placementId, this.scope(req));
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private scope(req: any): string | undefined {
+    const currentLocation = req.currentLocation;
+    return currentLocation.role === 'OWNER' ? undefined : currentLocation.locationId;
+  }
+
+  /** OWNER may name any location; everyone else works at their own. */
+  private targetLocation(req: any, locationId?: string): string {
+    const currentLocation = req.currentLocation;
+    return currentLocation.role === 'OWNER' && locationId ? locationId : currentLocation.locationId;
+  }
+}
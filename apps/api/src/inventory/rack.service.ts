@@ -0,0 +1,260 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { firstSpots, placementLabel, type PlacementSpot } from './rack-layout';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RackInput {
+  name?: string;
+  position?: number;
+}
+
+export interface RackSectionInput {
+  label?: string;
+  size?: string | null;
+  position?: number;
+}
+
+const RACK_INCLUDE = {
+  sections: {
+    include: {
+      placements: {
+        include: { product: { select: { id: true, name: true, sku: true } } },
+        orderBy: { product: { name: 'asc' } },
+      },
+    },
+    orderBy: [{ position: 'asc' }, { label: 'asc' }],
+  },
+} satisfies Prisma.RackInclude;
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Store layout: racks per location, their sections, and the products placed
+ * on each. Deleting a rack or section takes its placements with it; count
+ * sessions scoped to a deleted rack keep running over the whole location.
+ */
+@Injectable()
+export class RackService {
+  private readonly logger = new Logger(RackService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // --------------------------------------------------------------------------
+  // Queries
+  // --------------------------------------------------------------------------
+
+  /** A location's racks in walking order, each with its sections and products. */
+  async getRacks(locationId: string) {
+    return this.prisma.rack.findMany({
+      where: { locationId },
+      include: RACK_INCLUDE,
+      orderBy: [{ position: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  /** Where each product is first reached at a location; see rack-layout.ts. */
+  async getSpots(locationId: string, productIds?: string[]): Promise<Map<string, PlacementSpot>> {
+    const placements = await this.prisma.placement.findMany({
+      where: {
+        section: { rack: { locationId } },
+        ...(productIds && { productId: { in: productIds } }),
+      },
+      include: { section: { include: { rack: true } } },
+    });
+
+    return firstSpots(
+      placements.map(p => ({
+        productId: p.productId,
+        rackName: p.section.rack.name,
+        rackPosition: p.section.rack.position,
+        sectionLabel: p.section.label,
+        sectionPosition: p.section.position,
+      })),
+    );
+  }
+
+  // --------------------------------------------------------------------------
+  // Racks
+  // --------------------------------------------------------------------------
+
+  async createRack(locationId: string, input: RackInput) {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new BadRequestException('Rack name is required');
+    }
+    this.assertPosition(input.position);
+
+    const location = await this.prisma.location.findUnique({ where: { id: locationId }, select: { name: true } });
+    if (!location) {
+      throw new NotFoundException(`Location ${locationId} not found`);
+    }
+    await this.assertRackNameFree(locationId, name);
+
+    // New racks and sections go at the end of the walk unless placed
+    const last = await this.prisma.rack.aggregate({ where: { locationId }, _max: { position: true } });
+    const rack = await this.prisma.rack.create({
+      data: { locationId, name, position: input.position ?? (last._max.position ?? -1) + 1 },
+      include: RACK_INCLUDE,
+    });
+    this.logger.log(`[RACK] Created ${rack.name} at ${location.name}`);
+    return rack;
+  }
+
+  async updateRack(id: string, input: RackInput, scopeLocationId?: string) {
+    const rack = await this.getScopedRack(id, scopeLocationId);
+    const name = input.name?.trim();
+    if (input.name !== undefined && !name) {
+      throw new BadRequestException('Rack name cannot be empty');
+    }
+    this.assertPosition(input.position);
+    if (name && name !== rack.name) {
+      await this.assertRackNameFree(rack.locationId, name);
+    }
+
+    return this.prisma.rack.update({
+      where: { id },
+      data: { ...(name && { name }), ...(input.position !== undefined && { position: input.position }) },
+      include: RACK_INCLUDE,
+    });
+  }
+
+  async deleteRack(id: string, scopeLocationId?: string) {
+    const rack = await this.getScopedRack(id, scopeLocationId);
+    await this.prisma.rack.delete({ where: { id } }); // Sections and placements cascade
+    this.logger.log(`[RACK] Deleted ${rack.name}`);
+    return { id };
+  }
+
+  // --------------------------------------------------------------------------
+  // Sections
+  // --------------------------------------------------------------------------
+
+  async createSection(rackId: string, input: RackSectionInput, scopeLocationId?: string) {
+    const rack = await this.getScopedRack(rackId, scopeLocationId);
+    const label = input.label?.trim();
+    if (!label) {
+      throw new BadRequestException('Section label is required');
+    }
+    this.assertPosition(input.position);
+    await this.assertSectionLabelFree(rack.id, label);
+
+    const last = await this.prisma.rackSection.aggregate({ where: { rackId }, _max: { position: true } });
+    return this.prisma.rackSection.create({
+      data: {
+        rackId,
+        label,
+        size: input.size?.trim() || null,
+        position: input.position ?? (last._max.position ?? -1) + 1,
+      },
+    });
+  }
+
+  async updateSection(id: string, input: RackSectionInput, scopeLocationId?: string) {
+    const section = await this.getScopedSection(id, scopeLocationId);
+    const label = input.label?.trim();
+    if (input.label !== undefined && !label) {
+      throw new BadRequestException('Section label cannot be empty');
+    }
+    this.assertPosition(input.position);
+    if (label && label !== section.label) {
+      await this.assertSectionLabelFree(section.rackId, label);
+    }
+
+    return this.prisma.rackSection.update({
+      where: { id },
+      data: {
+        ...(label && { label }),
+        ...(input.size !== undefined && { size: input.size?.trim() || null }),
+        ...(input.position !== undefined && { position: input.position }),
+      },
+    });
+  }
+
+  async deleteSection(id: string, scopeLocationId?: string) {
+    await this.getScopedSection(id, scopeLocationId);
+    await this.prisma.rackSection.delete({ where: { id } }); // Placements cascade
+    return { id };
+  }
+
+  // --------------------------------------------------------------------------
+  // Placements
+  // --------------------------------------------------------------------------
+
+  async addPlacement(sectionId: string, productId: string, scopeLocationId?: string) {
+    const section = await this.getScopedSection(sectionId, scopeLocationId);
+    const product = await this.prisma.product.findUnique({ where: { id: productId }, select: { id: true } });
+    if (!product) {
+      throw new NotFoundException(`Product ${productId} not found`);
+    }
+    const existing = await this.prisma.placement.findUnique({
+      where: { productId_rackSectionId: { productId, rackSectionId: sectionId } },
+    });
+    if (existing) {
+      throw new ConflictException(`Product ${productId} is already on ${placementLabel({ rackName: section.rack.name, sectionLabel: section.label })}`);
+    }
+
+    return this.prisma.placement.create({
+      data: { productId, rackSectionId: sectionId },
+      include: { product: { select: { id: true, name: true, sku: true } } },
+    });
+  }
+
+  async removePlacement(id: string, scopeLocationId?: string) {
+    const placement = await this.prisma.placement.findUnique({
+      where: { id },
+      include: { section: { include: { rack: { select: { locationId: true } } } } },
+    });
+    if (!placement || (scopeLocationId && placement.section.rack.locationId !== scopeLocationId)) {
+      throw new NotFoundException(`Placement ${id} not found`);
+    }
+
+    await this.prisma.placement.delete({ where: { id } });
+    return { id };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private async getScopedRack(id: string, scopeLocationId: string | undefined) {
+    const rack = await this.prisma.rack.findUnique({ where: { id } });
+    if (!rack || (scopeLocationId && rack.locationId !== scopeLocationId)) {
+      throw new NotFoundException(`Rack ${id} not found`);
+    }
+    return rack;
+  }
+
+  private async getScopedSection(id: string, scopeLocationId: string | undefined) {
+    const section = await this.prisma.rackSection.findUnique({ where: { id }, include: { rack: true } });
+    if (!section || (scopeLocationId && section.rack.locationId !== scopeLocationId)) {
+      throw new NotFoundException(`Rack section ${id} not found`);
+    }
+    return section;
+  }
+
+  private async assertRackNameFree(locationId: string, name: string) {
+    const clash = await this.prisma.rack.findUnique({ where: { locationId_name: { locationId, name } } });
+    if (clash) {
+      throw new ConflictException(`A rack named ${name} already exists at this location`);
+    }
+  }
+
+  private async assertSectionLabelFree(rackId: string, label: string) {
+    const clash = await this.prisma.rackSection.findUnique({ where: { rackId_label: { rackId, label } } });
+    if (clash) {
+      throw new ConflictException(`This rack already has a section labelled ${label}`);
+    }
+  }
+
+  private assertPosition(position: number | undefined) {
+    if (position !== undefined && (!Number.isInteger(position) || position < 0)) {
+      throw new BadRequestException('position must be a non-negative integer');
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { Controller, Get, Post, Body, Param, Query, Req, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { RecallStatus } from '@prisma/client';
+import { RecallService } from './recall.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface CreateRecallDto {
+  batchNumber: string;
+  productId?: string; // At least one of productId, labId
+  labId?: string;
+  reason: string;
+  reference?: string; // Laboratory's recall notice number
+  notes?: string;
+}
+
+interface QuarantineRecallDto {
+  syncToSquare?: boolean; // If true, also move the units to WASTE in Square
+}
+
+@Controller('inventory/recalls')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class RecallController {
+  constructor(private readonly recallService: RecallService) {}
+
+  // --------------------------------------------------------------------------
+  // Trace and cases - OWNER sees every location; others their own
+  // --------------------------------------------------------------------------
+
+  /** Remaining stock per location and every sale that took the lot. */
+  @Get('trace')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async traceLot(
+    @Req() req: any,
+    @Query('batchNumber') batchNumber?: string,
+    @Query('productId') productId?: string,
+    @Query('labId') labId?: string,
+  ) {
+    if (!batchNumber || (!productId && !labId)) {
+      throw new HttpException(
+        { success: false, message: 'Missing required query: batchNumber, and productId or labId' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const trace = await this.recallService.traceLot({ batchNumber, productId, labId }, this.scope(req));
+    return {
+      success: true,
+      data: trace,
+    };
+  }
+
+  @Get()
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getRecalls(@Query('status') status?: string, @Query('batchNumber') batchNumber?: string) {
+    const statusFilter = status?.toUpperCase();
+    if (statusFilter && !Object.values(RecallStatus).includes(statusFilter as RecallStatus)) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Invalid status. Must be one of: ${Object.values(RecallStatus).join(', ')}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const recalls = await this.recallService.getRecalls({
+      status: statusFilter as RecallStatus | undefined,
+      batchNumber,
+    });
+
+    return {
+      success: true,
+      data: recalls,
+      count: recalls.length,
+    };
+  }
+
+  @Get(':id')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getRecall(@Req() req: any, @Param('id') id: string) {
+    const recall = await this.recallService.getRecall(id, this.scope(req));
+    return {
+      success: true,
+      data: recall,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Open, quarantine, close
+  // --------------------------------------------------------------------------
+
+  @Post()
+  @Roles('OWNER', 'MANAGER')
+  async createRecall(@Req() req: any, @Body() body: CreateRecallDto) {
+    if (!body?.batchNumber || !body.reason || (!body.productId && !body.labId)) {
+      throw new HttpException(
+        { success: false, message: 'Missing required fields: batchNumber, reason, and productId or labId' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const recall = await this.recallService.createRecall({
+      batchNumber: body.batchNumber,
+      productId: body.productId,
+      labId: body.labId,
+      reason: body.reason,
+      reference: body.reference,
+      notes: body.notes,
+      createdBy: req.employee.id,
+    });
+
+    return {
+      success: true,
+      data: recall,
+    };
+  }
+
+  /** Write off the lot's remaining stock at every location. OWNER only: it reaches all of them. */
+  @Post(':id/quarantine')
+  @Roles('OWNER')
+  async quarantineRecall(@Req() req: any, @Param('id') id: string, @Body() body: QuarantineRecallDto) {
+    const result = await this.recallService.quarantineRecall(id, {
+      by: req.employee.id,
+      syncToSquare: body?.syncToSquare,
+    });
+
+    const units = result.quarantined.reduce((sum, q) => sum + q.quantity, 0);
+    return {
+      success: true,
+      message: result.squareSync
+        ? result.squareSync.synced
+          ? `Quarantined ${units} unit(s) (synced to Square)`
+          : `Quarantined ${units} unit(s) (Square sync failed: ${result.squareSync.error})`
+        : `Quarantined ${units} unit(s)`,
+      data: result,
+    };
+  }
+
+  @Post(':id/close')
+  @Roles('OWNER', 'MANAGER')
+  async closeRecall(@Req() req: any, @Param('id') id: string) {
+    const recall = await this.recallService.closeRecall(id, req.employee.id);
+    return {
+      success: true,
+      data: recall,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private scope(req: any): string | undefined {
+    const currentLocation = req.currentLocation;
+    return currentLocation.role === 'OWNER' ? undefined : currentLocation.locationId;
+  }
+}
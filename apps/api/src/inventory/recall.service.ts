@@ -0,0 +1,511 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma, type RecallStatus } from '@prisma/client';
+import { SquareClient, SquareEnvironment, Square } from 'square';
+import { PrismaService } from '../prisma/prisma.service';
+import { InventoryAdjustmentService } from './inventory-adjustment.service';
+import { lockStock } from './stock-lock';
+import { lotRemaining, lotSales } from './recall';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LotFilter {
+  batchNumber: string;
+  productId?: string; // At least one of productId, labId
+  labId?: string;
+}
+
+export interface CreateRecallInput extends LotFilter {
+  reason: string;
+  reference?: string;
+  notes?: string;
+  createdBy?: string;
+}
+
+export interface QuarantineRecallInput {
+  by?: string;
+  syncToSquare?: boolean;
+}
+
+const RECALL_INCLUDE = {
+  product: { select: { id: true, name: true, sku: true } },
+  laboratory: { select: { id: true, name: true } },
+  adjustments: {
+    select: {
+      id: true,
+      locationId: true,
+      productId: true,
+      quantity: true,
+      unitCost: true,
+      totalCost: true,
+      adjustedAt: true,
+      location: { select: { id: true, name: true } },
+      product: { select: { id: true, name: true, sku: true } },
+    },
+    orderBy: { adjustedAt: 'asc' },
+  },
+} satisfies Prisma.RecallCaseInclude;
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Lot recalls. A lot is traced through its batches — received, or carried
+ * to other locations by transfers, which copy the lot number — to what is
+ * left on hand and, through the batches' consumptions, to every sale that
+ * took it. A recall case records the recall and quarantines the remaining
+ * stock as RECALL write-offs.
+ */
+@Injectable()
+export class RecallService {
+  private readonly logger = new Logger(RecallService.name);
+  private squareClient: SquareClient | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly adjustments: InventoryAdjustmentService,
+  ) {}
+
+  // --------------------------------------------------------------------------
+  // Trace
+  // --------------------------------------------------------------------------
+
+  /**
+   * Where a lot went: how it was received, what remains per location, and
+   * the sales that consumed it. Scoped callers see only their location.
+   */
+  async traceLot(filter: LotFilter, scopeLocationId?: string) {
+    const lot = this.lotWhere(filter);
+    const batchWhere: Prisma.InventoryWhereInput = { ...lot, ...(scopeLocationId && { locationId: scopeLocationId }) };
+
+    const [receivings, batches, consumptions] = await Promise.all([
+      this.prisma.inventoryReceiving.findMany({
+        where: {
+          batchNumber: lot.batchNumber,
+          product: lot.product,
+          ...(scopeLocationId && { locationId: scopeLocationId }),
+        },
+        select: {
+          id: true,
+          quantity: true,
+          unitCost: true,
+          invoiceNumber: true,
+          expiryDate: true,
+          receivedAt: true,
+          location: { select: { id: true, name: true } },
+          product: { select: { id: true, name: true, sku: true } },
+          supplier: { select: { id: true, name: true } },
+        },
+        orderBy: { receivedAt: 'asc' },
+      }),
+      this.prisma.inventory.findMany({
+        where: batchWhere,
+        select: {
+          id: true,
+          locationId: true,
+          productId: true,
+          quantity: true,
+          unitCost: true,
+          expiryDate: true,
+          source: true,
+        },
+      }),
+      this.prisma.inventoryConsumption.findMany({
+        where: { inventory: batchWhere, saleItemId: { not: null } },
+        select: {
+          quantity: true,
+          saleItem: {
+            select: {
+              id: true,
+              productId: true,
+              sale: {
+                select: {
+                  id: true,
+                  squareId: true,
+                  createdAt: true,
+                  location: { select: { id: true, name: true } },
+                },
+              },
+            },
+          },
+          reversals: { select: { quantity: true } },
+          voidLines: { select: { quantity: true } },
+        },
+      }),
+    ]);
+
+    const productIds = [...new Set(batches.map(b => b.productId))];
+    const locationIds = [...new Set(batches.map(b => b.locationId))];
+    const [products, locations] = await Promise.all([
+      this.prisma.product.findMany({ where: { id: { in: productIds } }, select: { id: true, name: true, sku: true } }),
+      this.prisma.location.findMany({ where: { id: { in: locationIds } }, select: { id: true, name: true } }),
+    ]);
+    const productMap = new Map(products.map(p => [p.id, p]));
+    const locationMap = new Map(locations.map(l => [l.id, l]));
+    const batchMap = new Map(batches.map(b => [b.id, b]));
+
+    const remaining = lotRemaining(batches).map(r => ({
+      location: locationMap.get(r.locationId)!,
+      product: productMap.get(r.productId)!,
+      quantity: r.quantity,
+      value: r.batchIds
+        .reduce((sum, id) => sum.add(batchMap.get(id)!.unitCost.mul(batchMap.get(id)!.quantity)), new Prisma.Decimal(0))
+        .toString(),
+      batches: r.batchIds.map(id => {
+        const batch = batchMap.get(id)!;
+        return { id, quantity: batch.quantity, expiryDate: batch.expiryDate, source: batch.source };
+      }),
+    }));
+
+    const saleInfo = new Map(consumptions.map(c => [c.saleItem!.sale.id, c.saleItem!.sale]));
+    const sales = lotSales(
+      consumptions.map(c => ({
+        saleId: c.saleItem!.sale.id,
+        saleItemId: c.saleItem!.id,
+        productId: c.saleItem!.productId,
+        quantity: c.quantity,
+        returned: c.reversals.reduce((sum, r) => sum + r.quantity, 0),
+        voided: c.voidLines.reduce((sum, v) => sum + v.quantity, 0),
+      })),
+    )
+      .map(s => ({ ...s, ...saleInfo.get(s.saleId)! }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    return {
+      batchNumber: filter.batchNumber,
+      receivings: receivings.map(r => ({ ...r, unitCost: r.unitCost.toString() })),
+      remaining,
+      sales: sales.map(({ saleId, ...s }) => s),
+      totals: {
+        received: receivings.reduce((sum, r) => sum + r.quantity, 0),
+        remaining: remaining.reduce((sum, r) => sum + r.quantity, 0),
+        sold: sales.reduce((sum, s) => sum + s.quantity, 0),
+        withCustomers: sales.reduce((sum, s) => sum + s.outstanding, 0),
+      },
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Recall cases
+  // --------------------------------------------------------------------------
+
+  async getRecalls(filter: { status?: RecallStatus; batchNumber?: string }) {
+    return this.prisma.recallCase.findMany({
+      where: {
+        ...(filter.status && { status: filter.status }),
+        ...(filter.batchNumber && { batchNumber: { equals: filter.batchNumber.trim(), mode: 'insensitive' } }),
+      },
+      include: {
+        product: { select: { id: true, name: true, sku: true } },
+        laboratory: { select: { id: true, name: true } },
+        _count: { select: { adjustments: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /** The case, what it has written off so far, and a live trace of the lot. */
+  async getRecall(id: string, scopeLocationId?: string) {
+    const recall = await this.getCase(id);
+    return {
+      ...recall,
+      adjustments: recall.adjustments
+        .filter(a => !scopeLocationId || a.locationId === scopeLocationId)
+        .map(a => ({ ...a, unitCost: a.unitCost.toString(), totalCost: a.totalCost.toString() })),
+      trace: await this.traceLot(this.filterOf(recall), scopeLocationId),
+    };
+  }
+
+  async createRecall(input: CreateRecallInput) {
+    this.lotWhere(input);
+    if (!input.reason?.trim()) {
+      throw new BadRequestException('A recall needs a reason');
+    }
+    if (input.productId) {
+      const product = await this.prisma.product.findUnique({ where: { id: input.productId }, select: { id: true } });
+      if (!product) {
+        throw new NotFoundException(`Product ${input.productId} not found`);
+      }
+    }
+    if (input.labId) {
+      const lab = await this.prisma.laboratory.findUnique({ where: { id: input.labId }, select: { id: true } });
+      if (!lab) {
+        throw new NotFoundException(`Laboratory ${input.labId} not found`);
+      }
+    }
+
+    const recall = await this.prisma.recallCase.create({
+      data: {
+        batchNumber: input.batchNumber.trim(),
+        productId: input.productId,
+        labId: input.labId,
+        reason: input.reason.trim(),
+        reference: input.reference,
+        notes: input.notes,
+        createdBy: input.createdBy,
+      },
+    });
+
+    this.logger.log(`[RECALL] Opened ${recall.id} for lot ${recall.batchNumber}`);
+    return this.getRecall(recall.id);
+  }
+
+  /**
+   * Write off everything of the lot still on hand, at every location, as
+   * RECALL adjustments on the case — one per product and location, drawn
+   * from exactly the lot's batches whatever the product's consumption order.
+   */
+  async quarantineRecall(id: string, input: QuarantineRecallInput) {
+    const recall = await this.getCase(id);
+    if (recall.status === 'CLOSED') {
+      throw new ConflictException(`Recall ${id} is CLOSED`);
+    }
+
+    const lot = this.lotWhere(this.filterOf(recall));
+    const onHand = await this.prisma.inventory.findMany({
+      where: { ...lot, quantity: { gt: 0 } },
+      select: { locationId: true, productId: true },
+    });
+    if (onHand.length === 0) {
+      throw new BadRequestException(`Nothing of lot ${recall.batchNumber} is left on hand`);
+    }
+
+    const quarantinedAt = new Date();
+    for (const locationId of new Set(onHand.map(b => b.locationId))) {
+      if (await this.adjustments.checkCutoverLock(locationId, quarantinedAt)) {
+        throw new BadRequestException(
+          'Cannot make adjustments before the cutover date. The inventory for a location holding this lot is locked.',
+        );
+      }
+    }
+
+    const booked = await this.prisma.$transaction(
+      async (tx) => {
+        const claimed = await tx.recallCase.updateMany({
+          where: { id, status: { in: ['OPEN', 'QUARANTINED'] } },
+          data: { status: 'QUARANTINED', quarantinedAt, quarantinedBy: input.by },
+        });
+        if (claimed.count === 0) {
+          throw new ConflictException(`Recall ${id} changed status meanwhile`);
+        }
+
+        await lockStock(tx, onHand);
+
+        // Re-read under the lock: sales may have drawn on the lot meanwhile.
+        // Stock that reached a new location since isn't locked; the next run takes it.
+        const locked = new Set(onHand.map(b => `${b.locationId}:${b.productId}`));
+        const batches = (
+          await tx.inventory.findMany({
+            where: { ...lot, quantity: { gt: 0 } },
+            select: { id: true, locationId: true, productId: true, quantity: true, unitCost: true },
+          })
+        ).filter(b => locked.has(`${b.locationId}:${b.productId}`));
+        const batchMap = new Map(batches.map(b => [b.id, b]));
+
+        const writeOffs: Array<{ locationId: string; productId: string; quantity: number }> = [];
+        for (const group of lotRemaining(batches)) {
+          const draws = group.batchIds.map(batchId => batchMap.get(batchId)!);
+          const totalCost = draws.reduce((sum, b) => sum.add(b.unitCost.mul(b.quantity)), new Prisma.Decimal(0));
+
+          const adjustment = await tx.inventoryAdjustment.create({
+            data: {
+              locationId: group.locationId,
+              productId: group.productId,
+              type: 'RECALL',
+              quantity: -group.quantity,
+              reason: `Recall of lot ${recall.batchNumber}`,
+              notes: [recall.reason, recall.reference && `Notice ${recall.reference}`].filter(Boolean).join(' | '),
+              unitCost: totalCost.div(group.quantity),
+              totalCost,
+              adjustedBy: input.by,
+              adjustedAt: quarantinedAt,
+              effectiveDate: quarantinedAt,
+              recallCaseId: id,
+            },
+          });
+
+          for (const batch of draws) {
+            await tx.inventory.update({
+              where: { id: batch.id },
+              data: { quantity: { decrement: batch.quantity } },
+            });
+          }
+          await tx.inventoryConsumption.createMany({
+            data: draws.map(b => ({
+              inventoryId: b.id,
+              adjustmentId: adjustment.id,
+              quantity: b.quantity,
+              unitCost: b.unitCost,
+              totalCost: b.unitCost.mul(b.quantity),
+            })),
+          });
+          writeOffs.push({ locationId: group.locationId, productId: group.productId, quantity: group.quantity });
+        }
+        return writeOffs;
+      },
+      { timeout: 30000 },
+    );
+
+    const units = booked.reduce((sum, w) => sum + w.quantity, 0);
+    this.logger.log(`[RECALL] Quarantined ${units} unit(s) of lot ${recall.batchNumber} across ${booked.length} line(s) (${id})`);
+
+    let squareSync: { synced: boolean; error?: string } | undefined;
+    if (input.syncToSquare && booked.length > 0) {
+      squareSync = await this.pushWriteOffsToSquare(id, quarantinedAt, booked);
+      await this.prisma.recallCase.update({
+        where: { id },
+        data: { squareSynced: squareSync.synced, squareSyncError: squareSync.error ?? null },
+      });
+    }
+
+    return { ...(await this.getRecall(id)), quarantined: booked, squareSync };
+  }
+
+  async closeRecall(id: string, by?: string) {
+    const recall = await this.getCase(id);
+    if (recall.status === 'CLOSED') {
+      throw new ConflictException(`Recall ${id} is already CLOSED`);
+    }
+
+    const claimed = await this.prisma.recallCase.updateMany({
+      where: { id, status: recall.status },
+      data: { status: 'CLOSED', closedAt: new Date(), closedBy: by },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictException(`Recall ${id} changed status meanwhile`);
+    }
+
+    this.logger.log(`[RECALL] Closed ${id}`);
+    return this.getRecall(id);
+  }
+
+  // --------------------------------------------------------------------------
+  // Square Client
+  // --------------------------------------------------------------------------
+
+  private getSquareClient(): SquareClient | null {
+    if (!this.squareClient) {
+      const token = process.env.SQUARE_ACCESS_TOKEN?.trim();
+      if (!token) {
+        this.logger.warn('SQUARE_ACCESS_TOKEN not set - Square sync disabled');
+        return null;
+      }
+
+      const env = process.env.SQUARE_ENVIRONMENT?.toLowerCase();
+      const nodeEnv = process.env.NODE_ENV?.toLowerCase();
+      const isSandbox = env === 'sandbox' || nodeEnv === 'development';
+
+      this.squareClient = new SquareClient({
+        token,
+        environment: isSandbox ? SquareEnvironment.Sandbox : SquareEnvironment.Production,
+        version: '2025-01-23', // pinned so an SDK bump can't silently change behavior
+      });
+    }
+    return this.squareClient;
+  }
+
+  // --------------------------------------------------------------------------
+  // Square Inventory Sync
+  // --------------------------------------------------------------------------
+
+  /**
+   * Move the quarantined units IN_STOCK → WASTE in one batch. Each
+   * quarantine run gets its own idempotency key, so a later run for stock
+   * that surfaced afterwards isn't mistaken for a retry.
+   */
+  private async pushWriteOffsToSquare(
+    recallId: string,
+    quarantinedAt: Date,
+    writeOffs: Array<{ locationId: string; productId: string; quantity: number }>,
+  ): Promise<{ synced: boolean; error?: string }> {
+    const client = this.getSquareClient();
+    if (!client) {
+      return { synced: false, error: 'Square client not configured' };
+    }
+
+    try {
+      const [locations, mappings] = await Promise.all([
+        this.prisma.location.findMany({
+          where: { id: { in: writeOffs.map(w => w.locationId) } },
+          select: { id: true, squareId: true },
+        }),
+        this.prisma.catalogMapping.findMany({
+          where: { productId: { in: writeOffs.map(w => w.productId) } },
+          select: { productId: true, squareVariationId: true },
+        }),
+      ]);
+      const squareLocation = new Map(locations.map(l => [l.id, l.squareId]));
+      const variationByProduct = new Map(mappings.map(m => [m.productId, m.squareVariationId]));
+      const occurredAt = quarantinedAt.toISOString();
+      const referenceId = `recall-${recallId}-${quarantinedAt.getTime()}`;
+
+      const syncable = writeOffs.filter(w => squareLocation.get(w.locationId) && variationByProduct.has(w.productId));
+      const changes: Square.InventoryChange[] = syncable.map(w => ({
+        type: 'ADJUSTMENT',
+        adjustment: {
+          catalogObjectId: variationByProduct.get(w.productId)!,
+          locationId: squareLocation.get(w.locationId)!,
+          quantity: w.quantity.toString(),
+          fromState: 'IN_STOCK',
+          toState: 'WASTE',
+          occurredAt,
+          referenceId,
+        },
+      }));
+
+      if (changes.length > 0) {
+        this.logger.log(`[SQUARE_SYNC] Syncing recall ${recallId}: ${changes.length} change(s)`);
+        await client.inventory.batchCreateChanges({ idempotencyKey: referenceId, changes });
+      }
+
+      const skipped = writeOffs.length - syncable.length;
+      return skipped > 0
+        ? { synced: false, error: `${skipped} write-off(s) not linked to a Square location or catalog item` }
+        : { synced: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`[SQUARE_SYNC] Failed to sync recall ${recallId}: ${errorMessage}`);
+      return { synced: false, error: errorMessage };
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  /** Batches of the lot: lot numbers match ignoring case and surrounding spaces. */
+  private lotWhere(filter: LotFilter) {
+    const batchNumber = filter.batchNumber?.trim();
+    if (!batchNumber) {
+      throw new BadRequestException('batchNumber is required');
+    }
+    if (!filter.productId && !filter.labId) {
+      throw new BadRequestException('Narrow the lot to a productId or labId');
+    }
+    return {
+      batchNumber: { equals: batchNumber, mode: 'insensitive' as const },
+      product: {
+        ...(filter.productId && { id: filter.productId }),
+        ...(filter.labId && { labId: filter.labId }),
+      },
+    } satisfies Prisma.InventoryWhereInput;
+  }
+
+  private filterOf(recall: { batchNumber: string; productId: string | null; labId: string | null }): LotFilter {
+    return {
+      batchNumber: recall.batchNumber,
+      productId: recall.productId ?? undefined,
+      labId: recall.labId ?? undefined,
+    };
+  }
+
+  private async getCase(id: string) {
+    const recall = await this.prisma.recallCase.findUnique({ where: { id }, include: RECALL_INCLUDE });
+    if (!recall) {
+      throw new NotFoundException(`Recall ${id} not found`);
+    }
+    return recall;
+  }
+}
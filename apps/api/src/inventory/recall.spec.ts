@@ -0,0 +1,38 @@
+import { lotRemaining, lotSales } from './recall';
+
+describe('lotRemaining', () => {
+  it('groups remaining units by location and product, skipping empty batches', () => {
+    expect(
+      lotRemaining([
+        { id: 'b1', locationId: 'centro', productId: 'p1', quantity: 4 },
+        { id: 'b2', locationId: 'centro', productId: 'p1', quantity: 2 }, // Transferred back in
+        { id: 'b3', locationId: 'norte', productId: 'p1', quantity: 0 },
+        { id: 'b4', locationId: 'norte', productId: 'p2', quantity: 3 },
+      ]),
+    ).toEqual([
+      { locationId: 'centro', productId: 'p1', quantity: 6, batchIds: ['b1', 'b2'] },
+      { locationId: 'norte', productId: 'p2', quantity: 3, batchIds: ['b4'] },
+    ]);
+  });
+});
+
+describe('lotSales', () => {
+  it('rolls consumptions up per sale, net of refunds and voids', () => {
+    expect(
+      lotSales([
+        { saleId: 's1', saleItemId: 'i1', productId: 'p1', quantity: 2, returned: 1, voided: 0 },
+        { saleId: 's1', saleItemId: 'i2', productId: 'p2', quantity: 1, returned: 0, voided: 0 },
+        { saleId: 's2', saleItemId: 'i3', productId: 'p1', quantity: 3, returned: 0, voided: 3 },
+      ]),
+    ).toEqual([
+      { saleId: 's1', productIds: ['p1', 'p2'], quantity: 3, returned: 1, outstanding: 2 },
+      { saleId: 's2', productIds: ['p1'], quantity: 3, returned: 3, outstanding: 0 },
+    ]);
+  });
+
+  it('never counts more back than was sold', () => {
+    const [sale] = lotSales([{ saleId: 's1', saleItemId: 'i1', productId: 'p1', quantity: 1, returned: 1, voided: 1 }]);
+    expect(sale.outstanding).toBe(0);
+    expect(sale.returned).toBe(1);
+  });
+});
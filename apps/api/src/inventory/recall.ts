@@ -0,0 +1,68 @@
+/**
+ * Pure lot-trace math — no DB access. Rolls a recalled lot's batches up into
+ * what is left where, and its consumptions up into the sales that took it.
+ */
+
+export interface LotBatch {
+  id: string;
+  locationId: string;
+  productId: string;
+  quantity: number; // Remaining in the batch
+}
+
+export interface LotConsumption {
+  saleId: string;
+  saleItemId: string;
+  productId: string;
+  quantity: number;
+  returned: number; // Handed back through refunds
+  voided: number; // Returned by a void of the whole sale
+}
+
+export interface LotRemaining {
+  locationId: string;
+  productId: string;
+  quantity: number;
+  batchIds: string[];
+}
+
+export interface LotSale {
+  saleId: string;
+  productIds: string[];
+  quantity: number; // As sold
+  returned: number; // Refunded or voided since
+  outstanding: number; // Still with the customer
+}
+
+/** Remaining units per location and product; emptied batches are left out. */
+export function lotRemaining(batches: LotBatch[]): LotRemaining[] {
+  const groups = new Map<string, LotRemaining>();
+  for (const batch of batches) {
+    if (batch.quantity <= 0) continue;
+    const key = `${batch.locationId}:${batch.productId}`;
+    const group = groups.get(key) ?? { locationId: batch.locationId, productId: batch.productId, quantity: 0, batchIds: [] };
+    group.quantity += batch.quantity;
+    group.batchIds.push(batch.id);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Every sale that drew on the lot, with how many of its units are still
+ * out there. A sale fully refunded or voided stays listed (outstanding 0):
+ * the customer did have the product.
+ */
+export function lotSales(consumptions: LotConsumption[]): LotSale[] {
+  const sales = new Map<string, LotSale>();
+  for (const c of consumptions) {
+    const sale = sales.get(c.saleId) ?? { saleId: c.saleId, productIds: [], quantity: 0, returned: 0, outstanding: 0 };
+    if (!sale.productIds.includes(c.productId)) sale.productIds.push(c.productId);
+    const returned = Math.min(c.returned + c.voided, c.quantity);
+    sale.quantity += c.quantity;
+    sale.returned += returned;
+    sale.outstanding += c.quantity - returned;
+    sales.set(c.saleId, sale);
+  }
+  return [...sales.values()];
+}
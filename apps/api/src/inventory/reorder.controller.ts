@@ -0,0 +1,163 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, Req, Header, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { ReorderService } from './reorder.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface ReorderSettingDto {
+  locationId?: string; // Defaults to the current location
+  minQuantity: number;
+  maxQuantity?: number | null;
+  orderMultiple?: number | null;
+}
+
+interface CreateFromSuggestionsDto {
+  locationId?: string;
+  supplierId?: string; // Only this supplier's order
+  lookbackDays?: number;
+  coverDays?: number;
+  quantities?: Record<string, number>; // productId -> quantity; 0 drops the product
+}
+
+@Controller('inventory/reorder')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class ReorderController {
+  constructor(private readonly reorderService: ReorderService) {}
+
+  // --------------------------------------------------------------------------
+  // Settings - min-max per product and location
+  // --------------------------------------------------------------------------
+
+  @Get('settings')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getSettings(@Req() req: any, @Query('locationId') locationId?: string) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
+
+    const settings = await this.reorderService.getSettings(targetLocationId);
+    return {
+      success: true,
+      data: settings,
+      count: settings.length,
+    };
+  }
+
+  @Put('settings/:productId')
+  @Roles('OWNER', 'MANAGER')
+  async upsertSetting(@Req() req: any, @Param('productId') productId: string, @Body() body: ReorderSettingDto) {
+    if (typeof body?.minQuantity !== 'number') {
+      throw new HttpException({ success: false, message: 'Missing required field: minQuantity' }, HttpStatus.BAD_REQUEST);
+    }
+
+    const setting = await this.reorderService.upsertSetting({
+      productId,
+      locationId: this.targetLocation(req, body.locationId),
+      minQuantity: body.minQuantity,
+      maxQuantity: body.maxQuantity,
+      orderMultiple: body.orderMultiple,
+      updatedBy: req.employee.id,
+    });
+
+    return {
+      success: true,
+      data: setting,
+    };
+  }
+
+  @Delete('settings/:productId')
+  @Roles('OWNER', 'MANAGER')
+  async deleteSetting(@Req() req: any, @Param('productId') productId: string, @Query('locationId') locationId?: string) {
+    await this.reorderService.deleteSetting(productId, this.targetLocation(req, locationId));
+    return {
+      success: true,
+      message: 'Reorder setting removed',
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Suggestions - what to buy, grouped by preferred supplier
+  // --------------------------------------------------------------------------
+
+  @Get('suggestions')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getSuggestions(
+    @Req() req: any,
+    @Query('locationId') locationId?: string,
+    @Query('supplierId') supplierId?: string,
+    @Query('lookbackDays') lookbackDays?: string,
+    @Query('coverDays') coverDays?: string,
+  ) {
+    const groups = await this.reorderService.getSuggestions({
+      locationId: this.targetLocation(req, locationId),
+      supplierId,
+      lookbackDays: lookbackDays ? parseInt(lookbackDays, 10) : undefined,
+      coverDays: coverDays ? parseInt(coverDays, 10) : undefined,
+    });
+
+    return {
+      success: true,
+      data: groups,
+      count: groups.reduce((sum, g) => sum + g.lines.length, 0),
+    };
+  }
+
+  @Get('suggestions/export')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="reorder-suggestions.csv"')
+  async exportSuggestions(
+    @Req() req: any,
+    @Query('locationId') locationId?: string,
+    @Query('supplierId') supplierId?: string,
+    @Query('lookbackDays') lookbackDays?: string,
+    @Query('coverDays') coverDays?: string,
+  ) {
+    return this.reorderService.exportSuggestions({
+      locationId: this.targetLocation(req, locationId),
+      supplierId,
+      lookbackDays: lookbackDays ? parseInt(lookbackDays, 10) : undefined,
+      coverDays: coverDays ? parseInt(coverDays, 10) : undefined,
+    });
+  }
+
+  /** Turn the current suggestions into one DRAFT purchase order per supplier. */
+  @Post('suggestions/purchase-orders')
+  @Roles('OWNER', 'MANAGER')
+  async createPurchaseOrders(@Req() req: any, @Body() body: CreateFromSuggestionsDto) {
+    const quantities = body?.quantities;
+    if (
+      quantities !== undefined &&
+      (typeof quantities !== 'object' ||
+        Object.values(quantities).some(q => typeof q !== 'number' || !Number.isInteger(q) || q < 0))
+    ) {
+      throw new HttpException(
+        { success: false, message: 'quantities must map productId to a non-negative integer' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const result = await this.reorderService.createPurchaseOrders({
+      locationId: this.targetLocation(req, body?.locationId),
+      supplierId: body?.supplierId,
+      lookbackDays: body?.lookbackDays,
+      coverDays: body?.coverDays,
+      quantities,
+      createdBy: req.employee.id,
+    });
+
+    return {
+      success: true,
+      message:
+        `Created ${result.orders.length} draft purchase order(s)` +
+        (result.skipped.length > 0 ? `, ${result.skipped.length} product(s) have no preferred supplier` : ''),
+      data: result,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private targetLocation(req: any, locationId?: string): string {
+    const currentLocation = req.currentLocation;
+    return currentLocation.role === 'OWNER' && locationId ? locationId : currentLocation.locationId;
+  }
+}
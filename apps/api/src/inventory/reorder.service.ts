@@ -0,0 +1,369 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PurchaseOrderService } from './purchase-order.service';
+import { DEFAULT_LEAD_TIME_DAYS, dailyVelocity, suggestReorder, toCsv, type ReorderSuggestion } from './reorder';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReorderSettingInput {
+  productId: string;
+  locationId: string;
+  minQuantity: number;
+  maxQuantity?: number | null;
+  orderMultiple?: number | null;
+  updatedBy?: string;
+}
+
+export interface SuggestionOptions {
+  locationId: string;
+  lookbackDays?: number; // Sales window for velocity (default 28)
+  coverDays?: number; // Demand an order should cover (default 14)
+  supplierId?: string; // Only this preferred supplier's products
+}
+
+export interface ReorderSuggestionLine extends ReorderSuggestion {
+  product: { id: string; name: string; sku: string | null };
+  onHand: number;
+  onOrder: number;
+  dailyVelocity: number;
+  leadTimeDays: number;
+  hasSetting: boolean;
+  expectedUnitCost: string | null; // Preferred supplier's current cost
+  expectedTotal: string | null;
+}
+
+export interface ReorderSuggestionGroup {
+  supplier: { id: string; name: string; leadTimeDays: number | null } | null; // null: no preferred supplier
+  lines: ReorderSuggestionLine[];
+  expectedTotal: string;
+}
+
+const DEFAULT_LOOKBACK_DAYS = 28;
+const DEFAULT_COVER_DAYS = 14;
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * What to buy. Min-max settings per product and location, and a generator
+ * that turns sales velocity, stock position and supplier lead time into
+ * order quantities grouped by preferred supplier — ready to export or to
+ * turn into draft purchase orders.
+ */
+@Injectable()
+export class ReorderService {
+  private readonly logger = new Logger(ReorderService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly purchaseOrders: PurchaseOrderService,
+  ) {}
+
+  // --------------------------------------------------------------------------
+  // Settings
+  // --------------------------------------------------------------------------
+
+  async getSettings(locationId?: string) {
+    return this.prisma.reorderSetting.findMany({
+      where: { ...(locationId && { locationId }) },
+      include: {
+        product: { select: { id: true, name: true, sku: true } },
+        location: { select: { id: true, name: true } },
+      },
+      orderBy: { product: { name: 'asc' } },
+    });
+  }
+
+  async upsertSetting(input: ReorderSettingInput) {
+    const maxQuantity = input.maxQuantity ?? null;
+    const orderMultiple = input.orderMultiple ?? null;
+    if (!Number.isInteger(input.minQuantity) || input.minQuantity < 0) {
+      throw new BadRequestException('minQuantity must be a non-negative integer');
+    }
+    if (maxQuantity !== null && (!Number.isInteger(maxQuantity) || maxQuantity < input.minQuantity)) {
+      throw new BadRequestException('maxQuantity must be an integer no lower than minQuantity');
+    }
+    if (orderMultiple !== null && (!Number.isInteger(orderMultiple) || orderMultiple < 1)) {
+      throw new BadRequestException('orderMultiple must be a positive integer');
+    }
+
+    const [product, location] = await Promise.all([
+      this.prisma.product.findUnique({ where: { id: input.productId }, select: { id: true } }),
+      this.prisma.location.findUnique({ where: { id: input.locationId }, select: { id: true } }),
+    ]);
+    if (!product) {
+      throw new NotFoundException(`Product ${input.productId} not found`);
+    }
+    if (!location) {
+      throw new NotFoundException(`Location ${input.locationId} not found`);
+    }
+
+    const data = { minQuantity: input.minQuantity, maxQuantity, orderMultiple, updatedBy: input.updatedBy };
+    return this.prisma.reorderSetting.upsert({
+      where: { productId_locationId: { productId: input.productId, locationId: input.locationId } },
+      create: { productId: input.productId, locationId: input.locationId, ...data },
+      update: data,
+      include: { product: { select: { id: true, name: true, sku: true } } },
+    });
+  }
+
+  /** Back to velocity-derived reordering for this product and location. */
+  async deleteSetting(productId: string, locationId: string) {
+    const deleted = await this.prisma.reorderSetting.deleteMany({ where: { productId, locationId } });
+    if (deleted.count === 0) {
+      throw new NotFoundException(`No reorder setting for product ${productId} at location ${locationId}`);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Suggestions
+  // --------------------------------------------------------------------------
+
+  /**
+   * Products at or below their reorder point, with how many to order. The
+   * candidates are every product with a setting or with sales in the
+   * window; discontinued products are left out. Loose units (sueltos) are
+   * restocked by break-bulk, so their demand is folded into the box they
+   * are broken from instead of being suggested on its own.
+   */
+  async getSuggestions(options: SuggestionOptions): Promise<ReorderSuggestionGroup[]> {
+    const lookbackDays = options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+    const coverDays = options.coverDays ?? DEFAULT_COVER_DAYS;
+    if (!Number.isInteger(lookbackDays) || lookbackDays < 1 || !Number.isInteger(coverDays) || coverDays < 0) {
+      throw new BadRequestException('lookbackDays must be a positive integer and coverDays non-negative');
+    }
+
+    const location = await this.prisma.location.findUnique({ where: { id: options.locationId }, select: { id: true } });
+    if (!location) {
+      throw new NotFoundException(`Location ${options.locationId} not found`);
+    }
+
+    const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+    const [settings, sold] = await Promise.all([
+      this.prisma.reorderSetting.findMany({ where: { locationId: options.locationId } }),
+      this.netUnitsSold(options.locationId, since),
+    ]);
+
+    // Fold loose-unit demand into the box it is broken from
+    const sueltos = await this.prisma.product.findMany({
+      where: { id: { in: [...sold.keys()] }, brokenFrom: { some: {} } },
+      select: { id: true, brokenFrom: { select: { id: true, cantidad: true }, take: 1 } },
+    });
+    for (const suelto of sueltos) {
+      const box = suelto.brokenFrom[0];
+      if (box.cantidad && box.cantidad > 0) {
+        sold.set(box.id, (sold.get(box.id) ?? 0) + (sold.get(suelto.id) ?? 0) / box.cantidad);
+      }
+      sold.delete(suelto.id);
+    }
+
+    const settingByProduct = new Map(settings.map(s => [s.productId, s]));
+    const candidateIds = [...new Set([...settingByProduct.keys(), ...sold.keys()])];
+    if (candidateIds.length === 0) return [];
+
+    const [products, preferred, onHand, onOrder] = await Promise.all([
+      this.prisma.product.findMany({
+        where: { id: { in: candidateIds }, isDiscontinued: false },
+        select: { id: true, name: true, sku: true },
+      }),
+      this.prisma.supplierProduct.findMany({
+        where: { productId: { in: candidateIds }, isPreferred: true },
+        include: { supplier: { select: { id: true, name: true, leadTimeDays: true, isActive: true } } },
+      }),
+      this.onHand(options.locationId, candidateIds),
+      this.purchaseOrders.getOnOrder(options.locationId, candidateIds, { includeDrafts: true }),
+    ]);
+    const preferredByProduct = new Map(preferred.filter(p => p.supplier.isActive).map(p => [p.productId, p]));
+
+    const groups = new Map<string | null, ReorderSuggestionGroup>();
+    for (const product of products) {
+      const supplierProduct = preferredByProduct.get(product.id);
+      if (options.supplierId && supplierProduct?.supplierId !== options.supplierId) continue;
+
+      const setting = settingByProduct.get(product.id) ?? null;
+      const leadTimeDays = supplierProduct?.supplier.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+      const velocity = dailyVelocity(sold.get(product.id) ?? 0, lookbackDays);
+      const suggestion = suggestReorder({
+        onHand: onHand.get(product.id) ?? 0,
+        onOrder: onOrder.get(product.id) ?? 0,
+        dailyVelocity: velocity,
+        leadTimeDays,
+        coverDays,
+        setting,
+      });
+      if (suggestion.suggestedQuantity === 0) continue;
+
+      const supplierId = supplierProduct?.supplierId ?? null;
+      let group = groups.get(supplierId);
+      if (!group) {
+        group = {
+          supplier: supplierProduct
+            ? {
+                id: supplierProduct.supplier.id,
+                name: supplierProduct.supplier.name,
+                leadTimeDays: supplierProduct.supplier.leadTimeDays,
+              }
+            : null,
+          lines: [],
+          expectedTotal: '0',
+        };
+        groups.set(supplierId, group);
+      }
+
+      const expectedTotal = supplierProduct?.cost.mul(suggestion.suggestedQuantity) ?? null;
+      group.lines.push({
+        ...suggestion,
+        product,
+        onHand: onHand.get(product.id) ?? 0,
+        onOrder: onOrder.get(product.id) ?? 0,
+        dailyVelocity: Math.round(velocity * 100) / 100,
+        leadTimeDays,
+        hasSetting: setting !== null,
+        expectedUnitCost: supplierProduct?.cost.toString() ?? null,
+        expectedTotal: expectedTotal?.toString() ?? null,
+      });
+      if (expectedTotal) {
+        group.expectedTotal = expectedTotal.add(group.expectedTotal).toString();
+      }
+    }
+
+    // Suppliers by name, the unassigned group last
+    return [...groups.values()]
+      .map(g => ({ ...g, lines: g.lines.sort((a, b) => a.product.name.localeCompare(b.product.name)) }))
+      .sort((a, b) => (!a.supplier ? 1 : !b.supplier ? -1 : a.supplier.name.localeCompare(b.supplier.name)));
+  }
+
+  /** The same suggestions as a flat CSV, one row per product. */
+  async exportSuggestions(options: SuggestionOptions): Promise<string> {
+    const groups = await this.getSuggestions(options);
+    return toCsv(
+      [
+        'supplier', 'sku', 'product', 'onHand', 'onOrder', 'dailyVelocity', 'leadTimeDays',
+        'reorderPoint', 'orderUpTo', 'suggestedQuantity', 'expectedUnitCost', 'expectedTotal',
+      ],
+      groups.flatMap(g =>
+        g.lines.map(l => [
+          g.supplier?.name ?? '',
+          l.product.sku,
+          l.product.name,
+          l.onHand,
+          l.onOrder,
+          l.dailyVelocity,
+          l.leadTimeDays,
+          l.reorderPoint,
+          l.orderUpTo,
+          l.suggestedQuantity,
+          l.expectedUnitCost,
+          l.expectedTotal,
+        ]),
+      ),
+    );
+  }
+
+  /**
+   * One DRAFT purchase order per preferred supplier from the current
+   * suggestions. `quantities` overrides (or, with 0, drops) a product's
+   * suggested quantity; products without a preferred supplier are skipped
+   * and reported, since there is nobody to order them from.
+   */
+  async createPurchaseOrders(
+    options: SuggestionOptions & { quantities?: Record<string, number>; createdBy?: string },
+  ) {
+    const groups = await this.getSuggestions(options);
+
+    const orders: Awaited<ReturnType<PurchaseOrderService['createPurchaseOrder']>>[] = [];
+    let skipped: ReorderSuggestionLine[] = [];
+    for (const group of groups) {
+      if (!group.supplier) {
+        skipped = group.lines;
+        continue;
+      }
+      const lines = group.lines
+        .map(l => ({
+          productId: l.product.id,
+          quantity: options.quantities?.[l.product.id] ?? l.suggestedQuantity,
+          ...(l.expectedUnitCost !== null && { expectedUnitCost: Number(l.expectedUnitCost) }),
+        }))
+        .filter(l => l.quantity > 0);
+      if (lines.length === 0) continue;
+
+      orders.push(
+        await this.purchaseOrders.createPurchaseOrder({
+          supplierId: group.supplier.id,
+          locationId: options.locationId,
+          lines,
+          notes: 'Created from reorder suggestions',
+          createdBy: options.createdBy,
+        }),
+      );
+    }
+
+    this.logger.log(
+      `[REORDER] Created ${orders.length} draft purchase order(s) at ${options.locationId}; ` +
+        `${skipped.length} product(s) without a preferred supplier`,
+    );
+    return { orders, skipped };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  /**
+   * Units sold per product at a location since `since`, net of refunds and
+   * without voided sales.
+   */
+  private async netUnitsSold(locationId: string, since: Date): Promise<Map<string, number>> {
+    const [sales, reversals] = await Promise.all([
+      this.prisma.saleItem.groupBy({
+        by: ['productId'],
+        where: { sale: { locationId, createdAt: { gte: since }, saleVoid: null } },
+        _sum: { quantity: true },
+      }),
+      this.prisma.saleItemReversal.findMany({
+        where: { saleItem: { sale: { locationId, createdAt: { gte: since }, saleVoid: null } } },
+        select: { quantity: true, saleItem: { select: { productId: true } } },
+      }),
+    ]);
+
+    const sold = new Map<string, number>();
+    for (const row of sales) {
+      sold.set(row.productId, row._sum.quantity || 0);
+    }
+    for (const reversal of reversals) {
+      const productId = reversal.saleItem.productId;
+      sold.set(productId, (sold.get(productId) ?? 0) - reversal.quantity);
+    }
+    return sold;
+  }
+
+  /** Batches on hand less units sold while there were none (pending cost). */
+  private async onHand(locationId: string, productIds: string[]): Promise<Map<string, number>> {
+    const where = { locationId, productId: { in: productIds } } satisfies Prisma.InventoryWhereInput;
+    const [batches, pending] = await Promise.all([
+      this.prisma.inventory.groupBy({
+        by: ['productId'],
+        where: { ...where, quantity: { gt: 0 } },
+        _sum: { quantity: true },
+      }),
+      this.prisma.pendingCostConsumption.groupBy({
+        by: ['productId'],
+        where: { ...where, remainingQuantity: { gt: 0 } },
+        _sum: { remainingQuantity: true },
+      }),
+    ]);
+
+    const onHand = new Map<string, number>();
+    for (const row of batches) {
+      onHand.set(row.productId, row._sum.quantity || 0);
+    }
+    for (const row of pending) {
+      onHand.set(row.productId, (onHand.get(row.productId) ?? 0) - (row._sum.remainingQuantity || 0));
+    }
+    return onHand;
+  }
+}
@@ -0,0 +1,54 @@
+import { dailyVelocity, suggestReorder, toCsv } from './reorder';
+
+const base = { onHand: 0, onOrder: 0, dailyVelocity: 0, leadTimeDays: 7, coverDays: 14, setting: null };
+
+describe('suggestReorder', () => {
+  it('orders up to max once the position reaches min', () => {
+    const setting = { minQuantity: 10, maxQuantity: 40, orderMultiple: null };
+    expect(suggestReorder({ ...base, onHand: 6, onOrder: 4, setting })).toMatchObject({
+      position: 10,
+      reorderPoint: 10,
+      orderUpTo: 40,
+      suggestedQuantity: 30,
+    });
+    expect(suggestReorder({ ...base, onHand: 11, setting }).suggestedQuantity).toBe(0);
+  });
+
+  it('rounds up to the case pack', () => {
+    const setting = { minQuantity: 5, maxQuantity: 20, orderMultiple: 12 };
+    expect(suggestReorder({ ...base, onHand: 3, setting }).suggestedQuantity).toBe(24);
+  });
+
+  it('derives the reorder point from lead-time demand when there is no setting', () => {
+    // 2/day over 7 days: reorder at 14, then cover 14 more days (28)
+    const suggestion = suggestReorder({ ...base, onHand: 12, onOrder: 2, dailyVelocity: 2 });
+    expect(suggestion).toMatchObject({ reorderPoint: 14, orderUpTo: 42, suggestedQuantity: 28, daysOfCover: 7 });
+  });
+
+  it('adds cover-period demand to min when max is unset', () => {
+    const setting = { minQuantity: 5, maxQuantity: null, orderMultiple: null };
+    expect(suggestReorder({ ...base, onHand: 5, dailyVelocity: 0.5, setting })).toMatchObject({
+      orderUpTo: 12,
+      suggestedQuantity: 7,
+    });
+  });
+
+  it('suggests nothing for a product that neither sells nor has a setting', () => {
+    expect(suggestReorder(base)).toMatchObject({ suggestedQuantity: 0, daysOfCover: null });
+  });
+});
+
+describe('dailyVelocity', () => {
+  it('never goes negative when refunds outnumber sales', () => {
+    expect(dailyVelocity(-3, 28)).toBe(0);
+    expect(dailyVelocity(56, 28)).toBe(2);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields that need it', () => {
+    expect(toCsv(['name', 'qty'], [['Caja, 20 "tabs"', 3], ['Gel', null]])).toBe(
+      'name,qty\r\n"Caja, 20 ""tabs""",3\r\nGel,\r\n',
+    );
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Pure reorder math — no DB access. Decides whether a product needs
+ * ordering and how much, from its stock position and sales velocity.
+ */
+
+// Used when the preferred supplier has no lead time recorded
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+export interface ReorderPolicy {
+  minQuantity: number;
+  maxQuantity: number | null;
+  orderMultiple: number | null;
+}
+
+export interface ReorderInput {
+  onHand: number;
+  onOrder: number; // Outstanding on open purchase orders
+  dailyVelocity: number; // Net units sold per day
+  leadTimeDays: number;
+  coverDays: number; // Demand an order should cover once it arrives
+  setting: ReorderPolicy | null;
+}
+
+export interface ReorderSuggestion {
+  position: number; // onHand + onOrder
+  reorderPoint: number;
+  orderUpTo: number;
+  suggestedQuantity: number; // 0 when no order is needed
+  daysOfCover: number | null; // position / velocity; null when nothing sells
+}
+
+/** Net units sold per day over the lookback window; refunds can't push it below zero. */
+export function dailyVelocity(netUnitsSold: number, lookbackDays: number): number {
+  return lookbackDays > 0 ? Math.max(netUnitsSold, 0) / lookbackDays : 0;
+}
+
+/**
+ * A product is reordered once its position (on hand plus on order) is at or
+ * below the reorder point, up to the order-up-to level. With a min-max
+ * setting those are its min and max (a missing max adds the cover period's
+ * demand to the min). Without one the reorder point is the demand expected
+ * over the lead time, so stock runs out about when the order lands, and the
+ * order covers `coverDays` more. Quantities round up to the case pack.
+ */
+export function suggestReorder(input: ReorderInput): ReorderSuggestion {
+  const { setting } = input;
+  const position = input.onHand + input.onOrder;
+  const coverDemand = Math.ceil(input.dailyVelocity * input.coverDays);
+
+  const reorderPoint = setting ? setting.minQuantity : Math.ceil(input.dailyVelocity * input.leadTimeDays);
+  const orderUpTo = Math.max(setting?.maxQuantity ?? reorderPoint + coverDemand, reorderPoint);
+
+  let suggestedQuantity = position <= reorderPoint ? Math.max(orderUpTo - position, 0) : 0;
+  const multiple = setting?.orderMultiple;
+  if (suggestedQuantity > 0 && multiple && multiple > 1) {
+    suggestedQuantity = Math.ceil(suggestedQuantity / multiple) * multiple;
+  }
+
+  return {
+    position,
+    reorderPoint,
+    orderUpTo,
+    suggestedQuantity,
+    daysOfCover: input.dailyVelocity > 0 ? Math.round((position / input.dailyVelocity) * 10) / 10 : null,
+  };
+}
+
+/** RFC 4180 CSV: fields with commas, quotes or newlines are quoted. */
+export function toCsv(header: string[], rows: Array<Array<string | number | null>>): string {
+  const field = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [header, ...rows].map(row => row.map(field).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,96 @@
+import { Controller, Get, Post, Body, Param, Query, Req, UseGuards } from '@nestjs/common';
+import { SaleRefundService } from './sale-refund.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface WriteOffReversalDto {
+  reason?: string;
+}
+
+// Helper to set date to end of day (23:59:59.999) to include all records from that day
+function endOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setUTCHours(23, 59, 59, 999);
+  return result;
+}
+
+@Controller('inventory/refunds')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class SaleRefundController {
+  constructor(private readonly refundService: SaleRefundService) {}
+
+  // --------------------------------------------------------------------------
+  // Query endpoints - OWNER, MANAGER, ACCOUNTANT
+  // --------------------------------------------------------------------------
+  @Get()
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getRefunds(
+    @Req() req: any,
+    @Query('locationId') locationId?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
+
+    const refunds = await this.refundService.getRefunds({
+      locationId: targetLocationId,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? endOfDay(new Date(endDate)) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    return {
+      success: true,
+      count: refunds.length,
+      data: refunds.map(r => ({
+        ...r,
+        amount: r.amount.toString(),
+        items: r.items.map(i => ({
+          ...i,
+          unitCost: i.unitCost.toString(),
+          totalCost: i.totalCost.toString(),
+          revenue: i.revenue.toString(),
+        })),
+      })),
+    };
+  }
+
+  @Get(':id')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getRefund(@Param('id') id: string) {
+    const refund = await this.refundService.getRefund(id);
+    return {
+      success: true,
+      data: {
+        ...refund,
+        amount: refund.amount.toString(),
+        items: refund.items.map(i => ({
+          ...i,
+          unitCost: i.unitCost.toString(),
+          totalCost: i.totalCost.toString(),
+          revenue: i.revenue.toString(),
+          saleItem: { ...i.saleItem, price: i.saleItem.price.toString() },
+        })),
+      },
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Write off an unsellable returned unit - OWNER, MANAGER only
+  // --------------------------------------------------------------------------
+  @Post('reversals/:id/write-off')
+  @Roles('OWNER', 'MANAGER')
+  async writeOffReversal(@Param('id') id: string, @Body() body: WriteOffReversalDto, @Req() req: any) {
+    const result = await this.refundService.writeOffReversal(id, {
+      reason: body?.reason,
+      adjustedBy: req.employee?.id,
+    });
+
+    return {
+      success: true,
+      message: `Wrote off ${Math.abs(result.adjustment.quantity)} refunded unit(s)`,
+      data: result,
+    };
+  }
+}
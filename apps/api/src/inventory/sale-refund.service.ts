@@ -0,0 +1,238 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma, AdjustmentType } from '@prisma/client';
+import { lockStock } from './stock-lock';
+
+/**
+ * Read side of Square refunds plus the one manual follow-up they need.
+ *
+ * The sale worker (refund.worker.ts) records each COMPLETED refund and
+ * restocks the returned units into the exact batches the sale consumed. A
+ * returned medication often can't go back on the shelf, so a manager can
+ * then write a reversal off: the same units leave the same batch again via a
+ * WRITE_OFF adjustment, which is what puts the loss into shrinkage.
+ */
+@Injectable()
+export class SaleRefundService {
+  private readonly logger = new Logger(SaleRefundService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getRefunds(options: { locationId?: string; startDate?: Date; endDate?: Date; limit?: number }) {
+    return this.prisma.saleRefund.findMany({
+      where: {
+        ...(options.locationId && { sale: { locationId: options.locationId } }),
+        ...((options.startDate || options.endDate) && {
+          refundedAt: {
+            ...(options.startDate && { gte: options.startDate }),
+            ...(options.endDate && { lte: options.endDate }),
+          },
+        }),
+      },
+      include: {
+        sale: { select: { id: true, squareId: true, locationId: true, createdAt: true } },
+        items: {
+          include: { saleItem: { select: { productId: true, product: { select: { name: true, sku: true } } } } },
+        },
+      },
+      orderBy: { refundedAt: 'desc' },
+      take: options.limit || 100,
+    });
+  }
+
+  async getRefund(refundId: string) {
+    const refund = await this.prisma.saleRefund.findUnique({
+      where: { id: refundId },
+      include: {
+        sale: { select: { id: true, squareId: true, locationId: true, createdAt: true } },
+        items: {
+          include: {
+            saleItem: { select: { productId: true, price: true, product: { select: { name: true, sku: true } } } },
+            inventory: { select: { id: true, receivedAt: true, quantity: true } },
+          },
+        },
+      },
+    });
+
+    if (!refund) {
+      throw new NotFoundException(`Refund ${refundId} not found`);
+    }
+
+    return refund;
+  }
+
+  async writeOffReversal(reversalId: string, options: { reason?: string; adjustedBy?: string }) {
+    const reversal = await this.prisma.saleItemReversal.findUnique({
+      where: { id: reversalId },
+      include: {
+        refund: { select: { squareRefundId: true, sale: { select: { locationId: true } } } },
+        saleItem: { select: { productId: true } },
+      },
+    });
+
+    if (!reversal) {
+      throw new NotFoundException(`Refund reversal ${reversalId} not found`);
+    }
+
+    const adjustment = await this.prisma.$transaction(async (tx) => {
+      await lockStock(tx, [{ productId: reversal.saleItem.productId, locationId: reversal.refund.sale.locationId }]);
+
+      // Claim the reversal first: of two write-offs racing on it, only the
+      // one whose update still sees RESTOCKED goes on to take the units.
+      const claimed = await tx.saleItemReversal.updateMany({
+        where: { id: reversal.id, disposition: 'RESTOCKED' },
+        data: { disposition: 'WRITTEN_OFF' },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException(`Refund reversal ${reversalId} is already written off`);
+      }
+
+      // Conditional decrement: if the restocked units were already resold
+      // out of this batch there is nothing left to write off.
+      const updated = await tx.inventory.updateMany({
+        where: { id: reversal.inventoryId, quantity: { gte: reversal.quantity } },
+        data: { quantity: { decrement: reversal.quantity } },
+      });
+      if (updated.count === 0) {
+        throw new BadRequestException(
+          `Batch ${reversal.inventoryId} no longer holds the ${reversal.quantity} refunded unit(s) — they were resold`,
+        );
+      }
+
+      const created = await tx.inventoryAdjustment.create({
+        data: {
+          locationId: reversal.refund.sale.locationId,
+          productId: reversal.saleItem.productId,
+          type: AdjustmentType.WRITE_OFF,
+          quantity: -reversal.quantity,
+          reason: options.reason || `Unsellable return (refund ${reversal.refund.squareRefundId})`,
+          unitCost: reversal.unitCost,
+          totalCost: reversal.totalCost,
+          adjustedBy: options.adjustedBy,
+        },
+      });
+
+      await tx.inventoryConsumption.create({
+        data: {
+          inventoryId: reversal.inventoryId,
+          adjustmentId: created.id,
+          quantity: reversal.quantity,
+          unitCost: reversal.unitCost,
+          totalCost: reversal.totalCost,
+        },
+      });
+
+      await tx.saleItemReversal.update({
+        where: { id: reversal.id },
+        data: { writeOffAdjustmentId: created.id },
+      });
+
+      return created;
+    });
+
+    this.logger.log(
+      `[REFUND] Wrote off reversal ${reversal.id}: ${reversal.quantity} unit(s) from batch ${reversal.inventoryId}, cost ${reversal.totalCost.toString()}`,
+    );
+
+    return {
+      reversalId: reversal.id,
+      disposition: 'WRITTEN_OFF',
+      adjustment: {
+        id: adjustment.id,
+        type: adjustment.type,
+        quantity: adjustment.quantity,
+        unitCost: adjustment.unitCost.toString(),
+        totalCost: adjustment.totalCost.toString(),
+        reason: adjustment.reason,
+        adjustedAt: adjustment.adjustedAt,
+      },
+    };
+  }
+
+  /**
+   * Refund totals for a reporting period, keyed by when the refund happened
+   * (not when the original sale did) so a period's net sales reflect the
+   * money that actually went back out in it.
+   */
+  async getRefundTotals(options: { locationId?: string; startDate?: Date; endDate?: Date }) {
+    // A refund booked before its sale was voided is part of that void.
+    const refundWhere: Prisma.SaleRefundWhereInput = {
+      sale: { saleVoid: null, ...(options.locationId && { locationId: options.locationId }) },
+      ...((options.startDate || options.endDate) && {
+        refundedAt: {
+          ...(options.startDate && { gte: options.startDate }),
+          ...(options.endDate && { lte: options.endDate }),
+        },
+      }),
+    };
+
+    const [refunds, reversals] = await Promise.all([
+      this.prisma.saleRefund.findMany({
+        where: refundWhere,
+        select: { amount: true, refundedAt: true },
+      }),
+      this.prisma.saleItemReversal.findMany({
+        where: { refund: refundWhere },
+        select: {
+          quantity: true,
+          totalCost: true,
+          revenue: true,
+          refund: { select: { refundedAt: true } },
+          saleItem: { select: { productId: true } },
+        },
+      }),
+    ]);
+
+    let amount = new Prisma.Decimal(0);
+    let cost = new Prisma.Decimal(0);
+    let itemizedRevenue = new Prisma.Decimal(0);
+    let units = 0;
+    const byProduct = new Map<string, { units: number; revenue: Prisma.Decimal; cost: Prisma.Decimal }>();
+    const byDate = new Map<string, { revenue: Prisma.Decimal; cost: Prisma.Decimal }>();
+
+    const dayOf = (date: Date) => {
+      const key = date.toISOString().split('T')[0];
+      let day = byDate.get(key);
+      if (!day) {
+        day = { revenue: new Prisma.Decimal(0), cost: new Prisma.Decimal(0) };
+        byDate.set(key, day);
+      }
+      return day;
+    };
+
+    for (const refund of refunds) {
+      amount = amount.add(refund.amount);
+      const day = dayOf(refund.refundedAt);
+      day.revenue = day.revenue.add(refund.amount);
+    }
+
+    for (const r of reversals) {
+      cost = cost.add(r.totalCost);
+      itemizedRevenue = itemizedRevenue.add(r.revenue);
+      units += r.quantity;
+
+      const product = byProduct.get(r.saleItem.productId);
+      if (product) {
+        product.units += r.quantity;
+        product.revenue = product.revenue.add(r.revenue);
+        product.cost = product.cost.add(r.totalCost);
+      } else {
+        byProduct.set(r.saleItem.productId, { units: r.quantity, revenue: r.revenue, cost: r.totalCost });
+      }
+
+      const day = dayOf(r.refund.refundedAt);
+      day.cost = day.cost.add(r.totalCost);
+    }
+
+    return {
+      count: refunds.length,
+      amount,
+      cost,
+      units,
+      // Money refunded without returned items (price adjustments, goodwill)
+      unitemizedAmount: amount.sub(itemizedRevenue),
+      byProduct,
+      byDate,
+    };
+  }
+}
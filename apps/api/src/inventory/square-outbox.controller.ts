@@ -0,0 +1,72 @@
+import { Controller, Get, Post, Param, Query, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { SquareOutboxStatus } from '@prisma/client';
+import { SquareOutboxService } from './square-outbox.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+@Controller('inventory/square-outbox')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class SquareOutboxController {
+  constructor(private readonly outboxService: SquareOutboxService) {}
+
+  /**
+   * Queued Square changes, newest first. OWNER only: rows span every
+   * location. status=UNSYNCED covers PENDING and FAILED together.
+   */
+  @Get()
+  @Roles('OWNER')
+  async getEntries(@Query('status') status?: string, @Query('referenceId') referenceId?: string) {
+    const statusFilter = status?.toUpperCase();
+    if (
+      statusFilter &&
+      statusFilter !== 'UNSYNCED' &&
+      !Object.values(SquareOutboxStatus).includes(statusFilter as SquareOutboxStatus)
+    ) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Invalid status. Must be one of: ${[...Object.values(SquareOutboxStatus), 'UNSYNCED'].join(', ')}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const entries = await this.outboxService.getEntries({
+      status:
+        statusFilter === 'UNSYNCED'
+          ? [SquareOutboxStatus.PENDING, SquareOutboxStatus.FAILED]
+          : statusFilter
+            ? [statusFilter as SquareOutboxStatus]
+            : undefined,
+      referenceId,
+    });
+    return {
+      success: true,
+      data: entries,
+      count: entries.length,
+    };
+  }
+
+  /** Re-send everything not yet synced. */
+  @Post('flush')
+  @Roles('OWNER')
+  async flush() {
+    const result = await this.outboxService.flush();
+    return {
+      success: true,
+      message: `Sent ${result.attempted} queued change set(s): ${result.synced} synced, ${result.failed.length} failed`,
+      data: result,
+    };
+  }
+
+  /** Re-send one row now instead of waiting for the scheduled flush. */
+  @Post(':id/retry')
+  @Roles('OWNER')
+  async retry(@Param('id') id: string) {
+    const result = await this.outboxService.retry(id);
+    return {
+      success: true,
+      message: result.synced ? 'Change set synced to Square' : `Send failed: ${result.error}`,
+      data: result,
+    };
+  }
+}
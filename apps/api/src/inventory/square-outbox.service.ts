@@ -0,0 +1,217 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, type SquareOutboxStatus, type SquareSyncOutbox } from '@prisma/client';
+import { SquareClient, SquareEnvironment } from 'square';
+import { PrismaService } from '../prisma/prisma.service';
+import { outboxRefs, toSquareChanges, type OutboxChange } from './square-outbox';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OutboxEntryInput {
+  idempotencyKey: string;
+  referenceId: string;
+  changes: OutboxChange[];
+  occurredAt?: Date;
+}
+
+export interface OutboxSendResult {
+  synced: boolean;
+  error?: string;
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Square inventory sync for stock movements. Callers enqueue the changes
+ * inside the transaction that moves the stock, then send them after it
+ * commits; a row whose send fails stays behind for the next flush instead
+ * of being lost with the request.
+ */
+@Injectable()
+export class SquareOutboxService {
+  private readonly logger = new Logger(SquareOutboxService.name);
+  private squareClient: SquareClient | null = null;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // --------------------------------------------------------------------------
+  // Queries
+  // --------------------------------------------------------------------------
+
+  /** `status` may list several, e.g. PENDING and FAILED for everything not yet synced. */
+  async getEntries(filter: { status?: SquareOutboxStatus[]; referenceId?: string }) {
+    return this.prisma.squareSyncOutbox.findMany({
+      where: {
+        ...(filter.status && { status: { in: filter.status } }),
+        ...(filter.referenceId && { referenceId: filter.referenceId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Enqueue and send
+  // --------------------------------------------------------------------------
+
+  /**
+   * Queue changes to go out once `tx` commits. A key already queued keeps
+   * its row, so a caller can re-enqueue a leg it isn't sure about.
+   */
+  async enqueue(tx: Prisma.TransactionClient, entry: OutboxEntryInput): Promise<SquareSyncOutbox | null> {
+    if (entry.changes.length === 0) return null;
+
+    return tx.squareSyncOutbox.upsert({
+      where: { idempotencyKey: entry.idempotencyKey },
+      create: {
+        idempotencyKey: entry.idempotencyKey,
+        referenceId: entry.referenceId,
+        changes: entry.changes,
+        occurredAt: entry.occurredAt ?? new Date(),
+      },
+      update: {},
+    });
+  }
+
+  /** Re-send one row by id, for the retry button on the ops screen. */
+  async retry(id: string): Promise<OutboxSendResult> {
+    const row = await this.prisma.squareSyncOutbox.findUnique({ where: { id }, select: { idempotencyKey: true } });
+    if (!row) {
+      throw new NotFoundException(`Square outbox entry ${id} not found`);
+    }
+    return this.send(row.idempotencyKey);
+  }
+
+  /** Send one queued row; a row already synced is not sent again. */
+  async send(idempotencyKey: string): Promise<OutboxSendResult> {
+    const row = await this.prisma.squareSyncOutbox.findUnique({ where: { idempotencyKey } });
+    if (!row) {
+      throw new NotFoundException(`Nothing queued for Square under ${idempotencyKey}`);
+    }
+    if (row.status === 'SYNCED') {
+      return { synced: true };
+    }
+
+    const result = await this.push(row);
+    await this.prisma.squareSyncOutbox.update({
+      where: { id: row.id },
+      data: {
+        status: result.synced ? 'SYNCED' : 'FAILED',
+        attempts: { increment: 1 },
+        lastError: result.error ?? null,
+        syncedAt: result.synced ? new Date() : null,
+      },
+    });
+    return result;
+  }
+
+  /** Re-send every row not yet synced, oldest first. */
+  async flush(limit = 100) {
+    const rows = await this.prisma.squareSyncOutbox.findMany({
+      where: { status: { in: ['PENDING', 'FAILED'] } },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      select: { idempotencyKey: true },
+    });
+
+    let synced = 0;
+    const failed: Array<{ idempotencyKey: string; error?: string }> = [];
+    for (const row of rows) {
+      const result = await this.send(row.idempotencyKey);
+      if (result.synced) {
+        synced++;
+      } else {
+        failed.push({ idempotencyKey: row.idempotencyKey, error: result.error });
+      }
+    }
+
+    this.logger.log(`[SQUARE_OUTBOX] Flushed ${rows.length} row(s): ${synced} synced, ${failed.length} failed`);
+    return { attempted: rows.length, synced, failed };
+  }
+
+  // --------------------------------------------------------------------------
+  // Square
+  // --------------------------------------------------------------------------
+
+  private getSquareClient(): SquareClient | null {
+    if (!this.squareClient) {
+      const token = process.env.SQUARE_ACCESS_TOKEN?.trim();
+      if (!token) {
+        this.logger.warn('SQUARE_ACCESS_TOKEN not set - Square sync disabled');
+        return null;
+      }
+
+      const env = process.env.SQUARE_ENVIRONMENT?.toLowerCase();
+      const nodeEnv = process.env.NODE_ENV?.toLowerCase();
+      const isSandbox = env === 'sandbox' || nodeEnv === 'development';
+
+      this.squareClient = new SquareClient({
+        token,
+        environment: isSandbox ? SquareEnvironment.Sandbox : SquareEnvironment.Production,
+        version: '2025-01-23', // pinned so an SDK bump can't silently change behavior
+      });
+    }
+    return this.squareClient;
+  }
+
+  /** One batchCreateChanges call per row, under the row's idempotency key. */
+  private async push(row: SquareSyncOutbox): Promise<OutboxSendResult> {
+    const client = this.getSquareClient();
+    if (!client) {
+      return { synced: false, error: 'Square client not configured' };
+    }
+
+    try {
+      const changes = row.changes as unknown as OutboxChange[];
+      const { locationIds, productIds } = outboxRefs(changes);
+
+      const [locations, mappings] = await Promise.all([
+        this.prisma.location.findMany({
+          where: { id: { in: locationIds }, squareId: { not: null } },
+          select: { id: true, squareId: true },
+        }),
+        this.prisma.catalogMapping.findMany({
+          where: { productId: { in: productIds } },
+          select: { productId: true, squareVariationId: true },
+        }),
+      ]);
+
+      const mapped = toSquareChanges(
+        changes,
+        {
+          squareLocations: new Map(locations.map(l => [l.id, l.squareId!])),
+          variations: new Map(mappings.map(m => [m.productId, m.squareVariationId])),
+        },
+        row.occurredAt.toISOString(),
+        row.referenceId,
+      );
+      if ('unlinkedLocations' in mapped) {
+        if (mapped.unlinkedLocations.length > 0) {
+          return { synced: false, error: 'Location not linked to Square' };
+        }
+        const products = await this.prisma.product.findMany({
+          where: { id: { in: mapped.unmappedProducts } },
+          select: { name: true },
+        });
+        return {
+          synced: false,
+          error: `Products not mapped to Square catalog: ${products.map(p => p.name).join(', ')}`,
+        };
+      }
+
+      this.logger.log(`[SQUARE_SYNC] Syncing ${row.referenceId}: ${mapped.changes.length} change(s)`);
+      await client.inventory.batchCreateChanges({
+        idempotencyKey: row.idempotencyKey,
+        changes: mapped.changes,
+      });
+      return { synced: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`[SQUARE_SYNC] Failed to sync ${row.referenceId}: ${errorMessage}`);
+      return { synced: false, error: errorMessage };
+    }
+  }
+}
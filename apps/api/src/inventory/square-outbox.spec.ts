@@ -0,0 +1,78 @@
+import { adjustmentChange, toSquareChanges, type OutboxChange } from './square-outbox';
+
+describe('adjustmentChange', () => {
+  it('moves removals from IN_STOCK to WASTE', () => {
+    expect(adjustmentChange({ locationId: 'centro', productId: 'p1', type: 'BREAK_BULK_OUT', quantity: -2 })).toEqual({
+      type: 'ADJUSTMENT',
+      locationId: 'centro',
+      productId: 'p1',
+      quantity: 2,
+      fromState: 'IN_STOCK',
+      toState: 'WASTE',
+    });
+  });
+
+  it('adds from NONE, or from UNLINKED_RETURN for returns', () => {
+    expect(adjustmentChange({ locationId: 'centro', productId: 'p1', type: 'FOUND', quantity: 3 })).toMatchObject({
+      fromState: 'NONE',
+      toState: 'IN_STOCK',
+    });
+    expect(adjustmentChange({ locationId: 'centro', productId: 'p1', type: 'RETURN', quantity: 1 })).toMatchObject({
+      fromState: 'UNLINKED_RETURN',
+      toState: 'IN_STOCK',
+    });
+  });
+});
+
+describe('toSquareChanges', () => {
+  const changes: OutboxChange[] = [
+    { type: 'TRANSFER', fromLocationId: 'centro', toLocationId: 'norte', productId: 'p1', quantity: 4, state: 'IN_TRANSIT' },
+    { type: 'ADJUSTMENT', locationId: 'norte', productId: 'p1', quantity: 4, fromState: 'IN_TRANSIT', toState: 'IN_STOCK' },
+  ];
+  const ids = {
+    squareLocations: new Map([['centro', 'SQ-C'], ['norte', 'SQ-N']]),
+    variations: new Map([['p1', 'VAR-1']]),
+  };
+
+  it('maps our ids to Square ids', () => {
+    const result = toSquareChanges(changes, ids, '2026-10-19T12:00:00.000Z', 'transfer-t1');
+    expect(result).toEqual({
+      changes: [
+        {
+          type: 'TRANSFER',
+          transfer: {
+            catalogObjectId: 'VAR-1',
+            fromLocationId: 'SQ-C',
+            toLocationId: 'SQ-N',
+            state: 'IN_TRANSIT',
+            quantity: '4',
+            occurredAt: '2026-10-19T12:00:00.000Z',
+            referenceId: 'transfer-t1',
+          },
+        },
+        {
+          type: 'ADJUSTMENT',
+          adjustment: {
+            catalogObjectId: 'VAR-1',
+            locationId: 'SQ-N',
+            quantity: '4',
+            fromState: 'IN_TRANSIT',
+            toState: 'IN_STOCK',
+            occurredAt: '2026-10-19T12:00:00.000Z',
+            referenceId: 'transfer-t1',
+          },
+        },
+      ],
+    });
+  });
+
+  it('sends nothing when a location or product has no Square id', () => {
+    const result = toSquareChanges(
+      changes,
+      { squareLocations: new Map([['centro', 'SQ-C']]), variations: new Map() },
+      '2026-10-19T12:00:00.000Z',
+      'transfer-t1',
+    );
+    expect(result).toEqual({ unlinkedLocations: ['norte'], unmappedProducts: ['p1'] });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Pure Square-outbox helpers — no DB or network access. An outbox row holds
+ * its changes in our own location and product ids; they become Square
+ * InventoryChanges only when sent, once the ids can be looked up.
+ */
+import type { Square } from 'square';
+
+export type OutboxState = 'NONE' | 'IN_STOCK' | 'IN_TRANSIT' | 'WASTE' | 'UNLINKED_RETURN';
+
+export type OutboxChange =
+  | {
+      type: 'ADJUSTMENT';
+      locationId: string;
+      productId: string;
+      quantity: number; // Always positive; the states carry the direction
+      fromState: OutboxState;
+      toState: OutboxState;
+    }
+  | {
+      type: 'TRANSFER';
+      fromLocationId: string;
+      toLocationId: string;
+      productId: string;
+      quantity: number;
+      state: OutboxState;
+    };
+
+/**
+ * Square state transition for a local adjustment. Additions come from NONE
+ * (UNLINKED_RETURN for a RETURN); removals of any kind go to WASTE, which
+ * covers damage, expiry, theft and write-offs.
+ */
+export function adjustmentChange(leg: {
+  locationId: string;
+  productId: string;
+  type: string;
+  quantity: number; // Signed, as on the adjustment
+}): OutboxChange {
+  const adding = leg.quantity > 0;
+  return {
+    type: 'ADJUSTMENT',
+    locationId: leg.locationId,
+    productId: leg.productId,
+    quantity: Math.abs(leg.quantity),
+    fromState: adding ? (leg.type === 'RETURN' ? 'UNLINKED_RETURN' : 'NONE') : 'IN_STOCK',
+    toState: adding ? 'IN_STOCK' : 'WASTE',
+  };
+}
+
+/** Every location and product a set of changes refers to. */
+export function outboxRefs(changes: OutboxChange[]): { locationIds: string[]; productIds: string[] } {
+  const locationIds = new Set<string>();
+  const productIds = new Set<string>();
+  for (const change of changes) {
+    if (change.type === 'TRANSFER') {
+      locationIds.add(change.fromLocationId);
+      locationIds.add(change.toLocationId);
+    } else {
+      locationIds.add(change.locationId);
+    }
+    productIds.add(change.productId);
+  }
+  return { locationIds: [...locationIds], productIds: [...productIds] };
+}
+
+/**
+ * Map changes to Square ids. Nothing is sent if any location or product
+ * lacks one: a partial batch would leave Square half-moved with no way to
+ * tell which half from the row.
+ */
+export function toSquareChanges(
+  changes: OutboxChange[],
+  ids: { squareLocations: Map<string, string>; variations: Map<string, string> },
+  occurredAt: string,
+  referenceId: string,
+): { changes: Square.InventoryChange[] } | { unlinkedLocations: string[]; unmappedProducts: string[] } {
+  const { locationIds, productIds } = outboxRefs(changes);
+  const unlinkedLocations = locationIds.filter(id => !ids.squareLocations.has(id));
+  const unmappedProducts = productIds.filter(id => !ids.variations.has(id));
+  if (unlinkedLocations.length > 0 || unmappedProducts.length > 0) {
+    return { unlinkedLocations, unmappedProducts };
+  }
+
+  return {
+    changes: changes.map((change): Square.InventoryChange => {
+      const catalogObjectId = ids.variations.get(change.productId)!;
+      if (change.type === 'TRANSFER') {
+        return {
+          type: 'TRANSFER',
+          transfer: {
+            catalogObjectId,
+            fromLocationId: ids.squareLocations.get(change.fromLocationId)!,
+            toLocationId: ids.squareLocations.get(change.toLocationId)!,
+            state: change.state,
+            quantity: change.quantity.toString(),
+            occurredAt,
+            referenceId,
+          },
+        };
+      }
+      return {
+        type: 'ADJUSTMENT',
+        adjustment: {
+          catalogObjectId,
+          locationId: ids.squareLocations.get(change.locationId)!,
+          quantity: change.quantity.toString(),
+          fromState: change.fromState,
+          toState: change.toState,
+          occurredAt,
+          referenceId,
+        },
+      };
+    }),
+  };
+}
@@ -0,0 +1,18 @@
+import { stockLockKeys } from './stock-lock';
+
+describe('stockLockKeys', () => {
+  // Must match the worker's keys (apps/worker/src/stock-lock.spec.ts pins the same format)
+  it('keys stock by location and product', () => {
+    expect(stockLockKeys([{ productId: 'prod-1', locationId: 'loc-1' }])).toEqual(['stock:loc-1:prod-1']);
+  });
+
+  it('deduplicates and sorts', () => {
+    expect(
+      stockLockKeys([
+        { productId: 'b', locationId: 'loc' },
+        { productId: 'a', locationId: 'loc' },
+        { productId: 'b', locationId: 'loc' },
+      ]),
+    ).toEqual(['stock:loc:a', 'stock:loc:b']);
+  });
+});
@@ -0,0 +1,30 @@
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Per-product, per-location advisory lock taken before batches are read for
+ * consumption, so a negative adjustment and a sale in the worker can't both
+ * cost the same units. Transaction-scoped: released on commit or rollback.
+ * The worker takes the same lock for sales (apps/worker/src/stock-lock.ts,
+ * which explains the choice over FOR UPDATE); the key format must match it.
+ */
+
+export interface StockKey {
+  productId: string;
+  locationId: string;
+}
+
+/** Deduplicated and sorted, so callers locking several products can't deadlock. */
+export function stockLockKeys(stock: StockKey[]): string[] {
+  const keys = new Set(stock.map(s => `stock:${s.locationId}:${s.productId}`));
+  return [...keys].sort();
+}
+
+export async function lockStock(
+  tx: Pick<Prisma.TransactionClient, '$executeRaw'>,
+  stock: StockKey[],
+): Promise<void> {
+  for (const key of stockLockKeys(stock)) {
+    // $executeRaw: pg_advisory_xact_lock returns void, which $queryRaw can't deserialize
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtextextended(${key}, 0))`;
+  }
+}
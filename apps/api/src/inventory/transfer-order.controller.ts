@@ -0,0 +1,240 @@
+import { Controller, Get, Post, Patch, Body, Param, Query, Req, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { TransferOrderStatus } from '@prisma/client';
+import { TransferOrderService, type TransferLineInput } from './transfer-order.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface CreateTransferDto {
+  fromLocationId?: string; // Defaults to the current location
+  toLocationId: string;
+  lines: TransferLineInput[];
+  notes?: string;
+}
+
+interface UpdateTransferDto {
+  lines?: TransferLineInput[];
+  notes?: string | null;
+}
+
+interface TransferStepDto {
+  lines?: Array<{ lineId: string; quantity: number }>; // Omitted lines ship/receive in full
+}
+
+@Controller('inventory/transfers')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class TransferOrderController {
+  constructor(private readonly transferService: TransferOrderService) {}
+
+  // --------------------------------------------------------------------------
+  // Query endpoints - OWNER, MANAGER, ACCOUNTANT (pick list also CASHIER)
+  // --------------------------------------------------------------------------
+
+  /** Transfers into or out of a location; short=true keeps those with a shortage. */
+  @Get()
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getTransfers(
+    @Req() req: any,
+    @Query('locationId') locationId?: string,
+    @Query('status') status?: string,
+    @Query('short') short?: string,
+  ) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
+
+    const statusFilter = status?.toUpperCase();
+    if (statusFilter && !Object.values(TransferOrderStatus).includes(statusFilter as TransferOrderStatus)) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Invalid status. Must be one of: ${Object.values(TransferOrderStatus).join(', ')}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const transfers = await this.transferService.getTransfers({
+      locationId: targetLocationId,
+      status: statusFilter as TransferOrderStatus | undefined,
+      shortOnly: short === 'true',
+    });
+
+    return {
+      success: true,
+      data: transfers,
+      count: transfers.length,
+    };
+  }
+
+  @Get(':id')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getTransfer(@Req() req: any, @Param('id') id: string) {
+    const transfer = await this.transferService.getTransfer(id, this.scope(req));
+    return {
+      success: true,
+      data: transfer,
+    };
+  }
+
+  @Get(':id/pick-list')
+  @Roles('OWNER', 'MANAGER', 'CASHIER')
+  async getPickList(@Req() req: any, @Param('id') id: string) {
+    const pickList = await this.transferService.getPickList(id, this.scope(req));
+    return {
+      success: true,
+      data: pickList,
+      count: pickList.lines.length,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Draft, ship, receive - OWNER, MANAGER
+  // --------------------------------------------------------------------------
+
+  @Post()
+  @Roles('OWNER', 'MANAGER')
+  async createTransfer(@Req() req: any, @Body() body: CreateTransferDto) {
+    if (!body?.toLocationId || !Array.isArray(body.lines)) {
+      throw new HttpException(
+        { success: false, message: 'Missing required fields: toLocationId, lines' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    this.validateLines(body.lines);
+
+    const transfer = await this.transferService.createTransfer({
+      fromLocationId: body.fromLocationId || req.currentLocation.locationId,
+      toLocationId: body.toLocationId,
+      lines: body.lines,
+      notes: body.notes,
+      createdBy: req.employee.id,
+      scopeLocationId: this.scope(req),
+    });
+
+    return {
+      success: true,
+      data: transfer,
+    };
+  }
+
+  @Patch(':id')
+  @Roles('OWNER', 'MANAGER')
+  async updateTransfer(@Req() req: any, @Param('id') id: string, @Body() body: UpdateTransferDto) {
+    if (body?.lines !== undefined) {
+      if (!Array.isArray(body.lines)) {
+        throw new HttpException({ success: false, message: 'lines must be an array' }, HttpStatus.BAD_REQUEST);
+      }
+      this.validateLines(body.lines);
+    }
+
+    const transfer = await this.transferService.updateTransfer(
+      id,
+      { lines: body?.lines, notes: body?.notes },
+      this.scope(req),
+    );
+
+    return {
+      success: true,
+      data: transfer,
+    };
+  }
+
+  /** Ship from the source. Lines may ship less than requested (short-shipped). */
+  @Post(':id/ship')
+  @Roles('OWNER', 'MANAGER')
+  async shipTransfer(@Req() req: any, @Param('id') id: string, @Body() body: TransferStepDto) {
+    const result = await this.transferService.shipTransfer(id, {
+      quantities: this.stepQuantities(body),
+      by: req.employee.id,
+      scopeLocationId: this.scope(req),
+    });
+
+    return {
+      success: true,
+      message: this.syncMessage('Transfer shipped', result.squareSync),
+      data: result,
+    };
+  }
+
+  /** Receive at the destination. Lines may receive less than shipped (lost in transit). */
+  @Post(':id/receive')
+  @Roles('OWNER', 'MANAGER')
+  async receiveTransfer(@Req() req: any, @Param('id') id: string, @Body() body: TransferStepDto) {
+    const result = await this.transferService.receiveTransfer(id, {
+      quantities: this.stepQuantities(body),
+      by: req.employee.id,
+      scopeLocationId: this.scope(req),
+    });
+
+    return {
+      success: true,
+      message: this.syncMessage('Transfer received', result.squareSync),
+      data: result,
+    };
+  }
+
+  @Post(':id/cancel')
+  @Roles('OWNER', 'MANAGER')
+  async cancelTransfer(@Req() req: any, @Param('id') id: string) {
+    const transfer = await this.transferService.cancelTransfer(id, this.scope(req));
+    return {
+      success: true,
+      data: transfer,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Retry Square sync - OWNER only
+  // --------------------------------------------------------------------------
+  @Post(':id/retry-square-sync')
+  @Roles('OWNER')
+  async retrySquareSync(@Param('id') id: string) {
+    const result = await this.transferService.retrySquareSync(id);
+    const legs = [result.out, result.in].filter(Boolean) as Array<{ synced: boolean; error?: string }>;
+    const failed = legs.filter(l => !l.synced);
+
+    return {
+      success: failed.length === 0,
+      message:
+        legs.length === 0
+          ? 'Nothing to sync'
+          : failed.length === 0
+            ? 'Successfully synced to Square'
+            : `Square sync failed: ${failed.map(l => l.error).join('; ')}`,
+      data: result,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private scope(req: any): string | undefined {
+    const currentLocation = req.currentLocation;
+    return currentLocation.role === 'OWNER' ? undefined : currentLocation.locationId;
+  }
+
+  private validateLines(lines: TransferLineInput[]) {
+    for (const line of lines) {
+      if (!line?.productId || typeof line.quantity !== 'number') {
+        throw new HttpException(
+          { success: false, message: 'Each line needs productId and quantity' },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+    }
+  }
+
+  private stepQuantities(body: TransferStepDto): Record<string, number> | undefined {
+    if (!body?.lines) return undefined;
+    if (!Array.isArray(body.lines) || body.lines.some(l => !l?.lineId || typeof l.quantity !== 'number')) {
+      throw new HttpException(
+        { success: false, message: 'lines must be an array of { lineId, quantity }' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return Object.fromEntries(body.lines.map(l => [l.lineId, l.quantity]));
+  }
+
+  private syncMessage(base: string, sync: { synced: boolean; error?: string }): string {
+    return sync.synced ? `${base} (synced to Square)` : `${base} (Square sync failed: ${sync.error})`;
+  }
+}
@@ -0,0 +1,563 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma, type TransferOrderStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { InventoryAdjustmentService } from './inventory-adjustment.service';
+import { RackService } from './rack.service';
+import { placementLabel, sortByPlacement } from './rack-layout';
+import { SquareOutboxService } from './square-outbox.service';
+import { lockStock } from './stock-lock';
+import { allocateReceived, lineShortage, transferLegChanges } from './transfer-order';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TransferLineInput {
+  productId: string;
+  quantity: number;
+}
+
+export interface CreateTransferInput {
+  fromLocationId: string;
+  toLocationId: string;
+  lines: TransferLineInput[];
+  notes?: string;
+  createdBy?: string;
+  scopeLocationId?: string; // Non-owners may only create transfers touching their location
+}
+
+export interface TransferStepInput {
+  quantities?: Record<string, number>; // lineId -> quantity; omitted lines default to the full amount
+  by?: string;
+  scopeLocationId?: string;
+}
+
+// Which end of the transfer a non-owner must be at for an action
+type TransferEnd = 'from' | 'to' | 'either';
+
+const TRANSFER_INCLUDE = {
+  fromLocation: { select: { id: true, name: true, squareId: true } },
+  toLocation: { select: { id: true, name: true, squareId: true } },
+  lines: {
+    include: {
+      product: { select: { id: true, name: true, sku: true } },
+      batches: { orderBy: { receivedAt: 'asc' } },
+    },
+    orderBy: { id: 'asc' },
+  },
+} satisfies Prisma.TransferOrderInclude;
+
+type TransferWithLines = Prisma.TransferOrderGetPayload<{ include: typeof TRANSFER_INCLUDE }>;
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Transfer orders between locations. Shipping books a TRANSFER_OUT
+ * adjustment per line at the source, drawing batches in the product's
+ * FIFO/FEFO order under the stock lock; receiving creates one destination
+ * batch per source batch drawn, with its unitCost, receivedAt and lot/expiry,
+ * each booked as a TRANSFER_IN adjustment. Units that leave but never arrive
+ * stay on the line as shortReceived — their cost went out with TRANSFER_OUT.
+ * Each step's legs go through InventoryAdjustmentService in one transaction,
+ * which also queues the step's Square changes in the outbox.
+ */
+@Injectable()
+export class TransferOrderService {
+  private readonly logger = new Logger(TransferOrderService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly adjustments: InventoryAdjustmentService,
+    private readonly squareOutbox: SquareOutboxService,
+    private readonly racks: RackService,
+  ) {}
+
+  // --------------------------------------------------------------------------
+  // Queries
+  // --------------------------------------------------------------------------
+
+  async getTransfers(filter: { locationId?: string; status?: TransferOrderStatus; shortOnly?: boolean }) {
+    const transfers = await this.prisma.transferOrder.findMany({
+      where: {
+        ...(filter.locationId && {
+          OR: [{ fromLocationId: filter.locationId }, { toLocationId: filter.locationId }],
+        }),
+        ...(filter.status && { status: filter.status }),
+      },
+      include: TRANSFER_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+
+    const serialized = transfers.map(t => this.serialize(t));
+    return filter.shortOnly ? serialized.filter(t => t.hasShortage) : serialized;
+  }
+
+  async getTransfer(id: string, scopeLocationId?: string) {
+    return this.serialize(await this.getScopedTransfer(id, scopeLocationId, 'either'));
+  }
+
+  /** Lines in walking order at the source, for whoever pulls the stock to ship. */
+  async getPickList(id: string, scopeLocationId?: string) {
+    const transfer = await this.getScopedTransfer(id, scopeLocationId, 'either');
+    const spots = await this.racks.getSpots(transfer.fromLocationId, transfer.lines.map(l => l.productId));
+
+    const lines = sortByPlacement(transfer.lines, l => ({ productId: l.productId, name: l.product.name }), spots);
+    return {
+      id: transfer.id,
+      status: transfer.status,
+      fromLocation: { id: transfer.fromLocation.id, name: transfer.fromLocation.name },
+      toLocation: { id: transfer.toLocation.id, name: transfer.toLocation.name },
+      lines: lines.map(line => {
+        const spot = spots.get(line.productId);
+        return {
+          id: line.id,
+          product: line.product,
+          quantityRequested: line.quantityRequested,
+          placement: spot ? placementLabel(spot) : null,
+        };
+      }),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Draft
+  // --------------------------------------------------------------------------
+
+  async createTransfer(input: CreateTransferInput) {
+    if (input.fromLocationId === input.toLocationId) {
+      throw new BadRequestException('Source and destination must be different locations');
+    }
+    if (
+      input.scopeLocationId &&
+      input.fromLocationId !== input.scopeLocationId &&
+      input.toLocationId !== input.scopeLocationId
+    ) {
+      throw new BadRequestException('A transfer must start or end at your location');
+    }
+
+    const locations = await this.prisma.location.findMany({
+      where: { id: { in: [input.fromLocationId, input.toLocationId] } },
+      select: { id: true },
+    });
+    if (locations.length !== 2) {
+      throw new NotFoundException('Source or destination location not found');
+    }
+    await this.validateLines(input.lines);
+
+    const transfer = await this.prisma.transferOrder.create({
+      data: {
+        fromLocationId: input.fromLocationId,
+        toLocationId: input.toLocationId,
+        notes: input.notes,
+        createdBy: input.createdBy,
+        lines: {
+          create: input.lines.map(l => ({ productId: l.productId, quantityRequested: l.quantity })),
+        },
+      },
+      include: TRANSFER_INCLUDE,
+    });
+
+    this.logger.log(
+      `[TRANSFER] Draft ${transfer.id}: ${transfer.fromLocation.name} → ${transfer.toLocation.name}, ${input.lines.length} line(s)`,
+    );
+    return this.serialize(transfer);
+  }
+
+  /** Replace a draft's lines and/or notes. */
+  async updateTransfer(
+    id: string,
+    input: { lines?: TransferLineInput[]; notes?: string | null },
+    scopeLocationId?: string,
+  ) {
+    const transfer = await this.getScopedTransfer(id, scopeLocationId, 'either');
+    this.assertStatus(transfer, 'DRAFT');
+    if (input.lines) {
+      await this.validateLines(input.lines);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      if (input.lines) {
+        await tx.transferOrderLine.deleteMany({ where: { transferOrderId: id } });
+        await tx.transferOrderLine.createMany({
+          data: input.lines.map(l => ({ transferOrderId: id, productId: l.productId, quantityRequested: l.quantity })),
+        });
+      }
+      if (input.notes !== undefined) {
+        await tx.transferOrder.update({ where: { id }, data: { notes: input.notes } });
+      }
+    });
+
+    return this.getTransfer(id);
+  }
+
+  async cancelTransfer(id: string, scopeLocationId?: string) {
+    const transfer = await this.getScopedTransfer(id, scopeLocationId, 'either');
+    this.assertStatus(transfer, 'DRAFT');
+
+    const claimed = await this.prisma.transferOrder.updateMany({
+      where: { id, status: 'DRAFT' },
+      data: { status: 'CANCELLED' },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictException(`Transfer ${id} changed status meanwhile`);
+    }
+
+    return this.getTransfer(id);
+  }
+
+  // --------------------------------------------------------------------------
+  // Ship (source)
+  // --------------------------------------------------------------------------
+
+  /**
+   * DRAFT → IN_TRANSIT. Each line ships its requested quantity unless a
+   * smaller one is given (short-shipped); lines shipping 0 move nothing. The
+   * whole shipment fails if any line lacks stock.
+   */
+  async shipTransfer(id: string, input: TransferStepInput) {
+    const transfer = await this.getScopedTransfer(id, input.scopeLocationId, 'from');
+    this.assertStatus(transfer, 'DRAFT');
+
+    const shipped = new Map(
+      transfer.lines.map(line => [
+        line.id,
+        this.stepQuantity(input.quantities, line.id, line.quantityRequested, 'quantityRequested'),
+      ]),
+    );
+    if ([...shipped.values()].every(q => q === 0)) {
+      throw new BadRequestException('Nothing to ship: every line has quantity 0');
+    }
+
+    const shippedAt = new Date();
+    const squareKey = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.transferOrder.updateMany({
+        where: { id, status: 'DRAFT' },
+        data: { status: 'IN_TRANSIT', shippedAt, shippedBy: input.by },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictException(`Transfer ${id} changed status meanwhile`);
+      }
+
+      await lockStock(
+        tx,
+        transfer.lines.map(l => ({ productId: l.productId, locationId: transfer.fromLocationId })),
+      );
+
+      for (const line of transfer.lines) {
+        const quantity = shipped.get(line.id)!;
+        if (quantity === 0) {
+          await tx.transferOrderLine.update({ where: { id: line.id }, data: { quantityShipped: 0 } });
+          continue;
+        }
+
+        const { adjustment, consumedBatches, batches } = await this.adjustments.withdrawStock(tx, {
+          locationId: transfer.fromLocationId,
+          productId: line.productId,
+          type: 'TRANSFER_OUT',
+          quantity: -quantity,
+          reason: `Transfer to ${transfer.toLocation.name}`,
+          notes: transfer.notes,
+          adjustedBy: input.by,
+          label: `${line.product.name} at ${transfer.fromLocation.name}`,
+        });
+
+        const sourceBatches = new Map(batches.map(b => [b.id, b]));
+        await tx.transferOrderBatch.createMany({
+          data: consumedBatches.map(c => {
+            const source = sourceBatches.get(c.batchId)!;
+            return {
+              lineId: line.id,
+              sourceBatchId: c.batchId,
+              quantity: c.quantityConsumed,
+              unitCost: c.unitCost,
+              receivedAt: source.receivedAt,
+              batchNumber: source.batchNumber,
+              expiryDate: source.expiryDate,
+            };
+          }),
+        });
+
+        await tx.transferOrderLine.update({
+          where: { id: line.id },
+          data: { quantityShipped: quantity, outAdjustmentId: adjustment.id },
+        });
+      }
+
+      return this.queueLeg(
+        tx,
+        transfer,
+        'OUT',
+        transfer.lines.map(l => ({ ...l, quantityShipped: shipped.get(l.id)! })),
+        shippedAt,
+      );
+    });
+
+    const totalShipped = [...shipped.values()].reduce((sum, q) => sum + q, 0);
+    this.logger.log(`[TRANSFER] Shipped ${id}: ${totalShipped} unit(s) from ${transfer.fromLocation.name}`);
+
+    const squareSync = await this.syncLegToSquare(id, 'OUT', squareKey);
+    return { ...(await this.getTransfer(id)), squareSync };
+  }
+
+  // --------------------------------------------------------------------------
+  // Receive (destination)
+  // --------------------------------------------------------------------------
+
+  /**
+   * IN_TRANSIT → RECEIVED. Each line receives what was shipped unless a
+   * smaller quantity is given; the difference is recorded as lost in
+   * transit. New batches settle any pending cost at the destination, as a
+   * supplier receiving would.
+   */
+  async receiveTransfer(id: string, input: TransferStepInput) {
+    const transfer = await this.getScopedTransfer(id, input.scopeLocationId, 'to');
+    this.assertStatus(transfer, 'IN_TRANSIT');
+
+    const received = new Map(
+      transfer.lines.map(line => [
+        line.id,
+        this.stepQuantity(input.quantities, line.id, line.quantityShipped ?? 0, 'quantityShipped'),
+      ]),
+    );
+
+    let pendingCostSettled = 0;
+    const receivedAt = new Date();
+    const squareKey = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.transferOrder.updateMany({
+        where: { id, status: 'IN_TRANSIT' },
+        data: { status: 'RECEIVED', receivedAt, receivedBy: input.by },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictException(`Transfer ${id} changed status meanwhile`);
+      }
+
+      // Every line's product at the destination, before any batch settles pending cost there
+      await lockStock(
+        tx,
+        transfer.lines.map(line => ({ productId: line.productId, locationId: transfer.toLocationId })),
+      );
+
+      for (const line of transfer.lines) {
+        const quantity = received.get(line.id)!;
+        const draws = new Map(line.batches.map(d => [d.id, d]));
+
+        for (const allocation of allocateReceived(line.batches, quantity)) {
+          const draw = draws.get(allocation.drawId)!;
+          let destinationBatchId: string | null = null;
+
+          if (allocation.quantity > 0) {
+            const deposit = await this.adjustments.depositStock(
+              tx,
+              {
+                locationId: transfer.toLocationId,
+                productId: line.productId,
+                type: 'TRANSFER_IN',
+                quantity: allocation.quantity,
+                reason: `Transfer from ${transfer.fromLocation.name}`,
+                notes: transfer.notes,
+                adjustedBy: input.by,
+              },
+              {
+                unitCost: draw.unitCost,
+                receivedAt: draw.receivedAt, // Keeps its place in FIFO order
+                source: 'TRANSFER',
+                batchNumber: draw.batchNumber,
+                expiryDate: draw.expiryDate,
+              },
+            );
+            destinationBatchId = deposit.inventoryBatch.id;
+            pendingCostSettled += deposit.pendingCostSettled?.settledQuantity ?? 0;
+          }
+
+          await tx.transferOrderBatch.update({
+            where: { id: draw.id },
+            data: { quantityReceived: allocation.quantity, destinationBatchId },
+          });
+        }
+
+        await tx.transferOrderLine.update({
+          where: { id: line.id },
+          data: { quantityReceived: quantity },
+        });
+      }
+
+      return this.queueLeg(
+        tx,
+        transfer,
+        'IN',
+        transfer.lines.map(l => ({ ...l, quantityReceived: received.get(l.id)! })),
+        receivedAt,
+      );
+    });
+
+    const totalReceived = [...received.values()].reduce((sum, q) => sum + q, 0);
+    this.logger.log(
+      `[TRANSFER] Received ${id}: ${totalReceived} unit(s) at ${transfer.toLocation.name}` +
+        (pendingCostSettled > 0 ? `, ${pendingCostSettled} settled pending-cost unit(s)` : ''),
+    );
+
+    const squareSync = await this.syncLegToSquare(id, 'IN', squareKey);
+    return { ...(await this.getTransfer(id)), squareSync };
+  }
+
+  // --------------------------------------------------------------------------
+  // Square sync
+  // --------------------------------------------------------------------------
+
+  /**
+   * Re-send whichever legs have happened but not synced. A leg shipped or
+   * received before the outbox existed is queued from the transfer first.
+   */
+  async retrySquareSync(id: string) {
+    const transfer = await this.getScopedTransfer(id, undefined, 'either');
+    const results: { out?: { synced: boolean; error?: string }; in?: { synced: boolean; error?: string } } = {};
+
+    if (transfer.shippedAt && !transfer.squareOutSynced) {
+      const key = await this.queueLeg(this.prisma, transfer, 'OUT', transfer.lines, transfer.shippedAt);
+      results.out = await this.syncLegToSquare(id, 'OUT', key);
+    }
+    if (transfer.receivedAt && !transfer.squareInSynced) {
+      const key = await this.queueLeg(this.prisma, transfer, 'IN', transfer.lines, transfer.receivedAt);
+      results.in = await this.syncLegToSquare(id, 'IN', key);
+    }
+    return results;
+  }
+
+  /**
+   * Queue a leg's changes (transferLegChanges) under a fixed idempotency key,
+   * so no retry can apply it twice. Null when the leg moved nothing.
+   */
+  private async queueLeg(
+    client: Prisma.TransactionClient,
+    transfer: TransferWithLines,
+    leg: 'OUT' | 'IN',
+    lines: Parameters<typeof transferLegChanges>[2],
+    occurredAt: Date,
+  ): Promise<string | null> {
+    const row = await this.squareOutbox.enqueue(client, {
+      idempotencyKey: `transfer-${transfer.id}-${leg.toLowerCase()}`,
+      referenceId: `transfer-${transfer.id}`,
+      changes: transferLegChanges(leg, transfer, lines),
+      occurredAt,
+    });
+    return row?.idempotencyKey ?? null;
+  }
+
+  /** Send a queued leg and store the result on the transfer. */
+  private async syncLegToSquare(
+    id: string,
+    leg: 'OUT' | 'IN',
+    key: string | null,
+  ): Promise<{ synced: boolean; error?: string }> {
+    const result = key ? await this.squareOutbox.send(key) : { synced: true };
+
+    await this.prisma.transferOrder.update({
+      where: { id },
+      data:
+        leg === 'OUT'
+          ? { squareOutSynced: result.synced, squareOutSyncError: result.error ?? null }
+          : { squareInSynced: result.synced, squareInSyncError: result.error ?? null },
+    });
+    return result;
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private async getScopedTransfer(id: string, scopeLocationId: string | undefined, end: TransferEnd) {
+    const transfer = await this.prisma.transferOrder.findUnique({ where: { id }, include: TRANSFER_INCLUDE });
+    if (!transfer) {
+      throw new NotFoundException(`Transfer ${id} not found`);
+    }
+    if (scopeLocationId) {
+      const atFrom = transfer.fromLocationId === scopeLocationId;
+      const atTo = transfer.toLocationId === scopeLocationId;
+      if (!atFrom && !atTo) {
+        throw new NotFoundException(`Transfer ${id} not found`);
+      }
+      if ((end === 'from' && !atFrom) || (end === 'to' && !atTo)) {
+        throw new BadRequestException(
+          end === 'from' ? 'Only the source location can ship a transfer' : 'Only the destination can receive a transfer',
+        );
+      }
+    }
+    return transfer;
+  }
+
+  private assertStatus(transfer: { id: string; status: TransferOrderStatus }, expected: TransferOrderStatus) {
+    if (transfer.status !== expected) {
+      throw new ConflictException(`Transfer ${transfer.id} is ${transfer.status}, expected ${expected}`);
+    }
+  }
+
+  private async validateLines(lines: TransferLineInput[]) {
+    if (lines.length === 0) {
+      throw new BadRequestException('A transfer needs at least one line');
+    }
+    for (const line of lines) {
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new BadRequestException(`Quantity for product ${line.productId} must be a positive integer`);
+      }
+    }
+    const productIds = new Set(lines.map(l => l.productId));
+    if (productIds.size !== lines.length) {
+      throw new BadRequestException('Each product can appear on only one line');
+    }
+    const found = await this.prisma.product.count({ where: { id: { in: [...productIds] } } });
+    if (found !== productIds.size) {
+      throw new NotFoundException('One or more products not found');
+    }
+  }
+
+  /** Quantity for a ship/receive step: the given one, else the full amount; never more. */
+  private stepQuantity(
+    quantities: Record<string, number> | undefined,
+    lineId: string,
+    max: number,
+    maxName: string,
+  ): number {
+    const quantity = quantities?.[lineId] ?? max;
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > max) {
+      throw new BadRequestException(`Quantity for line ${lineId} must be an integer from 0 to ${maxName} (${max})`);
+    }
+    return quantity;
+  }
+
+  private serialize(transfer: TransferWithLines) {
+    const lines = transfer.lines.map(line => {
+      const { shortShipped, shortReceived } = lineShortage(line);
+      const shortReceivedCost = line.batches.reduce(
+        (sum, d) => sum.add(d.unitCost.mul(d.quantity - (d.quantityReceived ?? d.quantity))),
+        new Prisma.Decimal(0),
+      );
+      return {
+        id: line.id,
+        product: line.product,
+        quantityRequested: line.quantityRequested,
+        quantityShipped: line.quantityShipped,
+        quantityReceived: line.quantityReceived,
+        shortShipped,
+        shortReceived,
+        shortReceivedCost: shortReceivedCost.toString(),
+        outAdjustmentId: line.outAdjustmentId,
+        batches: line.batches.map(d => ({
+          ...d,
+          unitCost: d.unitCost.toString(),
+        })),
+      };
+    });
+
+    const { fromLocation, toLocation, ...rest } = transfer;
+    return {
+      ...rest,
+      fromLocation: { id: fromLocation.id, name: fromLocation.name },
+      toLocation: { id: toLocation.id, name: toLocation.name },
+      lines,
+      hasShortage: lines.some(l => l.shortShipped > 0 || l.shortReceived > 0),
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { allocateReceived, lineShortage, transferLegChanges } from './transfer-order';
+
+const older = { id: 'older', quantity: 4, receivedAt: new Date('2026-01-01') };
+const newer = { id: 'newer', quantity: 6, receivedAt: new Date('2026-03-01') };
+
+describe('allocateReceived', () => {
+  it('gives every draw its full quantity when all units arrive', () => {
+    expect(allocateReceived([newer, older], 10)).toEqual([
+      { drawId: 'older', quantity: 4 },
+      { drawId: 'newer', quantity: 6 },
+    ]);
+  });
+
+  it('takes a shortfall off the newest draw first', () => {
+    expect(allocateReceived([older, newer], 7)).toEqual([
+      { drawId: 'older', quantity: 4 },
+      { drawId: 'newer', quantity: 3 },
+    ]);
+  });
+
+  it('allocates nothing when nothing arrived', () => {
+    expect(allocateReceived([older, newer], 0)).toEqual([
+      { drawId: 'older', quantity: 0 },
+      { drawId: 'newer', quantity: 0 },
+    ]);
+  });
+});
+
+describe('lineShortage', () => {
+  it('is zero before the line ships', () => {
+    expect(lineShortage({ quantityRequested: 5, quantityShipped: null, quantityReceived: null })).toEqual({
+      shortShipped: 0,
+      shortReceived: 0,
+    });
+  });
+
+  it('separates what was not sent from what was lost in transit', () => {
+    expect(lineShortage({ quantityRequested: 10, quantityShipped: 8, quantityReceived: 7 })).toEqual({
+      shortShipped: 2,
+      shortReceived: 1,
+    });
+  });
+});
+
+describe('transferLegChanges', () => {
+  const transfer = { fromLocationId: 'centro', toLocationId: 'norte' };
+
+  it('puts shipped units in transit at the source, skipping lines that shipped nothing', () => {
+    expect(
+      transferLegChanges('OUT', transfer, [
+        { productId: 'p1', quantityRequested: 5, quantityShipped: 5, quantityReceived: null },
+        { productId: 'p2', quantityRequested: 3, quantityShipped: 0, quantityReceived: null },
+      ]),
+    ).toEqual([
+      { type: 'ADJUSTMENT', locationId: 'centro', productId: 'p1', quantity: 5, fromState: 'IN_STOCK', toState: 'IN_TRANSIT' },
+    ]);
+  });
+
+  it('moves received units to the destination and writes off the rest at the source', () => {
+    expect(
+      transferLegChanges('IN', transfer, [
+        { productId: 'p1', quantityRequested: 5, quantityShipped: 5, quantityReceived: 4 },
+      ]),
+    ).toEqual([
+      { type: 'TRANSFER', fromLocationId: 'centro', toLocationId: 'norte', productId: 'p1', quantity: 4, state: 'IN_TRANSIT' },
+      { type: 'ADJUSTMENT', locationId: 'norte', productId: 'p1', quantity: 4, fromState: 'IN_TRANSIT', toState: 'IN_STOCK' },
+      { type: 'ADJUSTMENT', locationId: 'centro', productId: 'p1', quantity: 1, fromState: 'IN_TRANSIT', toState: 'WASTE' },
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Pure transfer-order math — no DB access. A shipped line is a set of draws
+ * from source batches; on receipt each draw becomes a destination batch of
+ * whatever part of it arrived.
+ */
+import type { OutboxChange } from './square-outbox';
+
+export interface ShippedDraw {
+  id: string;
+  quantity: number;
+  receivedAt: Date; // Source batch's FIFO date
+}
+
+/**
+ * Spread the units that arrived over the line's draws, oldest receivedAt
+ * first. Which units went missing in transit is unknowable, so a shortfall is
+ * taken off the newest draws; the oldest stock keeps its place in the
+ * destination's FIFO order.
+ */
+export function allocateReceived(
+  draws: ShippedDraw[],
+  quantityReceived: number,
+): Array<{ drawId: string; quantity: number }> {
+  const ordered = [...draws].sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+  let remaining = quantityReceived;
+
+  return ordered.map(draw => {
+    const quantity = Math.min(draw.quantity, Math.max(remaining, 0));
+    remaining -= quantity;
+    return { drawId: draw.id, quantity };
+  });
+}
+
+/**
+ * Shortages on a line: shortShipped is what the source didn't send,
+ * shortReceived what was sent but didn't arrive. Both are zero until the
+ * respective step has happened.
+ */
+export function lineShortage(line: {
+  quantityRequested: number;
+  quantityShipped: number | null;
+  quantityReceived: number | null;
+}): { shortShipped: number; shortReceived: number } {
+  const shortShipped = line.quantityShipped === null ? 0 : line.quantityRequested - line.quantityShipped;
+  const shortReceived =
+    line.quantityShipped === null || line.quantityReceived === null ? 0 : line.quantityShipped - line.quantityReceived;
+  return { shortShipped, shortReceived };
+}
+
+/**
+ * Square changes for one leg. OUT (on ship): IN_STOCK → IN_TRANSIT at the
+ * source. IN (on receive): the received units move to the destination and
+ * become IN_STOCK there; units lost on the way go IN_TRANSIT → WASTE at the
+ * source. Lines that shipped nothing have no changes.
+ */
+export function transferLegChanges(
+  leg: 'OUT' | 'IN',
+  transfer: { fromLocationId: string; toLocationId: string },
+  lines: Array<{ productId: string; quantityRequested: number; quantityShipped: number | null; quantityReceived: number | null }>,
+): OutboxChange[] {
+  const { fromLocationId, toLocationId } = transfer;
+  const changes: OutboxChange[] = [];
+
+  for (const line of lines) {
+    const shipped = line.quantityShipped ?? 0;
+    if (shipped === 0) continue;
+    const productId = line.productId;
+
+    if (leg === 'OUT') {
+      changes.push({
+        type: 'ADJUSTMENT',
+        locationId: fromLocationId,
+        productId,
+        quantity: shipped,
+        fromState: 'IN_STOCK',
+        toState: 'IN_TRANSIT',
+      });
+      continue;
+    }
+
+    const received = line.quantityReceived ?? 0;
+    const { shortReceived } = lineShortage(line);
+    if (received > 0) {
+      changes.push(
+        { type: 'TRANSFER', fromLocationId, toLocationId, productId, quantity: received, state: 'IN_TRANSIT' },
+        {
+          type: 'ADJUSTMENT',
+          locationId: toLocationId,
+          productId,
+          quantity: received,
+          fromState: 'IN_TRANSIT',
+          toState: 'IN_STOCK',
+        },
+      );
+    }
+    if (shortReceived > 0) {
+      changes.push({
+        type: 'ADJUSTMENT',
+        locationId: fromLocationId,
+        productId,
+        quantity: shortReceived,
+        fromState: 'IN_TRANSIT',
+        toState: 'WASTE',
+      });
+    }
+  }
+  return changes;
+}
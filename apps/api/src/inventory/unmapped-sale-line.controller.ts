@@ -0,0 +1,96 @@
+import { Controller, Get, Post, Body, Param, Query, Req, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { UnmappedSaleLineService, type UnmappedLineStatus } from './unmapped-sale-line.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface MapLineDto {
+  productId: string;
+}
+
+const LINE_STATUSES = ['OPEN', 'MAPPED', 'DISMISSED', 'ALL'];
+
+@Controller('inventory/unmapped-lines')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class UnmappedSaleLineController {
+  constructor(private readonly unmappedLineService: UnmappedSaleLineService) {}
+
+  // --------------------------------------------------------------------------
+  // Review queue - OWNER, MANAGER, ACCOUNTANT
+  // --------------------------------------------------------------------------
+  @Get()
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getLines(
+    @Req() req: any,
+    @Query('locationId') locationId?: string,
+    @Query('status') status?: string,
+  ) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
+
+    const statusFilter = (status || 'OPEN').toUpperCase();
+    if (!LINE_STATUSES.includes(statusFilter)) {
+      throw new HttpException(
+        { success: false, message: `Invalid status. Must be one of: ${LINE_STATUSES.join(', ')}` },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const lines = await this.unmappedLineService.getLines(
+      targetLocationId,
+      statusFilter as UnmappedLineStatus | 'ALL',
+    );
+
+    return {
+      success: true,
+      data: lines,
+      count: lines.length,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Map and dismiss - OWNER, MANAGER only
+  // --------------------------------------------------------------------------
+
+  /**
+   * Map the line to a product and cost it from current stock. Lines of a
+   * catalog variation also get its CatalogMapping, and the variation's other
+   * open lines are mapped in the same call.
+   */
+  @Post(':id/map')
+  @Roles('OWNER', 'MANAGER')
+  async mapLine(@Req() req: any, @Param('id') id: string, @Body() body: MapLineDto) {
+    if (!body?.productId) {
+      throw new HttpException(
+        { success: false, message: 'productId is required' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const currentLocation = req.currentLocation;
+    const result = await this.unmappedLineService.mapLine(id, {
+      productId: body.productId,
+      resolvedBy: req.employee.id,
+      scopeLocationId: currentLocation.role === 'OWNER' ? undefined : currentLocation.locationId,
+    });
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Post(':id/dismiss')
+  @Roles('OWNER', 'MANAGER')
+  async dismissLine(@Req() req: any, @Param('id') id: string) {
+    const currentLocation = req.currentLocation;
+    const line = await this.unmappedLineService.dismissLine(
+      id,
+      req.employee.id,
+      currentLocation.role === 'OWNER' ? undefined : currentLocation.locationId,
+    );
+
+    return {
+      success: true,
+      data: line,
+    };
+  }
+}
@@ -0,0 +1,308 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConsumptionPolicyService } from './consumption-policy.service';
+import { drawFromBatches } from './consumption-policy';
+import { lockStock } from './stock-lock';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UnmappedLineStatus = 'OPEN' | 'MAPPED' | 'DISMISSED';
+
+export interface MapLineInput {
+  productId: string;
+  resolvedBy?: string;
+  scopeLocationId?: string; // Non-owners may only resolve their own location's lines
+}
+
+interface StoredDiscount {
+  discountUid: string;
+  name: string;
+  type: string | null;
+  percentage: string | null;
+  scope: string | null;
+  amount: string;
+}
+
+type UnmappedLine = Prisma.UnmappedSaleLineGetPayload<object>;
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Review queue for sale lines the worker couldn't tie to a product
+ * (apps/worker/src/unmapped-line.ts). Mapping a line creates the missing
+ * CatalogMapping and books the line as a SaleItem costed from the stock on
+ * hand now, in the product's FIFO/FEFO order — the sale's own moment has
+ * passed, so today's batches are the closest truth. Square already took the
+ * units off its count when the sale ran, so nothing is pushed back.
+ */
+@Injectable()
+export class UnmappedSaleLineService {
+  private readonly logger = new Logger(UnmappedSaleLineService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly consumptionPolicy: ConsumptionPolicyService,
+  ) {}
+
+  async getLines(locationId: string | undefined, status: UnmappedLineStatus | 'ALL') {
+    const lines = await this.prisma.unmappedSaleLine.findMany({
+      where: {
+        ...(locationId && { locationId }),
+        ...(status !== 'ALL' && { status }),
+      },
+      include: {
+        sale: { select: { id: true, squareId: true, squareOrderId: true, createdAt: true } },
+        location: { select: { id: true, name: true } },
+        product: { select: { id: true, name: true, sku: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 500,
+    });
+
+    return lines.map(l => ({
+      ...l,
+      price: l.price.toString(),
+      grossAmount: l.grossAmount.toString(),
+      discountAmount: l.discountAmount.toString(),
+      taxAmount: l.taxAmount.toString(),
+    }));
+  }
+
+  // --------------------------------------------------------------------------
+  // Resolution
+  // --------------------------------------------------------------------------
+
+  /**
+   * Map a line to a product. For a catalog variation the mapping is created
+   * (globally, like catalog sync does) and every other OPEN line of the same
+   * variation is mapped too, oldest first; those that can't be costed yet
+   * stay OPEN and are reported. The requested line itself either maps or
+   * the whole call fails with nothing changed.
+   */
+  async mapLine(lineId: string, input: MapLineInput) {
+    const line = await this.getOpenLine(lineId, input.scopeLocationId);
+
+    const product = await this.prisma.product.findUnique({
+      where: { id: input.productId },
+      select: { id: true, name: true },
+    });
+    if (!product) {
+      throw new NotFoundException(`Product ${input.productId} not found`);
+    }
+
+    const mappingCreated = await this.prisma.$transaction(async (tx) => {
+      const created = line.squareVariationId
+        ? await this.ensureMapping(tx, line.squareVariationId, line.locationId, product.id)
+        : false;
+      await this.costLine(tx, line, product.id, input.resolvedBy);
+      return created;
+    });
+
+    const alsoMapped: string[] = [];
+    const stillOpen: Array<{ id: string; message: string }> = [];
+    if (line.squareVariationId) {
+      const siblings = await this.prisma.unmappedSaleLine.findMany({
+        where: { squareVariationId: line.squareVariationId, status: 'OPEN', id: { not: line.id } },
+        orderBy: { createdAt: 'asc' },
+      });
+      for (const sibling of siblings) {
+        try {
+          await this.prisma.$transaction(tx => this.costLine(tx, sibling, product.id, input.resolvedBy));
+          alsoMapped.push(sibling.id);
+        } catch (error) {
+          stillOpen.push({ id: sibling.id, message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    this.logger.log(
+      `[UNMAPPED] Line ${line.id} mapped to ${product.name}` +
+        (line.squareVariationId ? ` (variation ${line.squareVariationId}, mapping ${mappingCreated ? 'created' : 'existing'})` : '') +
+        (alsoMapped.length > 0 ? `; ${alsoMapped.length} other line(s) of the same variation mapped` : ''),
+    );
+
+    return { lineId: line.id, productId: product.id, mappingCreated, alsoMapped, stillOpen };
+  }
+
+  /** Close a line that isn't a stocked product (a service charge rung up as a custom amount, say). */
+  async dismissLine(lineId: string, resolvedBy?: string, scopeLocationId?: string) {
+    const line = await this.getOpenLine(lineId, scopeLocationId);
+
+    return this.prisma.unmappedSaleLine.update({
+      where: { id: line.id },
+      data: { status: 'DISMISSED', resolvedBy, resolvedAt: new Date() },
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  private async getOpenLine(lineId: string, scopeLocationId?: string) {
+    const line = await this.prisma.unmappedSaleLine.findUnique({ where: { id: lineId } });
+    if (!line || (scopeLocationId && line.locationId !== scopeLocationId)) {
+      throw new NotFoundException(`Unmapped sale line ${lineId} not found`);
+    }
+    if (line.status !== 'OPEN') {
+      throw new ConflictException(`Unmapped sale line ${lineId} is already ${line.status}`);
+    }
+    return line;
+  }
+
+  /**
+   * Create the global mapping for the variation unless one already covers
+   * this location. A mapping to a different product (catalog sync got there
+   * first) is refused rather than silently overridden.
+   */
+  private async ensureMapping(
+    tx: Prisma.TransactionClient,
+    squareVariationId: string,
+    locationId: string,
+    productId: string,
+  ): Promise<boolean> {
+    const existing = await tx.catalogMapping.findFirst({
+      where: { squareVariationId, OR: [{ locationId }, { locationId: null }] },
+      orderBy: { locationId: { sort: 'asc', nulls: 'last' } },
+    });
+    if (existing) {
+      if (existing.productId !== productId) {
+        throw new ConflictException(
+          `Variation ${squareVariationId} is already mapped to product ${existing.productId}; map the line to that product`,
+        );
+      }
+      return false;
+    }
+
+    await tx.catalogMapping.create({
+      data: { squareVariationId, productId, locationId: null },
+    });
+    return true;
+  }
+
+  /**
+   * Book one line as a SaleItem: draw its units from the batches in policy
+   * order (pending cost for any shortfall where the location allows it),
+   * recreate its discounts, and add it to the sale's totals.
+   */
+  private async costLine(tx: Prisma.TransactionClient, line: UnmappedLine, productId: string, resolvedBy?: string) {
+    // Claim the line first so two overlapping map calls can't both cost it
+    const claimed = await tx.unmappedSaleLine.updateMany({
+      where: { id: line.id, status: 'OPEN' },
+      data: { status: 'MAPPED', productId, resolvedBy, resolvedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictException(`Unmapped sale line ${line.id} was resolved meanwhile`);
+    }
+
+    const sale = await tx.sale.findUnique({
+      where: { id: line.saleId },
+      include: { saleVoid: { select: { id: true } }, location: { select: { allowPendingCost: true } } },
+    });
+    if (!sale) {
+      throw new NotFoundException(`Sale ${line.saleId} not found`);
+    }
+    if (sale.saleVoid) {
+      throw new BadRequestException(`Sale ${sale.squareId} was voided; dismiss the line instead`);
+    }
+
+    await lockStock(tx, [{ productId, locationId: line.locationId }]);
+    const { policy, batches } = await this.consumptionPolicy.getBatchesInConsumptionOrder(
+      productId,
+      line.locationId,
+      tx,
+    );
+    const { draws, remaining, totalCost } = drawFromBatches(batches, line.quantity);
+    if (remaining > 0 && !sale.location.allowPendingCost) {
+      throw new BadRequestException(
+        `Insufficient inventory to cost line ${line.id}: requested ${line.quantity}, available ${line.quantity - remaining}. ` +
+          'Receive the stock, then map the line again.',
+      );
+    }
+
+    const saleItem = await tx.saleItem.create({
+      data: {
+        saleId: sale.id,
+        productId,
+        quantity: line.quantity,
+        price: line.price,
+        cost: totalCost,
+        grossAmount: line.grossAmount,
+        discountAmount: line.discountAmount,
+        taxAmount: line.taxAmount,
+        consumptionPolicy: policy,
+      },
+    });
+
+    for (const draw of draws) {
+      await tx.inventory.update({
+        where: { id: draw.batchId },
+        data: { quantity: { decrement: draw.quantity } },
+      });
+    }
+    if (draws.length > 0) {
+      await tx.inventoryConsumption.createMany({
+        data: draws.map(d => ({
+          inventoryId: d.batchId,
+          saleItemId: saleItem.id,
+          quantity: d.quantity,
+          unitCost: d.unitCost,
+          totalCost: d.cost,
+        })),
+      });
+    }
+    if (remaining > 0) {
+      await tx.pendingCostConsumption.create({
+        data: {
+          saleItemId: saleItem.id,
+          productId,
+          locationId: line.locationId,
+          quantity: remaining,
+          remainingQuantity: remaining,
+        },
+      });
+    }
+
+    for (const discount of (line.discounts ?? []) as unknown as StoredDiscount[]) {
+      await tx.saleDiscount.create({
+        data: {
+          saleId: sale.id,
+          saleItemId: saleItem.id,
+          discountUid: discount.discountUid,
+          name: discount.name,
+          type: discount.type,
+          percentage: discount.percentage,
+          scope: discount.scope,
+          amount: new Prisma.Decimal(discount.amount),
+        },
+      });
+    }
+
+    const revenue = line.price.mul(line.quantity);
+    await tx.sale.update({
+      where: { id: sale.id },
+      data: {
+        totalRevenue: { increment: revenue },
+        totalCost: { increment: totalCost },
+        grossProfit: { increment: revenue.sub(totalCost) },
+        // Null on sales from before the breakdown was captured; leave those null
+        ...(sale.grossSales !== null && {
+          grossSales: { increment: line.grossAmount },
+          discountTotal: { increment: line.discountAmount },
+          taxTotal: { increment: line.taxAmount },
+        }),
+      },
+    });
+
+    await tx.unmappedSaleLine.update({
+      where: { id: line.id },
+      data: { saleItemId: saleItem.id },
+    });
+
+    return saleItem;
+  }
+}
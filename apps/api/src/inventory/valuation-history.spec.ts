@@ -0,0 +1,53 @@
+import { Prisma } from '@prisma/client';
+import { nearestAnchor, rollQuantities, unitCostAt, type BatchMovement } from './valuation-history';
+
+const at = (iso: string) => new Date(iso);
+
+describe('nearestAnchor', () => {
+  it('picks the closest anchor on either side, the earlier one on a tie', () => {
+    const anchors = [
+      { id: 'oct-17', takenAt: at('2026-10-17T03:30:00Z') },
+      { id: 'oct-19', takenAt: at('2026-10-19T03:30:00Z') },
+    ];
+    expect(nearestAnchor(anchors, at('2026-10-18T23:59:59Z'))?.id).toBe('oct-19');
+    expect(nearestAnchor(anchors, at('2026-10-18T03:30:00Z'))?.id).toBe('oct-17');
+    expect(nearestAnchor([], at('2026-10-18T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('rollQuantities', () => {
+  const movements: BatchMovement[] = [
+    { inventoryId: 'b1', at: at('2026-10-17T10:00:00Z'), quantity: -2 }, // Sale
+    { inventoryId: 'b2', at: at('2026-10-17T12:00:00Z'), quantity: 10 }, // Receiving
+    { inventoryId: 'b1', at: at('2026-10-17T15:00:00Z'), quantity: 1 }, // Refund restock
+    { inventoryId: 'b1', at: at('2026-10-18T09:00:00Z'), quantity: -4 }, // After asOf
+  ];
+
+  it('rolls forward from an earlier anchor', () => {
+    const rolled = rollQuantities(new Map([['b1', 5]]), at('2026-10-17T03:30:00Z'), at('2026-10-17T23:59:59Z'), movements);
+    expect(Object.fromEntries(rolled)).toEqual({ b1: 4, b2: 10 });
+  });
+
+  it('rolls back from a later anchor, dropping batches not yet created', () => {
+    const rolled = rollQuantities(
+      new Map([['b2', 7]]), // b1 sold out by the anchor
+      at('2026-10-18T20:00:00Z'),
+      at('2026-10-17T11:00:00Z'),
+      [...movements, { inventoryId: 'b2', at: at('2026-10-18T10:00:00Z'), quantity: -3 }],
+    );
+    expect(Object.fromEntries(rolled)).toEqual({ b1: 3 });
+  });
+});
+
+describe('unitCostAt', () => {
+  it('uses the cost before the first revision made after the date', () => {
+    const revisions = [
+      { revisedAt: at('2026-10-20T00:00:00Z'), previousUnitCost: new Prisma.Decimal(12) },
+      { revisedAt: at('2026-10-10T00:00:00Z'), previousUnitCost: new Prisma.Decimal(15) },
+    ];
+    const current = new Prisma.Decimal(11);
+    expect(unitCostAt(current, revisions, at('2026-10-05T00:00:00Z')).toString()).toBe('15');
+    expect(unitCostAt(current, revisions, at('2026-10-15T00:00:00Z')).toString()).toBe('12');
+    expect(unitCostAt(current, revisions, at('2026-10-25T00:00:00Z')).toString()).toBe('11');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Pure point-in-time valuation helpers — no DB access. A batch's quantity at
+ * any moment is its quantity at a known anchor (a nightly snapshot, or live
+ * stock) plus or minus the movements recorded between the two. Movements
+ * are dated by when they were written, the same clock the snapshots use,
+ * not by a backdated effectiveDate.
+ */
+import { Prisma } from '@prisma/client';
+
+export interface BatchMovement {
+  inventoryId: string;
+  at: Date;
+  quantity: number; // Signed: + batch created or units restored, - units consumed
+}
+
+export interface ValuationAnchor {
+  takenAt: Date;
+}
+
+/** The anchor closest to `asOf` on either side; the earlier one on a tie. */
+export function nearestAnchor<T extends ValuationAnchor>(anchors: T[], asOf: Date): T | null {
+  let best: T | null = null;
+  for (const anchor of anchors) {
+    if (!best) {
+      best = anchor;
+      continue;
+    }
+    const distance = Math.abs(anchor.takenAt.getTime() - asOf.getTime());
+    const bestDistance = Math.abs(best.takenAt.getTime() - asOf.getTime());
+    if (distance < bestDistance || (distance === bestDistance && anchor.takenAt < best.takenAt)) {
+      best = anchor;
+    }
+  }
+  return best;
+}
+
+/** The span of movements between an anchor and `asOf`: after < at <= upTo. */
+export function movementWindow(anchorAt: Date, asOf: Date): { after: Date; upTo: Date } {
+  return anchorAt <= asOf ? { after: anchorAt, upTo: asOf } : { after: asOf, upTo: anchorAt };
+}
+
+/**
+ * Batch quantities at `asOf`, from those at the anchor. Rolling forward
+ * applies the window's movements; rolling back undoes them. Batches that
+ * end up empty are dropped.
+ */
+export function rollQuantities(
+  atAnchor: Map<string, number>,
+  anchorAt: Date,
+  asOf: Date,
+  movements: BatchMovement[],
+): Map<string, number> {
+  const { after, upTo } = movementWindow(anchorAt, asOf);
+  const direction = anchorAt <= asOf ? 1 : -1;
+
+  const quantities = new Map(atAnchor);
+  for (const m of movements) {
+    if (m.at <= after || m.at > upTo) continue;
+    quantities.set(m.inventoryId, (quantities.get(m.inventoryId) ?? 0) + direction * m.quantity);
+  }
+
+  for (const [inventoryId, quantity] of quantities) {
+    if (quantity <= 0) quantities.delete(inventoryId);
+  }
+  return quantities;
+}
+
+/**
+ * A batch's unitCost at `asOf`: what the first cost revision after that
+ * moment changed it from, or the current cost if it hasn't been revised
+ * since. Past valuations stay as they were booked at the time.
+ */
+export function unitCostAt(
+  current: Prisma.Decimal,
+  revisions: Array<{ revisedAt: Date; previousUnitCost: Prisma.Decimal }>,
+  asOf: Date,
+): Prisma.Decimal {
+  const later = revisions
+    .filter(r => r.revisedAt > asOf)
+    .sort((a, b) => a.revisedAt.getTime() - b.revisedAt.getTime());
+  return later.length > 0 ? later[0].previousUnitCost : current;
+}
@@ -1,4 +1,4 @@
-import { Controller, Get, Post, HttpCode, HttpStatus, HttpException, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Patch, Body, Param, HttpCode, HttpStatus, HttpException, UseGuards, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { LocationsService } from './locations.service';
 import { AuthGuard, RoleGuard, DeviceGuard, Roles, Public } from '../auth/guards/auth.guard';
@@ -65,5 +65,36 @@ export class LocationsController {
       );
     }
   }
-}
 
+  /**
+   * Per-location settings. allowPendingCost: record oversold sale units as
+   * pending-cost instead of failing the sale (settled by the next receiving
+   * or positive adjustment — see inventory/pending-cost.service.ts).
+   */
+  @Patch('locations/:id/settings')
+  @Roles('OWNER')
+  async updateSettings(@Param('id') id: string, @Body() body: { allowPendingCost?: boolean }) {
+    if (typeof body.allowPendingCost !== 'boolean') {
+      throw new HttpException(
+        { success: false, message: 'allowPendingCost (boolean) is required' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const existing = await this.prisma.location.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException(`Location ${id} not found`);
+    }
+
+    const location = await this.prisma.location.update({
+      where: { id },
+      data: { allowPendingCost: body.allowPendingCost },
+    });
+
+    return {
+      success: true,
+      message: `Pending-cost mode ${location.allowPendingCost ? 'enabled' : 'disabled'} for ${location.name}`,
+      data: location,
+    };
+  }
+}
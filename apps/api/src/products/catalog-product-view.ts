@@ -3,9 +3,11 @@
  * results. Mirrors the availability/price computation already used by
  * ProductsService.getProducts (mapping preference: location-specific over
  * global, sum of inventories.quantity) so search results stay consistent
- * with the rest of the app.
+ * with the rest of the app. Placements are where the product sits in the
+ * store, as "Rack B / Shelf 3" labels in walking order.
  */
 import { Prisma } from '@prisma/client';
+import { compareSpots, placementLabel } from '../inventory/rack-layout';
 
 export const CATALOG_PRODUCT_INCLUDE = (locationId?: string) =>
   ({
@@ -17,6 +19,10 @@ export const CATALOG_PRODUCT_INCLUDE = (locationId?: string) =>
       orderBy: { locationId: 'desc' as const },
     },
     inventories: locationId ? { where: { locationId } } : true,
+    placements: {
+      where: locationId ? { section: { rack: { locationId } } } : undefined,
+      include: { section: { include: { rack: { select: { name: true, position: true } } } } },
+    },
   }) satisfies Prisma.ProductInclude;
 
 type CatalogProduct = Prisma.ProductGetPayload<{ include: ReturnType<typeof CATALOG_PRODUCT_INCLUDE> }>;
@@ -36,6 +42,7 @@ export type CatalogProductView = {
   currency: string;
   quantity: number;
   inStock: boolean;
+  placements: string[];
 };
 
 export function toProductView(product: CatalogProduct, locationId?: string): CatalogProductView {
@@ -45,6 +52,16 @@ export function toProductView(product: CatalogProduct, locationId?: string): Cat
     : product.catalogMappings[0];
 
   const quantity = product.inventories.reduce((sum, inv) => sum + inv.quantity, 0);
+  const placements = product.placements
+    .map((p) => ({
+      productId: product.id,
+      rackName: p.section.rack.name,
+      rackPosition: p.section.rack.position,
+      sectionLabel: p.section.label,
+      sectionPosition: p.section.position,
+    }))
+    .sort(compareSpots)
+    .map(placementLabel);
 
   return {
     id: product.id,
@@ -61,5 +78,6 @@ export function toProductView(product: CatalogProduct, locationId?: string): Cat
     currency: mapping?.currency || 'USD',
     quantity,
     inStock: quantity > 0,
+    placements,
   };
 }
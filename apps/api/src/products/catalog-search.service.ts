@@ -1,17 +1,22 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { MedicationEquivalenceService } from './medication-equivalence.service';
+import { DemandSignalService } from './demand-signal.service';
 import { CATALOG_PRODUCT_INCLUDE, toProductView, type CatalogProductView } from './catalog-product-view';
 import { rankSearchCandidates, buildSearchResult, isStrongMatch, type MatchType, type SearchCandidate } from './catalog-search';
+import { searchDemandReason } from './demand-signal';
 import { stripAccents } from '../inventory-migration/category-classifier';
 
 type SearchProductCandidate = CatalogProductView & { matchType: MatchType };
 
 @Injectable()
 export class CatalogSearchService {
+  private readonly logger = new Logger(CatalogSearchService.name);
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly equivalenceService: MedicationEquivalenceService,
+    private readonly demandSignals: DemandSignalService,
   ) {}
 
   async search(
@@ -96,6 +101,23 @@ export class CatalogSearchService {
       ? await this.equivalenceService.findEquivalentProducts(top.id, locationId)
       : [];
 
-    return { ...buildSearchResult(ranked, () => alternatives), alternativesChecked };
+    const result = { ...buildSearchResult(ranked, () => alternatives), alternativesChecked };
+    if (locationId) {
+      await this.recordDemand(q, locationId, result.requested);
+    }
+    return result;
+  }
+
+  /** Searches that find nothing we can sell here count as unmet demand. */
+  private async recordDemand(query: string, locationId: string, requested: Array<{ inStock: boolean }>) {
+    const reason = searchDemandReason({ requested });
+    if (!reason) return;
+    try {
+      await this.demandSignals.record({ query, locationId, reason });
+    } catch (error) {
+      // Losing a signal must never fail the search the cashier is waiting on
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`[DEMAND] Failed to record "${query}": ${errorMessage}`);
+    }
   }
 }
@@ -0,0 +1,76 @@
+import { Controller, Get, Post, Body, Query, Req, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
+import { DemandSignalService } from './demand-signal.service';
+import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
+
+interface DemandRequestDto {
+  query: string;
+  locationId?: string; // Defaults to the current location
+}
+
+// Helper to set date to end of day (23:59:59.999) to include all records from that day
+function endOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setUTCHours(23, 59, 59, 999);
+  return result;
+}
+
+@Controller('demand-signals')
+@UseGuards(AuthGuard, RoleGuard, LocationGuard)
+export class DemandSignalController {
+  constructor(private readonly demandService: DemandSignalService) {}
+
+  // --------------------------------------------------------------------------
+  // Counter requests - OWNER, MANAGER, CASHIER
+  // --------------------------------------------------------------------------
+
+  /** "A customer asked for X" — for asks that never went through catalog search. */
+  @Post()
+  @Roles('OWNER', 'MANAGER', 'CASHIER')
+  async recordRequest(@Req() req: any, @Body() body: DemandRequestDto) {
+    if (!body?.query || typeof body.query !== 'string') {
+      throw new HttpException({ success: false, message: 'Missing required field: query' }, HttpStatus.BAD_REQUEST);
+    }
+
+    const currentLocation = req.currentLocation;
+    const locationId =
+      currentLocation.role === 'OWNER' && body.locationId ? body.locationId : currentLocation.locationId;
+    const signal = await this.demandService.recordRequest(body.query, locationId);
+    return {
+      success: true,
+      data: signal,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Report - OWNER, MANAGER, ACCOUNTANT
+  // --------------------------------------------------------------------------
+
+  @Get('report')
+  @Roles('OWNER', 'MANAGER', 'ACCOUNTANT')
+  async getReport(
+    @Req() req: any,
+    @Query('locationId') locationId?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const currentLocation = req.currentLocation;
+    const targetLocationId = currentLocation.role === 'OWNER' ? locationId : currentLocation.locationId;
+
+    const limitNum = limit ? parseInt(limit, 10) : undefined;
+    if (limitNum !== undefined && (isNaN(limitNum) || limitNum <= 0)) {
+      throw new HttpException({ success: false, message: 'limit must be a positive integer' }, HttpStatus.BAD_REQUEST);
+    }
+
+    const report = await this.demandService.getReport({
+      locationId: targetLocationId,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? endOfDay(new Date(endDate)) : undefined,
+      limit: limitNum,
+    });
+    return {
+      success: true,
+      data: report,
+    };
+  }
+}
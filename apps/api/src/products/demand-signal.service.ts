@@ -0,0 +1,190 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { CATALOG_PRODUCT_INCLUDE, toProductView } from './catalog-product-view';
+import {
+  MIN_DEMAND_QUERY_LENGTH,
+  demandDay,
+  demandQueryTokens,
+  normalizeDemandQuery,
+  rankDemand,
+  type DemandReason,
+} from './demand-signal';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DemandReportFilter {
+  locationId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+const CANDIDATES_PER_QUERY = 5;
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Unmet demand: what customers asked for that we couldn't sell. Catalog
+ * search records its own empty and out-of-stock results; the counter
+ * endpoint records asks that never went through search. The report ranks
+ * queries by how often they came up and points each at the products a
+ * buyer could stock, or at a new product when the catalog has nothing.
+ */
+@Injectable()
+export class DemandSignalService {
+  private readonly logger = new Logger(DemandSignalService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // --------------------------------------------------------------------------
+  // Record
+  // --------------------------------------------------------------------------
+
+  /**
+   * Count one ask against today's row for this query, location and reason.
+   * Returns null for queries too short to mean anything.
+   */
+  async record(input: { query: string; locationId: string; reason: DemandReason }) {
+    const query = input.query.trim();
+    const normalizedQuery = normalizeDemandQuery(query);
+    if (normalizedQuery.length < MIN_DEMAND_QUERY_LENGTH) return null;
+
+    const now = new Date();
+    return this.prisma.demandSignal.upsert({
+      where: {
+        locationId_normalizedQuery_reason_day: {
+          locationId: input.locationId,
+          normalizedQuery,
+          reason: input.reason,
+          day: demandDay(now),
+        },
+      },
+      create: {
+        query,
+        normalizedQuery,
+        locationId: input.locationId,
+        reason: input.reason,
+        day: demandDay(now),
+        lastSeenAt: now,
+      },
+      update: { query, count: { increment: 1 }, lastSeenAt: now },
+    });
+  }
+
+  /** A customer asked at the counter for something we don't carry or have. */
+  async recordRequest(query: string, locationId: string) {
+    if (normalizeDemandQuery(query).length < MIN_DEMAND_QUERY_LENGTH) {
+      throw new BadRequestException(`Describe what the customer asked for in at least ${MIN_DEMAND_QUERY_LENGTH} letters`);
+    }
+    const location = await this.prisma.location.findUnique({ where: { id: locationId }, select: { name: true } });
+    if (!location) {
+      throw new NotFoundException(`Location ${locationId} not found`);
+    }
+
+    const signal = await this.record({ query, locationId, reason: 'REQUESTED' });
+    this.logger.log(`[DEMAND] Customer asked for "${signal!.query}" at ${location.name} (${signal!.count} today)`);
+    return signal!;
+  }
+
+  // --------------------------------------------------------------------------
+  // Report
+  // --------------------------------------------------------------------------
+
+  async getReport(filter: DemandReportFilter) {
+    const rows = await this.prisma.demandSignal.findMany({
+      where: {
+        ...(filter.locationId && { locationId: filter.locationId }),
+        ...((filter.startDate || filter.endDate) && {
+          day: {
+            ...(filter.startDate && { gte: demandDay(filter.startDate) }),
+            ...(filter.endDate && { lte: demandDay(filter.endDate) }),
+          },
+        }),
+      },
+      select: {
+        query: true,
+        normalizedQuery: true,
+        locationId: true,
+        reason: true,
+        count: true,
+        lastSeenAt: true,
+      },
+    });
+
+    const ranked = rankDemand(rows);
+    const top = ranked.slice(0, filter.limit ?? 50);
+    const locations = await this.prisma.location.findMany({
+      where: { id: { in: [...new Set(rows.map(r => r.locationId))] } },
+      select: { id: true, name: true },
+    });
+    const locationNames = new Map(locations.map(l => [l.id, l.name]));
+
+    const queries = [];
+    for (const entry of top) {
+      const candidates = await this.findCandidates(entry.normalizedQuery, filter.locationId);
+      queries.push({
+        ...entry,
+        locations: entry.locations.map(l => ({ ...l, locationName: locationNames.get(l.locationId) ?? l.locationId })),
+        candidates,
+        // Nothing in the catalog looks like it: the starting point for adding one
+        newProductDraft: candidates.length === 0 ? { name: entry.query } : null,
+      });
+    }
+
+    return {
+      summary: {
+        queries: ranked.length,
+        signals: ranked.reduce((sum, r) => sum + r.total, 0),
+        withoutCandidates: queries.filter(q => q.newProductDraft).length,
+      },
+      queries,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  /**
+   * Products a query most likely meant, matched word by word on name and
+   * active ingredient. Looser than catalog search on purpose — the full
+   * query already found nothing usable there.
+   */
+  private async findCandidates(normalizedQuery: string, locationId?: string) {
+    const tokens = demandQueryTokens(normalizedQuery);
+    if (tokens.length === 0) return [];
+
+    const products = await this.prisma.product.findMany({
+      where: {
+        isDiscontinued: false,
+        OR: tokens.flatMap(token => [
+          { name: { contains: token, mode: 'insensitive' as const } },
+          { squareProductName: { contains: token, mode: 'insensitive' as const } },
+          {
+            medicationDefinition: {
+              ingredients: {
+                some: {
+                  activeIngredient: {
+                    OR: [{ name: { contains: token, mode: 'insensitive' as const } }, { aliases: { has: token } }],
+                  },
+                },
+              },
+            },
+          },
+        ]),
+      },
+      include: CATALOG_PRODUCT_INCLUDE(locationId),
+      orderBy: { name: 'asc' },
+      take: CANDIDATES_PER_QUERY,
+    });
+
+    return products.map(product => {
+      const view = toProductView(product, locationId);
+      return { id: view.id, name: view.name, sku: view.sku, quantity: view.quantity, inStock: view.inStock };
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { demandDay, demandQueryTokens, normalizeDemandQuery, rankDemand, searchDemandReason, type DemandSignalRow } from './demand-signal';
+
+describe('normalizeDemandQuery', () => {
+  it('folds case, accents and spacing', () => {
+    expect(normalizeDemandQuery('  Ácido   Fólico ')).toBe('acido folico');
+  });
+});
+
+describe('searchDemandReason', () => {
+  it('flags empty results and results with nothing in stock', () => {
+    expect(searchDemandReason({ requested: [] })).toBe('NO_RESULTS');
+    expect(searchDemandReason({ requested: [{ inStock: false }, { inStock: false }] })).toBe('OUT_OF_STOCK');
+  });
+
+  it('is not unmet demand when any requested product is in stock', () => {
+    expect(searchDemandReason({ requested: [{ inStock: false }, { inStock: true }] })).toBeNull();
+  });
+});
+
+describe('demandQueryTokens', () => {
+  it('keeps the words a product name would contain', () => {
+    expect(demandQueryTokens('ozempic 1mg pluma de 0.25')).toEqual(['ozempic', 'pluma']);
+  });
+});
+
+describe('demandDay', () => {
+  it('truncates to UTC midnight', () => {
+    expect(demandDay(new Date('2026-10-19T23:45:00.000Z')).toISOString()).toBe('2026-10-19T00:00:00.000Z');
+  });
+});
+
+describe('rankDemand', () => {
+  const row = (over: Partial<DemandSignalRow>): DemandSignalRow => ({
+    query: 'ozempic',
+    normalizedQuery: 'ozempic',
+    locationId: 'centro',
+    reason: 'NO_RESULTS',
+    count: 1,
+    lastSeenAt: new Date('2026-10-18T12:00:00.000Z'),
+    ...over,
+  });
+
+  it('sums days, reasons and locations per query, most asked first', () => {
+    const ranked = rankDemand([
+      row({ normalizedQuery: 'melatonina', query: 'melatonina', count: 2 }),
+      row({ count: 2 }),
+      row({ locationId: 'norte', reason: 'REQUESTED', count: 3, query: 'Ozempic', lastSeenAt: new Date('2026-10-19T09:00:00.000Z') }),
+    ]);
+
+    expect(ranked.map(r => r.normalizedQuery)).toEqual(['ozempic', 'melatonina']);
+    expect(ranked[0]).toMatchObject({
+      query: 'Ozempic',
+      total: 5,
+      reasons: { NO_RESULTS: 2, OUT_OF_STOCK: 0, REQUESTED: 3 },
+      locations: [
+        { locationId: 'norte', count: 3 },
+        { locationId: 'centro', count: 2 },
+      ],
+    });
+  });
+
+  it('breaks ties by the most recent ask', () => {
+    const ranked = rankDemand([
+      row({ normalizedQuery: 'a' }),
+      row({ normalizedQuery: 'b', lastSeenAt: new Date('2026-10-19T00:00:00.000Z') }),
+    ]);
+    expect(ranked.map(r => r.normalizedQuery)).toEqual(['b', 'a']);
+  });
+});
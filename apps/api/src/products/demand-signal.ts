@@ -0,0 +1,94 @@
+/**
+ * Pure unmet-demand helpers — no DB access. Queries are grouped on a
+ * normalized form so "Ibuprofeno", "ibuprofeno " and "IBUPROFENO" count as
+ * one thing customers keep asking for.
+ */
+import { stripAccents } from '../inventory-migration/category-classifier';
+
+export type DemandReason = 'NO_RESULTS' | 'OUT_OF_STOCK' | 'REQUESTED';
+
+// Shorter searches are mostly someone mid-word, not a product we lack
+export const MIN_DEMAND_QUERY_LENGTH = 3;
+
+export function normalizeDemandQuery(query: string): string {
+  return stripAccents(query.toLowerCase()).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Why a search result is unmet demand, or null when something requested is
+ * in stock. Alternatives don't count: the customer asked for the requested
+ * product, and whether they took the generic isn't known here.
+ */
+export function searchDemandReason(result: { requested: Array<{ inStock: boolean }> }): DemandReason | null {
+  if (result.requested.length === 0) return 'NO_RESULTS';
+  return result.requested.some(p => p.inStock) ? null : 'OUT_OF_STOCK';
+}
+
+/**
+ * Words worth looking a product up by when the full query found nothing —
+ * "ozempic 1mg pluma" still points at Ozempic. Drops short words and
+ * strengths, which match half the catalog.
+ */
+export function demandQueryTokens(normalizedQuery: string): string[] {
+  return normalizedQuery.split(' ').filter(word => word.length >= 4 && !/\d/.test(word));
+}
+
+/** UTC midnight of the day a signal lands in. */
+export function demandDay(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+}
+
+export interface DemandSignalRow {
+  query: string;
+  normalizedQuery: string;
+  locationId: string;
+  reason: DemandReason;
+  count: number;
+  lastSeenAt: Date;
+}
+
+export interface RankedDemand {
+  normalizedQuery: string;
+  query: string; // Most recently typed spelling
+  total: number;
+  reasons: Record<DemandReason, number>;
+  locations: Array<{ locationId: string; count: number }>; // Most asked first
+  lastSeenAt: Date;
+}
+
+/** Roll daily rows up per query, most asked first (ties: most recent first). */
+export function rankDemand(rows: DemandSignalRow[]): RankedDemand[] {
+  const byQuery = new Map<string, RankedDemand & { byLocation: Map<string, number> }>();
+
+  for (const row of rows) {
+    let entry = byQuery.get(row.normalizedQuery);
+    if (!entry) {
+      entry = {
+        normalizedQuery: row.normalizedQuery,
+        query: row.query,
+        total: 0,
+        reasons: { NO_RESULTS: 0, OUT_OF_STOCK: 0, REQUESTED: 0 },
+        locations: [],
+        lastSeenAt: row.lastSeenAt,
+        byLocation: new Map(),
+      };
+      byQuery.set(row.normalizedQuery, entry);
+    }
+    entry.total += row.count;
+    entry.reasons[row.reason] += row.count;
+    entry.byLocation.set(row.locationId, (entry.byLocation.get(row.locationId) ?? 0) + row.count);
+    if (row.lastSeenAt > entry.lastSeenAt) {
+      entry.lastSeenAt = row.lastSeenAt;
+      entry.query = row.query;
+    }
+  }
+
+  return [...byQuery.values()]
+    .map(({ byLocation, ...entry }) => ({
+      ...entry,
+      locations: [...byLocation]
+        .map(([locationId, count]) => ({ locationId, count }))
+        .sort((a, b) => b.count - a.count),
+    }))
+    .sort((a, b) => b.total - a.total || b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+}
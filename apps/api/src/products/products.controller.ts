@@ -23,7 +23,7 @@ import { findOrCreateActiveIngredient, findOrCreateMedicationDefinition } from '
 import { findOrCreateLaboratory } from './laboratory';
 import { AuthGuard, RoleGuard, LocationGuard, Roles } from '../auth/guards/auth.guard';
 import { PrismaService } from '../prisma/prisma.service';
-import { PharmaceuticalForm, AdministrationRoute, Empaque } from '@prisma/client';
+import { PharmaceuticalForm, AdministrationRoute, Empaque, ConsumptionPolicy } from '@prisma/client';
 
 // DTOs
 interface CreateProductDto {
@@ -245,7 +245,7 @@ export class ProductsController {
   @Roles('OWNER', 'MANAGER', 'ACCOUNTANT', 'CASHIER')
   async listCategories() {
     const categories = await this.prisma.category.findMany({
-      select: { id: true, name: true, parentId: true },
+      select: { id: true, name: true, parentId: true, consumptionPolicy: true },
       orderBy: { name: 'asc' },
     });
     return { success: true, categories };
@@ -593,15 +593,62 @@ export class ProductsController {
    * converted stock goes. Pass sueltoProductId: null to remove the link.
    * cantidad (base units per caja) is also settable here since break-bulk
    * needs both — pass it if the product doesn't already have one set.
+   * autoBreakBulk lets the sale worker open this caja when the suelto sells
+   * short of loose units; removing the link turns it off.
    * Roles: OWNER, MANAGER
    */
   @Patch(':id/suelto-link')
   @Roles('OWNER', 'MANAGER')
   async setSueltoLink(
     @Param('id') id: string,
-    @Body() body: { sueltoProductId: string | null; cantidad?: number },
+    @Body() body: { sueltoProductId: string | null; cantidad?: number; autoBreakBulk?: boolean },
   ) {
-    const product = await this.productsService.setSueltoLink(id, body.sueltoProductId, body.cantidad);
+    const product = await this.productsService.setSueltoLink(id, body.sueltoProductId, body.cantidad, body.autoBreakBulk);
     return { success: true, data: { product } };
   }
+
+  /**
+   * Set which batch a sale draws from first: FIFO (oldest received) or FEFO
+   * (soonest expiring). Pass consumptionPolicy: null to inherit from the
+   * category.
+   * PATCH /products/:id/consumption-policy
+   * Roles: OWNER, MANAGER
+   */
+  @Patch(':id/consumption-policy')
+  @Roles('OWNER', 'MANAGER')
+  async setConsumptionPolicy(
+    @Param('id') id: string,
+    @Body() body: { consumptionPolicy: ConsumptionPolicy | null },
+  ) {
+    const product = await this.productsService.setConsumptionPolicy(id, this.parseConsumptionPolicy(body));
+    return { success: true, data: { product } };
+  }
+
+  /**
+   * Category-wide default for the same setting; null inherits the parent's.
+   * PATCH /products/categories/:id/consumption-policy
+   * Roles: OWNER, MANAGER
+   */
+  @Patch('categories/:id/consumption-policy')
+  @Roles('OWNER', 'MANAGER')
+  async setCategoryConsumptionPolicy(
+    @Param('id') id: string,
+    @Body() body: { consumptionPolicy: ConsumptionPolicy | null },
+  ) {
+    const category = await this.productsService.setCategoryConsumptionPolicy(id, this.parseConsumptionPolicy(body));
+    return { success: true, data: { category } };
+  }
+
+  private parseConsumptionPolicy(body: { consumptionPolicy?: ConsumptionPolicy | null }): ConsumptionPolicy | null {
+    const policy = body?.consumptionPolicy;
+    if (policy === null) return null;
+    const allowed = Object.values(ConsumptionPolicy);
+    if (policy === undefined || !allowed.includes(policy)) {
+      throw new HttpException(
+        { success: false, message: `consumptionPolicy must be one of: ${allowed.join(', ')} (or null)` },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return policy;
+  }
 }
@@ -3,13 +3,15 @@ import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
 import { MedicationEquivalenceService } from './medication-equivalence.service';
 import { CatalogSearchService } from './catalog-search.service';
+import { DemandSignalService } from './demand-signal.service';
+import { DemandSignalController } from './demand-signal.controller';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [forwardRef(() => AuthModule)],
-  controllers: [ProductsController],
-  providers: [ProductsService, MedicationEquivalenceService, CatalogSearchService, PrismaService],
+  controllers: [ProductsController, DemandSignalController],
+  providers: [ProductsService, MedicationEquivalenceService, CatalogSearchService, DemandSignalService, PrismaService],
   exports: [ProductsService],
 })
 export class ProductsModule {}
@@ -1,7 +1,7 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { SquareClient, SquareEnvironment } from 'square';
-import { Prisma, Empaque } from '@prisma/client';
+import { Prisma, Empaque, type ConsumptionPolicy } from '@prisma/client';
 import { randomUUID } from 'crypto';
 import { deriveNombre, derivePresentacion, type Sustancia } from './derived-naming';
 
@@ -1236,7 +1236,7 @@ export class ProductsService {
    * loose counterpart — the realistic entry point for sueltos, since Caja and
    * Suelto are two separate products/Square items that already exist today.
    */
-  async setSueltoLink(productId: string, sueltoProductId: string | null, cantidad?: number) {
+  async setSueltoLink(productId: string, sueltoProductId: string | null, cantidad?: number, autoBreakBulk?: boolean) {
     const product = await this.prisma.product.findUnique({ where: { id: productId } });
     if (!product) {
       throw new NotFoundException(`Product ${productId} not found`);
@@ -1254,10 +1254,49 @@ export class ProductsService {
     if (cantidad !== undefined && cantidad <= 0) {
       throw new BadRequestException('cantidad must be positive');
     }
+    if (autoBreakBulk && sueltoProductId && !(cantidad ?? product.cantidad)) {
+      throw new BadRequestException('autoBreakBulk needs cantidad (base units per caja) set');
+    }
+
+    return this.prisma.product.update({
+      where: { id: productId },
+      data: {
+        sueltoProductId,
+        ...(cantidad !== undefined && { cantidad }),
+        // Nothing to open without a suelto to open it into
+        ...(!sueltoProductId ? { autoBreakBulk: false } : autoBreakBulk !== undefined && { autoBreakBulk }),
+      },
+    });
+  }
+
+  /**
+   * Set the batch order (FIFO/FEFO) sales and adjustments use for a product.
+   * null falls back to the product's category chain.
+   */
+  async setConsumptionPolicy(productId: string, consumptionPolicy: ConsumptionPolicy | null) {
+    const product = await this.prisma.product.findUnique({ where: { id: productId } });
+    if (!product) {
+      throw new NotFoundException(`Product ${productId} not found`);
+    }
 
     return this.prisma.product.update({
       where: { id: productId },
-      data: { sueltoProductId, ...(cantidad !== undefined && { cantidad }) },
+      data: { consumptionPolicy },
+      select: { id: true, name: true, consumptionPolicy: true },
+    });
+  }
+
+  /** Category default for products without their own policy; subcategories inherit it unless set. */
+  async setCategoryConsumptionPolicy(categoryId: string, consumptionPolicy: ConsumptionPolicy | null) {
+    const category = await this.prisma.category.findUnique({ where: { id: categoryId } });
+    if (!category) {
+      throw new NotFoundException(`Category ${categoryId} not found`);
+    }
+
+    return this.prisma.category.update({
+      where: { id: categoryId },
+      data: { consumptionPolicy },
+      select: { id: true, name: true, parentId: true, consumptionPolicy: true },
     });
   }
 }
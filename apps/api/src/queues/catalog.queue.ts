@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import IORedis from 'ioredis';
+
+// Must match the schedulerId the worker registers for the catalog queue
+// (apps/worker/src/worker.config.ts).
+const CATALOG_SYNC_SCHEDULER_ID = 'catalog-sync';
+
+export interface CatalogSyncSchedule {
+  pattern: string | null;
+  tz: string | null;
+  nextRunAt: Date | null;
+}
+
+/**
+ * Read-only view of the worker's catalog queue. The worker owns the schedule
+ * (CATALOG_SYNC_CRON); the API only reports it.
+ */
+@Injectable()
+export class CatalogQueue {
+  private queue: Queue;
+
+  constructor() {
+    const connection = new IORedis(process.env.REDIS_URL!);
+    this.queue = new Queue('catalog', { connection: connection as any });
+  }
+
+  /** Null when scheduled syncs are off (or the worker hasn't booted yet). */
+  async getSchedule(): Promise<CatalogSyncSchedule | null> {
+    const scheduler = await this.queue.getJobScheduler(CATALOG_SYNC_SCHEDULER_ID);
+    if (!scheduler) return null;
+    return {
+      pattern: scheduler.pattern ?? null,
+      tz: scheduler.tz ?? null,
+      nextRunAt: scheduler.next ? new Date(scheduler.next) : null,
+    };
+  }
+}
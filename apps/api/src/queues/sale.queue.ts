@@ -2,48 +2,85 @@ import { Injectable } from '@nestjs/common';
 import { Queue } from 'bullmq';
 import IORedis from 'ioredis';
 
+// inventory.count.updated also fires for our own sales. Checking the counts
+// a few minutes later lets the payment.created job book the sale first, so
+// only real drift is reported.
+const INVENTORY_COUNT_CHECK_DELAY_MS = 5 * 60 * 1000;
+
 @Injectable()
 export class SaleQueue {
   private queue: Queue;
+  private voidQueue: Queue;
 
   constructor() {
     const connection = new IORedis(process.env.REDIS_URL!);
+    const defaultJobOptions = {
+      attempts: 5,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: true,
+      removeOnFail: true, // Remove failed jobs so they don't block retries with same jobId (the worker keeps a durable copy in DeadLetterJob)
+    };
 
-    this.queue = new Queue('sales', {
-      connection: connection as any,
-      defaultJobOptions: {
-        attempts: 5,
-        backoff: { type: 'exponential', delay: 5000 },
-        removeOnComplete: true,
-        removeOnFail: true, // Remove failed jobs so they don't block retries with same jobId
-      },
-    });
+    this.queue = new Queue('sales', { connection: connection as any, defaultJobOptions });
+    // Cancellations and voids have their own worker (void.worker.ts)
+    this.voidQueue = new Queue('sale-voids', { connection: connection as any, defaultJobOptions });
+  }
+
+  private queueFor(jobName: string): Queue {
+    return jobName === 'process-void' ? this.voidQueue : this.queue;
   }
 
-  async enqueue(event: any) {
+  /**
+   * jobId defaults to the Square event_id (idempotent against redelivery); a
+   * re-dispatch of a stored event passes its own. immediate skips the count
+   * check delay, which only matters for live events.
+   */
+  async enqueue(event: any, options: { jobId?: string; immediate?: boolean } = {}) {
     console.log('[DEBUG] [SALE_QUEUE] Enqueueing event:', {
       event_id: event.event_id,
       type: event.type,
       hasData: !!event.data,
     });
     
-    const job = await this.queue.add(
-      'process-sale',
+    // Refunds and count checks ride the sales queue, where the worker
+    // dispatches on job name; voids go to their own.
+    const jobName = event.type?.startsWith('refund.')
+      ? 'process-refund'
+      : event.type === 'payment.updated' || event.type === 'order.updated'
+        ? 'process-void'
+        : event.type === 'inventory.count.updated'
+          ? 'check-inventory-count'
+          : 'process-sale';
+
+    const job = await this.queueFor(jobName).add(
+      jobName,
       {
         squareEventId: event.event_id,
         payload: event.data,
       },
       {
-        jobId: event.event_id, // ⬅️ idempotency
+        jobId: options.jobId ?? event.event_id, // ⬅️ idempotency
+        ...(jobName === 'check-inventory-count' && !options.immediate && { delay: INVENTORY_COUNT_CHECK_DELAY_MS }),
       },
     );
     
     console.log('[DEBUG] [SALE_QUEUE] ✅ Job enqueued:', {
       jobId: job.id,
       name: job.name,
-      queueName: 'sales',
+      queueName: job.queueName,
     });
     
     return job;
   }
+
+  /**
+   * Re-enqueue a dead-lettered job with its original name and data. The
+   * replay gets its own jobId (the original was removed on failure, but a
+   * fresh id keeps replays distinguishable in worker logs).
+   */
+  async replay(jobName: string, data: Record<string, unknown>, jobId: string) {
+    const job = await this.queueFor(jobName).add(jobName, data, { jobId });
+    console.log('[DEBUG] [SALE_QUEUE] ✅ Replay enqueued:', { jobId: job.id, name: job.name });
+    return job;
+  }
 }
\ No newline at end of file
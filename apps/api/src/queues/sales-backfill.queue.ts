@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { Job, Queue } from 'bullmq';
+import IORedis from 'ioredis';
+
+export interface SalesBackfillJobData {
+  squareLocationId: string;
+  locationId: string;
+  startAt: string;
+  endAt: string;
+  dryRun: boolean;
+  requestedBy?: string;
+}
+
+// Finished runs are the only copy of their per-order report, so keep them
+// around long enough to be read rather than removing them on completion.
+const REPORT_RETENTION_SECONDS = 14 * 24 * 60 * 60;
+
+@Injectable()
+export class SalesBackfillQueue {
+  private queue: Queue;
+
+  constructor() {
+    const connection = new IORedis(process.env.REDIS_URL!);
+
+    this.queue = new Queue('sales-backfill', {
+      connection: connection as any,
+      defaultJobOptions: {
+        attempts: 1, // per-order failures are in the report; a rerun is idempotent
+        removeOnComplete: { age: REPORT_RETENTION_SECONDS },
+        removeOnFail: { age: REPORT_RETENTION_SECONDS },
+      },
+    });
+  }
+
+  async enqueue(data: SalesBackfillJobData) {
+    const job = await this.queue.add('backfill-sales', data, {
+      jobId: `backfill-${data.squareLocationId}-${Date.now()}`,
+    });
+    console.log('[DEBUG] [SALES_BACKFILL_QUEUE] ✅ Backfill enqueued:', { jobId: job.id, dryRun: data.dryRun });
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<Job | undefined> {
+    return this.queue.getJob(jobId);
+  }
+
+  async getRecentJobs(limit: number): Promise<Job[]> {
+    return this.queue.getJobs(['active', 'waiting', 'delayed', 'completed', 'failed'], 0, limit - 1);
+  }
+}
@@ -0,0 +1,69 @@
+import { Controller, Get, Post, Param, Query, Req, UseGuards, HttpException, HttpStatus } from '@nestjs/common';
+import { DeadLetterService, type DeadLetterStatus } from './dead-letter.service';
+import { AuthGuard, RoleGuard, Roles } from '../auth/guards/auth.guard';
+
+const STATUSES: DeadLetterStatus[] = ['OPEN', 'REPLAYING', 'RESOLVED', 'DISMISSED'];
+
+@Controller('admin/sales/dead-letters')
+@UseGuards(AuthGuard, RoleGuard)
+export class DeadLetterController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  @Get()
+  @Roles('OWNER', 'MANAGER')
+  async list(
+    @Query('status') status?: string,
+    @Query('errorName') errorName?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (status && !STATUSES.includes(status as DeadLetterStatus)) {
+      throw new HttpException(
+        { success: false, message: `Invalid status. Must be one of: ${STATUSES.join(', ')}` },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const result = await this.deadLetterService.list({
+      status: status as DeadLetterStatus | undefined,
+      errorName,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    return {
+      success: true,
+      count: result.jobs.length,
+      data: result.jobs,
+      openByError: result.openByError,
+    };
+  }
+
+  @Get(':id')
+  @Roles('OWNER', 'MANAGER')
+  async get(@Param('id') id: string) {
+    const job = await this.deadLetterService.get(id);
+    return { success: true, data: job };
+  }
+
+  /**
+   * Re-run the original job once the cause is fixed (mapping created,
+   * stock received). The outcome arrives asynchronously: the entry moves to
+   * RESOLVED when the worker succeeds, or back to OPEN with the new error.
+   */
+  @Post(':id/replay')
+  @Roles('OWNER', 'MANAGER')
+  async replay(@Param('id') id: string, @Req() req: any) {
+    const result = await this.deadLetterService.replay(id, req.employee?.id);
+    return {
+      success: true,
+      message: `Replay enqueued as ${result.replayJobId}`,
+      data: result,
+    };
+  }
+
+  @Post(':id/dismiss')
+  @Roles('OWNER', 'MANAGER')
+  async dismiss(@Param('id') id: string) {
+    const job = await this.deadLetterService.dismiss(id);
+    return { success: true, message: 'Dead-letter job dismissed', data: job };
+  }
+}
@@ -0,0 +1,126 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SaleQueue } from '../queues/sale.queue';
+
+export type DeadLetterStatus = 'OPEN' | 'REPLAYING' | 'RESOLVED' | 'DISMISSED';
+
+/**
+ * Console over DeadLetterJob — sale/refund jobs the worker gave up on
+ * (see apps/worker/src/dead-letter.ts). Replay pushes the original payload
+ * back onto the queue its job name belongs to; processSaleJob is idempotent
+ * on the payment id, so replaying a job whose sale was somehow recorded
+ * meanwhile is harmless.
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly saleQueue: SaleQueue,
+  ) {}
+
+  async list(options: { status?: DeadLetterStatus; errorName?: string; limit?: number }) {
+    const where: Prisma.DeadLetterJobWhereInput = {
+      ...(options.status && { status: options.status }),
+      ...(options.errorName && { errorName: options.errorName }),
+    };
+
+    const [jobs, byError] = await Promise.all([
+      this.prisma.deadLetterJob.findMany({
+        where,
+        // The stack and payload can be large; the list view only needs the summary
+        select: {
+          id: true,
+          queueName: true,
+          jobName: true,
+          jobId: true,
+          errorName: true,
+          errorMessage: true,
+          status: true,
+          failureCount: true,
+          replayCount: true,
+          firstFailedAt: true,
+          lastFailedAt: true,
+          lastReplayedAt: true,
+          resolvedAt: true,
+        },
+        orderBy: { lastFailedAt: 'desc' },
+        take: options.limit || 100,
+      }),
+      this.prisma.deadLetterJob.groupBy({
+        by: ['errorName'],
+        where: { status: 'OPEN' },
+        _count: { id: true },
+      }),
+    ]);
+
+    return {
+      jobs,
+      openByError: byError.map(e => ({ errorName: e.errorName, count: e._count.id })),
+    };
+  }
+
+  async get(id: string) {
+    const job = await this.prisma.deadLetterJob.findUnique({ where: { id } });
+    if (!job) {
+      throw new NotFoundException(`Dead-letter job ${id} not found`);
+    }
+    return job;
+  }
+
+  async replay(id: string, replayedBy?: string) {
+    const entry = await this.get(id);
+    if (entry.status === 'RESOLVED' || entry.status === 'DISMISSED') {
+      throw new BadRequestException(`Dead-letter job ${id} is ${entry.status} and cannot be replayed`);
+    }
+    if (entry.status === 'REPLAYING') {
+      throw new BadRequestException(`Dead-letter job ${id} is already being replayed`);
+    }
+
+    const replayNumber = entry.replayCount + 1;
+    const replayJobId = `${entry.jobId}-replay-${replayNumber}`;
+    const payload = (entry.payload ?? {}) as Record<string, unknown>;
+
+    // Claim the entry before enqueueing: of two replay clicks racing on it,
+    // only the one whose update still sees it OPEN enqueues. If the enqueue
+    // throws, the entry goes back to OPEN rather than being stuck looking
+    // like a replay is in flight.
+    const claimed = await this.prisma.deadLetterJob.updateMany({
+      where: { id, status: 'OPEN', replayCount: entry.replayCount },
+      data: {
+        status: 'REPLAYING',
+        replayCount: replayNumber,
+        lastReplayedAt: new Date(),
+        lastReplayedBy: replayedBy,
+      },
+    });
+    if (claimed.count !== 1) {
+      throw new BadRequestException(`Dead-letter job ${id} is already being replayed`);
+    }
+
+    try {
+      await this.saleQueue.replay(entry.jobName, { ...payload, deadLetterId: entry.id }, replayJobId);
+    } catch (error) {
+      await this.prisma.deadLetterJob.update({ where: { id }, data: { status: 'OPEN' } });
+      throw error;
+    }
+
+    this.logger.log(`[DEAD_LETTER] Replayed ${entry.jobName} ${entry.jobId} as ${replayJobId}`);
+
+    return { id, replayJobId, replayCount: replayNumber, status: 'REPLAYING' as const };
+  }
+
+  async dismiss(id: string) {
+    const entry = await this.get(id);
+    if (entry.status === 'RESOLVED') {
+      throw new BadRequestException(`Dead-letter job ${id} is already resolved`);
+    }
+
+    return this.prisma.deadLetterJob.update({
+      where: { id },
+      data: { status: 'DISMISSED', resolvedAt: new Date() },
+    });
+  }
+}
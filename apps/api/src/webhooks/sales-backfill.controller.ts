@@ -0,0 +1,81 @@
+import { Controller, Get, Post, Body, Param, Query, Req, UseGuards, HttpException, HttpStatus } from '@nestjs/common';
+import { SalesBackfillService } from './sales-backfill.service';
+import { AuthGuard, RoleGuard, Roles } from '../auth/guards/auth.guard';
+
+function endOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setUTCHours(23, 59, 59, 999);
+  return result;
+}
+
+@Controller('admin/sales/backfill')
+@UseGuards(AuthGuard, RoleGuard)
+export class SalesBackfillController {
+  constructor(private readonly backfillService: SalesBackfillService) {}
+
+  /**
+   * Pull Square orders closed at a location between two dates and record any
+   * sale that is missing. Dates are whole days (endDate inclusive); send
+   * dryRun to get the report without writing anything.
+   *
+   * Request body:
+   * { "locationId": "uuid", "startDate": "2026-10-01", "endDate": "2026-10-03", "dryRun": true }
+   */
+  @Post()
+  @Roles('OWNER')
+  async start(
+    @Body() body: { locationId?: string; startDate?: string; endDate?: string; dryRun?: boolean },
+    @Req() req: any,
+  ) {
+    if (!body.locationId || !body.startDate || !body.endDate) {
+      throw new HttpException(
+        { success: false, message: 'locationId, startDate and endDate are required' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const startAt = new Date(body.startDate);
+    const endAt = endOfDay(new Date(body.endDate));
+    if (isNaN(startAt.getTime()) || isNaN(endAt.getTime())) {
+      throw new HttpException(
+        { success: false, message: 'startDate and endDate must be valid dates' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const dryRun = body.dryRun === true;
+    const run = await this.backfillService.start({
+      locationId: body.locationId,
+      startAt,
+      endAt,
+      dryRun,
+      requestedBy: req.employee?.id,
+    });
+
+    return {
+      success: true,
+      message: `${dryRun ? 'Dry run' : 'Backfill'} queued as ${run.jobId}`,
+      data: run,
+    };
+  }
+
+  @Get()
+  @Roles('OWNER', 'MANAGER')
+  async list(@Query('limit') limit?: string) {
+    const runs = await this.backfillService.list(limit ? parseInt(limit, 10) : undefined);
+    return {
+      success: true,
+      count: runs.length,
+      data: runs,
+      webhooksPaused: this.backfillService.webhooksPaused(),
+    };
+  }
+
+  /** Progress while running; the per-order outcome report once finished. */
+  @Get(':jobId')
+  @Roles('OWNER', 'MANAGER')
+  async get(@Param('jobId') jobId: string) {
+    const run = await this.backfillService.get(jobId);
+    return { success: true, data: run };
+  }
+}
@@ -0,0 +1,103 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { PrismaService } from '../prisma/prisma.service';
+import { SalesBackfillQueue, type SalesBackfillJobData } from '../queues/sales-backfill.queue';
+import { WebhookTestService } from './webhook-test.service';
+
+// Orders search returns every order in the range before any is processed;
+// a quarter is already tens of thousands of orders for a busy location.
+const MAX_RANGE_DAYS = 92;
+
+/**
+ * Starts and reports on historical sales backfills (apps/worker/src/
+ * backfill.worker.ts). The run itself lives on the sales-backfill queue;
+ * its progress and per-order report are read back from the BullMQ job.
+ */
+@Injectable()
+export class SalesBackfillService {
+  private readonly logger = new Logger(SalesBackfillService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly backfillQueue: SalesBackfillQueue,
+    private readonly webhookTestService: WebhookTestService,
+  ) {}
+
+  async start(input: { locationId: string; startAt: Date; endAt: Date; dryRun: boolean; requestedBy?: string }) {
+    if (input.startAt >= input.endAt) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+    if (input.endAt.getTime() - input.startAt.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      throw new BadRequestException(`Backfill range cannot exceed ${MAX_RANGE_DAYS} days — split it into several runs`);
+    }
+
+    const location = await this.prisma.location.findUnique({ where: { id: input.locationId } });
+    if (!location) {
+      throw new NotFoundException(`Location ${input.locationId} not found`);
+    }
+    if (!location.squareId) {
+      throw new BadRequestException(`Location ${location.name} is not linked to a Square location`);
+    }
+
+    const data: SalesBackfillJobData = {
+      squareLocationId: location.squareId,
+      locationId: location.id,
+      startAt: input.startAt.toISOString(),
+      endAt: input.endAt.toISOString(),
+      dryRun: input.dryRun,
+      requestedBy: input.requestedBy,
+    };
+    const job = await this.backfillQueue.enqueue(data);
+
+    this.logger.log(
+      `[BACKFILL] ${input.dryRun ? 'Dry run' : 'Run'} ${job.id} queued for ${location.name}: ${data.startAt} → ${data.endAt}`,
+    );
+
+    return this.toRun(job, false);
+  }
+
+  async list(limit = 20) {
+    const jobs = await this.backfillQueue.getRecentJobs(limit);
+    jobs.sort((a, b) => b.timestamp - a.timestamp);
+    return Promise.all(jobs.map(job => this.toRun(job, false)));
+  }
+
+  async get(jobId: string) {
+    const job = await this.backfillQueue.getJob(jobId);
+    if (!job) {
+      throw new NotFoundException(`Backfill run ${jobId} not found (reports are kept for 14 days)`);
+    }
+    return this.toRun(job, true);
+  }
+
+  /**
+   * Webhooks paused from the Webhook Test screen drop sales on the floor;
+   * the backfill screen surfaces that so the gap gets filled once resumed.
+   */
+  webhooksPaused(): boolean {
+    return this.webhookTestService.isWebhookPaused();
+  }
+
+  private async toRun(job: Job, withOutcomes: boolean) {
+    const data = job.data as SalesBackfillJobData;
+    const report = job.returnvalue ?? null;
+    const progress = typeof job.progress === 'object' ? job.progress : null;
+
+    return {
+      jobId: job.id,
+      state: await job.getState(),
+      locationId: data.locationId,
+      squareLocationId: data.squareLocationId,
+      startAt: data.startAt,
+      endAt: data.endAt,
+      dryRun: data.dryRun,
+      requestedBy: data.requestedBy ?? null,
+      queuedAt: new Date(job.timestamp),
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+      progress,
+      summary: report?.summary ?? (progress as { summary?: unknown } | null)?.summary ?? null,
+      failedReason: job.failedReason || null,
+      ...(withOutcomes && { outcomes: report?.outcomes ?? [] }),
+    };
+  }
+}
@@ -18,14 +18,16 @@ import {
   import { WebhooksHelper } from 'square';
   import { SaleQueue } from '../queues/sale.queue';
   import { WebhookTestService } from './webhook-test.service';
+  import { WebhookEventService, HANDLED_EVENT_TYPES } from './webhook-event.service';
   import { SalesTestService, CreateTestSaleInput } from './sales-test.service';
   import { AuthGuard, RoleGuard, Roles } from '../auth/guards/auth.guard';
-  
+
   @Controller('webhooks/square')
   export class SquareWebhookController {
     constructor(
       private readonly saleQueue: SaleQueue,
       private readonly webhookTestService: WebhookTestService,
+      private readonly webhookEventService: WebhookEventService,
     ) {}
   
     @Get()
@@ -109,12 +111,22 @@ import {
         console.error('[DEBUG] [WEBHOOK] ERROR: Failed to parse JSON:', error);
         return res.status(HttpStatus.BAD_REQUEST).send('Invalid JSON');
       }
+
+      // 5. Store it before anything else can drop it. A failure here
+      // returns 500 so Square redelivers rather than losing the event.
+      if (!event.event_id || !event.type) {
+        console.error('[DEBUG] [WEBHOOK] ERROR: Event has no event_id or type');
+        return res.status(HttpStatus.BAD_REQUEST).send('Missing event_id or type');
+      }
+      const stored = await this.webhookEventService.record(event, rawBodyString);
+      console.log('[DEBUG] [WEBHOOK] ✓ Event stored:', stored.id, stored.isRedelivery ? '(redelivery)' : '');
       
       // Only process relevant events
       console.log('[DEBUG] [WEBHOOK] Checking event type...');
-      console.log('[DEBUG] [WEBHOOK] Event type:', event.type, 'Expected: payment.created');
-      if (event.type !== 'payment.created') {
+      console.log('[DEBUG] [WEBHOOK] Event type:', event.type, 'Expected one of:', HANDLED_EVENT_TYPES.join(', '));
+      if (!HANDLED_EVENT_TYPES.includes(event.type)) {
         console.log('[DEBUG] [WEBHOOK] ⚠️ Event type mismatch, ignoring');
+        await this.webhookEventService.markStatus(stored.id, 'IGNORED');
         return res.status(HttpStatus.OK).send('Ignored');
       }
       console.log('[DEBUG] [WEBHOOK] ✓ Event type matches');
@@ -122,12 +134,32 @@ import {
       // Check if webhook processing is paused
       if (this.webhookTestService.isWebhookPaused()) {
         console.log('[DEBUG] [WEBHOOK] ⚠️ Webhook processing is paused, ignoring event');
+        if (!stored.isRedelivery) {
+          await this.webhookEventService.markStatus(stored.id, 'PAUSED');
+        }
         return res.status(HttpStatus.OK).send('Paused - Not Processed');
       }
 
+      // A redelivery of an event already queued or processed is a no-op
+      // (the jobId dedupes it anyway); one that was paused or never made it
+      // onto the queue gets enqueued now.
+      if (stored.isRedelivery && !['RECEIVED', 'PAUSED'].includes(stored.status)) {
+        console.log('[DEBUG] [WEBHOOK] ⚠️ Redelivery of an event already', stored.status, '- not re-enqueued');
+        return res.status(HttpStatus.OK).send('Duplicate');
+      }
+
       console.log('[DEBUG] [WEBHOOK] Proceeding to enqueue');
       console.log('[DEBUG] [WEBHOOK] Calling saleQueue.enqueue()...');
-      await this.saleQueue.enqueue(event);
+      // QUEUED goes first so it can't overwrite the worker's PROCESSING; if
+      // the enqueue fails the event goes back to RECEIVED and the 500 makes
+      // Square redeliver it.
+      await this.webhookEventService.markStatus(stored.id, 'QUEUED');
+      try {
+        await this.saleQueue.enqueue(event);
+      } catch (error) {
+        await this.webhookEventService.markStatus(stored.id, 'RECEIVED');
+        throw error;
+      }
       console.log('[DEBUG] [WEBHOOK] ✓ Event enqueued successfully');
       console.log('[DEBUG] [WEBHOOK] ========================================');
     
@@ -0,0 +1,121 @@
+import { Controller, Get, Post, Body, Param, Query, Req, UseGuards, HttpException, HttpStatus } from '@nestjs/common';
+import { WebhookEventService, type WebhookEventFilter, type WebhookEventStatus } from './webhook-event.service';
+import { AuthGuard, RoleGuard, Roles } from '../auth/guards/auth.guard';
+
+const STATUSES: WebhookEventStatus[] = [
+  'RECEIVED',
+  'QUEUED',
+  'PROCESSING',
+  'RETRYING',
+  'PROCESSED',
+  'FAILED',
+  'IGNORED',
+  'PAUSED',
+];
+
+interface EventFilterDto {
+  eventType?: string;
+  status?: string;
+  from?: string;
+  to?: string;
+}
+
+@Controller('admin/webhook-events')
+@UseGuards(AuthGuard, RoleGuard)
+export class WebhookEventController {
+  constructor(private readonly webhookEventService: WebhookEventService) {}
+
+  @Get()
+  @Roles('OWNER', 'MANAGER')
+  async list(
+    @Query('eventType') eventType?: string,
+    @Query('status') status?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const result = await this.webhookEventService.list({
+      ...this.parseFilter({ eventType, status, from, to }),
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    return {
+      success: true,
+      count: result.events.length,
+      data: result.events,
+      countByStatus: result.countByStatus,
+    };
+  }
+
+  @Get(':id')
+  @Roles('OWNER', 'MANAGER')
+  async get(@Param('id') id: string) {
+    const event = await this.webhookEventService.get(id);
+    return { success: true, data: event };
+  }
+
+  /**
+   * Feed a stored event back through the sales queue, e.g. after fixing the
+   * bug that mis-processed it. Like dead-letter replay, the outcome arrives
+   * asynchronously on the event's status.
+   */
+  @Post(':id/redispatch')
+  @Roles('OWNER')
+  async redispatch(@Param('id') id: string, @Req() req: any) {
+    const result = await this.webhookEventService.redispatch(id, req.employee?.id);
+    return {
+      success: true,
+      message: `Re-dispatched as ${result.jobId}`,
+      data: result,
+    };
+  }
+
+  /**
+   * Re-dispatch every handled event matching the filter, oldest first - for
+   * rebuilding a period's sales after deleting them. At least one filter
+   * field is required so an empty body can't replay the whole history.
+   */
+  @Post('redispatch')
+  @Roles('OWNER')
+  async redispatchMany(@Body() body: EventFilterDto, @Req() req: any) {
+    const filter = this.parseFilter(body ?? {});
+    if (!filter.eventType && !filter.status && !filter.from && !filter.to) {
+      throw new HttpException(
+        { success: false, message: 'Provide at least one of eventType, status, from, to' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const result = await this.webhookEventService.redispatchMany(filter, req.employee?.id);
+    return {
+      success: true,
+      message: `Re-dispatched ${result.dispatched} of ${result.matched} event(s)`,
+      data: result,
+    };
+  }
+
+  private parseFilter(dto: EventFilterDto): WebhookEventFilter {
+    if (dto.status && !STATUSES.includes(dto.status as WebhookEventStatus)) {
+      throw new HttpException(
+        { success: false, message: `Invalid status. Must be one of: ${STATUSES.join(', ')}` },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const from = dto.from ? new Date(dto.from) : undefined;
+    const to = dto.to ? new Date(dto.to) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      throw new HttpException(
+        { success: false, message: 'from and to must be valid dates' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return {
+      eventType: dto.eventType || undefined,
+      status: dto.status as WebhookEventStatus | undefined,
+      from,
+      to,
+    };
+  }
+}
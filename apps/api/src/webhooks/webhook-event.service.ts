@@ -0,0 +1,244 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SaleQueue } from '../queues/sale.queue';
+
+// Square events routed to the sales queue. Refunds arrive PENDING on
+// refund.created and settle on refund.updated; the worker ignores all but
+// COMPLETED, so both are forwarded. payment.updated and order.updated are
+// forwarded for cancellations; the worker ignores every other status.
+// inventory.count.updated feeds count drift detection.
+export const HANDLED_EVENT_TYPES = [
+  'payment.created',
+  'payment.updated',
+  'order.updated',
+  'refund.created',
+  'refund.updated',
+  'inventory.count.updated',
+];
+
+export type WebhookEventStatus =
+  | 'RECEIVED'
+  | 'QUEUED'
+  | 'PROCESSING'
+  | 'RETRYING'
+  | 'PROCESSED'
+  | 'FAILED'
+  | 'IGNORED'
+  | 'PAUSED';
+
+// Still owned by the queue; re-dispatching now would race the running job.
+const IN_FLIGHT: WebhookEventStatus[] = ['QUEUED', 'PROCESSING', 'RETRYING'];
+
+// Bulk re-dispatch cap, so one request can't flood the sales queue.
+const MAX_BULK_REDISPATCH = 500;
+
+export interface WebhookEventFilter {
+  eventType?: string;
+  status?: WebhookEventStatus;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * WebhookEvent store: the raw body of every verified Square webhook, with a
+ * status the worker moves along as the job runs (apps/worker/src/webhook-event.ts).
+ * Re-dispatch re-parses the stored body and enqueues it under a fresh job id;
+ * the processors are idempotent on Square ids, so re-running an event whose
+ * effect is already recorded is harmless.
+ */
+@Injectable()
+export class WebhookEventService {
+  private readonly logger = new Logger(WebhookEventService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly saleQueue: SaleQueue,
+  ) {}
+
+  /**
+   * Store a verified webhook. Square redelivers until it gets a 2xx, with the
+   * same event_id, so a repeat only bumps deliveryCount; the returned flag
+   * tells the caller whether this delivery is the first.
+   */
+  async record(event: any, rawBody: string) {
+    const existing = await this.prisma.webhookEvent.findUnique({
+      where: { eventId: event.event_id },
+      select: { id: true, status: true },
+    });
+    if (existing) {
+      await this.prisma.webhookEvent.update({
+        where: { id: existing.id },
+        data: { deliveryCount: { increment: 1 } },
+      });
+      return { id: existing.id, status: existing.status, isRedelivery: true };
+    }
+
+    const created = await this.prisma.webhookEvent.create({
+      data: {
+        eventId: event.event_id,
+        eventType: event.type,
+        merchantId: event.merchant_id ?? null,
+        rawBody,
+      },
+    });
+    return { id: created.id, status: created.status, isRedelivery: false };
+  }
+
+  async markStatus(id: string, status: WebhookEventStatus) {
+    await this.prisma.webhookEvent.update({
+      where: { id },
+      data: { status, ...(status === 'QUEUED' && { queuedAt: new Date() }) },
+    });
+  }
+
+  async list(filter: WebhookEventFilter & { limit?: number }) {
+    const where = this.buildWhere(filter);
+
+    const [events, byStatus] = await Promise.all([
+      this.prisma.webhookEvent.findMany({
+        where,
+        // rawBody can be large; the list view only needs the summary
+        select: {
+          id: true,
+          eventId: true,
+          eventType: true,
+          status: true,
+          attemptsMade: true,
+          lastError: true,
+          deliveryCount: true,
+          dispatchCount: true,
+          receivedAt: true,
+          queuedAt: true,
+          processedAt: true,
+          lastDispatchedAt: true,
+        },
+        orderBy: { receivedAt: 'desc' },
+        take: filter.limit || 100,
+      }),
+      this.prisma.webhookEvent.groupBy({
+        by: ['status'],
+        where,
+        _count: { id: true },
+      }),
+    ]);
+
+    return {
+      events,
+      countByStatus: byStatus.map(s => ({ status: s.status, count: s._count.id })),
+    };
+  }
+
+  /** Full event, with the raw body parsed back for reading. */
+  async get(id: string) {
+    const event = await this.prisma.webhookEvent.findUnique({ where: { id } });
+    if (!event) {
+      throw new NotFoundException(`Webhook event ${id} not found`);
+    }
+    return { ...event, body: this.parseBody(event.rawBody) };
+  }
+
+  async redispatch(id: string, dispatchedBy?: string) {
+    const event = await this.prisma.webhookEvent.findUnique({ where: { id } });
+    if (!event) {
+      throw new NotFoundException(`Webhook event ${id} not found`);
+    }
+    if (!HANDLED_EVENT_TYPES.includes(event.eventType)) {
+      throw new BadRequestException(`Webhook event ${id} is a ${event.eventType}, which the sales queue does not handle`);
+    }
+    if (IN_FLIGHT.includes(event.status as WebhookEventStatus)) {
+      throw new BadRequestException(`Webhook event ${id} is ${event.status}; wait for the current job to finish`);
+    }
+
+    const dispatchNumber = event.dispatchCount + 1;
+    const jobId = `${event.eventId}-redispatch-${dispatchNumber}`;
+    const body = this.parseBody(event.rawBody);
+
+    // Same order as dead-letter replay: flip status first, put it back if
+    // the enqueue throws.
+    await this.prisma.webhookEvent.update({
+      where: { id },
+      data: {
+        status: 'QUEUED',
+        queuedAt: new Date(),
+        dispatchCount: dispatchNumber,
+        lastDispatchedAt: new Date(),
+        lastDispatchedBy: dispatchedBy,
+      },
+    });
+
+    try {
+      await this.saleQueue.enqueue(body, { jobId, immediate: true });
+    } catch (error) {
+      await this.prisma.webhookEvent.update({ where: { id }, data: { status: event.status } });
+      throw error;
+    }
+
+    this.logger.log(`[WEBHOOK_EVENTS] Re-dispatched ${event.eventType} ${event.eventId} as ${jobId}`);
+
+    return { id, eventId: event.eventId, jobId, dispatchCount: dispatchNumber, status: 'QUEUED' as const };
+  }
+
+  /**
+   * Re-dispatch every handled event matching the filter, oldest first so
+   * refunds and voids follow the sales they reverse. In-flight events are
+   * skipped rather than failing the batch.
+   */
+  async redispatchMany(filter: WebhookEventFilter, dispatchedBy?: string) {
+    const where: Prisma.WebhookEventWhereInput = {
+      ...this.buildWhere(filter),
+      AND: [
+        { eventType: { in: HANDLED_EVENT_TYPES } },
+        { status: { notIn: IN_FLIGHT } },
+      ],
+    };
+
+    const total = await this.prisma.webhookEvent.count({ where });
+    if (total > MAX_BULK_REDISPATCH) {
+      throw new BadRequestException(
+        `${total} events match; narrow the filter to at most ${MAX_BULK_REDISPATCH}`,
+      );
+    }
+
+    const events = await this.prisma.webhookEvent.findMany({
+      where,
+      select: { id: true },
+      orderBy: { receivedAt: 'asc' },
+    });
+
+    const dispatched: string[] = [];
+    const failed: Array<{ id: string; message: string }> = [];
+    for (const event of events) {
+      try {
+        await this.redispatch(event.id, dispatchedBy);
+        dispatched.push(event.id);
+      } catch (error) {
+        failed.push({ id: event.id, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return { matched: events.length, dispatched: dispatched.length, failed };
+  }
+
+  private buildWhere(filter: WebhookEventFilter): Prisma.WebhookEventWhereInput {
+    return {
+      ...(filter.eventType && { eventType: filter.eventType }),
+      ...(filter.status && { status: filter.status }),
+      ...((filter.from || filter.to) && {
+        receivedAt: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lte: filter.to }),
+        },
+      }),
+    };
+  }
+
+  private parseBody(rawBody: string): any {
+    try {
+      return JSON.parse(rawBody);
+    } catch {
+      // Only verified, parsed bodies are stored, so this means a hand-edited row
+      throw new BadRequestException('Stored webhook body is not valid JSON');
+    }
+  }
+}
@@ -1,14 +1,30 @@
 import { Module } from '@nestjs/common';
 import { SquareWebhookController, WebhookTestController, SalesTestController } from './square.controller';
+import { DeadLetterController } from './dead-letter.controller';
+import { WebhookEventController } from './webhook-event.controller';
+import { SalesBackfillController } from './sales-backfill.controller';
 import { SaleQueue } from '../queues/sale.queue';
+import { SalesBackfillQueue } from '../queues/sales-backfill.queue';
 import { WebhookTestService } from './webhook-test.service';
 import { SalesTestService } from './sales-test.service';
+import { DeadLetterService } from './dead-letter.service';
+import { WebhookEventService } from './webhook-event.service';
+import { SalesBackfillService } from './sales-backfill.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [AuthModule],
-  controllers: [SquareWebhookController, WebhookTestController, SalesTestController],
-  providers: [SaleQueue, WebhookTestService, SalesTestService, PrismaService],
+  controllers: [SquareWebhookController, WebhookTestController, SalesTestController, DeadLetterController, WebhookEventController, SalesBackfillController],
+  providers: [
+    SaleQueue,
+    SalesBackfillQueue,
+    WebhookTestService,
+    SalesTestService,
+    DeadLetterService,
+    WebhookEventService,
+    SalesBackfillService,
+    PrismaService,
+  ],
 })
 export class WebhooksModule {}
\ No newline at end of file
@@ -6,15 +6,25 @@ import { LocationsScreen } from "./sections/ops/LocationsScreen";
 import { ProductsScreen } from "./sections/ops/ProductsScreen";
 import { AddProductScreen } from "./sections/ops/AddProductScreen";
 import { BreakBulkScreen } from "./sections/ops/BreakBulkScreen";
+import { RacksScreen } from "./sections/ops/RacksScreen";
 import { CatalogSearchScreen } from "./sections/ops/CatalogSearchScreen";
 import { SuppliersScreen } from "./sections/ops/SuppliersScreen";
 import { CatalogMappingsScreen } from "./sections/ops/CatalogMappingsScreen";
 import { CatalogSyncScreen } from "./sections/ops/CatalogSyncScreen";
+import { DeadLettersScreen } from "./sections/ops/DeadLettersScreen";
+import { SquareOutboxScreen } from "./sections/ops/SquareOutboxScreen";
+import { WebhookEventsScreen } from "./sections/ops/WebhookEventsScreen";
+import { UnmappedLinesScreen } from "./sections/ops/UnmappedLinesScreen";
+import { SalesBackfillScreen } from "./sections/ops/SalesBackfillScreen";
 import { DevicesScreen } from "./sections/ops/DevicesScreen";
+import { InventoryDriftScreen } from "./sections/ops/InventoryDriftScreen";
 import { WebhookTestScreen } from "./sections/dev-tools/WebhookTestScreen";
 import { SalesTestScreen } from "./sections/dev-tools/SalesTestScreen";
 import { TestInventoryScreen } from "./sections/dev-tools/TestInventoryScreen";
 import { InventoryAgingScreen } from "./sections/reports/InventoryAgingScreen";
+import { PendingCostScreen } from "./sections/reports/PendingCostScreen";
+import { SalesSummaryScreen } from "./sections/reports/SalesSummaryScreen";
+import { UnmetDemandScreen } from "./sections/reports/UnmetDemandScreen";
 import { InventoryMigrationScreen } from "./sections/cutover/InventoryMigrationScreen";
 
 const SCREENS: Record<string, ComponentType> = {
@@ -22,15 +32,25 @@ const SCREENS: Record<string, ComponentType> = {
   products: ProductsScreen,
   "add-product": AddProductScreen,
   "break-bulk": BreakBulkScreen,
+  racks: RacksScreen,
   "catalog-search": CatalogSearchScreen,
   suppliers: SuppliersScreen,
   "catalog-mappings": CatalogMappingsScreen,
   "catalog-sync": CatalogSyncScreen,
+  "dead-letters": DeadLettersScreen,
+  "webhook-events": WebhookEventsScreen,
+  "unmapped-lines": UnmappedLinesScreen,
+  "sales-backfill": SalesBackfillScreen,
   devices: DevicesScreen,
+  "inventory-drift": InventoryDriftScreen,
+  "square-outbox": SquareOutboxScreen,
   "webhook-test": WebhookTestScreen,
   "sales-test": SalesTestScreen,
   "test-inventory": TestInventoryScreen,
   "inventory-aging": InventoryAgingScreen,
+  "pending-cost": PendingCostScreen,
+  "sales-summary": SalesSummaryScreen,
+  "unmet-demand": UnmetDemandScreen,
   "inventory-migration": InventoryMigrationScreen,
 };
 
@@ -25,9 +25,16 @@ export const NAV_SECTIONS: NavSection[] = [
       { id: "products", label: "Products", status: "ready" },
       { id: "add-product", label: "Add Product", status: "ready" },
       { id: "break-bulk", label: "Sueltos", status: "ready" },
+      { id: "racks", label: "Racks", status: "ready" },
       { id: "suppliers", label: "Suppliers", status: "ready" },
       { id: "catalog-mappings", label: "Catalog Mappings", status: "ready" },
       { id: "catalog-sync", label: "Catalog Sync", status: "ready" },
+      { id: "dead-letters", label: "Failed Sales", status: "ready" },
+      { id: "unmapped-lines", label: "Unmapped Lines", status: "ready" },
+      { id: "webhook-events", label: "Webhook Events", status: "ready" },
+      { id: "sales-backfill", label: "Sales Backfill", status: "ready" },
+      { id: "inventory-drift", label: "Square Drift", status: "ready" },
+      { id: "square-outbox", label: "Square Sync Queue", status: "ready" },
       { id: "devices", label: "Devices", status: "ready" },
     ],
   },
@@ -44,7 +51,12 @@ export const NAV_SECTIONS: NavSection[] = [
     id: "reports",
     label: "Reports",
     description: "Read-only metrics — grows into the dashboard",
-    items: [{ id: "inventory-aging", label: "Inventory Aging", status: "ready" }],
+    items: [
+      { id: "inventory-aging", label: "Inventory Aging", status: "ready" },
+      { id: "pending-cost", label: "Pending Cost", status: "ready" },
+      { id: "sales-summary", label: "Sales Summary", status: "ready" },
+      { id: "unmet-demand", label: "Unmet Demand", status: "ready" },
+    ],
   },
   {
     id: "dev-tools",
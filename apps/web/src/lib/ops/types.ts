@@ -23,6 +23,7 @@ export type Supplier = {
   name: string;
   initials: string[];
   contactInfo: string | null;
+  leadTimeDays: number | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -67,3 +68,228 @@ export type ProductSupplierCostHistoryGroup = {
   supplierName: string;
   costHistory: CostHistoryEntry[];
 };
+
+export type DeadLetterStatus = "OPEN" | "REPLAYING" | "RESOLVED" | "DISMISSED";
+
+/** Row shape from GET /admin/sales/dead-letters — summary only, no payload/stack. */
+export type DeadLetterSummary = {
+  id: string;
+  queueName: string;
+  jobName: string;
+  jobId: string;
+  errorName: string;
+  errorMessage: string;
+  status: DeadLetterStatus;
+  failureCount: number;
+  replayCount: number;
+  firstFailedAt: string;
+  lastFailedAt: string;
+  lastReplayedAt: string | null;
+  resolvedAt: string | null;
+};
+
+export type DeadLetterDetail = DeadLetterSummary & {
+  payload: unknown;
+  errorStack: string | null;
+  errorDetails: Record<string, unknown> | null;
+  attemptsMade: number;
+  lastReplayedBy: string | null;
+};
+
+export type SquareOutboxStatus = "PENDING" | "SYNCED" | "FAILED";
+
+/** Row shape from GET /inventory/square-outbox — one set of stock changes queued for Square. */
+export type SquareOutboxEntry = {
+  id: string;
+  idempotencyKey: string;
+  referenceId: string;
+  changes: unknown;
+  status: SquareOutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  occurredAt: string;
+  createdAt: string;
+  syncedAt: string | null;
+};
+
+export type UnmappedLineStatus = "OPEN" | "MAPPED" | "DISMISSED";
+
+/** Row shape from GET /inventory/unmapped-lines. Money fields are decimal strings. */
+export type UnmappedSaleLine = {
+  id: string;
+  saleId: string;
+  locationId: string;
+  reason: "CUSTOM_AMOUNT" | "UNMAPPED_VARIATION";
+  lineUid: string | null;
+  squareVariationId: string | null;
+  name: string | null;
+  variationName: string | null;
+  quantity: number;
+  price: string;
+  grossAmount: string;
+  discountAmount: string;
+  taxAmount: string;
+  status: UnmappedLineStatus;
+  productId: string | null;
+  saleItemId: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  sale: { id: string; squareId: string; squareOrderId: string | null; createdAt: string };
+  location: { id: string; name: string };
+  product: { id: string; name: string; sku: string | null } | null;
+};
+
+export type UnmappedLineMapResult = {
+  lineId: string;
+  productId: string;
+  mappingCreated: boolean;
+  alsoMapped: string[];
+  stillOpen: Array<{ id: string; message: string }>;
+};
+
+export type WebhookEventStatus =
+  | "RECEIVED"
+  | "QUEUED"
+  | "PROCESSING"
+  | "RETRYING"
+  | "PROCESSED"
+  | "FAILED"
+  | "IGNORED"
+  | "PAUSED";
+
+/** Row shape from GET /admin/webhook-events — no raw body. */
+export type WebhookEventSummary = {
+  id: string;
+  eventId: string;
+  eventType: string;
+  status: WebhookEventStatus;
+  attemptsMade: number;
+  lastError: string | null;
+  deliveryCount: number;
+  dispatchCount: number;
+  receivedAt: string;
+  queuedAt: string | null;
+  processedAt: string | null;
+  lastDispatchedAt: string | null;
+};
+
+export type WebhookEventDetail = WebhookEventSummary & {
+  merchantId: string | null;
+  rawBody: string;
+  body: unknown;
+  lastDispatchedBy: string | null;
+};
+
+export type BackfillOutcomeStatus = "created" | "already_present" | "voided" | "would_create" | "failed";
+
+export type BackfillSummary = {
+  total: number;
+  created: number;
+  alreadyPresent: number;
+  voided?: number; // Absent on runs from before voided payments were reported
+  wouldCreate: number;
+  failed: number;
+};
+
+/** Row shape from GET /admin/sales/backfill — a BullMQ job on the sales-backfill queue. */
+export type BackfillRun = {
+  jobId: string;
+  state: "waiting" | "delayed" | "active" | "completed" | "failed" | "unknown";
+  locationId: string;
+  squareLocationId: string;
+  startAt: string;
+  endAt: string;
+  dryRun: boolean;
+  requestedBy: string | null;
+  queuedAt: string;
+  finishedAt: string | null;
+  progress: { phase: "searching" | "processing" | "done"; ordersFound: number; processed: number } | null;
+  summary: BackfillSummary | null;
+  failedReason: string | null;
+};
+
+export type BackfillOutcome = {
+  orderId: string;
+  paymentId: string | null;
+  closedAt: string | null;
+  status: BackfillOutcomeStatus;
+  errorName?: string;
+  reason?: string;
+};
+
+export type BackfillRunDetail = BackfillRun & { outcomes: BackfillOutcome[] };
+
+export type CatalogSyncRunStatus = "RUNNING" | "SUCCEEDED" | "PARTIAL" | "FAILED";
+
+export type CatalogSyncError = { variationId: string; variationName: string; error: string; skipped: boolean };
+
+/** Row from GET /admin/square/catalog/sync/runs — one scheduled (worker) or manual sync. */
+export type CatalogSyncRun = {
+  id: string;
+  trigger: "SCHEDULED" | "MANUAL";
+  status: CatalogSyncRunStatus;
+  locationId: string | null;
+  forceResync: boolean;
+  totalVariationsFound: number;
+  variationsProcessed: number;
+  productsCreated: number;
+  mappingsCreated: number;
+  mappingsSkipped: number;
+  errorCount: number;
+  errorMessage: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+export type CatalogSyncRunDetail = CatalogSyncRun & { errors: CatalogSyncError[] | null };
+
+export type CatalogSyncStatus = {
+  running: CatalogSyncRunDetail | null;
+  lastRun: CatalogSyncRunDetail | null;
+  schedule: { pattern: string | null; tz: string | null; nextRunAt: string | null } | null;
+};
+
+export type InventoryDriftStatus = "OPEN" | "RESOLVED" | "CLEARED";
+
+export type DriftResolutionAction = "PUSH_TO_SQUARE" | "LOCAL_ADJUSTMENT";
+
+/** Row from GET /inventory/drift — FIFO on-hand vs the Square count for one product at one location. */
+export type InventoryDrift = {
+  id: string;
+  locationId: string;
+  productId: string;
+  squareVariationId: string;
+  localQuantity: number;
+  squareQuantity: number;
+  difference: number; // squareQuantity - localQuantity
+  source: "SCAN" | "WEBHOOK";
+  status: InventoryDriftStatus;
+  resolution: "PUSHED_TO_SQUARE" | "LOCAL_ADJUSTMENT" | null;
+  adjustmentId: string | null;
+  resolvedBy: string | null;
+  detectedAt: string;
+  checkedAt: string;
+  resolvedAt: string | null;
+  product: { id: string; name: string; sku: string | null };
+  location: { id: string; name: string };
+};
+
+export type InventoryDriftReport = {
+  summary: {
+    openFindings: number;
+    unitsSquareOver: number;
+    unitsSquareUnder: number;
+    lastCheckedAt: string | null;
+  };
+  findings: InventoryDrift[];
+};
+
+export type DriftScanResult = {
+  locationId: string;
+  locationName: string;
+  productsChecked: number;
+  opened: number;
+  refreshed: number;
+  cleared: number;
+  ambiguousProductIds: string[];
+};
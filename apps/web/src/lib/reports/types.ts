@@ -50,3 +50,73 @@ export type ActionableSignal = {
   recommendedActions: string[];
   cashAtRisk: number | null;
 };
+
+/** GET /demand-signals/report — what customers asked for that we couldn't sell, most asked first. */
+export type DemandReason = "NO_RESULTS" | "OUT_OF_STOCK" | "REQUESTED";
+
+export type DemandCandidate = { id: string; name: string; sku: string | null; quantity: number; inStock: boolean };
+
+export type UnmetDemandQuery = {
+  normalizedQuery: string;
+  query: string;
+  total: number;
+  reasons: Record<DemandReason, number>;
+  locations: { locationId: string; locationName: string; count: number }[];
+  lastSeenAt: string;
+  candidates: DemandCandidate[];
+  newProductDraft: { name: string } | null;
+};
+
+export type UnmetDemandReport = {
+  summary: { queries: number; signals: number; withoutCandidates: number };
+  queries: UnmetDemandQuery[];
+};
+
+/** GET /inventory/reports/pending-cost — sale units still waiting on stock to be costed. */
+export type PendingCostProduct = {
+  productId: string;
+  productName: string;
+  sku: string | null;
+  locationId: string;
+  locationName: string;
+  units: number;
+  positions: number;
+  oldestAt: string;
+  lastKnownUnitCost: string | null;
+  estimatedCost: string | null;
+};
+
+export type PendingCostReport = {
+  asOfDate: string;
+  summary: { openPositions: number; units: number; productsAffected: number; estimatedCost: string };
+  byProduct: PendingCostProduct[];
+};
+
+/** GET /inventory/reports/sales-summary — gross vs net sales, discounts, taxes, tips and payment methods. */
+export type SalesPaymentMethod = { type: string; tenders: number; amount: string; tips: string };
+
+export type SalesDiscountLine = {
+  name: string;
+  type: string | null;
+  percentage: string | null;
+  amount: string;
+  lines: number;
+};
+
+export type SalesSummaryReport = {
+  summary: {
+    salesCount: number;
+    grossSales: string;
+    discounts: string;
+    netSales: string;
+    taxes: string;
+    refunds: string;
+    netRevenue: string;
+    serviceCharges: string;
+    tips: string;
+    totalCollected: string;
+    salesWithoutBreakdown: number;
+  };
+  byPaymentMethod: SalesPaymentMethod[];
+  byDiscount: SalesDiscountLine[];
+};
@@ -4,5 +4,6 @@ export type Location = {
   address: string | null;
   isActive: boolean;
   squareId: string | null;
+  allowPendingCost: boolean;
   createdAt: string;
 };
@@ -14,6 +14,7 @@ const location: Location = {
   address: null,
   isActive: true,
   squareId: null,
+  allowPendingCost: false,
   createdAt: "2026-01-01T00:00:00.000Z",
 };
 
@@ -7,6 +7,7 @@ type ProductOption = {
   sku: string | null;
   cantidad: number | null;
   sueltoProductId: string | null;
+  autoBreakBulk?: boolean;
 };
 
 type ProductListResponse = { success: boolean; data: ProductOption[] };
@@ -120,12 +121,14 @@ function LinkProductsCard() {
   const [caja, setCaja] = useState<ProductOption | null>(null);
   const [suelto, setSuelto] = useState<ProductOption | null>(null);
   const [cantidad, setCantidad] = useState("");
+  const [autoBreakBulk, setAutoBreakBulk] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   useEffect(() => {
     if (caja?.cantidad != null) setCantidad(String(caja.cantidad));
+    setAutoBreakBulk(Boolean(caja?.autoBreakBulk));
   }, [caja]);
 
   const handleSubmit = async () => {
@@ -145,12 +148,13 @@ function LinkProductsCard() {
     try {
       await apiFetch(`/products/${caja.id}/suelto-link`, {
         method: "PATCH",
-        body: JSON.stringify({ sueltoProductId: suelto.id, cantidad: cantidadNum }),
+        body: JSON.stringify({ sueltoProductId: suelto.id, cantidad: cantidadNum, autoBreakBulk }),
       });
       setSuccessMessage(`"${caja.name}" vinculado con "${suelto.name}".`);
       setCaja(null);
       setSuelto(null);
       setCantidad("");
+      setAutoBreakBulk(false);
     } catch (err) {
       setError(err instanceof ApiError ? err.message : "No se pudo vincular");
     } finally {
@@ -193,6 +197,11 @@ function LinkProductsCard() {
         />
       </div>
 
+      <label className="flex items-center gap-2 text-sm text-(--color-ink-secondary)">
+        <input type="checkbox" checked={autoBreakBulk} onChange={e => setAutoBreakBulk(e.target.checked)} />
+        Abrir cajas automáticamente cuando se venda el suelto sin piezas en existencia
+      </label>
+
       <button
         onClick={handleSubmit}
         disabled={submitting}
@@ -17,6 +17,7 @@ type CatalogProduct = {
   currency: string;
   quantity: number;
   inStock: boolean;
+  placements: string[]; // "Rack B / Shelf 3", in walking order
 };
 
 type SearchResponse = {
@@ -75,6 +76,9 @@ function ProductCard({ product, highlighted }: { product: CatalogProduct; highli
                 .join(" · ")}
             </p>
           )}
+          {product.placements.length > 0 && (
+            <p className="mt-1 text-xs text-(--color-ink-secondary)">{product.placements.join(" · ")}</p>
+          )}
         </div>
         <div className="shrink-0 text-right">
           {product.price != null && (
@@ -89,6 +93,42 @@ function ProductCard({ product, highlighted }: { product: CatalogProduct; highli
   );
 }
 
+/** Records "a customer asked for this" so buyers see it in the unmet-demand report. */
+function CustomerAskedButton({ query }: { query: string }) {
+  const [state, setState] = useState<"idle" | "saving" | "saved">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setState("idle");
+    setError(null);
+  }, [query]);
+
+  const handleClick = async () => {
+    setState("saving");
+    setError(null);
+    try {
+      await apiFetch("/demand-signals", { method: "POST", body: JSON.stringify({ query }) });
+      setState("saved");
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "No se pudo registrar");
+      setState("idle");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        onClick={handleClick}
+        disabled={state !== "idle"}
+        className="rounded-sm border border-(--color-border-standard) px-3 py-1.5 text-sm text-(--color-ink-secondary) hover:bg-(--color-surface-raised) disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {state === "saved" ? "Registrado" : state === "saving" ? "Registrando…" : "El cliente lo pidió"}
+      </button>
+      {error && <span className="text-xs text-(--color-destructive)">{error}</span>}
+    </div>
+  );
+}
+
 export function CatalogSearchScreen() {
   const [query, setQuery] = useState("");
   const [result, setResult] = useState<SearchResponse | null>(null);
@@ -125,6 +165,7 @@ export function CatalogSearchScreen() {
 
   const requestedOutOfStock = result != null && result.alternativesChecked;
   const requestedBrandName = requestedOutOfStock ? result!.requested[0]?.name : null;
+  const nothingToSell = result != null && !result.requested.some(p => p.inStock);
 
   return (
     <div className="mx-auto max-w-2xl space-y-4">
@@ -154,6 +195,8 @@ export function CatalogSearchScreen() {
         <p className="text-sm text-(--color-ink-tertiary)">No se encontraron resultados para "{query.trim()}".</p>
       )}
 
+      {!loading && nothingToSell && <CustomerAskedButton query={query.trim()} />}
+
       {!loading && result && result.requested.length > 0 && (
         <div className="space-y-4">
           <div className="space-y-2">
@@ -1,9 +1,17 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { ConfirmDialog } from "../../components/ui/ConfirmDialog";
 import { LocationPicker } from "../../components/ui/LocationPicker";
+import { Table, type Column } from "../../components/ui/Table";
 import { apiFetch, ApiError } from "../../lib/apiFetch";
 import { useAuth } from "../../lib/auth/AuthContext";
 import { isOwner } from "../../lib/auth/types";
+import type {
+  CatalogSyncError,
+  CatalogSyncRun,
+  CatalogSyncRunDetail,
+  CatalogSyncRunStatus,
+  CatalogSyncStatus,
+} from "../../lib/ops/types";
 
 type SyncResult = {
   totalVariationsFound: number;
@@ -26,6 +34,64 @@ type CleanupResult = {
   productsUpdated: number;
 };
 
+const STATUS_LABELS: Record<CatalogSyncRunStatus, string> = {
+  RUNNING: "Running",
+  SUCCEEDED: "Succeeded",
+  PARTIAL: "Finished with errors",
+  FAILED: "Failed",
+};
+
+function statusClass(status: CatalogSyncRunStatus): string {
+  switch (status) {
+    case "SUCCEEDED":
+      return "text-(--color-success)";
+    case "PARTIAL":
+      return "text-(--color-warning)";
+    case "FAILED":
+      return "text-(--color-destructive)";
+    default:
+      return "text-(--color-accent)";
+  }
+}
+
+const runColumns: Column<CatalogSyncRun>[] = [
+  { key: "startedAt", header: "Started", render: v => new Date(v as string).toLocaleString() },
+  { key: "trigger", header: "Trigger", render: v => (v === "SCHEDULED" ? "Scheduled" : "Manual") },
+  {
+    key: "status",
+    header: "Status",
+    render: v => <span className={statusClass(v as CatalogSyncRunStatus)}>{STATUS_LABELS[v as CatalogSyncRunStatus]}</span>,
+  },
+  {
+    key: "variationsProcessed",
+    header: "Processed",
+    align: "right",
+    render: (_, run) => `${run.variationsProcessed}/${run.totalVariationsFound}`,
+  },
+  { key: "productsCreated", header: "Products", align: "right" },
+  { key: "mappingsCreated", header: "Mappings", align: "right" },
+  { key: "errorCount", header: "Errors", align: "right" },
+];
+
+function RunErrors({ run }: { run: CatalogSyncRunDetail }) {
+  const errors: CatalogSyncError[] = run.errors ?? [];
+  if (!run.errorMessage && errors.length === 0) return null;
+  return (
+    <div className="mt-2 text-sm text-(--color-destructive)">
+      {run.errorMessage && <p>{run.errorMessage}</p>}
+      {errors.length > 0 && (
+        <ul className="list-disc pl-5">
+          {errors.map((err, i) => (
+            <li key={i}>
+              {err.variationName}: {err.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 export function CatalogSyncScreen() {
   const { user } = useAuth();
   const [locationId, setLocationId] = useState("");
@@ -38,6 +104,32 @@ export function CatalogSyncScreen() {
   const [cleaningUp, setCleaningUp] = useState(false);
   const [cleanupResult, setCleanupResult] = useState<CleanupResult | null>(null);
 
+  const [status, setStatus] = useState<CatalogSyncStatus | null>(null);
+  const [runs, setRuns] = useState<CatalogSyncRun[]>([]);
+  const [selectedRun, setSelectedRun] = useState<CatalogSyncRunDetail | null>(null);
+
+  const fetchHistory = useCallback(() => {
+    return Promise.all([
+      apiFetch<{ data: CatalogSyncStatus }>("/admin/square/catalog/sync/status"),
+      apiFetch<{ data: CatalogSyncRun[] }>("/admin/square/catalog/sync/runs"),
+    ])
+      .then(([statusBody, runsBody]) => {
+        setStatus(statusBody.data);
+        setRuns(runsBody.data);
+      })
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load sync history"));
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const selectRun = (run: CatalogSyncRun) => {
+    apiFetch<{ data: CatalogSyncRunDetail }>(`/admin/square/catalog/sync/runs/${encodeURIComponent(run.id)}`)
+      .then(body => setSelectedRun(body.data))
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load sync run"));
+  };
+
   const handleSync = async () => {
     setLoading(true);
     setError(null);
@@ -52,6 +144,7 @@ export function CatalogSyncScreen() {
       setError(err instanceof ApiError ? err.message : "Failed to sync catalog");
     } finally {
       setLoading(false);
+      fetchHistory();
     }
   };
 
@@ -78,6 +171,45 @@ export function CatalogSyncScreen() {
     <div className="max-w-2xl">
       <h1 className="mb-4 text-xl font-semibold text-(--color-ink)">Catalog Sync</h1>
 
+      {status && (
+        <div className="mb-6 rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4 text-sm">
+          <p className="text-(--color-ink-secondary)">
+            {status.schedule?.pattern ? (
+              <>
+                Scheduled sync runs on <code className="tabular">{status.schedule.pattern}</code>
+                {status.schedule.tz && ` (${status.schedule.tz})`}
+                {status.schedule.nextRunAt && ` — next at ${new Date(status.schedule.nextRunAt).toLocaleString()}`}
+              </>
+            ) : (
+              "Scheduled sync is off; catalog only syncs from this screen."
+            )}
+          </p>
+          {status.running && (
+            <p className="mt-2 text-(--color-accent)">
+              A {status.running.trigger === "SCHEDULED" ? "scheduled" : "manual"} sync started{" "}
+              {new Date(status.running.startedAt).toLocaleString()} is still running.
+            </p>
+          )}
+          {status.lastRun ? (
+            <div className="mt-2">
+              <p>
+                Last run:{" "}
+                <span className={statusClass(status.lastRun.status)}>{STATUS_LABELS[status.lastRun.status]}</span>
+                {status.lastRun.finishedAt && `, finished ${new Date(status.lastRun.finishedAt).toLocaleString()}`}
+                <span className="tabular text-(--color-ink-tertiary)">
+                  {" "}
+                  — {status.lastRun.variationsProcessed}/{status.lastRun.totalVariationsFound} variations,{" "}
+                  {status.lastRun.productsCreated} products, {status.lastRun.mappingsCreated} mappings created
+                </span>
+              </p>
+              <RunErrors run={status.lastRun} />
+            </div>
+          ) : (
+            <p className="mt-2 text-(--color-ink-tertiary)">No sync has finished yet.</p>
+          )}
+        </div>
+      )}
+
       {isOwner(user) && (
         <div className="mb-6 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) p-4">
           <p className="mb-3 text-sm text-(--color-destructive)">
@@ -150,6 +282,29 @@ export function CatalogSyncScreen() {
         </div>
       )}
 
+      <h2 className="mb-2 mt-6 text-sm font-semibold text-(--color-ink)">Recent runs</h2>
+      <Table
+        data={runs}
+        columns={runColumns}
+        keyExtractor={run => run.id}
+        onRowClick={selectRun}
+        isRowSelected={run => run.id === selectedRun?.id}
+        emptyMessage="No catalog syncs recorded yet."
+      />
+      {selectedRun && (
+        <div className="mt-3 rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4 text-sm">
+          <p className="text-(--color-ink-secondary)">
+            {selectedRun.trigger === "SCHEDULED" ? "Scheduled" : "Manual"} run started{" "}
+            {new Date(selectedRun.startedAt).toLocaleString()}:{" "}
+            <span className={statusClass(selectedRun.status)}>{STATUS_LABELS[selectedRun.status]}</span>
+          </p>
+          <RunErrors run={selectedRun} />
+          {selectedRun.errorCount === 0 && !selectedRun.errorMessage && (
+            <p className="mt-2 text-(--color-ink-tertiary)">No errors.</p>
+          )}
+        </div>
+      )}
+
       <ConfirmDialog
         open={confirmingCleanup}
         title="Cleanup catalog"
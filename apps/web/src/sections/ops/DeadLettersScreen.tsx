@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useState } from "react";
+import { Table, type Column } from "../../components/ui/Table";
+import { apiFetch, ApiError } from "../../lib/apiFetch";
+import type { DeadLetterDetail, DeadLetterStatus, DeadLetterSummary } from "../../lib/ops/types";
+
+const STATUS_FILTERS: Array<DeadLetterStatus | "ALL"> = ["OPEN", "REPLAYING", "RESOLVED", "DISMISSED", "ALL"];
+
+// What a manager has to fix before a replay can succeed, keyed by the
+// worker's error class (apps/worker/src/errors.ts).
+const FIX_HINTS: Record<string, string> = {
+  InsufficientInventoryError: "Receive or adjust stock for the product, then replay.",
+  UnmappedVariationError: "Run Catalog Sync or add the mapping in Catalog Mappings, then replay.",
+  SaleValidationError: "Check the details below — often an unmapped variation or a refund that arrived before its sale.",
+  ProductNotFoundError: "The mapping points at a deleted product — fix the mapping, then replay.",
+};
+
+function statusClass(status: DeadLetterStatus): string {
+  switch (status) {
+    case "OPEN":
+      return "text-(--color-destructive)";
+    case "REPLAYING":
+      return "text-(--color-warning)";
+    case "RESOLVED":
+      return "text-(--color-success)";
+    default:
+      return "text-(--color-ink-tertiary)";
+  }
+}
+
+const columns: Column<DeadLetterSummary>[] = [
+  { key: "lastFailedAt", header: "Last failed", render: v => new Date(v as string).toLocaleString() },
+  { key: "jobName", header: "Job" },
+  { key: "errorName", header: "Error" },
+  {
+    key: "errorMessage",
+    header: "Message",
+    render: v => <span className="line-clamp-1 max-w-md text-(--color-ink-secondary)">{String(v)}</span>,
+  },
+  { key: "failureCount", header: "Failures", align: "right" },
+  { key: "status", header: "Status", render: v => <span className={statusClass(v as DeadLetterStatus)}>{String(v)}</span> },
+];
+
+export function DeadLettersScreen() {
+  const [status, setStatus] = useState<DeadLetterStatus | "ALL">("OPEN");
+  const [jobs, setJobs] = useState<DeadLetterSummary[]>([]);
+  const [openByError, setOpenByError] = useState<Array<{ errorName: string; count: number }>>([]);
+  const [selected, setSelected] = useState<DeadLetterDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    const query = status === "ALL" ? "" : `?status=${status}`;
+    return apiFetch<{ data: DeadLetterSummary[]; openByError: Array<{ errorName: string; count: number }> }>(
+      `/admin/sales/dead-letters${query}`
+    )
+      .then(body => {
+        setJobs(body.data);
+        setOpenByError(body.openByError);
+      })
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load failed jobs"))
+      .finally(() => setLoading(false));
+  }, [status]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const inspect = async (job: DeadLetterSummary) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const body = await apiFetch<{ data: DeadLetterDetail }>(`/admin/sales/dead-letters/${job.id}`);
+      setSelected(body.data);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Failed to load job detail");
+    }
+  };
+
+  const act = async (action: "replay" | "dismiss") => {
+    if (!selected) return;
+    setActing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const body = await apiFetch<{ message: string }>(`/admin/sales/dead-letters/${selected.id}/${action}`, {
+        method: "POST",
+      });
+      setMessage(body.message);
+      setSelected(null);
+      await fetchJobs();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : `Failed to ${action} job`);
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const canAct = selected?.status === "OPEN";
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between">
+        <h1 className="text-xl font-semibold text-(--color-ink)">Failed Sales ({jobs.length})</h1>
+        <div className="flex items-center gap-2">
+          <select
+            value={status}
+            onChange={e => setStatus(e.target.value as DeadLetterStatus | "ALL")}
+            className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+          >
+            {STATUS_FILTERS.map(s => (
+              <option key={s} value={s}>
+                {s === "ALL" ? "All statuses" : s}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => fetchJobs()}
+            disabled={loading}
+            className="rounded-sm border border-(--color-border-standard) px-3 py-1.5 text-sm text-(--color-ink-secondary) hover:bg-(--color-surface-raised) disabled:opacity-50"
+          >
+            {loading ? "Loading…" : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-(--color-ink-tertiary)">
+        Square webhooks the worker gave up on after all retries. Fix the cause, then replay — the sale is recorded
+        exactly once even if replayed more than once.
+      </p>
+
+      {openByError.length > 0 && (
+        <div className="mb-4 flex flex-wrap gap-2 text-xs">
+          {openByError.map(e => (
+            <span
+              key={e.errorName}
+              className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-raised) px-2 py-1 text-(--color-ink-secondary)"
+            >
+              {e.errorName}: <span className="tabular text-(--color-ink)">{e.count}</span> open
+            </span>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-4 py-2 text-sm text-(--color-destructive)">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md border border-(--color-success) bg-(--color-success-bg) px-4 py-2 text-sm text-(--color-success)">
+          {message}
+        </div>
+      )}
+
+      <Table
+        data={jobs}
+        columns={columns}
+        keyExtractor={j => j.id}
+        onRowClick={inspect}
+        isRowSelected={j => j.id === selected?.id}
+        emptyMessage={loading ? "Loading…" : "No failed jobs."}
+      />
+
+      {selected && (
+        <div className="mt-6 rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-base font-semibold text-(--color-ink)">{selected.errorName}</h2>
+              <p className="mt-1 text-sm text-(--color-ink-secondary)">{selected.errorMessage}</p>
+              {FIX_HINTS[selected.errorName] && (
+                <p className="mt-1 text-xs italic text-(--color-ink-tertiary)">{FIX_HINTS[selected.errorName]}</p>
+              )}
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <button
+                onClick={() => act("dismiss")}
+                disabled={!canAct || acting}
+                className="rounded-sm border border-(--color-border-standard) px-3 py-1.5 text-sm text-(--color-ink-secondary) hover:bg-(--color-surface) disabled:opacity-50"
+              >
+                Dismiss
+              </button>
+              <button
+                onClick={() => act("replay")}
+                disabled={!canAct || acting}
+                className="rounded-sm bg-(--color-accent) px-3 py-1.5 text-sm font-medium text-(--color-accent-contrast) hover:bg-(--color-accent-hover) disabled:opacity-50"
+              >
+                {acting ? "Working…" : "Replay"}
+              </button>
+            </div>
+          </div>
+
+          <dl className="mt-4 grid grid-cols-2 gap-x-6 gap-y-1 text-xs sm:grid-cols-4">
+            <dt className="text-(--color-ink-tertiary)">Job ID</dt>
+            <dd className="tabular text-(--color-ink)">{selected.jobId}</dd>
+            <dt className="text-(--color-ink-tertiary)">Attempts</dt>
+            <dd className="tabular text-(--color-ink)">{selected.attemptsMade}</dd>
+            <dt className="text-(--color-ink-tertiary)">First failed</dt>
+            <dd className="text-(--color-ink)">{new Date(selected.firstFailedAt).toLocaleString()}</dd>
+            <dt className="text-(--color-ink-tertiary)">Replays</dt>
+            <dd className="tabular text-(--color-ink)">{selected.replayCount}</dd>
+          </dl>
+
+          {selected.errorDetails && (
+            <>
+              <h3 className="mt-4 text-xs font-medium text-(--color-ink-tertiary)">Error details</h3>
+              <pre className="mt-1 max-h-48 overflow-auto rounded-sm bg-(--color-surface-inset) p-2 text-xs text-(--color-ink)">
+                {JSON.stringify(selected.errorDetails, null, 2)}
+              </pre>
+            </>
+          )}
+          <h3 className="mt-4 text-xs font-medium text-(--color-ink-tertiary)">Payload</h3>
+          <pre className="mt-1 max-h-64 overflow-auto rounded-sm bg-(--color-surface-inset) p-2 text-xs text-(--color-ink)">
+            {JSON.stringify(selected.payload, null, 2)}
+          </pre>
+          {selected.errorStack && (
+            <details className="mt-4">
+              <summary className="cursor-pointer text-xs font-medium text-(--color-ink-tertiary)">Stack trace</summary>
+              <pre className="mt-1 max-h-64 overflow-auto rounded-sm bg-(--color-surface-inset) p-2 text-xs text-(--color-ink-secondary)">
+                {selected.errorStack}
+              </pre>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
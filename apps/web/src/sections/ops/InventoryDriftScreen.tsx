@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useState } from "react";
+import { LocationPicker } from "../../components/ui/LocationPicker";
+import { Table, type Column } from "../../components/ui/Table";
+import { apiFetch, ApiError } from "../../lib/apiFetch";
+import { useAuth } from "../../lib/auth/AuthContext";
+import { isOwnerOrManager } from "../../lib/auth/types";
+import type {
+  DriftResolutionAction,
+  DriftScanResult,
+  InventoryDrift,
+  InventoryDriftReport,
+  InventoryDriftStatus,
+} from "../../lib/ops/types";
+
+const STATUS_FILTERS: (InventoryDriftStatus | "ALL")[] = ["OPEN", "RESOLVED", "CLEARED", "ALL"];
+
+const RESOLUTION_LABELS: Record<NonNullable<InventoryDrift["resolution"]>, string> = {
+  PUSHED_TO_SQUARE: "Pushed our count to Square",
+  LOCAL_ADJUSTMENT: "Count correction booked",
+};
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4">
+      <div className="text-xs font-semibold uppercase tracking-wide text-(--color-ink-tertiary)">{label}</div>
+      <div className="tabular mt-1 text-2xl font-semibold text-(--color-ink)">{value}</div>
+    </div>
+  );
+}
+
+function differenceClass(difference: number): string {
+  return difference > 0 ? "text-(--color-warning)" : "text-(--color-destructive)";
+}
+
+const columns: Column<InventoryDrift>[] = [
+  { key: "product", header: "Product", render: (_, d) => d.product.name },
+  { key: "productId", header: "SKU", render: (_, d) => d.product.sku ?? "—" },
+  { key: "location", header: "Location", render: (_, d) => d.location.name },
+  { key: "localQuantity", header: "Ours", align: "right" },
+  { key: "squareQuantity", header: "Square", align: "right" },
+  {
+    key: "difference",
+    header: "Diff",
+    align: "right",
+    render: v => (
+      <span className={differenceClass(v as number)}>
+        {(v as number) > 0 ? "+" : ""}
+        {String(v)}
+      </span>
+    ),
+  },
+  { key: "source", header: "Found by", render: v => (v === "WEBHOOK" ? "Square update" : "Scan") },
+  { key: "checkedAt", header: "Checked", render: v => new Date(v as string).toLocaleString() },
+  { key: "status", header: "Status" },
+];
+
+function describeScan(results: DriftScanResult[]): string {
+  const opened = results.reduce((sum, r) => sum + r.opened, 0);
+  const cleared = results.reduce((sum, r) => sum + r.cleared, 0);
+  const checked = results.reduce((sum, r) => sum + r.productsChecked, 0);
+  const ambiguous = results.reduce((sum, r) => sum + r.ambiguousProductIds.length, 0);
+  return (
+    `Checked ${checked} products at ${results.length} location(s): ${opened} new drift, ${cleared} cleared.` +
+    (ambiguous > 0 ? ` ${ambiguous} product(s) map to several Square variations and were not compared.` : "")
+  );
+}
+
+export function InventoryDriftScreen() {
+  const { user } = useAuth();
+  const canAct = isOwnerOrManager(user);
+  const [locationId, setLocationId] = useState("");
+  const [status, setStatus] = useState<InventoryDriftStatus | "ALL">("OPEN");
+  const [report, setReport] = useState<InventoryDriftReport | null>(null);
+  const [selected, setSelected] = useState<InventoryDrift | null>(null);
+  const [unitCost, setUnitCost] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [acting, setActing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchReport = useCallback(() => {
+    const params = new URLSearchParams({ status });
+    if (locationId) params.append("locationId", locationId);
+
+    setLoading(true);
+    return apiFetch<{ data: InventoryDriftReport }>(`/inventory/drift?${params}`)
+      .then(body => {
+        setReport(body.data);
+        setSelected(prev => body.data.findings.find(f => f.id === prev?.id) ?? null);
+      })
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load drift report"))
+      .finally(() => setLoading(false));
+  }, [locationId, status]);
+
+  useEffect(() => {
+    setError(null);
+    fetchReport();
+  }, [fetchReport]);
+
+  const scan = async () => {
+    setActing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const body = await apiFetch<{ data: DriftScanResult[] }>("/inventory/drift/scan", {
+        method: "POST",
+        body: JSON.stringify({ locationId: locationId || undefined }),
+      });
+      setMessage(describeScan(body.data));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Failed to scan Square counts");
+    } finally {
+      setActing(false);
+      fetchReport();
+    }
+  };
+
+  const resolve = async (action: DriftResolutionAction) => {
+    if (!selected) return;
+    setActing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await apiFetch(`/inventory/drift/${encodeURIComponent(selected.id)}/resolve`, {
+        method: "POST",
+        body: JSON.stringify({ action, unitCost: unitCost ? Number(unitCost) : undefined }),
+      });
+      setMessage(
+        action === "PUSH_TO_SQUARE"
+          ? `Square count for ${selected.product.name} set to ours.`
+          : `Count correction booked for ${selected.product.name}.`,
+      );
+      setUnitCost("");
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Failed to resolve drift");
+    } finally {
+      setActing(false);
+      fetchReport();
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <h1 className="text-xl font-semibold text-(--color-ink)">Square Drift</h1>
+        <div className="flex items-center gap-2">
+          <div className="w-64">
+            <LocationPicker value={locationId} onChange={setLocationId} allowAll />
+          </div>
+          <select
+            value={status}
+            onChange={e => setStatus(e.target.value as InventoryDriftStatus | "ALL")}
+            className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+          >
+            {STATUS_FILTERS.map(s => (
+              <option key={s} value={s}>
+                {s === "ALL" ? "All statuses" : s}
+              </option>
+            ))}
+          </select>
+          {canAct && (
+            <button
+              onClick={scan}
+              disabled={acting}
+              className="rounded-sm bg-(--color-accent) px-3 py-1.5 text-sm font-medium text-(--color-accent-contrast) hover:bg-(--color-accent-hover) disabled:opacity-50"
+            >
+              {acting ? "Working…" : "Scan now"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-(--color-ink-tertiary)">
+        Products whose FIFO stock disagrees with Square's count — after a failed sale, a count edited in the Square
+        dashboard, or a receiving that never reached Square. Square count updates are checked automatically; scan to
+        compare every product at once.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-4 py-2 text-sm text-(--color-destructive)">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md border border-(--color-success) bg-(--color-success-bg) px-4 py-2 text-sm text-(--color-success)">
+          {message}
+        </div>
+      )}
+
+      {report && (
+        <div className="mb-6 grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <StatTile label="Open findings" value={String(report.summary.openFindings)} />
+          <StatTile label="Units Square over" value={String(report.summary.unitsSquareOver)} />
+          <StatTile label="Units Square under" value={String(report.summary.unitsSquareUnder)} />
+          <StatTile
+            label="Last checked"
+            value={report.summary.lastCheckedAt ? new Date(report.summary.lastCheckedAt).toLocaleDateString() : "—"}
+          />
+        </div>
+      )}
+
+      <Table
+        data={report?.findings ?? []}
+        columns={columns}
+        keyExtractor={d => d.id}
+        onRowClick={setSelected}
+        isRowSelected={d => d.id === selected?.id}
+        emptyMessage={loading ? "Loading…" : "No drift found."}
+      />
+
+      {selected && (
+        <div className="mt-6 rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4 text-sm">
+          <h2 className="text-base font-semibold text-(--color-ink)">
+            {selected.product.name} at {selected.location.name}
+          </h2>
+          <p className="mt-1 text-(--color-ink-secondary)">
+            Ours: <span className="tabular">{selected.localQuantity}</span>, Square:{" "}
+            <span className="tabular">{selected.squareQuantity}</span> — first seen{" "}
+            {new Date(selected.detectedAt).toLocaleString()}.
+          </p>
+
+          {selected.status === "OPEN" && canAct ? (
+            <div className="mt-4 flex flex-wrap items-end gap-3">
+              <button
+                onClick={() => resolve("PUSH_TO_SQUARE")}
+                disabled={acting}
+                className="rounded-sm border border-(--color-border-standard) px-3 py-1.5 text-sm text-(--color-ink-secondary) hover:bg-(--color-surface) disabled:opacity-50"
+              >
+                Push our count to Square
+              </button>
+              <button
+                onClick={() => resolve("LOCAL_ADJUSTMENT")}
+                disabled={acting}
+                className="rounded-sm bg-(--color-accent) px-3 py-1.5 text-sm font-medium text-(--color-accent-contrast) hover:bg-(--color-accent-hover) disabled:opacity-50"
+              >
+                Correct ours to Square
+              </button>
+              {selected.difference > 0 && (
+                <label className="text-xs text-(--color-ink-tertiary)">
+                  Unit cost (if no cost history)
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={unitCost}
+                    onChange={e => setUnitCost(e.target.value)}
+                    className="mt-1 block w-32 rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-2 py-1 text-sm text-(--color-ink)"
+                  />
+                </label>
+              )}
+            </div>
+          ) : (
+            selected.status !== "OPEN" && (
+              <p className="mt-2 text-(--color-ink-tertiary)">
+                {selected.resolution ? RESOLUTION_LABELS[selected.resolution] : "Counts matched again"}
+                {selected.resolvedAt && ` on ${new Date(selected.resolvedAt).toLocaleString()}`}.
+              </p>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,6 +16,8 @@ export function LocationsScreen() {
   const [syncError, setSyncError] = useState<string | null>(null);
   const [assigningId, setAssigningId] = useState<string | null>(null);
   const [assignError, setAssignError] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
 
   const handleSync = async () => {
     setSyncing(true);
@@ -48,6 +50,24 @@ export function LocationsScreen() {
     }
   };
 
+  const handleTogglePendingCost = async (location: Location) => {
+    setTogglingId(location.id);
+    setSettingsError(null);
+    setSyncMessage(null);
+    try {
+      const body = await apiFetch<{ message: string }>(`/locations/${location.id}/settings`, {
+        method: "PATCH",
+        body: JSON.stringify({ allowPendingCost: !location.allowPendingCost }),
+      });
+      await refetch();
+      setSyncMessage(body.message);
+    } catch (err) {
+      setSettingsError(err instanceof ApiError ? err.message : "Failed to update location settings");
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
   const columns: Column<Location>[] = [
     { key: "id", header: "ID", render: v => <code className="tabular text-xs">{String(v).slice(0, 8)}…</code> },
     { key: "name", header: "Name" },
@@ -70,6 +90,24 @@ export function LocationsScreen() {
     { key: "createdAt", header: "Created", render: v => new Date(v as string).toLocaleDateString() },
     ...(isOwner(user)
       ? [
+          {
+            key: "allowPendingCost",
+            header: "Oversold sales",
+            render: (v, location) => (
+              <label
+                className="flex items-center gap-2 text-xs text-(--color-ink-secondary)"
+                title="Record sales of items the system shows as out of stock with cost pending, instead of failing them"
+              >
+                <input
+                  type="checkbox"
+                  checked={Boolean(v)}
+                  disabled={togglingId === location.id}
+                  onChange={() => handleTogglePendingCost(location)}
+                />
+                {v ? "Pending cost" : "Fail sale"}
+              </label>
+            ),
+          } satisfies Column<Location>,
           {
             key: "id",
             header: "Actions",
@@ -120,9 +158,9 @@ export function LocationsScreen() {
           {syncMessage}
         </div>
       )}
-      {(syncError || assignError || error) && (
+      {(syncError || assignError || settingsError || error) && (
         <div className="mb-4 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-4 py-2 text-sm text-(--color-destructive)">
-          {syncError ?? assignError ?? error}
+          {syncError ?? assignError ?? settingsError ?? error}
         </div>
       )}
 
@@ -0,0 +1,387 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { LocationPicker } from "../../components/ui/LocationPicker";
+import { ConfirmDialog } from "../../components/ui/ConfirmDialog";
+import { apiFetch, ApiError } from "../../lib/apiFetch";
+import { useAuth } from "../../lib/auth/AuthContext";
+
+type ProductRef = { id: string; name: string; sku: string | null };
+
+type Placement = { id: string; productId: string; product: ProductRef };
+
+type RackSection = {
+  id: string;
+  label: string;
+  size: string | null;
+  position: number;
+  placements: Placement[];
+};
+
+type Rack = { id: string; name: string; position: number; sections: RackSection[] };
+
+type Pending = { kind: "rack"; rack: Rack } | { kind: "section"; rack: Rack; section: RackSection };
+
+const inputClass =
+  "w-full rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink) focus:border-(--color-accent) focus:outline-none";
+const smallButtonClass =
+  "rounded-sm border border-(--color-border-standard) px-2 py-1 text-xs text-(--color-ink-secondary) hover:bg-(--color-surface) disabled:cursor-not-allowed disabled:opacity-40";
+const primaryButtonClass =
+  "rounded-sm bg-(--color-accent) px-3 py-1.5 text-sm font-medium text-(--color-accent-contrast) hover:bg-(--color-accent-hover) disabled:cursor-not-allowed disabled:opacity-50";
+
+/**
+ * New order for a list after moving one item up or down, as the PATCHes to
+ * send — only items whose position actually changes. Racks imported before
+ * positions existed all sit at 0, so the whole list is renumbered.
+ */
+function reorder<T extends { id: string; position: number }>(items: T[], index: number, delta: -1 | 1) {
+  const next = [...items];
+  const [moved] = next.splice(index, 1);
+  next.splice(index + delta, 0, moved);
+  return next.map((item, position) => ({ id: item.id, position })).filter((p, i) => next[i].position !== p.position);
+}
+
+/** Debounced name/SKU search over GET /products; picking a result places it. */
+function AddPlacement({ onAdd }: { onAdd: (product: ProductRef) => Promise<void> }) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ProductRef[]>([]);
+  const [loading, setLoading] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      return;
+    }
+    setLoading(true);
+    const timer = setTimeout(() => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      apiFetch<{ data: ProductRef[] }>(`/products?search=${encodeURIComponent(trimmed)}&limit=8`, {
+        signal: controller.signal,
+      })
+        .then(body => setResults(body.data))
+        .catch((err: unknown) => {
+          if (err instanceof DOMException && err.name === "AbortError") return;
+        })
+        .finally(() => setLoading(false));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return (
+    <div className="relative">
+      <input
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="Agregar producto por nombre o SKU…"
+        className={inputClass}
+      />
+      {loading && <p className="mt-1 text-xs text-(--color-ink-tertiary)">Buscando…</p>}
+      {!loading && results.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full rounded-sm border border-(--color-border-standard) bg-(--color-surface) shadow-md">
+          {results.map(p => (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => {
+                setQuery("");
+                setResults([]);
+                onAdd(p);
+              }}
+              className="block w-full px-3 py-2 text-left text-sm hover:bg-(--color-surface-inset)"
+            >
+              <p className="text-(--color-ink)">{p.name}</p>
+              <p className="text-xs text-(--color-ink-tertiary)">{p.sku ? `SKU ${p.sku}` : "Sin SKU"}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SectionRow({
+  section,
+  index,
+  count,
+  run,
+  onMove,
+  onDelete,
+}: {
+  section: RackSection;
+  index: number;
+  count: number;
+  run: (action: () => Promise<unknown>) => Promise<void>;
+  onMove: (delta: -1 | 1) => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="space-y-2 rounded-sm border border-(--color-border-standard) bg-(--color-surface) p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-(--color-ink)">
+          {section.label}
+          {section.size && <span className="ml-2 text-xs text-(--color-ink-tertiary)">{section.size}</span>}
+        </p>
+        <div className="flex gap-1">
+          <button onClick={() => onMove(-1)} disabled={index === 0} className={smallButtonClass} title="Subir">
+            ↑
+          </button>
+          <button onClick={() => onMove(1)} disabled={index === count - 1} className={smallButtonClass} title="Bajar">
+            ↓
+          </button>
+          <button onClick={onDelete} className={`${smallButtonClass} text-(--color-destructive)`}>
+            Eliminar
+          </button>
+        </div>
+      </div>
+
+      {section.placements.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {section.placements.map(p => (
+            <span
+              key={p.id}
+              className="flex items-center gap-1 rounded-sm bg-(--color-surface-inset) px-2 py-0.5 text-xs text-(--color-ink-secondary)"
+            >
+              {p.product.name}
+              <button
+                onClick={() => run(() => apiFetch(`/inventory/racks/placements/${p.id}`, { method: "DELETE" }))}
+                className="text-(--color-ink-tertiary) hover:text-(--color-destructive)"
+                title="Quitar de esta sección"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <AddPlacement
+        onAdd={product =>
+          run(() =>
+            apiFetch(`/inventory/racks/sections/${section.id}/placements`, {
+              method: "POST",
+              body: JSON.stringify({ productId: product.id }),
+            })
+          )
+        }
+      />
+    </div>
+  );
+}
+
+function RackCard({
+  rack,
+  index,
+  count,
+  run,
+  onMove,
+  onDelete,
+  onDeleteSection,
+}: {
+  rack: Rack;
+  index: number;
+  count: number;
+  run: (action: () => Promise<unknown>) => Promise<void>;
+  onMove: (delta: -1 | 1) => void;
+  onDelete: () => void;
+  onDeleteSection: (section: RackSection) => void;
+}) {
+  const [name, setName] = useState(rack.name);
+  const [label, setLabel] = useState("");
+  const [size, setSize] = useState("");
+
+  useEffect(() => setName(rack.name), [rack.name]);
+
+  const addSection = async () => {
+    if (!label.trim()) return;
+    await run(() =>
+      apiFetch(`/inventory/racks/${rack.id}/sections`, {
+        method: "POST",
+        body: JSON.stringify({ label: label.trim(), size: size.trim() || undefined }),
+      })
+    );
+    setLabel("");
+    setSize("");
+  };
+
+  const moveSection = (sectionIndex: number, delta: -1 | 1) =>
+    run(() =>
+      Promise.all(
+        reorder(rack.sections, sectionIndex, delta).map(p =>
+          apiFetch(`/inventory/racks/sections/${p.id}`, { method: "PATCH", body: JSON.stringify({ position: p.position }) })
+        )
+      )
+    );
+
+  return (
+    <div className="space-y-3 rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4">
+      <div className="flex items-center gap-2">
+        <input value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+        {name.trim() && name.trim() !== rack.name && (
+          <button
+            onClick={() =>
+              run(() => apiFetch(`/inventory/racks/${rack.id}`, { method: "PATCH", body: JSON.stringify({ name: name.trim() }) }))
+            }
+            className={primaryButtonClass}
+          >
+            Guardar
+          </button>
+        )}
+        <button onClick={() => onMove(-1)} disabled={index === 0} className={smallButtonClass} title="Antes en el recorrido">
+          ↑
+        </button>
+        <button onClick={() => onMove(1)} disabled={index === count - 1} className={smallButtonClass} title="Después en el recorrido">
+          ↓
+        </button>
+        <button onClick={onDelete} className={`${smallButtonClass} text-(--color-destructive)`}>
+          Eliminar
+        </button>
+      </div>
+
+      {rack.sections.length === 0 && <p className="text-xs text-(--color-ink-tertiary)">Sin secciones todavía.</p>}
+      {rack.sections.map((section, i) => (
+        <SectionRow
+          key={section.id}
+          section={section}
+          index={i}
+          count={rack.sections.length}
+          run={run}
+          onMove={delta => moveSection(i, delta)}
+          onDelete={() => onDeleteSection(section)}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        <input value={label} onChange={e => setLabel(e.target.value)} placeholder="Shelf 3" className={inputClass} />
+        <input value={size} onChange={e => setSize(e.target.value)} placeholder="Tamaño (opcional)" className={inputClass} />
+        <button onClick={addSection} disabled={!label.trim()} className={primaryButtonClass}>
+          Agregar sección
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function RacksScreen() {
+  const { user } = useAuth();
+  const [locationId, setLocationId] = useState(user.currentLocation?.locationId ?? user.accessibleLocations[0]?.locationId ?? "");
+  const [racks, setRacks] = useState<Rack[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newRack, setNewRack] = useState("");
+  const [pending, setPending] = useState<Pending | null>(null);
+
+  const load = useCallback(async () => {
+    if (!locationId) return;
+    setLoading(true);
+    try {
+      const body = await apiFetch<{ data: Rack[] }>(`/inventory/racks?locationId=${locationId}`);
+      setRacks(body.data);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "No se pudieron cargar los racks");
+    } finally {
+      setLoading(false);
+    }
+  }, [locationId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Every change reloads the layout: sections and placements nest inside racks
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "No se pudo guardar el cambio");
+    }
+    await load();
+  };
+
+  const addRack = async () => {
+    if (!newRack.trim()) return;
+    await run(() => apiFetch("/inventory/racks", { method: "POST", body: JSON.stringify({ locationId, name: newRack.trim() }) }));
+    setNewRack("");
+  };
+
+  const moveRack = (index: number, delta: -1 | 1) =>
+    run(() =>
+      Promise.all(
+        reorder(racks, index, delta).map(p =>
+          apiFetch(`/inventory/racks/${p.id}`, { method: "PATCH", body: JSON.stringify({ position: p.position }) })
+        )
+      )
+    );
+
+  const confirmDelete = async () => {
+    if (!pending) return;
+    const path =
+      pending.kind === "rack" ? `/inventory/racks/${pending.rack.id}` : `/inventory/racks/sections/${pending.section.id}`;
+    setPending(null);
+    await run(() => apiFetch(path, { method: "DELETE" }));
+  };
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-xl font-semibold text-(--color-ink)">Racks</h1>
+        <div className="w-64">
+          <LocationPicker value={locationId} onChange={setLocationId} />
+        </div>
+      </div>
+
+      <p className="text-sm text-(--color-ink-tertiary)">
+        Ordena los racks y sus secciones en el orden en que se recorre la tienda: los conteos y las listas de surtido de
+        traspasos siguen este orden.
+      </p>
+
+      {error && (
+        <div className="rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-3 py-2 text-sm text-(--color-destructive)">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input value={newRack} onChange={e => setNewRack(e.target.value)} placeholder="Rack B" className={inputClass} />
+        <button onClick={addRack} disabled={!newRack.trim() || !locationId} className={primaryButtonClass}>
+          Agregar rack
+        </button>
+      </div>
+
+      {loading && racks.length === 0 && <p className="text-sm text-(--color-ink-tertiary)">Cargando…</p>}
+      {!loading && racks.length === 0 && (
+        <p className="text-sm text-(--color-ink-tertiary)">Esta ubicación no tiene racks todavía.</p>
+      )}
+
+      {racks.map((rack, i) => (
+        <RackCard
+          key={rack.id}
+          rack={rack}
+          index={i}
+          count={racks.length}
+          run={run}
+          onMove={delta => moveRack(i, delta)}
+          onDelete={() => setPending({ kind: "rack", rack })}
+          onDeleteSection={section => setPending({ kind: "section", rack, section })}
+        />
+      ))}
+
+      <ConfirmDialog
+        open={pending !== null}
+        title={pending?.kind === "rack" ? "Eliminar rack" : "Eliminar sección"}
+        description={
+          pending?.kind === "rack"
+            ? `Se eliminan "${pending.rack.name}", sus secciones y la ubicación de sus productos. El inventario no cambia.`
+            : `Se elimina "${pending?.section.label}" de "${pending?.rack.name}" y la ubicación de sus productos. El inventario no cambia.`
+        }
+        confirmPhrase={pending?.kind === "rack" ? pending.rack.name : (pending?.section.label ?? "")}
+        confirmLabel="Eliminar"
+        destructive
+        onConfirm={confirmDelete}
+        onCancel={() => setPending(null)}
+      />
+    </div>
+  );
+}
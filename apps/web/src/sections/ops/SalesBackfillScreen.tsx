@@ -0,0 +1,310 @@
+import { useCallback, useEffect, useState } from "react";
+import { LocationPicker } from "../../components/ui/LocationPicker";
+import { Table, type Column } from "../../components/ui/Table";
+import { apiFetch, ApiError } from "../../lib/apiFetch";
+import { useAuth } from "../../lib/auth/AuthContext";
+import { isOwner } from "../../lib/auth/types";
+import type { BackfillOutcome, BackfillOutcomeStatus, BackfillRun, BackfillRunDetail } from "../../lib/ops/types";
+
+const POLL_INTERVAL_MS = 2000;
+
+const OUTCOME_LABELS: Record<BackfillOutcomeStatus, string> = {
+  created: "Created",
+  already_present: "Already present",
+  voided: "Voided",
+  would_create: "Would create",
+  failed: "Failed",
+};
+
+function isRunning(run: BackfillRun): boolean {
+  return run.state === "waiting" || run.state === "delayed" || run.state === "active";
+}
+
+function outcomeClass(status: BackfillOutcomeStatus): string {
+  switch (status) {
+    case "created":
+      return "text-(--color-success)";
+    case "would_create":
+      return "text-(--color-warning)";
+    case "failed":
+      return "text-(--color-destructive)";
+    default:
+      return "text-(--color-ink-tertiary)";
+  }
+}
+
+function formatRange(run: BackfillRun): string {
+  return `${new Date(run.startAt).toLocaleDateString()} – ${new Date(run.endAt).toLocaleDateString()}`;
+}
+
+const runColumns: Column<BackfillRun>[] = [
+  { key: "queuedAt", header: "Queued", render: v => new Date(v as string).toLocaleString() },
+  { key: "startAt", header: "Range", render: (_, run) => formatRange(run) },
+  { key: "dryRun", header: "Mode", render: v => (v ? "Dry run" : "Backfill") },
+  { key: "state", header: "State" },
+  {
+    key: "summary",
+    header: "Outcome",
+    render: (_, run) =>
+      run.summary ? (
+        <span className="tabular">
+          {run.dryRun ? `${run.summary.wouldCreate} missing` : `${run.summary.created} created`},{" "}
+          {run.summary.alreadyPresent} present, {run.summary.failed} failed
+        </span>
+      ) : (
+        "—"
+      ),
+  },
+];
+
+const outcomeColumns: Column<BackfillOutcome>[] = [
+  { key: "closedAt", header: "Closed", render: v => (v ? new Date(v as string).toLocaleString() : "—") },
+  { key: "orderId", header: "Order" },
+  { key: "paymentId", header: "Payment", render: v => (v as string | null) ?? "—" },
+  {
+    key: "status",
+    header: "Outcome",
+    render: v => <span className={outcomeClass(v as BackfillOutcomeStatus)}>{OUTCOME_LABELS[v as BackfillOutcomeStatus]}</span>,
+  },
+  {
+    key: "reason",
+    header: "Reason",
+    render: (v, outcome) =>
+      v ? (
+        <span className="line-clamp-2 max-w-md text-(--color-ink-secondary)">
+          {outcome.errorName}: {String(v)}
+        </span>
+      ) : (
+        ""
+      ),
+  },
+];
+
+export function SalesBackfillScreen() {
+  const { user } = useAuth();
+  const [locationId, setLocationId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [dryRun, setDryRun] = useState(true);
+  const [starting, setStarting] = useState(false);
+
+  const [runs, setRuns] = useState<BackfillRun[]>([]);
+  const [webhooksPaused, setWebhooksPaused] = useState(false);
+  const [selected, setSelected] = useState<BackfillRunDetail | null>(null);
+  const [showFailedOnly, setShowFailedOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchRuns = useCallback(() => {
+    setLoading(true);
+    return apiFetch<{ data: BackfillRun[]; webhooksPaused: boolean }>("/admin/sales/backfill")
+      .then(body => {
+        setRuns(body.data);
+        setWebhooksPaused(body.webhooksPaused);
+      })
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load backfill runs"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const fetchRun = useCallback((jobId: string) => {
+    return apiFetch<{ data: BackfillRunDetail }>(`/admin/sales/backfill/${encodeURIComponent(jobId)}`)
+      .then(body => setSelected(body.data))
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load backfill run"));
+  }, []);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  // Poll the selected run until the worker finishes it, then refresh the list
+  // so its row picks up the final summary.
+  const selectedJobId = selected?.jobId;
+  const selectedRunning = selected ? isRunning(selected) : false;
+  useEffect(() => {
+    if (!selectedJobId || !selectedRunning) return;
+    const timer = setInterval(() => {
+      fetchRun(selectedJobId);
+    }, POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      fetchRuns();
+    };
+  }, [selectedJobId, selectedRunning, fetchRun, fetchRuns]);
+
+  const handleStart = async () => {
+    setStarting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const body = await apiFetch<{ message: string; data: BackfillRun }>("/admin/sales/backfill", {
+        method: "POST",
+        body: JSON.stringify({ locationId, startDate, endDate, dryRun }),
+      });
+      setMessage(body.message);
+      setShowFailedOnly(false);
+      await fetchRun(body.data.jobId);
+      await fetchRuns();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Failed to start backfill");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const outcomes = selected
+    ? showFailedOnly
+      ? selected.outcomes.filter(o => o.status === "failed")
+      : selected.outcomes
+    : [];
+  const progress = selected?.progress;
+
+  return (
+    <div>
+      <h1 className="mb-4 text-xl font-semibold text-(--color-ink)">Sales Backfill</h1>
+
+      <p className="mb-4 text-sm text-(--color-ink-tertiary)">
+        Rebuilds sales from Square orders closed in a date range — after downtime or while webhooks were paused. Orders
+        whose sale is already recorded are skipped, so a range can be re-run safely. Start with a dry run to see what is
+        missing.
+      </p>
+
+      {webhooksPaused && (
+        <div className="mb-4 rounded-md border border-(--color-warning) px-4 py-2 text-sm text-(--color-warning)">
+          Square webhooks are paused — sales made meanwhile are not being recorded. Resume them from Webhook Test, then
+          backfill the paused period.
+        </div>
+      )}
+
+      {isOwner(user) && (
+        <div className="mb-6 max-w-2xl space-y-4 rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium text-(--color-ink-secondary)">Location</label>
+            <LocationPicker value={locationId} onChange={setLocationId} allowAll allLabel="Select a location" />
+          </div>
+          <div className="flex gap-4">
+            <label className="flex-1 text-sm text-(--color-ink-secondary)">
+              <span className="mb-1 block font-medium">From</span>
+              <input
+                type="date"
+                value={startDate}
+                onChange={e => setStartDate(e.target.value)}
+                className="w-full rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+              />
+            </label>
+            <label className="flex-1 text-sm text-(--color-ink-secondary)">
+              <span className="mb-1 block font-medium">To (inclusive)</span>
+              <input
+                type="date"
+                value={endDate}
+                onChange={e => setEndDate(e.target.value)}
+                className="w-full rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-(--color-ink-secondary)">
+            <input type="checkbox" checked={dryRun} onChange={e => setDryRun(e.target.checked)} />
+            Dry run (report only, record nothing)
+          </label>
+          <button
+            onClick={handleStart}
+            disabled={starting || !locationId || !startDate || !endDate}
+            className="rounded-sm bg-(--color-accent) px-4 py-2 text-sm font-medium text-(--color-accent-contrast) hover:bg-(--color-accent-hover) disabled:opacity-50"
+          >
+            {starting ? "Starting…" : dryRun ? "Start dry run" : "Start backfill"}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-4 py-2 text-sm text-(--color-destructive)">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md border border-(--color-success) bg-(--color-success-bg) px-4 py-2 text-sm text-(--color-success)">
+          {message}
+        </div>
+      )}
+
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-base font-semibold text-(--color-ink)">Recent runs</h2>
+        <button
+          onClick={() => fetchRuns()}
+          disabled={loading}
+          className="rounded-sm border border-(--color-border-standard) px-3 py-1.5 text-sm text-(--color-ink-secondary) hover:bg-(--color-surface-raised) disabled:opacity-50"
+        >
+          {loading ? "Loading…" : "Refresh"}
+        </button>
+      </div>
+      <Table
+        data={runs}
+        columns={runColumns}
+        keyExtractor={r => r.jobId}
+        onRowClick={r => fetchRun(r.jobId)}
+        isRowSelected={r => r.jobId === selected?.jobId}
+        emptyMessage={loading ? "Loading…" : "No backfill runs in the last 14 days."}
+      />
+
+      {selected && (
+        <div className="mt-6 rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-base font-semibold text-(--color-ink)">
+                {selected.dryRun ? "Dry run" : "Backfill"} · {formatRange(selected)}
+              </h2>
+              <p className="mt-1 text-sm text-(--color-ink-secondary)">
+                {selected.state}
+                {progress &&
+                  (progress.phase === "searching"
+                    ? ` — searching Square, ${progress.ordersFound} orders found`
+                    : ` — ${progress.processed} of ${progress.ordersFound} orders`)}
+              </p>
+              {selected.failedReason && (
+                <p className="mt-1 text-sm text-(--color-destructive)">{selected.failedReason}</p>
+              )}
+            </div>
+            {selected.summary && (
+              <dl className="grid shrink-0 grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                <dt className="text-(--color-ink-tertiary)">{selected.dryRun ? "Would create" : "Created"}</dt>
+                <dd className="tabular text-(--color-ink)">
+                  {selected.dryRun ? selected.summary.wouldCreate : selected.summary.created}
+                </dd>
+                <dt className="text-(--color-ink-tertiary)">Already present</dt>
+                <dd className="tabular text-(--color-ink)">{selected.summary.alreadyPresent}</dd>
+                <dt className="text-(--color-ink-tertiary)">Voided</dt>
+                <dd className="tabular text-(--color-ink)">{selected.summary.voided ?? 0}</dd>
+                <dt className="text-(--color-ink-tertiary)">Failed</dt>
+                <dd className="tabular text-(--color-ink)">{selected.summary.failed}</dd>
+              </dl>
+            )}
+          </div>
+
+          {progress && progress.ordersFound > 0 && (
+            <div className="mt-3 h-1.5 overflow-hidden rounded-full bg-(--color-surface-inset)">
+              <div
+                className="h-full bg-(--color-accent)"
+                style={{ width: `${Math.round((progress.processed / progress.ordersFound) * 100)}%` }}
+              />
+            </div>
+          )}
+
+          {selected.outcomes.length > 0 && (
+            <>
+              <label className="mt-4 mb-2 flex items-center gap-2 text-sm text-(--color-ink-secondary)">
+                <input type="checkbox" checked={showFailedOnly} onChange={e => setShowFailedOnly(e.target.checked)} />
+                Failed orders only
+              </label>
+              <Table
+                data={outcomes}
+                columns={outcomeColumns}
+                keyExtractor={o => o.orderId}
+                emptyMessage="No failed orders."
+              />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
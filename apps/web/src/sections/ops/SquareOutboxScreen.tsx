@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from "react";
+import { Table, type Column } from "../../components/ui/Table";
+import { apiFetch, ApiError } from "../../lib/apiFetch";
+import type { SquareOutboxEntry, SquareOutboxStatus } from "../../lib/ops/types";
+
+type StatusFilter = SquareOutboxStatus | "UNSYNCED" | "ALL";
+
+const STATUS_FILTERS: StatusFilter[] = ["UNSYNCED", "FAILED", "PENDING", "SYNCED", "ALL"];
+
+const FILTER_LABELS: Record<StatusFilter, string> = {
+  UNSYNCED: "Not synced",
+  FAILED: "FAILED",
+  PENDING: "PENDING",
+  SYNCED: "SYNCED",
+  ALL: "All statuses",
+};
+
+function statusClass(status: SquareOutboxStatus): string {
+  switch (status) {
+    case "FAILED":
+      return "text-(--color-destructive)";
+    case "PENDING":
+      return "text-(--color-warning)";
+    default:
+      return "text-(--color-success)";
+  }
+}
+
+export function SquareOutboxScreen() {
+  const [status, setStatus] = useState<StatusFilter>("UNSYNCED");
+  const [entries, setEntries] = useState<SquareOutboxEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState<string | null>(null); // Row id, or "flush"
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    const query = status === "ALL" ? "" : `?status=${status}`;
+    return apiFetch<{ data: SquareOutboxEntry[] }>(`/inventory/square-outbox${query}`)
+      .then(body => setEntries(body.data))
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load the sync queue"))
+      .finally(() => setLoading(false));
+  }, [status]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const send = async (path: string, key: string) => {
+    setActing(key);
+    setError(null);
+    setMessage(null);
+    try {
+      const body = await apiFetch<{ message: string }>(`/inventory/square-outbox/${path}`, { method: "POST" });
+      setMessage(body.message);
+      await fetchEntries();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Failed to send to Square");
+    } finally {
+      setActing(null);
+    }
+  };
+
+  const columns: Column<SquareOutboxEntry>[] = [
+    { key: "occurredAt", header: "Occurred", render: v => new Date(v as string).toLocaleString() },
+    { key: "referenceId", header: "Reference" },
+    { key: "status", header: "Status", render: v => <span className={statusClass(v as SquareOutboxStatus)}>{String(v)}</span> },
+    { key: "attempts", header: "Attempts", align: "right" },
+    {
+      key: "lastError",
+      header: "Last error",
+      render: v => <span className="line-clamp-1 max-w-md text-(--color-ink-secondary)">{v ? String(v) : "-"}</span>,
+    },
+    {
+      key: "id",
+      header: "",
+      align: "right",
+      render: (_, entry) =>
+        entry.status === "SYNCED" ? null : (
+          <button
+            onClick={() => send(`${entry.id}/retry`, entry.id)}
+            disabled={acting !== null}
+            className="rounded-sm border border-(--color-border-standard) px-2 py-1 text-xs text-(--color-ink-secondary) hover:bg-(--color-surface-raised) disabled:opacity-50"
+          >
+            {acting === entry.id ? "Sending…" : "Retry"}
+          </button>
+        ),
+    },
+  ];
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between">
+        <h1 className="text-xl font-semibold text-(--color-ink)">Square Sync Queue ({entries.length})</h1>
+        <div className="flex items-center gap-2">
+          <select
+            value={status}
+            onChange={e => setStatus(e.target.value as StatusFilter)}
+            className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+          >
+            {STATUS_FILTERS.map(s => (
+              <option key={s} value={s}>
+                {FILTER_LABELS[s]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => fetchEntries()}
+            disabled={loading}
+            className="rounded-sm border border-(--color-border-standard) px-3 py-1.5 text-sm text-(--color-ink-secondary) hover:bg-(--color-surface-raised) disabled:opacity-50"
+          >
+            {loading ? "Loading…" : "Refresh"}
+          </button>
+          <button
+            onClick={() => send("flush", "flush")}
+            disabled={acting !== null}
+            className="rounded-sm bg-(--color-accent) px-3 py-1.5 text-sm font-medium text-(--color-accent-contrast) hover:bg-(--color-accent-hover) disabled:opacity-50"
+          >
+            {acting === "flush" ? "Sending…" : "Send all"}
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-(--color-ink-tertiary)">
+        Stock movements waiting to reach Square. The worker re-sends anything not synced every few minutes; retry a
+        row after fixing its error (usually a missing catalog mapping or an unlinked location) to send it now.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-4 py-2 text-sm text-(--color-destructive)">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md border border-(--color-success) bg-(--color-success-bg) px-4 py-2 text-sm text-(--color-success)">
+          {message}
+        </div>
+      )}
+
+      <Table
+        data={entries}
+        columns={columns}
+        keyExtractor={e => e.id}
+        emptyMessage={loading ? "Loading…" : "Nothing waiting for Square."}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { LocationPicker } from "../../components/ui/LocationPicker";
+import { Table, type Column } from "../../components/ui/Table";
+import { apiFetch, ApiError } from "../../lib/apiFetch";
+import { useAuth } from "../../lib/auth/AuthContext";
+import { isOwnerOrManager } from "../../lib/auth/types";
+import type { UnmappedLineMapResult, UnmappedLineStatus, UnmappedSaleLine } from "../../lib/ops/types";
+
+type ProductOption = { id: string; name: string; sku: string | null };
+
+const STATUS_FILTERS: (UnmappedLineStatus | "ALL")[] = ["OPEN", "MAPPED", "DISMISSED", "ALL"];
+
+const REASON_LABELS: Record<UnmappedSaleLine["reason"], string> = {
+  CUSTOM_AMOUNT: "Custom amount",
+  UNMAPPED_VARIATION: "Not mapped",
+};
+
+const columns: Column<UnmappedSaleLine>[] = [
+  { key: "sale", header: "Sold", render: (_, l) => new Date(l.sale.createdAt).toLocaleString() },
+  {
+    key: "name",
+    header: "Line",
+    render: (_, l) => [l.name, l.variationName].filter(Boolean).join(" — ") || "—",
+  },
+  { key: "reason", header: "Why", render: v => REASON_LABELS[v as UnmappedSaleLine["reason"]] },
+  { key: "location", header: "Location", render: (_, l) => l.location.name },
+  { key: "quantity", header: "Qty", align: "right" },
+  { key: "price", header: "Unit price", align: "right", render: v => Number(v).toFixed(2) },
+  { key: "product", header: "Mapped to", render: (_, l) => l.product?.name ?? "—" },
+  { key: "status", header: "Status" },
+];
+
+/** Debounced name/SKU search over GET /products. */
+function ProductSearch({ onSelect }: { onSelect: (product: ProductOption) => void }) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ProductOption[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      apiFetch<{ data: ProductOption[] }>(`/products?search=${encodeURIComponent(trimmed)}&limit=8`, {
+        signal: controller.signal,
+      })
+        .then(body => setResults(body.data))
+        .catch(() => {});
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return (
+    <div className="relative w-80">
+      <input
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="Search products by name or SKU…"
+        className="w-full rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+      />
+      {results.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full rounded-sm border border-(--color-border-standard) bg-(--color-surface) shadow-md">
+          {results.map(p => (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => {
+                onSelect(p);
+                setQuery("");
+                setResults([]);
+              }}
+              className="block w-full px-3 py-2 text-left text-sm hover:bg-(--color-surface-inset)"
+            >
+              <span className="text-(--color-ink)">{p.name}</span>
+              {p.sku && <span className="ml-2 text-xs text-(--color-ink-tertiary)">SKU {p.sku}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function describeMapping(line: UnmappedSaleLine, product: ProductOption, result: UnmappedLineMapResult): string {
+  let text = `Mapped to ${product.name} and costed.`;
+  if (result.mappingCreated) text += ` Future sales of ${line.name ?? "this variation"} map automatically.`;
+  if (result.alsoMapped.length > 0) text += ` ${result.alsoMapped.length} other line(s) of it were mapped too.`;
+  if (result.stillOpen.length > 0) text += ` ${result.stillOpen.length} could not be costed yet and stay open.`;
+  return text;
+}
+
+export function UnmappedLinesScreen() {
+  const { user } = useAuth();
+  const canAct = isOwnerOrManager(user);
+  const [locationId, setLocationId] = useState("");
+  const [status, setStatus] = useState<UnmappedLineStatus | "ALL">("OPEN");
+  const [lines, setLines] = useState<UnmappedSaleLine[]>([]);
+  const [selected, setSelected] = useState<UnmappedSaleLine | null>(null);
+  const [product, setProduct] = useState<ProductOption | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [acting, setActing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchLines = useCallback(() => {
+    const params = new URLSearchParams({ status });
+    if (locationId) params.append("locationId", locationId);
+
+    setLoading(true);
+    return apiFetch<{ data: UnmappedSaleLine[] }>(`/inventory/unmapped-lines?${params}`)
+      .then(body => {
+        setLines(body.data);
+        setSelected(prev => body.data.find(l => l.id === prev?.id) ?? null);
+      })
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load unmapped lines"))
+      .finally(() => setLoading(false));
+  }, [locationId, status]);
+
+  useEffect(() => {
+    setError(null);
+    fetchLines();
+  }, [fetchLines]);
+
+  const select = (line: UnmappedSaleLine) => {
+    setSelected(line);
+    setProduct(null);
+    setMessage(null);
+  };
+
+  const mapLine = async () => {
+    if (!selected || !product) return;
+    setActing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const body = await apiFetch<{ data: UnmappedLineMapResult }>(
+        `/inventory/unmapped-lines/${encodeURIComponent(selected.id)}/map`,
+        { method: "POST", body: JSON.stringify({ productId: product.id }) },
+      );
+      setMessage(describeMapping(selected, product, body.data));
+      setProduct(null);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Failed to map line");
+    } finally {
+      setActing(false);
+      fetchLines();
+    }
+  };
+
+  const dismiss = async () => {
+    if (!selected) return;
+    setActing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await apiFetch(`/inventory/unmapped-lines/${encodeURIComponent(selected.id)}/dismiss`, { method: "POST" });
+      setMessage("Line dismissed.");
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Failed to dismiss line");
+    } finally {
+      setActing(false);
+      fetchLines();
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <h1 className="text-xl font-semibold text-(--color-ink)">Unmapped Lines ({lines.length})</h1>
+        <div className="flex items-center gap-2">
+          <div className="w-64">
+            <LocationPicker value={locationId} onChange={setLocationId} allowAll />
+          </div>
+          <select
+            value={status}
+            onChange={e => setStatus(e.target.value as UnmappedLineStatus | "ALL")}
+            className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+          >
+            {STATUS_FILTERS.map(s => (
+              <option key={s} value={s}>
+                {s === "ALL" ? "All statuses" : s}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-(--color-ink-tertiary)">
+        Sale lines that had no product to cost — custom amounts, or Square items created since the last catalog sync.
+        The rest of each sale was recorded; map a line to its product to cost it from current stock and add it to the
+        sale. Dismiss lines that aren't stocked products.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-4 py-2 text-sm text-(--color-destructive)">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md border border-(--color-success) bg-(--color-success-bg) px-4 py-2 text-sm text-(--color-success)">
+          {message}
+        </div>
+      )}
+
+      <Table
+        data={lines}
+        columns={columns}
+        keyExtractor={l => l.id}
+        onRowClick={select}
+        isRowSelected={l => l.id === selected?.id}
+        emptyMessage={loading ? "Loading…" : "No unmapped lines."}
+      />
+
+      {selected && (
+        <div className="mt-6 rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4 text-sm">
+          <h2 className="text-base font-semibold text-(--color-ink)">{selected.name ?? "Unnamed line"}</h2>
+          <p className="mt-1 text-(--color-ink-secondary)">
+            {selected.quantity} × {Number(selected.price).toFixed(2)} on sale {selected.sale.squareId} at{" "}
+            {selected.location.name}
+            {selected.squareVariationId && (
+              <>
+                {" "}
+                — Square variation <span className="tabular">{selected.squareVariationId}</span>
+              </>
+            )}
+          </p>
+
+          {selected.status === "OPEN" && canAct && (
+            <div className="mt-4 flex flex-wrap items-center gap-3">
+              {product ? (
+                <span className="text-(--color-ink)">
+                  {product.name}{" "}
+                  <button onClick={() => setProduct(null)} className="text-xs text-(--color-accent) hover:underline">
+                    Change
+                  </button>
+                </span>
+              ) : (
+                <ProductSearch onSelect={setProduct} />
+              )}
+              <button
+                onClick={mapLine}
+                disabled={!product || acting}
+                className="rounded-sm bg-(--color-accent) px-3 py-1.5 text-sm font-medium text-(--color-accent-contrast) hover:bg-(--color-accent-hover) disabled:opacity-50"
+              >
+                {acting ? "Working…" : "Map and cost"}
+              </button>
+              <button
+                onClick={dismiss}
+                disabled={acting}
+                className="rounded-sm border border-(--color-border-standard) px-3 py-1.5 text-sm text-(--color-ink-secondary) hover:bg-(--color-surface) disabled:opacity-50"
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useState } from "react";
+import { Table, type Column } from "../../components/ui/Table";
+import { apiFetch, ApiError } from "../../lib/apiFetch";
+import { useAuth } from "../../lib/auth/AuthContext";
+import { isOwner } from "../../lib/auth/types";
+import type { WebhookEventDetail, WebhookEventStatus, WebhookEventSummary } from "../../lib/ops/types";
+
+const STATUS_FILTERS: Array<WebhookEventStatus | "ALL"> = [
+  "ALL",
+  "FAILED",
+  "RETRYING",
+  "QUEUED",
+  "PROCESSING",
+  "PROCESSED",
+  "PAUSED",
+  "IGNORED",
+  "RECEIVED",
+];
+
+// Matches HANDLED_EVENT_TYPES in the API; anything else is stored as IGNORED.
+const EVENT_TYPES = [
+  "payment.created",
+  "payment.updated",
+  "order.updated",
+  "refund.created",
+  "refund.updated",
+  "inventory.count.updated",
+];
+
+const IN_FLIGHT: WebhookEventStatus[] = ["QUEUED", "PROCESSING", "RETRYING"];
+
+function statusClass(status: WebhookEventStatus): string {
+  switch (status) {
+    case "FAILED":
+      return "text-(--color-destructive)";
+    case "RETRYING":
+    case "PAUSED":
+      return "text-(--color-warning)";
+    case "PROCESSED":
+      return "text-(--color-success)";
+    default:
+      return "text-(--color-ink-tertiary)";
+  }
+}
+
+const columns: Column<WebhookEventSummary>[] = [
+  { key: "receivedAt", header: "Received", render: v => new Date(v as string).toLocaleString() },
+  { key: "eventType", header: "Type" },
+  { key: "eventId", header: "Event ID", render: v => <span className="tabular text-xs">{String(v)}</span> },
+  { key: "attemptsMade", header: "Attempts", align: "right" },
+  { key: "dispatchCount", header: "Re-dispatches", align: "right" },
+  {
+    key: "status",
+    header: "Status",
+    render: v => <span className={statusClass(v as WebhookEventStatus)}>{String(v)}</span>,
+  },
+];
+
+export function WebhookEventsScreen() {
+  const { user } = useAuth();
+  const canDispatch = isOwner(user);
+  const [status, setStatus] = useState<WebhookEventStatus | "ALL">("ALL");
+  const [eventType, setEventType] = useState("");
+  const [events, setEvents] = useState<WebhookEventSummary[]>([]);
+  const [countByStatus, setCountByStatus] = useState<Array<{ status: string; count: number }>>([]);
+  const [selected, setSelected] = useState<WebhookEventDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(() => {
+    const params = new URLSearchParams();
+    if (status !== "ALL") params.append("status", status);
+    if (eventType) params.append("eventType", eventType);
+
+    setLoading(true);
+    setError(null);
+    return apiFetch<{ data: WebhookEventSummary[]; countByStatus: Array<{ status: string; count: number }> }>(
+      `/admin/webhook-events?${params}`
+    )
+      .then(body => {
+        setEvents(body.data);
+        setCountByStatus(body.countByStatus);
+      })
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load webhook events"))
+      .finally(() => setLoading(false));
+  }, [status, eventType]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const inspect = async (event: WebhookEventSummary) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const body = await apiFetch<{ data: WebhookEventDetail }>(`/admin/webhook-events/${event.id}`);
+      setSelected(body.data);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Failed to load event");
+    }
+  };
+
+  const redispatch = async () => {
+    if (!selected) return;
+    setActing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const body = await apiFetch<{ message: string }>(`/admin/webhook-events/${selected.id}/redispatch`, {
+        method: "POST",
+      });
+      setMessage(body.message);
+      setSelected(null);
+      await fetchEvents();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Failed to re-dispatch event");
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const canRedispatch =
+    canDispatch && selected !== null && EVENT_TYPES.includes(selected.eventType) && !IN_FLIGHT.includes(selected.status);
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between">
+        <h1 className="text-xl font-semibold text-(--color-ink)">Webhook Events ({events.length})</h1>
+        <div className="flex items-center gap-2">
+          <select
+            value={eventType}
+            onChange={e => setEventType(e.target.value)}
+            className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+          >
+            <option value="">All types</option>
+            {EVENT_TYPES.map(t => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+          <select
+            value={status}
+            onChange={e => setStatus(e.target.value as WebhookEventStatus | "ALL")}
+            className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+          >
+            {STATUS_FILTERS.map(s => (
+              <option key={s} value={s}>
+                {s === "ALL" ? "All statuses" : s}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => fetchEvents()}
+            disabled={loading}
+            className="rounded-sm border border-(--color-border-standard) px-3 py-1.5 text-sm text-(--color-ink-secondary) hover:bg-(--color-surface-raised) disabled:opacity-50"
+          >
+            {loading ? "Loading…" : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-(--color-ink-tertiary)">
+        Every verified Square webhook, stored as received. Re-dispatching sends an event through sale, refund or void
+        processing again — use it after a fix to rebuild what the event should have recorded.
+      </p>
+
+      {countByStatus.length > 0 && (
+        <div className="mb-4 flex flex-wrap gap-2 text-xs">
+          {countByStatus.map(s => (
+            <span
+              key={s.status}
+              className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-raised) px-2 py-1 text-(--color-ink-secondary)"
+            >
+              {s.status}: <span className="tabular text-(--color-ink)">{s.count}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-4 py-2 text-sm text-(--color-destructive)">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md border border-(--color-success) bg-(--color-success-bg) px-4 py-2 text-sm text-(--color-success)">
+          {message}
+        </div>
+      )}
+
+      <Table
+        data={events}
+        columns={columns}
+        keyExtractor={e => e.id}
+        onRowClick={inspect}
+        isRowSelected={e => e.id === selected?.id}
+        emptyMessage={loading ? "Loading…" : "No webhook events."}
+      />
+
+      {selected && (
+        <div className="mt-6 rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-base font-semibold text-(--color-ink)">{selected.eventType}</h2>
+              <p className="mt-1 text-sm text-(--color-ink-secondary)">
+                <span className={statusClass(selected.status)}>{selected.status}</span>
+                {selected.lastError && ` — ${selected.lastError}`}
+              </p>
+            </div>
+            {canDispatch && (
+              <button
+                onClick={redispatch}
+                disabled={!canRedispatch || acting}
+                className="shrink-0 rounded-sm bg-(--color-accent) px-3 py-1.5 text-sm font-medium text-(--color-accent-contrast) hover:bg-(--color-accent-hover) disabled:opacity-50"
+              >
+                {acting ? "Working…" : "Re-dispatch"}
+              </button>
+            )}
+          </div>
+
+          <dl className="mt-4 grid grid-cols-2 gap-x-6 gap-y-1 text-xs sm:grid-cols-4">
+            <dt className="text-(--color-ink-tertiary)">Event ID</dt>
+            <dd className="tabular text-(--color-ink)">{selected.eventId}</dd>
+            <dt className="text-(--color-ink-tertiary)">Deliveries</dt>
+            <dd className="tabular text-(--color-ink)">{selected.deliveryCount}</dd>
+            <dt className="text-(--color-ink-tertiary)">Received</dt>
+            <dd className="text-(--color-ink)">{new Date(selected.receivedAt).toLocaleString()}</dd>
+            <dt className="text-(--color-ink-tertiary)">Processed</dt>
+            <dd className="text-(--color-ink)">
+              {selected.processedAt ? new Date(selected.processedAt).toLocaleString() : "—"}
+            </dd>
+          </dl>
+
+          <h3 className="mt-4 text-xs font-medium text-(--color-ink-tertiary)">Body</h3>
+          <pre className="mt-1 max-h-96 overflow-auto rounded-sm bg-(--color-surface-inset) p-2 text-xs text-(--color-ink)">
+            {JSON.stringify(selected.body, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,8 +5,8 @@ import { apiFetch, ApiError } from "../../../lib/apiFetch";
 import { useSuppliers } from "../../../lib/ops/useSuppliers";
 import type { Supplier } from "../../../lib/ops/types";
 
-type FormState = { name: string; initials: string[]; contactInfo: string; isActive: boolean };
-const emptyForm: FormState = { name: "", initials: [], contactInfo: "", isActive: true };
+type FormState = { name: string; initials: string[]; contactInfo: string; leadTimeDays: string; isActive: boolean };
+const emptyForm: FormState = { name: "", initials: [], contactInfo: "", leadTimeDays: "", isActive: true };
 
 export function SupplierManagement() {
   const { suppliers, loading, error: fetchError, refetch } = useSuppliers();
@@ -25,6 +25,7 @@ export function SupplierManagement() {
       name: supplier.name,
       initials: supplier.initials,
       contactInfo: supplier.contactInfo ?? "",
+      leadTimeDays: supplier.leadTimeDays?.toString() ?? "",
       isActive: supplier.isActive,
     });
     setNewInitial("");
@@ -51,6 +52,11 @@ export function SupplierManagement() {
       setError("Supplier name is required");
       return;
     }
+    const leadTimeDays = form.leadTimeDays.trim() ? Number(form.leadTimeDays) : null;
+    if (leadTimeDays !== null && (!Number.isInteger(leadTimeDays) || leadTimeDays < 0)) {
+      setError("Lead time must be a whole number of days");
+      return;
+    }
     setSaving(true);
     setError(null);
     try {
@@ -61,6 +67,7 @@ export function SupplierManagement() {
             name: form.name.trim(),
             initials: form.initials,
             contactInfo: form.contactInfo.trim() || null,
+            leadTimeDays,
             isActive: form.isActive,
           }),
         });
@@ -71,6 +78,7 @@ export function SupplierManagement() {
             name: form.name.trim(),
             initials: form.initials,
             contactInfo: form.contactInfo.trim() || null,
+            leadTimeDays,
           }),
         });
       }
@@ -119,6 +127,7 @@ export function SupplierManagement() {
         ),
     },
     { key: "contactInfo", header: "Contact info", render: v => (v as string | null) ?? "—" },
+    { key: "leadTimeDays", header: "Lead time", render: v => (v === null ? "—" : `${v as number} d`) },
     {
       key: "isActive",
       header: "Status",
@@ -256,6 +265,18 @@ export function SupplierManagement() {
                 className={inputClass}
               />
             </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-(--color-ink-secondary)">Lead time (days)</label>
+              <input
+                type="number"
+                min={0}
+                value={form.leadTimeDays}
+                onChange={e => setForm({ ...form, leadTimeDays: e.target.value })}
+                placeholder="7"
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-(--color-ink-tertiary)">Order to delivery; used for reorder suggestions.</p>
+            </div>
             {editingId && (
               <label className="flex items-center gap-2 text-sm text-(--color-ink-secondary)">
                 <input
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { Table, type Column } from "../../components/ui/Table";
+import { LocationPicker } from "../../components/ui/LocationPicker";
+import { apiFetch, ApiError } from "../../lib/apiFetch";
+import type { PendingCostProduct, PendingCostReport } from "../../lib/reports/types";
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4">
+      <div className="text-xs font-semibold uppercase tracking-wide text-(--color-ink-tertiary)">{label}</div>
+      <div className="tabular mt-1 text-2xl font-semibold text-(--color-ink)">{value}</div>
+    </div>
+  );
+}
+
+const columns: Column<PendingCostProduct>[] = [
+  { key: "productName", header: "Product" },
+  { key: "sku", header: "SKU", render: v => (v as string | null) ?? "—" },
+  { key: "locationName", header: "Location" },
+  { key: "units", header: "Units owed", align: "right" },
+  { key: "positions", header: "Sales", align: "right" },
+  { key: "oldestAt", header: "Oldest", render: v => new Date(v as string).toLocaleDateString() },
+  {
+    key: "estimatedCost",
+    header: "Est. cost",
+    align: "right",
+    render: v => (v ? `$${Number(v).toFixed(2)}` : "no cost history"),
+  },
+];
+
+export function PendingCostScreen() {
+  const [locationId, setLocationId] = useState("");
+  const [report, setReport] = useState<PendingCostReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (locationId) params.append("locationId", locationId);
+
+    setLoading(true);
+    setError(null);
+    apiFetch<{ data: PendingCostReport }>(`/inventory/reports/pending-cost?${params}`)
+      .then(body => setReport(body.data))
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load pending-cost report"))
+      .finally(() => setLoading(false));
+  }, [locationId]);
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <h1 className="text-xl font-semibold text-(--color-ink)">Pending Cost</h1>
+        <div className="w-64">
+          <LocationPicker value={locationId} onChange={setLocationId} allowAll />
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-(--color-ink-tertiary)">
+        Units sold while the system showed them out of stock, at locations with pending-cost mode on. Their cost is
+        filled in from the next receiving or positive adjustment of the product; until then COGS for those sales is
+        understated by roughly the estimate below.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-4 py-2 text-sm text-(--color-destructive)">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div className="mb-6 grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <StatTile label="Open positions" value={String(report.summary.openPositions)} />
+          <StatTile label="Units owed" value={String(report.summary.units)} />
+          <StatTile label="Products" value={String(report.summary.productsAffected)} />
+          <StatTile label="Est. cost" value={`$${Number(report.summary.estimatedCost).toFixed(2)}`} />
+        </div>
+      )}
+
+      <Table
+        data={report?.byProduct ?? []}
+        columns={columns}
+        keyExtractor={p => `${p.productId}:${p.locationId}`}
+        emptyMessage={loading ? "Loading…" : "No sales waiting on cost."}
+      />
+    </div>
+  );
+}
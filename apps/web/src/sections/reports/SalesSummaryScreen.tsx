@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { Table, type Column } from "../../components/ui/Table";
+import { LocationPicker } from "../../components/ui/LocationPicker";
+import { apiFetch, ApiError } from "../../lib/apiFetch";
+import type { SalesDiscountLine, SalesPaymentMethod, SalesSummaryReport } from "../../lib/reports/types";
+
+const money = (v: unknown) => `$${Number(v).toFixed(2)}`;
+
+// Square TenderType values as cashiers know them
+const TENDER_LABELS: Record<string, string> = {
+  CARD: "Card",
+  CASH: "Cash",
+  BANK_ACCOUNT: "Transfer",
+  SQUARE_GIFT_CARD: "Gift card",
+  WALLET: "Wallet",
+  BUY_NOW_PAY_LATER: "Pay later",
+  NO_SALE: "No sale",
+  OTHER: "Other",
+};
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4">
+      <div className="text-xs font-semibold uppercase tracking-wide text-(--color-ink-tertiary)">{label}</div>
+      <div className="tabular mt-1 text-2xl font-semibold text-(--color-ink)">{value}</div>
+    </div>
+  );
+}
+
+const paymentColumns: Column<SalesPaymentMethod>[] = [
+  { key: "type", header: "Method", render: v => TENDER_LABELS[v as string] ?? (v as string) },
+  { key: "tenders", header: "Tenders", align: "right" },
+  { key: "amount", header: "Amount", align: "right", render: money },
+  { key: "tips", header: "Tips", align: "right", render: money },
+];
+
+const discountColumns: Column<SalesDiscountLine>[] = [
+  { key: "name", header: "Discount" },
+  {
+    key: "percentage",
+    header: "Rate",
+    render: (v, d) => (v ? `${v}%` : d.type?.includes("AMOUNT") ? "Fixed amount" : "—"),
+  },
+  { key: "lines", header: "Lines", align: "right" },
+  { key: "amount", header: "Given", align: "right", render: money },
+];
+
+export function SalesSummaryScreen() {
+  const [locationId, setLocationId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [report, setReport] = useState<SalesSummaryReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (locationId) params.append("locationId", locationId);
+    if (startDate) params.append("startDate", startDate);
+    if (endDate) params.append("endDate", endDate);
+
+    setLoading(true);
+    setError(null);
+    apiFetch<{ data: SalesSummaryReport }>(`/inventory/reports/sales-summary?${params}`)
+      .then(body => setReport(body.data))
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load sales summary"))
+      .finally(() => setLoading(false));
+  }, [locationId, startDate, endDate]);
+
+  const s = report?.summary;
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <h1 className="text-xl font-semibold text-(--color-ink)">Sales Summary</h1>
+        <div className="flex items-end gap-3">
+          <label className="text-sm text-(--color-ink-secondary)">
+            <span className="mb-1 block font-medium">From</span>
+            <input
+              type="date"
+              value={startDate}
+              onChange={e => setStartDate(e.target.value)}
+              className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+            />
+          </label>
+          <label className="text-sm text-(--color-ink-secondary)">
+            <span className="mb-1 block font-medium">To</span>
+            <input
+              type="date"
+              value={endDate}
+              onChange={e => setEndDate(e.target.value)}
+              className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+            />
+          </label>
+          <div className="w-64">
+            <LocationPicker value={locationId} onChange={setLocationId} allowAll />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-4 py-2 text-sm text-(--color-destructive)">
+          {error}
+        </div>
+      )}
+
+      {s && (
+        <>
+          <div className="mb-4 grid grid-cols-2 gap-4 sm:grid-cols-4">
+            <StatTile label="Gross sales" value={money(s.grossSales)} />
+            <StatTile label="Discounts" value={money(s.discounts)} />
+            <StatTile label="Net sales" value={money(s.netSales)} />
+            <StatTile label="Taxes" value={money(s.taxes)} />
+            <StatTile label="Refunds" value={money(s.refunds)} />
+            <StatTile label="Net revenue" value={money(s.netRevenue)} />
+            <StatTile label="Tips" value={money(s.tips)} />
+            <StatTile label="Total collected" value={money(s.totalCollected)} />
+          </div>
+          {s.salesWithoutBreakdown > 0 && (
+            <p className="mb-4 text-sm text-(--color-ink-tertiary)">
+              {s.salesWithoutBreakdown} of {s.salesCount} sales were processed before discounts and taxes were captured;
+              they count at their recorded revenue in both gross and net sales.
+            </p>
+          )}
+        </>
+      )}
+
+      <h2 className="mb-2 text-sm font-semibold text-(--color-ink)">By payment method</h2>
+      <div className="mb-6">
+        <Table
+          data={report?.byPaymentMethod ?? []}
+          columns={paymentColumns}
+          keyExtractor={p => p.type}
+          emptyMessage={loading ? "Loading…" : "No tenders recorded for this period."}
+        />
+      </div>
+
+      <h2 className="mb-2 text-sm font-semibold text-(--color-ink)">Discounts given</h2>
+      <Table
+        data={report?.byDiscount ?? []}
+        columns={discountColumns}
+        keyExtractor={d => `${d.name}:${d.type}:${d.percentage}`}
+        emptyMessage={loading ? "Loading…" : "No discounts in this period."}
+      />
+    </div>
+  );
+}
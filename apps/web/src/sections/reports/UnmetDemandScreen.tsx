@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { Table, type Column } from "../../components/ui/Table";
+import { LocationPicker } from "../../components/ui/LocationPicker";
+import { apiFetch, ApiError } from "../../lib/apiFetch";
+import type { UnmetDemandQuery, UnmetDemandReport } from "../../lib/reports/types";
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border border-(--color-border-standard) bg-(--color-surface-raised) p-4">
+      <div className="text-xs font-semibold uppercase tracking-wide text-(--color-ink-tertiary)">{label}</div>
+      <div className="tabular mt-1 text-2xl font-semibold text-(--color-ink)">{value}</div>
+    </div>
+  );
+}
+
+const columns: Column<UnmetDemandQuery>[] = [
+  { key: "query", header: "Asked for" },
+  { key: "total", header: "Times", align: "right" },
+  {
+    key: "reasons",
+    header: "Why",
+    render: (_v, q) =>
+      [
+        q.reasons.NO_RESULTS > 0 && `${q.reasons.NO_RESULTS} not in catalog`,
+        q.reasons.OUT_OF_STOCK > 0 && `${q.reasons.OUT_OF_STOCK} out of stock`,
+        q.reasons.REQUESTED > 0 && `${q.reasons.REQUESTED} asked at counter`,
+      ]
+        .filter(Boolean)
+        .join(" · "),
+  },
+  {
+    key: "locations",
+    header: "Locations",
+    render: (_v, q) => q.locations.map(l => `${l.locationName} (${l.count})`).join(", "),
+  },
+  {
+    key: "candidates",
+    header: "Candidates",
+    render: (_v, q) =>
+      q.newProductDraft ? (
+        <span className="text-(--color-warning)">New product: “{q.newProductDraft.name}”</span>
+      ) : (
+        q.candidates.map(c => `${c.name}${c.inStock ? "" : " (out)"}`).join(", ")
+      ),
+  },
+  { key: "lastSeenAt", header: "Last asked", render: v => new Date(v as string).toLocaleDateString() },
+];
+
+export function UnmetDemandScreen() {
+  const [locationId, setLocationId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [report, setReport] = useState<UnmetDemandReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (locationId) params.append("locationId", locationId);
+    if (startDate) params.append("startDate", startDate);
+    if (endDate) params.append("endDate", endDate);
+
+    setLoading(true);
+    setError(null);
+    apiFetch<{ data: UnmetDemandReport }>(`/demand-signals/report?${params}`)
+      .then(body => setReport(body.data))
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Failed to load unmet demand"))
+      .finally(() => setLoading(false));
+  }, [locationId, startDate, endDate]);
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <h1 className="text-xl font-semibold text-(--color-ink)">Unmet Demand</h1>
+        <div className="flex items-end gap-3">
+          <label className="text-sm text-(--color-ink-secondary)">
+            <span className="mb-1 block font-medium">From</span>
+            <input
+              type="date"
+              value={startDate}
+              onChange={e => setStartDate(e.target.value)}
+              className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+            />
+          </label>
+          <label className="text-sm text-(--color-ink-secondary)">
+            <span className="mb-1 block font-medium">To</span>
+            <input
+              type="date"
+              value={endDate}
+              onChange={e => setEndDate(e.target.value)}
+              className="rounded-sm border border-(--color-border-standard) bg-(--color-surface-inset) px-3 py-1.5 text-sm text-(--color-ink)"
+            />
+          </label>
+          <div className="w-64">
+            <LocationPicker value={locationId} onChange={setLocationId} allowAll />
+          </div>
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-(--color-ink-tertiary)">
+        Catalog searches that found nothing, or nothing in stock, plus what cashiers marked as asked for at the counter.
+        Candidates are catalog products that look like the query; a query with none is a product we don't carry yet.
+      </p>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-(--color-destructive) bg-(--color-destructive-bg) px-4 py-2 text-sm text-(--color-destructive)">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div className="mb-6 grid grid-cols-3 gap-4">
+          <StatTile label="Queries" value={String(report.summary.queries)} />
+          <StatTile label="Times asked" value={String(report.summary.signals)} />
+          <StatTile label="Not in catalog" value={String(report.summary.withoutCandidates)} />
+        </div>
+      )}
+
+      <Table
+        data={report?.queries ?? []}
+        columns={columns}
+        keyExtractor={q => q.normalizedQuery}
+        emptyMessage={loading ? "Loading…" : "No unmet demand recorded."}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { paymentIdForOrder, summarizeBackfill, type BackfillOutcome } from './backfill';
+
+describe('paymentIdForOrder', () => {
+  it('keys the order on its tender payment id', () => {
+    expect(paymentIdForOrder({ tenders: [{ paymentId: 'PAY1' }] })).toBe('PAY1');
+  });
+
+  it('uses the first tender that carries a payment on split-tender orders', () => {
+    expect(paymentIdForOrder({ tenders: [{ paymentId: null }, { paymentId: 'PAY2' }, { paymentId: 'PAY3' }] })).toBe('PAY2');
+  });
+
+  it('returns null when the order has no payment', () => {
+    expect(paymentIdForOrder({})).toBeNull();
+    expect(paymentIdForOrder({ tenders: [] })).toBeNull();
+  });
+});
+
+describe('summarizeBackfill', () => {
+  it('counts outcomes by status', () => {
+    const outcome = (status: BackfillOutcome['status']): BackfillOutcome => ({
+      orderId: 'O',
+      paymentId: 'P',
+      closedAt: null,
+      status,
+    });
+
+    expect(
+      summarizeBackfill([outcome('created'), outcome('created'), outcome('already_present'), outcome('failed')]),
+    ).toEqual({ total: 4, created: 2, alreadyPresent: 1, voided: 0, wouldCreate: 0, failed: 1 });
+    expect(summarizeBackfill([outcome('voided'), outcome('created')])).toMatchObject({ total: 2, created: 1, voided: 1 });
+    expect(summarizeBackfill([outcome('would_create')])).toEqual({
+      total: 1,
+      created: 0,
+      alreadyPresent: 0,
+      voided: 0,
+      wouldCreate: 1,
+      failed: 0,
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Pure helpers for the historical sales backfill (see backfill.worker.ts).
+ * Kept free of Prisma/Square so the keying and reporting rules are testable.
+ */
+
+export type BackfillOutcomeStatus = 'created' | 'already_present' | 'voided' | 'would_create' | 'failed';
+
+export interface BackfillOutcome {
+  orderId: string;
+  /** Square payment id — the Sale.squareId the webhook path would have written. */
+  paymentId: string | null;
+  closedAt: string | null;
+  status: BackfillOutcomeStatus;
+  /** Only set for failed orders: the worker error class and its message. */
+  errorName?: string;
+  reason?: string;
+}
+
+export interface BackfillSummary {
+  total: number;
+  created: number;
+  alreadyPresent: number;
+  voided: number; // Canceled or failed in Square before it was booked
+  wouldCreate: number;
+  failed: number;
+}
+
+interface OrderTenderLike {
+  paymentId?: string | null;
+}
+
+/**
+ * The payment a sale is keyed on. The webhook path creates one Sale per
+ * payment.created event with squareId = payment id, so the backfill must pick
+ * the same id or it would duplicate sales already recorded live. Split-tender
+ * orders carry several payments; the first one is used, matching the payment
+ * Square reports first for the order.
+ */
+export function paymentIdForOrder(order: { tenders?: OrderTenderLike[] | null }): string | null {
+  for (const tender of order.tenders ?? []) {
+    if (tender.paymentId) return tender.paymentId;
+  }
+  return null;
+}
+
+export function summarizeBackfill(outcomes: BackfillOutcome[]): BackfillSummary {
+  const summary: BackfillSummary = {
+    total: outcomes.length,
+    created: 0,
+    alreadyPresent: 0,
+    voided: 0,
+    wouldCreate: 0,
+    failed: 0,
+  };
+  for (const outcome of outcomes) {
+    switch (outcome.status) {
+      case 'created':
+        summary.created++;
+        break;
+      case 'already_present':
+        summary.alreadyPresent++;
+        break;
+      case 'voided':
+        summary.voided++;
+        break;
+      case 'would_create':
+        summary.wouldCreate++;
+        break;
+      case 'failed':
+        summary.failed++;
+        break;
+    }
+  }
+  return summary;
+}
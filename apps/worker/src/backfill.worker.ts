@@ -0,0 +1,188 @@
+import { Job } from 'bullmq';
+import { debugLog, getPrisma, getSquareClient, processSaleJob } from './sale.worker';
+import { describeJobError } from './dead-letter';
+import {
+  paymentIdForOrder,
+  summarizeBackfill,
+  type BackfillOutcome,
+  type BackfillSummary,
+} from './backfill';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface BackfillJobData {
+  squareLocationId: string;
+  startAt: string;
+  endAt: string;
+  dryRun?: boolean;
+}
+
+export interface BackfillProgress {
+  phase: 'searching' | 'processing' | 'done';
+  ordersFound: number;
+  processed: number;
+  summary: BackfillSummary;
+}
+
+export interface BackfillReport {
+  squareLocationId: string;
+  startAt: string;
+  endAt: string;
+  dryRun: boolean;
+  summary: BackfillSummary;
+  outcomes: BackfillOutcome[];
+}
+
+// Square caps Orders search pages at 1000; smaller pages keep progress moving.
+const SEARCH_PAGE_SIZE = 500;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Every COMPLETED order the location closed inside the range, oldest first.
+ * Closing order matters: sales are replayed in that order so FIFO consumes
+ * batches the way it would have had the webhooks arrived live.
+ */
+async function searchCompletedOrders(
+  squareLocationId: string,
+  startAt: string,
+  endAt: string,
+  onPage: (found: number) => Promise<void>,
+): Promise<any[]> {
+  const client = getSquareClient();
+  const orders: any[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await client.orders.search({
+      locationIds: [squareLocationId],
+      cursor,
+      limit: SEARCH_PAGE_SIZE,
+      query: {
+        filter: {
+          stateFilter: { states: ['COMPLETED'] },
+          dateTimeFilter: { closedAt: { startAt, endAt } },
+        },
+        // Square requires the sort field to match the date filter field
+        sort: { sortField: 'CLOSED_AT', sortOrder: 'ASC' },
+      },
+    });
+
+    orders.push(...(response.orders || []));
+    cursor = response.cursor || undefined;
+    await onPage(orders.length);
+  } while (cursor);
+
+  return orders;
+}
+
+async function backfillOrder(
+  order: any,
+  squareLocationId: string,
+  dryRun: boolean,
+  jobId: string,
+): Promise<BackfillOutcome> {
+  const paymentId = paymentIdForOrder(order);
+  const base = { orderId: order.id, paymentId, closedAt: order.closedAt ?? null };
+
+  if (!paymentId) {
+    return { ...base, status: 'failed', errorName: 'SaleValidationError', reason: 'Order has no tender with a payment id' };
+  }
+
+  const existing = await getPrisma().sale.findUnique({
+    where: { squareId: paymentId },
+    select: { id: true },
+  });
+  if (existing) {
+    return { ...base, status: 'already_present' };
+  }
+  const voided = await getPrisma().saleVoid.findUnique({
+    where: { squarePaymentId: paymentId },
+    select: { id: true },
+  });
+  if (voided) {
+    return { ...base, status: 'voided' };
+  }
+  if (dryRun) {
+    return { ...base, status: 'would_create' };
+  }
+
+  try {
+    // Same shape as a payment.created webhook, with the order embedded so
+    // processSaleJob doesn't fetch again what Orders search just returned.
+    const status = await processSaleJob({
+      id: `${jobId}:${paymentId}`,
+      data: {
+        squareEventId: null,
+        order,
+        payload: {
+          object: {
+            payment: {
+              id: paymentId,
+              location_id: order.locationId || squareLocationId,
+              order_id: order.id,
+              created_at: order.closedAt || order.createdAt,
+            },
+          },
+        },
+      },
+    });
+    return { ...base, status };
+  } catch (error) {
+    const described = describeJobError(error);
+    return { ...base, status: 'failed', errorName: described.errorName, reason: described.errorMessage };
+  }
+}
+
+// ============================================================================
+// Main Worker Function
+// ============================================================================
+
+/**
+ * Rebuild Sale/SaleItem history for a location and date range from Square
+ * Orders search — for downtime or a stretch with webhooks paused. Idempotent
+ * on the payment id like the webhook path, so re-running a range (or
+ * overlapping one the webhooks already covered) only fills the gaps. A
+ * failing order is reported and skipped rather than failing the whole run.
+ */
+export async function processBackfillJob(job: Job): Promise<BackfillReport> {
+  const { squareLocationId, startAt, endAt, dryRun = false } = (job.data || {}) as BackfillJobData;
+  if (!squareLocationId || !startAt || !endAt) {
+    throw new Error('Backfill job requires squareLocationId, startAt and endAt');
+  }
+
+  const jobId = String(job.id);
+  const outcomes: BackfillOutcome[] = [];
+
+  console.log(`[BACKFILL] ${dryRun ? 'Dry run' : 'Run'} ${jobId} for ${squareLocationId}: ${startAt} → ${endAt}`);
+
+  const orders = await searchCompletedOrders(squareLocationId, startAt, endAt, async (found) => {
+    const progress: BackfillProgress = { phase: 'searching', ordersFound: found, processed: 0, summary: summarizeBackfill([]) };
+    await job.updateProgress(progress);
+  });
+
+  for (const order of orders) {
+    const outcome = await backfillOrder(order, squareLocationId, dryRun, jobId);
+    outcomes.push(outcome);
+    debugLog(`[BACKFILL] Order ${outcome.orderId}: ${outcome.status}`, outcome.reason || '');
+
+    const progress: BackfillProgress = {
+      phase: 'processing',
+      ordersFound: orders.length,
+      processed: outcomes.length,
+      summary: summarizeBackfill(outcomes),
+    };
+    await job.updateProgress(progress);
+  }
+
+  const summary = summarizeBackfill(outcomes);
+  await job.updateProgress({ phase: 'done', ordersFound: orders.length, processed: outcomes.length, summary });
+
+  console.log(`[BACKFILL] ${jobId} finished:`, summary);
+
+  return { squareLocationId, startAt, endAt, dryRun, summary, outcomes };
+}
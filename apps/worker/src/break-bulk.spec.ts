@@ -0,0 +1,39 @@
+import { breakBulkSquareChanges, cajasToOpen, costPerLooseUnit, looseUnitsFromCajas } from './break-bulk';
+
+describe('cajasToOpen', () => {
+  it('opens just enough whole cajas to cover the shortfall', () => {
+    expect(cajasToOpen(1, 20, 5)).toBe(1);
+    expect(cajasToOpen(20, 20, 5)).toBe(1);
+    expect(cajasToOpen(21, 20, 5)).toBe(2);
+  });
+
+  it('never opens more cajas than are on hand', () => {
+    expect(cajasToOpen(100, 20, 2)).toBe(2);
+  });
+
+  it('opens nothing without a shortfall, a cantidad or stock', () => {
+    expect(cajasToOpen(0, 20, 5)).toBe(0);
+    expect(cajasToOpen(3, 0, 5)).toBe(0);
+    expect(cajasToOpen(3, 20, 0)).toBe(0);
+  });
+});
+
+describe('costPerLooseUnit', () => {
+  it('spreads the removed caja cost over the loose units', () => {
+    const looseUnits = looseUnitsFromCajas(2, 10);
+    expect(looseUnits).toBe(20);
+    expect(costPerLooseUnit(90, looseUnits)).toBe(4.5);
+    expect(costPerLooseUnit(90, 0)).toBe(0);
+  });
+});
+
+describe('breakBulkSquareChanges', () => {
+  it('takes the cajas out of stock and puts the loose units in, like a manual break', () => {
+    expect(
+      breakBulkSquareChanges({ locationId: 'centro', cajaProductId: 'caja', cajas: 2, sueltoProductId: 'suelto', looseUnits: 20 }),
+    ).toEqual([
+      { type: 'ADJUSTMENT', locationId: 'centro', productId: 'caja', quantity: 2, fromState: 'IN_STOCK', toState: 'WASTE' },
+      { type: 'ADJUSTMENT', locationId: 'centro', productId: 'suelto', quantity: 20, fromState: 'NONE', toState: 'IN_STOCK' },
+    ]);
+  });
+});
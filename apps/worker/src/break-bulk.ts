@@ -0,0 +1,59 @@
+/**
+ * Pure break-bulk math for the sale worker's automatic break-bulk — no DB
+ * access. looseUnitsFromCajas and costPerLooseUnit mirror the manual path
+ * (apps/api/src/inventory/break-bulk.ts); keep both in step so a caja opened
+ * at the counter and one opened by a sale carry the same cost basis.
+ */
+
+export function looseUnitsFromCajas(cajaQuantity: number, cantidad: number): number {
+  return cajaQuantity * cantidad;
+}
+
+/** Cost per loose unit from the total cost actually removed from the caja batches. */
+export function costPerLooseUnit(totalCajaCostRemoved: number, looseUnits: number): number {
+  if (looseUnits <= 0) return 0;
+  return totalCajaCostRemoved / looseUnits;
+}
+
+/**
+ * Whole cajas to open so a sale short `shortfall` loose units is covered,
+ * capped at the cajas on hand (the rest of the shortfall is left to the
+ * usual insufficient-stock or pending-cost handling).
+ */
+export function cajasToOpen(shortfall: number, cantidad: number, cajasOnHand: number): number {
+  if (shortfall <= 0 || cantidad <= 0 || cajasOnHand <= 0) return 0;
+  return Math.min(Math.ceil(shortfall / cantidad), cajasOnHand);
+}
+
+/**
+ * Square side of a caja opening, as SquareSyncOutbox changes in our own ids:
+ * the cajas leave IN_STOCK and the loose units arrive from NONE. Same shape
+ * and states the manual path queues (apps/api/src/inventory/square-outbox.ts,
+ * adjustmentChange); the sale worker sends the row after the sale commits.
+ */
+export function breakBulkSquareChanges(opening: {
+  locationId: string;
+  cajaProductId: string;
+  cajas: number;
+  sueltoProductId: string;
+  looseUnits: number;
+}) {
+  return [
+    {
+      type: 'ADJUSTMENT' as const,
+      locationId: opening.locationId,
+      productId: opening.cajaProductId,
+      quantity: opening.cajas,
+      fromState: 'IN_STOCK' as const,
+      toState: 'WASTE' as const,
+    },
+    {
+      type: 'ADJUSTMENT' as const,
+      locationId: opening.locationId,
+      productId: opening.sueltoProductId,
+      quantity: opening.looseUnits,
+      fromState: 'NONE' as const,
+      toState: 'IN_STOCK' as const,
+    },
+  ];
+}
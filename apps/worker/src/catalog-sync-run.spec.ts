@@ -0,0 +1,57 @@
+import {
+  CATALOG_SYNC_STALE_MS,
+  DEFAULT_CATALOG_SYNC_CRON,
+  isStaleRun,
+  resolveCatalogSyncSchedule,
+  runFieldsFromResult,
+} from './catalog-sync-run';
+
+describe('resolveCatalogSyncSchedule', () => {
+  it('defaults to the nightly schedule', () => {
+    expect(resolveCatalogSyncSchedule({})).toEqual({ pattern: DEFAULT_CATALOG_SYNC_CRON });
+  });
+
+  it('uses the configured cron and timezone', () => {
+    expect(
+      resolveCatalogSyncSchedule({ CATALOG_SYNC_CRON: '*/30 * * * *', CATALOG_SYNC_TZ: 'America/Mexico_City' }),
+    ).toEqual({ pattern: '*/30 * * * *', tz: 'America/Mexico_City' });
+  });
+
+  it('can be turned off', () => {
+    expect(resolveCatalogSyncSchedule({ CATALOG_SYNC_CRON: 'off' })).toBeNull();
+    expect(resolveCatalogSyncSchedule({ CATALOG_SYNC_CRON: 'Disabled' })).toBeNull();
+  });
+});
+
+describe('isStaleRun', () => {
+  it('only treats runs past the stale window as abandoned', () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+    expect(isStaleRun(new Date(now.getTime() - 60_000), now)).toBe(false);
+    expect(isStaleRun(new Date(now.getTime() - CATALOG_SYNC_STALE_MS - 1), now)).toBe(true);
+  });
+});
+
+describe('runFieldsFromResult', () => {
+  const base = {
+    totalVariationsFound: 10,
+    variationsProcessed: 10,
+    productsCreated: 2,
+    mappingsCreated: 3,
+    mappingsSkipped: 7,
+  };
+
+  it('marks a clean run SUCCEEDED', () => {
+    const fields = runFieldsFromResult({ ...base, errors: [] });
+    expect(fields.status).toBe('SUCCEEDED');
+    expect(fields.errorCount).toBe(0);
+    expect(fields.mappingsCreated).toBe(3);
+  });
+
+  it('marks a run with per-variation errors PARTIAL and keeps them', () => {
+    const error = { variationId: 'V1', variationName: 'Aspirina', error: 'boom', skipped: true };
+    const fields = runFieldsFromResult({ ...base, errors: [error] });
+    expect(fields.status).toBe('PARTIAL');
+    expect(fields.errorCount).toBe(1);
+    expect(fields.errors).toEqual([error]);
+  });
+});
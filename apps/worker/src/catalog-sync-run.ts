@@ -0,0 +1,53 @@
+import type { CatalogSyncResult } from './catalog.sync';
+
+/**
+ * Pure helpers for catalog sync runs — no DB or Redis access.
+ */
+
+export const DEFAULT_CATALOG_SYNC_CRON = '0 4 * * *'; // Nightly, before the pharmacies open
+
+/**
+ * A RUNNING row older than this is a run whose process died (deploy,
+ * crash) without finishing; it no longer blocks new runs. A full catalog
+ * sync takes minutes, so the margin is generous.
+ */
+export const CATALOG_SYNC_STALE_MS = 2 * 60 * 60 * 1000;
+
+export type CatalogSyncRunStatus = 'RUNNING' | 'SUCCEEDED' | 'PARTIAL' | 'FAILED';
+
+export interface CatalogSyncSchedule {
+  pattern: string;
+  tz?: string;
+}
+
+/**
+ * CATALOG_SYNC_CRON sets the schedule (standard 5-field cron, optionally
+ * CATALOG_SYNC_TZ for its timezone); "off" turns scheduled syncs off and
+ * leaves only the manual button.
+ */
+export function resolveCatalogSyncSchedule(env: NodeJS.ProcessEnv): CatalogSyncSchedule | null {
+  const raw = env.CATALOG_SYNC_CRON?.trim();
+  if (raw && ['off', 'false', 'disabled', 'none'].includes(raw.toLowerCase())) {
+    return null;
+  }
+  const tz = env.CATALOG_SYNC_TZ?.trim();
+  return { pattern: raw || DEFAULT_CATALOG_SYNC_CRON, ...(tz && { tz }) };
+}
+
+export function isStaleRun(startedAt: Date, now: Date = new Date()): boolean {
+  return now.getTime() - startedAt.getTime() > CATALOG_SYNC_STALE_MS;
+}
+
+/** Columns a finished run stores from its CatalogSyncResult. */
+export function runFieldsFromResult(result: CatalogSyncResult) {
+  return {
+    status: (result.errors.length > 0 ? 'PARTIAL' : 'SUCCEEDED') as CatalogSyncRunStatus,
+    totalVariationsFound: result.totalVariationsFound,
+    variationsProcessed: result.variationsProcessed,
+    productsCreated: result.productsCreated,
+    mappingsCreated: result.mappingsCreated,
+    mappingsSkipped: result.mappingsSkipped,
+    errorCount: result.errors.length,
+    errors: result.errors.map((e) => ({ ...e })),
+  };
+}
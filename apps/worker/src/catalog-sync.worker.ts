@@ -0,0 +1,79 @@
+import { Job } from 'bullmq';
+import { syncSquareCatalog, type CatalogSyncResult } from './catalog.sync';
+import { getPrisma } from './sale.worker';
+import { CATALOG_SYNC_STALE_MS, runFieldsFromResult } from './catalog-sync-run';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CatalogSyncJobData {
+  locationId?: string | null; // Square location_id; null syncs global mappings
+  forceResync?: boolean;
+}
+
+// ============================================================================
+// Main Worker Function
+// ============================================================================
+
+/**
+ * Run one Square catalog sync and keep its result as a CatalogSyncRun.
+ * Queued by the catalog queue's job scheduler (see worker.config.ts). A sync
+ * already RUNNING — from the manual button or a slow previous tick — makes
+ * this tick a no-op rather than a second concurrent sync.
+ */
+export async function processCatalogSyncJob(
+  job: Pick<Job, 'id' | 'data'>,
+): Promise<CatalogSyncResult | { skipped: true; runningRunId: string }> {
+  const prisma = getPrisma();
+  const data: CatalogSyncJobData = job.data || {};
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - CATALOG_SYNC_STALE_MS);
+
+  const running = await prisma.catalogSyncRun.findFirst({
+    where: { status: 'RUNNING', startedAt: { gt: staleBefore } },
+    orderBy: { startedAt: 'desc' },
+  });
+  if (running) {
+    console.log(`[CATALOG_SYNC] Run ${running.id} (${running.trigger}) still in progress, skipping job ${job.id}`);
+    return { skipped: true, runningRunId: running.id };
+  }
+
+  // Runs left RUNNING by a process that died never get a result otherwise.
+  await prisma.catalogSyncRun.updateMany({
+    where: { status: 'RUNNING', startedAt: { lte: staleBefore } },
+    data: { status: 'FAILED', errorMessage: 'Run did not finish (process restarted)', finishedAt: now },
+  });
+
+  const run = await prisma.catalogSyncRun.create({
+    data: {
+      trigger: 'SCHEDULED',
+      locationId: data.locationId ?? null,
+      forceResync: data.forceResync ?? false,
+      jobId: job.id ?? null,
+    },
+  });
+
+  try {
+    const result = await syncSquareCatalog(data.locationId ?? null, data.forceResync ?? false, prisma);
+
+    await prisma.catalogSyncRun.update({
+      where: { id: run.id },
+      data: { ...runFieldsFromResult(result), finishedAt: new Date() },
+    });
+
+    console.log(
+      `[CATALOG_SYNC] Run ${run.id} finished: ${result.variationsProcessed}/${result.totalVariationsFound} variations, ` +
+        `${result.productsCreated} products and ${result.mappingsCreated} mappings created, ${result.errors.length} error(s)`,
+    );
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await prisma.catalogSyncRun.update({
+      where: { id: run.id },
+      data: { status: 'FAILED', errorMessage: message, finishedAt: new Date() },
+    });
+    console.error(`[CATALOG_SYNC] Run ${run.id} failed:`, message);
+    throw error;
+  }
+}
@@ -0,0 +1,50 @@
+import { describeJobError, isFinalAttempt } from './dead-letter';
+import { InsufficientInventoryError, SaleValidationError, DatabaseTransactionError } from './errors';
+
+describe('isFinalAttempt', () => {
+  it('is false while BullMQ still has retries left', () => {
+    expect(isFinalAttempt({ attemptsMade: 2, opts: { attempts: 5 } })).toBe(false);
+  });
+
+  it('is true once the failed attempt was the last allowed one', () => {
+    expect(isFinalAttempt({ attemptsMade: 5, opts: { attempts: 5 } })).toBe(true);
+  });
+
+  it('treats a job without an attempts option as single-shot', () => {
+    expect(isFinalAttempt({ attemptsMade: 1, opts: {} })).toBe(true);
+  });
+});
+
+describe('describeJobError', () => {
+  it('keeps the error class and the fields a manager needs to fix stock', () => {
+    const described = describeJobError(new InsufficientInventoryError('prod-1', 'loc-1', 5, 2, 3));
+    expect(described.errorName).toBe('InsufficientInventoryError');
+    expect(described.errorDetails).toEqual({
+      productId: 'prod-1',
+      locationId: 'loc-1',
+      requested: 5,
+      available: 2,
+      shortage: 3,
+    });
+    expect(described.errorStack).toContain('InsufficientInventoryError');
+  });
+
+  it('keeps SaleValidationError context and stringifies BigInt values', () => {
+    const described = describeJobError(new SaleValidationError('Unmapped', { variationId: 'VAR1', version: BigInt(7) }));
+    expect(described.errorDetails).toEqual({ context: { variationId: 'VAR1', version: '7' } });
+  });
+
+  it('reduces a wrapped original error to its name and message', () => {
+    const described = describeJobError(new DatabaseTransactionError('boom', new Error('connection reset')));
+    expect(described.errorDetails).toEqual({ originalError: { name: 'Error', message: 'connection reset' } });
+  });
+
+  it('handles non-Error throwables', () => {
+    expect(describeJobError('plain string')).toEqual({
+      errorName: 'UnknownError',
+      errorMessage: 'plain string',
+      errorStack: null,
+      errorDetails: null,
+    });
+  });
+});
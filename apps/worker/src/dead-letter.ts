@@ -0,0 +1,115 @@
+import { Job } from 'bullmq';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from './sale.worker';
+
+/**
+ * Dead-letter persistence for jobs that exhausted their retries. Called from
+ * WorkerManager's failed/completed events — never from inside a processor,
+ * so a broken DB connection here can't change a job's own outcome.
+ */
+
+export interface DescribedJobError {
+  errorName: string;
+  errorMessage: string;
+  errorStack: string | null;
+  errorDetails: Prisma.JsonObject | null;
+}
+
+/**
+ * BullMQ emits 'failed' on every attempt; only the last one is terminal.
+ * attemptsMade already counts the attempt that just failed.
+ */
+export function isFinalAttempt(job: Pick<Job, 'attemptsMade' | 'opts'>): boolean {
+  return job.attemptsMade >= (job.opts.attempts ?? 1);
+}
+
+/**
+ * Flatten an error into columns. The custom errors in errors.ts carry their
+ * diagnosis as own properties (productId, shortage, squareVariationId,
+ * context) — those are what a manager needs to fix the cause, so they're
+ * kept as JSON alongside the message. BigInts (Square money/versions) are
+ * stringified so the result is always JSON-safe.
+ */
+export function describeJobError(err: unknown): DescribedJobError {
+  if (!(err instanceof Error)) {
+    return { errorName: 'UnknownError', errorMessage: String(err), errorStack: null, errorDetails: null };
+  }
+
+  const details: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(err)) {
+    if (key === 'name' || key === 'message' || key === 'stack') continue;
+    details[key] = value instanceof Error ? { name: value.name, message: value.message } : value;
+  }
+
+  const errorDetails = Object.keys(details).length > 0
+    ? JSON.parse(JSON.stringify(details, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)))
+    : null;
+
+  return {
+    errorName: err.name || err.constructor.name,
+    errorMessage: err.message,
+    errorStack: err.stack ?? null,
+    errorDetails,
+  };
+}
+
+/**
+ * Record a terminally failed job. A replay carries `deadLetterId` in its data
+ * and updates that row instead of creating a new one, so one webhook keeps a
+ * single dead-letter entry however many times it's retried.
+ */
+export async function recordDeadLetter(queueName: string, job: Job, err: unknown): Promise<void> {
+  const described = describeJobError(err);
+  const { deadLetterId, ...payload } = job.data || {};
+  const errorDetails = described.errorDetails ?? Prisma.DbNull;
+  const prisma = getPrisma();
+
+  if (deadLetterId) {
+    await prisma.deadLetterJob.update({
+      where: { id: deadLetterId },
+      data: {
+        ...described,
+        errorDetails,
+        attemptsMade: job.attemptsMade,
+        status: 'OPEN',
+        failureCount: { increment: 1 },
+        lastFailedAt: new Date(),
+      },
+    });
+    return;
+  }
+
+  const jobId = String(job.id);
+  await prisma.deadLetterJob.upsert({
+    where: { queueName_jobId: { queueName, jobId } },
+    create: {
+      queueName,
+      jobName: job.name,
+      jobId,
+      payload,
+      ...described,
+      errorDetails,
+      attemptsMade: job.attemptsMade,
+    },
+    update: {
+      payload,
+      ...described,
+      errorDetails,
+      attemptsMade: job.attemptsMade,
+      status: 'OPEN',
+      failureCount: { increment: 1 },
+      lastFailedAt: new Date(),
+    },
+  });
+}
+
+/** Mark a replayed job's dead-letter entry resolved once the replay succeeds. */
+export async function resolveDeadLetter(job: Job): Promise<void> {
+  const deadLetterId = job.data?.deadLetterId;
+  if (!deadLetterId) return;
+
+  await getPrisma().deadLetterJob.update({
+    where: { id: deadLetterId },
+    data: { status: 'RESOLVED', resolvedAt: new Date() },
+  });
+}
@@ -1,4 +1,4 @@
-import { consumeBatchesFifo, type FifoBatch } from './fifo';
+import { consumeBatchesFifo, orderBatchesForPolicy, resolveConsumptionPolicy, type FifoBatch } from './fifo';
 
 // Oldest-first: caller is responsible for the receivedAt-asc ordering, this
 // module just walks whatever order it's given.
@@ -63,3 +63,30 @@ describe('consumeBatchesFifo', () => {
     expect(result.remainingQuantity).toBe(5);
   });
 });
+
+describe('orderBatchesForPolicy', () => {
+  const early = { id: 'early', receivedAt: new Date('2026-01-01'), expiryDate: new Date('2027-06-01') };
+  const late = { id: 'late', receivedAt: new Date('2026-03-01'), expiryDate: new Date('2026-12-01') };
+  const undated = { id: 'undated', receivedAt: new Date('2025-12-01'), expiryDate: null };
+
+  it('FIFO orders by receivedAt regardless of expiry', () => {
+    expect(orderBatchesForPolicy([late, early, undated], 'FIFO').map((b) => b.id)).toEqual(['undated', 'early', 'late']);
+  });
+
+  it('FEFO sells the soonest-expiring lot first and undated batches last', () => {
+    expect(orderBatchesForPolicy([undated, early, late], 'FEFO').map((b) => b.id)).toEqual(['late', 'early', 'undated']);
+  });
+
+  it('FEFO falls back to receivedAt between lots with the same expiry', () => {
+    const sameExpiry = { ...early, id: 'same', receivedAt: new Date('2026-02-01') };
+    expect(orderBatchesForPolicy([sameExpiry, early], 'FEFO').map((b) => b.id)).toEqual(['early', 'same']);
+  });
+});
+
+describe('resolveConsumptionPolicy', () => {
+  it('prefers the product, then the nearest category that sets one, then FIFO', () => {
+    expect(resolveConsumptionPolicy('FIFO', ['FEFO'])).toBe('FIFO');
+    expect(resolveConsumptionPolicy(null, [null, 'FEFO'])).toBe('FEFO');
+    expect(resolveConsumptionPolicy(null, [null])).toBe('FIFO');
+  });
+});
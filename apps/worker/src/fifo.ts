@@ -1,9 +1,10 @@
-import { Prisma } from '@prisma/client';
+import { Prisma, type ConsumptionPolicy } from '@prisma/client';
 
 /**
  * Pure FIFO batch-walking logic — no DB access, extracted from
  * calculateFIFOCost so it's directly unit-testable. Batches must already be
- * ordered oldest-first (receivedAt asc) by the caller; this never reorders them.
+ * in consumption order (orderBatchesForPolicy) by the caller; the walk itself
+ * never reorders them.
  */
 
 export interface FifoBatch {
@@ -24,8 +25,46 @@ export interface FifoConsumptionResult {
   remainingQuantity: number;
 }
 
+export interface OrderableBatch {
+  receivedAt: Date;
+  expiryDate: Date | null; // Inventory.expiryDate
+}
+
+/**
+ * Effective policy: the product's own, else the nearest category up the
+ * hierarchy that sets one (categoryPolicies runs from the product's category
+ * to the root), else FIFO.
+ */
+export function resolveConsumptionPolicy(
+  productPolicy: ConsumptionPolicy | null,
+  categoryPolicies: (ConsumptionPolicy | null)[],
+): ConsumptionPolicy {
+  return productPolicy ?? categoryPolicies.find((p) => p !== null) ?? 'FIFO';
+}
+
+/**
+ * Sort batches into consumption order. FIFO: receivedAt asc. FEFO: soonest
+ * expiryDate first, undated batches after every dated one, receivedAt asc
+ * between equals.
+ */
+export function orderBatchesForPolicy<T extends OrderableBatch>(batches: T[], policy: ConsumptionPolicy): T[] {
+  return [...batches].sort((a, b) => compareBatchesForPolicy(a, b, policy));
+}
+
+export function compareBatchesForPolicy(a: OrderableBatch, b: OrderableBatch, policy: ConsumptionPolicy): number {
+  if (policy === 'FEFO') {
+    if (a.expiryDate && b.expiryDate) {
+      const byExpiry = a.expiryDate.getTime() - b.expiryDate.getTime();
+      if (byExpiry !== 0) return byExpiry;
+    } else if (a.expiryDate || b.expiryDate) {
+      return a.expiryDate ? -1 : 1;
+    }
+  }
+  return a.receivedAt.getTime() - b.receivedAt.getTime();
+}
+
 /**
- * Consume `quantityNeeded` units from `batches` oldest-first, splitting across
+ * Consume `quantityNeeded` units from `batches` in the given order, splitting across
  * batches as needed (e.g. a sale spanning two receiving lots at different costs).
  */
 export function consumeBatchesFifo(batches: FifoBatch[], quantityNeeded: number): FifoConsumptionResult {
@@ -0,0 +1,152 @@
+import { Job } from 'bullmq';
+import { SaleValidationError } from './errors';
+import { debugLog, getPrisma, getSquareClient } from './sale.worker';
+import { countHintsFromPayload, driftAction, type SquareCountHint } from './inventory-drift';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Current IN_STOCK count for one variation. The webhook's own quantity is
+ * already stale by the time the delayed job runs, so it is re-read.
+ */
+async function fetchSquareCount(hint: SquareCountHint): Promise<number> {
+  try {
+    const response = await getSquareClient().inventory.batchGetCounts({
+      catalogObjectIds: [hint.catalogObjectId],
+      locationIds: [hint.squareLocationId],
+      states: ['IN_STOCK'],
+    });
+    const counts: any[] = (response as any).data || [];
+    return counts.reduce((sum, count) => sum + (parseInt(count.quantity, 10) || 0), 0);
+  } catch (error) {
+    throw new SaleValidationError(
+      `Failed to fetch inventory count from Square: ${error instanceof Error ? error.message : String(error)}`,
+      { catalogObjectId: hint.catalogObjectId, squareLocationId: hint.squareLocationId },
+    );
+  }
+}
+
+/**
+ * FIFO on-hand as Square would count it: batches on hand minus units sold
+ * while none were (Square lets those go negative; we hold them as pending).
+ */
+async function localOnHand(productId: string, locationId: string): Promise<number> {
+  const prisma = getPrisma();
+  const [onHand, pending] = await Promise.all([
+    prisma.inventory.aggregate({
+      where: { productId, locationId, quantity: { gt: 0 } },
+      _sum: { quantity: true },
+    }),
+    prisma.pendingCostConsumption.aggregate({
+      where: { productId, locationId, remainingQuantity: { gt: 0 } },
+      _sum: { remainingQuantity: true },
+    }),
+  ]);
+  return (onHand._sum.quantity || 0) - (pending._sum.remainingQuantity || 0);
+}
+
+/**
+ * Compare one variation's counts and open, refresh or clear the drift
+ * finding for its product. Returns null when the variation can't be checked.
+ */
+async function checkCount(hint: SquareCountHint): Promise<string | null> {
+  const prisma = getPrisma();
+
+  const location = await prisma.location.findUnique({ where: { squareId: hint.squareLocationId } });
+  if (!location) {
+    debugLog(`[DRIFT] Square location ${hint.squareLocationId} not linked, skipping`);
+    return null;
+  }
+
+  const mappings = await prisma.catalogMapping.findMany({
+    where: { squareVariationId: hint.catalogObjectId, OR: [{ locationId: location.id }, { locationId: null }] },
+  });
+  const mapping = mappings.find((m) => m.locationId === location.id) ?? mappings[0];
+  if (!mapping) {
+    debugLog(`[DRIFT] Variation ${hint.catalogObjectId} not mapped, skipping`);
+    return null;
+  }
+
+  // Several variations summing into one product can't be compared one at a
+  // time; the full scan reports those.
+  const otherVariations = await prisma.catalogMapping.count({
+    where: {
+      productId: mapping.productId,
+      squareVariationId: { not: hint.catalogObjectId },
+      OR: [{ locationId: location.id }, { locationId: null }],
+    },
+  });
+  if (otherVariations > 0) {
+    debugLog(`[DRIFT] Product ${mapping.productId} has ${otherVariations + 1} variations, skipping`);
+    return null;
+  }
+
+  const [squareQuantity, localQuantity] = await Promise.all([
+    fetchSquareCount(hint),
+    localOnHand(mapping.productId, location.id),
+  ]);
+
+  const open = await prisma.inventoryDrift.findFirst({
+    where: { productId: mapping.productId, locationId: location.id, status: 'OPEN' },
+  });
+  const action = driftAction(!!open, localQuantity, squareQuantity);
+  const now = new Date();
+  const counts = { localQuantity, squareQuantity, difference: squareQuantity - localQuantity };
+
+  if (action === 'open') {
+    await prisma.inventoryDrift.create({
+      data: {
+        locationId: location.id,
+        productId: mapping.productId,
+        squareVariationId: hint.catalogObjectId,
+        ...counts,
+        source: 'WEBHOOK',
+        detectedAt: now,
+        checkedAt: now,
+      },
+    });
+    console.warn(
+      `[DRIFT] Product ${mapping.productId} at ${location.name}: local ${localQuantity}, Square ${squareQuantity}`,
+    );
+  } else if (action === 'refresh') {
+    await prisma.inventoryDrift.update({
+      where: { id: open!.id },
+      data: { ...counts, source: 'WEBHOOK', checkedAt: now },
+    });
+  } else if (action === 'clear') {
+    await prisma.inventoryDrift.update({
+      where: { id: open!.id },
+      data: { ...counts, source: 'WEBHOOK', status: 'CLEARED', checkedAt: now, resolvedAt: now },
+    });
+  }
+
+  return action;
+}
+
+// ============================================================================
+// Main Worker Function
+// ============================================================================
+
+/**
+ * Handle inventory.count.updated. The sales queue delays these jobs (see
+ * SaleQueue) so a sale's own count change is normally booked here before the
+ * comparison; one still in flight opens a finding that its next count
+ * update clears.
+ */
+export async function processInventoryCountJob(job: Pick<Job, 'id' | 'data'>) {
+  const hints = countHintsFromPayload(job.data?.payload);
+  if (hints.length === 0) {
+    debugLog(`[DRIFT] Job ${job.id} has no IN_STOCK counts, skipping`);
+    return { checked: 0, actions: {} };
+  }
+
+  const actions: Record<string, number> = {};
+  for (const hint of hints) {
+    const action = await checkCount(hint);
+    if (action) actions[action] = (actions[action] || 0) + 1;
+  }
+
+  return { checked: hints.length, actions };
+}
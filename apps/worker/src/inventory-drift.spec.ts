@@ -0,0 +1,44 @@
+import { countHintsFromPayload, driftAction } from './inventory-drift';
+
+describe('countHintsFromPayload', () => {
+  it('keeps IN_STOCK variation counts once per location', () => {
+    const payload = {
+      object: {
+        inventory_counts: [
+          { catalog_object_id: 'V1', catalog_object_type: 'ITEM_VARIATION', location_id: 'L1', quantity: '3', state: 'IN_STOCK' },
+          { catalog_object_id: 'V1', catalog_object_type: 'ITEM_VARIATION', location_id: 'L1', quantity: '2', state: 'IN_STOCK' },
+          { catalog_object_id: 'V1', catalog_object_type: 'ITEM_VARIATION', location_id: 'L2', quantity: '5', state: 'IN_STOCK' },
+        ],
+      },
+    };
+    expect(countHintsFromPayload(payload)).toEqual([
+      { catalogObjectId: 'V1', squareLocationId: 'L1' },
+      { catalogObjectId: 'V1', squareLocationId: 'L2' },
+    ]);
+  });
+
+  it('ignores other states and malformed payloads', () => {
+    const payload = {
+      object: {
+        inventory_counts: [
+          { catalog_object_id: 'V1', location_id: 'L1', quantity: '1', state: 'WASTE' },
+          { location_id: 'L1', quantity: '1', state: 'IN_STOCK' },
+        ],
+      },
+    };
+    expect(countHintsFromPayload(payload)).toEqual([]);
+    expect(countHintsFromPayload(undefined)).toEqual([]);
+  });
+});
+
+describe('driftAction', () => {
+  it('opens a finding only when the counts disagree', () => {
+    expect(driftAction(false, 4, 6)).toBe('open');
+    expect(driftAction(false, 4, 4)).toBe('none');
+  });
+
+  it('refreshes or clears an open finding', () => {
+    expect(driftAction(true, 4, 5)).toBe('refresh');
+    expect(driftAction(true, 5, 5)).toBe('clear');
+  });
+});
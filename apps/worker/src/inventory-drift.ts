@@ -0,0 +1,49 @@
+/**
+ * Pure Square count drift helpers — no DB or Square access. Square sends
+ * inventory.count.updated whenever a count moves, including for our own
+ * sales; the job treats the event only as a hint and re-reads the current
+ * count before comparing.
+ */
+
+export interface SquareCountHint {
+  catalogObjectId: string;
+  squareLocationId: string;
+}
+
+export type DriftAction = 'open' | 'refresh' | 'clear' | 'none';
+
+/**
+ * Variation/location pairs named by a queued payload (Square event.data).
+ * Only IN_STOCK counts matter — Square also reports WASTE, SOLD and other
+ * states, which never appear in our FIFO on-hand.
+ */
+export function countHintsFromPayload(payload: any): SquareCountHint[] {
+  const counts: any[] = payload?.object?.inventory_counts || [];
+  const seen = new Set<string>();
+  const hints: SquareCountHint[] = [];
+
+  for (const count of counts) {
+    const catalogObjectId = count?.catalog_object_id;
+    const squareLocationId = count?.location_id;
+    if (!catalogObjectId || !squareLocationId || count.state !== 'IN_STOCK') continue;
+    if (count.catalog_object_type && count.catalog_object_type !== 'ITEM_VARIATION') continue;
+
+    const key = `${squareLocationId}:${catalogObjectId}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    hints.push({ catalogObjectId, squareLocationId });
+  }
+
+  return hints;
+}
+
+/**
+ * What a check does to the location+product's drift finding: open one when
+ * the counts disagree, refresh the open one with the new counts, or clear it
+ * once they agree again (a later sale or receiving closed the gap).
+ */
+export function driftAction(hasOpenFinding: boolean, localQuantity: number, squareQuantity: number): DriftAction {
+  const drifted = localQuantity !== squareQuantity;
+  if (hasOpenFinding) return drifted ? 'refresh' : 'clear';
+  return drifted ? 'open' : 'none';
+}
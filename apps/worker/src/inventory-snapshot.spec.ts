@@ -0,0 +1,33 @@
+import { Prisma } from '@prisma/client';
+import {
+  DEFAULT_INVENTORY_SNAPSHOT_CRON,
+  resolveInventorySnapshotSchedule,
+  snapshotFromBatches,
+} from './inventory-snapshot';
+
+describe('resolveInventorySnapshotSchedule', () => {
+  it('defaults to the nightly schedule', () => {
+    expect(resolveInventorySnapshotSchedule({})).toEqual({ pattern: DEFAULT_INVENTORY_SNAPSHOT_CRON });
+  });
+
+  it('uses the configured cron and timezone, or none when off', () => {
+    expect(
+      resolveInventorySnapshotSchedule({ INVENTORY_SNAPSHOT_CRON: '0 2 * * *', INVENTORY_SNAPSHOT_TZ: 'America/Mexico_City' }),
+    ).toEqual({ pattern: '0 2 * * *', tz: 'America/Mexico_City' });
+    expect(resolveInventorySnapshotSchedule({ INVENTORY_SNAPSHOT_CRON: 'off' })).toBeNull();
+  });
+});
+
+describe('snapshotFromBatches', () => {
+  it('keeps batches with stock and totals their value', () => {
+    const snapshot = snapshotFromBatches([
+      { id: 'b1', productId: 'p1', quantity: 3, unitCost: new Prisma.Decimal('2.50') },
+      { id: 'b2', productId: 'p1', quantity: 0, unitCost: new Prisma.Decimal('9') },
+      { id: 'b3', productId: 'p2', quantity: 2, unitCost: new Prisma.Decimal('10.125') },
+    ]);
+
+    expect(snapshot.lines.map((l) => l.inventoryId)).toEqual(['b1', 'b3']);
+    expect(snapshot.totalUnits).toBe(5);
+    expect(snapshot.totalValue.toString()).toBe('27.75');
+  });
+});
@@ -0,0 +1,47 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Pure helpers for nightly inventory snapshots — no DB or Redis access.
+ */
+
+export const DEFAULT_INVENTORY_SNAPSHOT_CRON = '30 3 * * *'; // Nightly, after the day's last sales and before the catalog sync
+
+export interface InventorySnapshotSchedule {
+  pattern: string;
+  tz?: string;
+}
+
+/**
+ * INVENTORY_SNAPSHOT_CRON sets the schedule (standard 5-field cron,
+ * optionally INVENTORY_SNAPSHOT_TZ for its timezone); "off" stops taking
+ * snapshots. Valuation as of a date still works without them, rolling back
+ * from live stock, only over more movements.
+ */
+export function resolveInventorySnapshotSchedule(env: NodeJS.ProcessEnv): InventorySnapshotSchedule | null {
+  const raw = env.INVENTORY_SNAPSHOT_CRON?.trim();
+  if (raw && ['off', 'false', 'disabled', 'none'].includes(raw.toLowerCase())) {
+    return null;
+  }
+  const tz = env.INVENTORY_SNAPSHOT_TZ?.trim();
+  return { pattern: raw || DEFAULT_INVENTORY_SNAPSHOT_CRON, ...(tz && { tz }) };
+}
+
+export interface SnapshotBatch {
+  id: string;
+  productId: string;
+  quantity: number;
+  unitCost: Prisma.Decimal;
+}
+
+/** Snapshot lines and header totals for a location's batches with stock. */
+export function snapshotFromBatches(batches: SnapshotBatch[]) {
+  const lines = batches
+    .filter((b) => b.quantity > 0)
+    .map((b) => ({ inventoryId: b.id, productId: b.productId, quantity: b.quantity, unitCost: b.unitCost }));
+
+  return {
+    lines,
+    totalUnits: lines.reduce((sum, l) => sum + l.quantity, 0),
+    totalValue: lines.reduce((sum, l) => sum.add(l.unitCost.mul(l.quantity)), new Prisma.Decimal(0)),
+  };
+}
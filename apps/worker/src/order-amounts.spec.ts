@@ -0,0 +1,100 @@
+import { lineAmounts, lineDiscountAllocations, moneyToDecimal, orderTenders, orderTotals } from './order-amounts';
+
+describe('moneyToDecimal', () => {
+  it('converts Square BigInt cents to currency units', () => {
+    expect(moneyToDecimal({ amount: BigInt(1999) }).toString()).toBe('19.99');
+  });
+
+  it('treats missing money as zero', () => {
+    expect(moneyToDecimal(undefined).toString()).toBe('0');
+    expect(moneyToDecimal({ amount: null }).toString()).toBe('0');
+  });
+});
+
+describe('lineAmounts', () => {
+  it('reads the gross/discount/tax breakdown Square sends', () => {
+    const amounts = lineAmounts({
+      grossSalesMoney: { amount: BigInt(2000) },
+      totalDiscountMoney: { amount: BigInt(200) },
+      totalTaxMoney: { amount: BigInt(288) },
+      totalMoney: { amount: BigInt(2088) },
+    });
+    expect(amounts.gross.toString()).toBe('20');
+    expect(amounts.discount.toString()).toBe('2');
+    expect(amounts.tax.toString()).toBe('2.88');
+    expect(amounts.total.toString()).toBe('20.88');
+  });
+
+  it('treats a line with only totalMoney as undiscounted and untaxed', () => {
+    const amounts = lineAmounts({ totalMoney: { amount: BigInt(1500) } });
+    expect(amounts.gross.toString()).toBe('15');
+    expect(amounts.discount.toString()).toBe('0');
+    expect(amounts.tax.toString()).toBe('0');
+  });
+});
+
+describe('lineDiscountAllocations', () => {
+  const order = {
+    discounts: [
+      { uid: 'd-order', name: '10% jubilados', type: 'FIXED_PERCENTAGE', percentage: '10', scope: 'ORDER' },
+      { uid: 'd-line', name: 'Promo', type: 'FIXED_AMOUNT', scope: 'LINE_ITEM' },
+    ],
+  };
+
+  it('resolves each applied discount against the order definitions', () => {
+    const allocations = lineDiscountAllocations(order, {
+      appliedDiscounts: [
+        { discountUid: 'd-order', appliedMoney: { amount: BigInt(150) } },
+        { discountUid: 'd-line', appliedMoney: { amount: BigInt(50) } },
+      ],
+    });
+    expect(allocations.map(a => [a.name, a.scope, a.amount.toString()])).toEqual([
+      ['10% jubilados', 'ORDER', '1.5'],
+      ['Promo', 'LINE_ITEM', '0.5'],
+    ]);
+    expect(allocations[0].percentage).toBe('10');
+  });
+
+  it('drops zero allocations and lines without discounts', () => {
+    expect(
+      lineDiscountAllocations(order, { appliedDiscounts: [{ discountUid: 'd-order', appliedMoney: { amount: BigInt(0) } }] }),
+    ).toEqual([]);
+    expect(lineDiscountAllocations(order, {})).toEqual([]);
+  });
+});
+
+describe('orderTotals / orderTenders', () => {
+  it('captures tips, service charges and each tender', () => {
+    const order = {
+      totalMoney: { amount: BigInt(12500) },
+      totalTipMoney: { amount: BigInt(1000) },
+      totalServiceChargeMoney: { amount: BigInt(500) },
+      tenders: [
+        {
+          id: 't1',
+          paymentId: 'PAY1',
+          type: 'CARD',
+          amountMoney: { amount: BigInt(8000) },
+          tipMoney: { amount: BigInt(1000) },
+          cardDetails: { card: { cardBrand: 'VISA' } },
+        },
+        {
+          id: 't2',
+          paymentId: 'PAY2',
+          type: 'CASH',
+          amountMoney: { amount: BigInt(4500) },
+          cashDetails: { changeBackMoney: { amount: BigInt(500) } },
+        },
+      ],
+    };
+
+    const totals = orderTotals(order);
+    expect([totals.total.toString(), totals.tip.toString(), totals.serviceCharge.toString()]).toEqual(['125', '10', '5']);
+
+    const tenders = orderTenders(order);
+    expect(tenders.map(t => [t.type, t.cardBrand, t.amount.toString(), t.tip.toString(), t.changeBack.toString()])).toEqual([
+      ['CARD', 'VISA', '80', '10', '0'],
+      ['CASH', null, '45', '0', '5'],
+    ]);
+  });
+});
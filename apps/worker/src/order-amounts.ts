@@ -0,0 +1,110 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Pure extraction of the money side of a Square order — no DB access. The
+ * worker stores these alongside each Sale/SaleItem so reports can tell gross
+ * from net sales, see discounts and taxes, and split sales by tender.
+ * Square money is integer cents (BigInt from the SDK); everything here
+ * returns currency units.
+ */
+
+interface MoneyLike {
+  amount?: bigint | number | string | null;
+}
+
+export interface LineAmounts {
+  gross: Prisma.Decimal; // Before discounts, excluding tax (Square grossSalesMoney)
+  discount: Prisma.Decimal;
+  tax: Prisma.Decimal;
+  total: Prisma.Decimal; // gross - discount + tax, what the customer paid for the line
+}
+
+export interface OrderTotals {
+  tip: Prisma.Decimal;
+  serviceCharge: Prisma.Decimal;
+  total: Prisma.Decimal; // Everything collected for the order, tips and service charges included
+}
+
+export interface DiscountAllocation {
+  discountUid: string;
+  name: string;
+  type: string | null; // FIXED_PERCENTAGE, FIXED_AMOUNT, VARIABLE_*
+  percentage: string | null;
+  scope: string | null; // ORDER (spread over lines by Square) or LINE_ITEM
+  amount: Prisma.Decimal; // Share of the discount applied to this line
+}
+
+export interface TenderRecord {
+  squareTenderId: string | null;
+  paymentId: string | null;
+  type: string; // Square TenderType: CASH, CARD, BANK_ACCOUNT, ...
+  cardBrand: string | null;
+  amount: Prisma.Decimal; // Includes the tip
+  tip: Prisma.Decimal;
+  changeBack: Prisma.Decimal; // Cash handed back to the customer
+}
+
+export function moneyToDecimal(money?: MoneyLike | null): Prisma.Decimal {
+  if (!money || money.amount === undefined || money.amount === null) {
+    return new Prisma.Decimal(0);
+  }
+  return new Prisma.Decimal(money.amount.toString()).div(100);
+}
+
+/**
+ * Square always sends the breakdown on real orders; hand-built test orders
+ * often carry only totalMoney, in which case the line is taken as
+ * undiscounted and untaxed rather than inventing a split.
+ */
+export function lineAmounts(line: any): LineAmounts {
+  const total = moneyToDecimal(line?.totalMoney);
+  const discount = moneyToDecimal(line?.totalDiscountMoney);
+  const tax = moneyToDecimal(line?.totalTaxMoney);
+  const gross = line?.grossSalesMoney ? moneyToDecimal(line.grossSalesMoney) : total.add(discount).sub(tax);
+  return { gross, discount, tax, total };
+}
+
+export function orderTotals(order: any): OrderTotals {
+  return {
+    tip: moneyToDecimal(order?.totalTipMoney),
+    serviceCharge: moneyToDecimal(order?.totalServiceChargeMoney),
+    total: moneyToDecimal(order?.totalMoney),
+  };
+}
+
+/**
+ * The discounts applied to one line, resolved against the order's discount
+ * definitions. Order-scoped discounts appear here too: Square allocates them
+ * across lines, so summing allocations over every line gives the order total.
+ */
+export function lineDiscountAllocations(order: any, line: any): DiscountAllocation[] {
+  const definitions = new Map<string, any>(
+    (order?.discounts || []).filter((d: any) => d.uid).map((d: any) => [d.uid, d]),
+  );
+
+  return (line?.appliedDiscounts || [])
+    .map((applied: any) => {
+      const definition = definitions.get(applied.discountUid);
+      return {
+        discountUid: applied.discountUid,
+        name: definition?.name || 'Discount',
+        type: definition?.type ?? null,
+        percentage: definition?.percentage ?? null,
+        scope: definition?.scope ?? null,
+        amount: moneyToDecimal(applied.appliedMoney),
+      };
+    })
+    .filter((allocation: DiscountAllocation) => allocation.amount.gt(0));
+}
+
+export function orderTenders(order: any): TenderRecord[] {
+  return (order?.tenders || []).map((tender: any) => ({
+    squareTenderId: tender.id ?? null,
+    paymentId: tender.paymentId ?? null,
+    type: tender.type || 'OTHER',
+    cardBrand: tender.cardDetails?.card?.cardBrand ?? null,
+    amount: moneyToDecimal(tender.amountMoney),
+    tip: moneyToDecimal(tender.tipMoney),
+    changeBack: moneyToDecimal(tender.cashDetails?.changeBackMoney),
+  }));
+}
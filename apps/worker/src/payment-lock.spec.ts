@@ -0,0 +1,48 @@
+import type { Prisma } from '@prisma/client';
+import { paymentBookingBlock } from './payment-lock';
+
+/** Records each call in order, so the lock can be checked to come first. */
+function recordingTx(records: { sale?: { id: string }; saleVoid?: { status: string } }) {
+  const calls: string[] = [];
+  const tx = {
+    $executeRaw: jest.fn(async (sql: TemplateStringsArray, key: string) => {
+      calls.push(`lock ${key}`);
+      expect(sql.join('?')).toBe('SELECT pg_advisory_xact_lock(hashtextextended(?, 0))');
+      return 1;
+    }),
+    sale: {
+      findUnique: jest.fn(async () => {
+        calls.push('sale');
+        return records.sale ?? null;
+      }),
+    },
+    saleVoid: {
+      findUnique: jest.fn(async () => {
+        calls.push('saleVoid');
+        return records.saleVoid ?? null;
+      }),
+    },
+  };
+  return { tx: tx as unknown as Pick<Prisma.TransactionClient, '$executeRaw' | 'sale' | 'saleVoid'>, calls };
+}
+
+describe('paymentBookingBlock', () => {
+  it('skips a sale whose void arrived first, checking only after taking the payment lock', async () => {
+    const { tx, calls } = recordingTx({ saleVoid: { status: 'CANCELED' } });
+
+    await expect(paymentBookingBlock(tx, 'PAY1')).resolves.toEqual({ reason: 'VOIDED', status: 'CANCELED' });
+    expect(calls).toEqual(['lock payment:PAY1', 'sale', 'saleVoid']);
+  });
+
+  it('skips a sale a concurrent job already booked', async () => {
+    const { tx } = recordingTx({ sale: { id: 'sale-1' } });
+
+    await expect(paymentBookingBlock(tx, 'PAY1')).resolves.toEqual({ reason: 'BOOKED', saleId: 'sale-1' });
+  });
+
+  it('lets a payment with neither record be booked', async () => {
+    const { tx } = recordingTx({});
+
+    await expect(paymentBookingBlock(tx, 'PAY1')).resolves.toBeNull();
+  });
+});
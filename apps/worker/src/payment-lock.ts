@@ -0,0 +1,55 @@
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Serializes booking and voiding one Square payment. payment.created (sales
+ * queue) and a payment.updated CANCELED (sale-voids queue) for the same
+ * payment can run at the same time, and each only knows to stand down once
+ * it sees the other's record. Both take this transaction-scoped advisory
+ * lock and check for that record after it, inside their transaction, so
+ * whichever commits second sees the first: a sale whose void landed first
+ * is never booked, and a void that lands after its sale reverses it.
+ *
+ * Taken before any stock lock (stock-lock.ts), in both paths.
+ */
+
+export function paymentLockKey(paymentId: string): string {
+  return `payment:${paymentId}`;
+}
+
+/** Take the payment lock inside the caller's transaction; blocks until granted. */
+export async function lockPayment(
+  tx: Pick<Prisma.TransactionClient, '$executeRaw'>,
+  paymentId: string,
+): Promise<void> {
+  // $executeRaw: pg_advisory_xact_lock returns void, which $queryRaw can't deserialize
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtextextended(${paymentLockKey(paymentId)}, 0))`;
+}
+
+export type PaymentBookingBlock =
+  | { reason: 'BOOKED'; saleId: string }
+  | { reason: 'VOIDED'; status: string };
+
+/**
+ * First thing in the sale transaction: lock the payment, then report why it
+ * must not be booked — already booked by a concurrent job, or voided before
+ * its sale — or null to go ahead.
+ */
+export async function paymentBookingBlock(
+  tx: Pick<Prisma.TransactionClient, '$executeRaw' | 'sale' | 'saleVoid'>,
+  paymentId: string,
+): Promise<PaymentBookingBlock | null> {
+  await lockPayment(tx, paymentId);
+
+  const sale = await tx.sale.findUnique({ where: { squareId: paymentId }, select: { id: true } });
+  if (sale) {
+    return { reason: 'BOOKED', saleId: sale.id };
+  }
+  const voided = await tx.saleVoid.findUnique({
+    where: { squarePaymentId: paymentId },
+    select: { status: true },
+  });
+  if (voided) {
+    return { reason: 'VOIDED', status: voided.status };
+  }
+  return null;
+}
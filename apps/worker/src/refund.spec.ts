@@ -0,0 +1,50 @@
+import { allocateRefundToConsumptions, type ReversibleConsumption } from './refund';
+
+// A sale of 15 that spanned two lots: 10 from the old lot @5, 5 from the new lot @8.
+const fromOldLot: ReversibleConsumption = {
+  consumptionId: 'c-old',
+  saleItemId: 'item-1',
+  inventoryId: 'lot-old',
+  quantity: 10,
+  unitCost: 5,
+  alreadyReversed: 0,
+};
+const fromNewLot: ReversibleConsumption = {
+  consumptionId: 'c-new',
+  saleItemId: 'item-1',
+  inventoryId: 'lot-new',
+  quantity: 5,
+  unitCost: 8,
+  alreadyReversed: 0,
+};
+
+describe('allocateRefundToConsumptions', () => {
+  it('returns a partial refund to the most recently consumed lot first', () => {
+    const result = allocateRefundToConsumptions([fromOldLot, fromNewLot], 3);
+    expect(result.reversals.map((r) => [r.inventoryId, r.quantity])).toEqual([['lot-new', 3]]);
+    expect(result.totalCost.toNumber()).toBe(24);
+    expect(result.unallocatedQuantity).toBe(0);
+  });
+
+  it('restores each batch at its original consumption unitCost when spanning lots', () => {
+    const result = allocateRefundToConsumptions([fromOldLot, fromNewLot], 7);
+    expect(result.reversals.map((r) => [r.inventoryId, r.quantity, r.unitCost.toNumber()])).toEqual([
+      ['lot-new', 5, 8],
+      ['lot-old', 2, 5],
+    ]);
+    // 5*8 + 2*5 = 50
+    expect(result.totalCost.toNumber()).toBe(50);
+  });
+
+  it('skips units already reversed by an earlier refund', () => {
+    const result = allocateRefundToConsumptions([fromOldLot, { ...fromNewLot, alreadyReversed: 5 }], 2);
+    expect(result.reversals.map((r) => [r.consumptionId, r.quantity])).toEqual([['c-old', 2]]);
+  });
+
+  it('reports what could not be matched instead of over-reversing', () => {
+    const result = allocateRefundToConsumptions([{ ...fromOldLot, alreadyReversed: 9 }], 4);
+    expect(result.reversals).toHaveLength(1);
+    expect(result.reversals[0].quantity).toBe(1);
+    expect(result.unallocatedQuantity).toBe(3);
+  });
+});
@@ -0,0 +1,70 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Pure refund-reversal allocation — no DB access. Given the FIFO consumptions
+ * a refunded product originally drew from, decide which batches the returned
+ * units go back to and at what cost. Consumptions must be passed in the order
+ * they were consumed (oldest batch first, as the sale recorded them).
+ */
+
+export interface ReversibleConsumption {
+  consumptionId: string;
+  saleItemId: string;
+  inventoryId: string;
+  quantity: number;
+  unitCost: Prisma.Decimal | string | number;
+  alreadyReversed: number; // units reversed by earlier refunds
+}
+
+export interface ConsumptionReversal {
+  consumptionId: string;
+  saleItemId: string;
+  inventoryId: string;
+  quantity: number;
+  unitCost: Prisma.Decimal;
+  totalCost: Prisma.Decimal;
+}
+
+export interface RefundAllocationResult {
+  reversals: ConsumptionReversal[];
+  totalCost: Prisma.Decimal;
+  unallocatedQuantity: number;
+}
+
+/**
+ * Reverse `quantityRefunded` units newest-consumed first, so whatever stays
+ * sold keeps the oldest (first-in) cost — the same answer FIFO would have
+ * given had the refunded units never been sold. A consumption is never
+ * reversed past its own quantity, across all refunds.
+ */
+export function allocateRefundToConsumptions(
+  consumptions: ReversibleConsumption[],
+  quantityRefunded: number,
+): RefundAllocationResult {
+  let remaining = quantityRefunded;
+  let totalCost = new Prisma.Decimal(0);
+  const reversals: ConsumptionReversal[] = [];
+
+  for (let i = consumptions.length - 1; i >= 0 && remaining > 0; i--) {
+    const c = consumptions[i];
+    const reversible = c.quantity - c.alreadyReversed;
+    if (reversible <= 0) continue;
+
+    const qty = Math.min(reversible, remaining);
+    const unitCost = new Prisma.Decimal(c.unitCost);
+    const cost = unitCost.mul(qty);
+
+    reversals.push({
+      consumptionId: c.consumptionId,
+      saleItemId: c.saleItemId,
+      inventoryId: c.inventoryId,
+      quantity: qty,
+      unitCost,
+      totalCost: cost,
+    });
+    totalCost = totalCost.add(cost);
+    remaining -= qty;
+  }
+
+  return { reversals, totalCost, unallocatedQuantity: remaining };
+}
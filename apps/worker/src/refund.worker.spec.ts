@@ -0,0 +1,145 @@
+import { Prisma } from '@prisma/client';
+import { applyRefund, type RefundInput } from './refund.worker';
+
+const tick = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+interface Consumption {
+  id: string;
+  saleItemId: string;
+  inventoryId: string;
+  quantity: number;
+  unitCost: Prisma.Decimal;
+}
+
+/**
+ * In-memory model of the tables applyRefund touches, not of Postgres: every
+ * statement yields so concurrent refunds interleave, $executeRaw queues per
+ * lock key until the transaction ends (what pg_advisory_xact_lock is
+ * assumed to do), squareRefundId is unique, and a transaction that throws
+ * has its writes undone.
+ */
+class FakeRefundDb {
+  private readonly lockTails = new Map<string, Promise<void>>();
+  readonly batches = new Map<string, number>([['lot-1', 0]]);
+  readonly refunds = new Set<string>();
+  readonly reversals: Array<{ consumptionId: string; quantity: number }> = [];
+  readonly consumptions: Consumption[] = [
+    { id: 'c1', saleItemId: 'item-1', inventoryId: 'lot-1', quantity: 2, unitCost: new Prisma.Decimal(5) },
+  ];
+
+  async transaction<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    const releases: Array<() => void> = [];
+    const undo: Array<() => void> = [];
+    const tx = {
+      $executeRaw: async (_sql: TemplateStringsArray, key: string) => {
+        const previous = this.lockTails.get(key) ?? Promise.resolve();
+        let release!: () => void;
+        const held = new Promise<void>((resolve) => (release = resolve));
+        this.lockTails.set(key, previous.then(() => held));
+        releases.push(release);
+        await previous;
+        return 1;
+      },
+      saleRefund: {
+        findUnique: async ({ where }: { where: { squareRefundId: string } }) => {
+          await tick();
+          return this.refunds.has(where.squareRefundId) ? { id: where.squareRefundId } : null;
+        },
+        create: async ({ data }: { data: { squareRefundId: string } }) => {
+          await tick();
+          if (this.refunds.has(data.squareRefundId)) {
+            throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+          }
+          this.refunds.add(data.squareRefundId);
+          undo.push(() => this.refunds.delete(data.squareRefundId));
+          return { id: data.squareRefundId };
+        },
+      },
+      saleVoid: {
+        findUnique: async () => {
+          await tick();
+          return null;
+        },
+      },
+      saleItem: {
+        findMany: async () => {
+          await tick();
+          return [
+            {
+              id: 'item-1',
+              price: new Prisma.Decimal(10),
+              consumptionPolicy: 'FIFO',
+              pendingCosts: [],
+              consumptions: this.consumptions.map((c) => ({
+                ...c,
+                reversals: this.reversals.filter((r) => r.consumptionId === c.id).map((r) => ({ quantity: r.quantity })),
+                inventory: { receivedAt: new Date('2026-10-01T00:00:00Z'), expiryDate: null },
+              })),
+            },
+          ];
+        },
+      },
+      inventory: {
+        update: async ({ where, data }: { where: { id: string }; data: { quantity: { increment: number } } }) => {
+          await tick();
+          this.batches.set(where.id, this.batches.get(where.id)! + data.quantity.increment);
+          undo.push(() => this.batches.set(where.id, this.batches.get(where.id)! - data.quantity.increment));
+        },
+      },
+      saleItemReversal: {
+        createMany: async ({ data }: { data: Array<{ consumptionId: string; quantity: number }> }) => {
+          await tick();
+          const rows = data.map((r) => ({ consumptionId: r.consumptionId, quantity: r.quantity }));
+          this.reversals.push(...rows);
+          undo.push(() => rows.forEach((row) => this.reversals.splice(this.reversals.indexOf(row), 1)));
+        },
+      },
+    };
+    try {
+      return await fn(tx as unknown as Prisma.TransactionClient);
+    } catch (error) {
+      undo.reverse().forEach((step) => step());
+      throw error;
+    } finally {
+      releases.forEach((release) => release());
+    }
+  }
+}
+
+const sale = { id: 'sale-1', locationId: 'loc-1' };
+const refundOf = (squareRefundId: string): RefundInput => ({
+  squareRefundId,
+  paymentId: 'PAY1',
+  status: 'COMPLETED',
+  amount: new Prisma.Decimal(20),
+  reason: null,
+  refundedAt: new Date('2026-10-02T00:00:00Z'),
+});
+const returnBoth = [{ productId: 'prod-1', quantity: 2 }];
+
+describe('applyRefund', () => {
+  it('restocks once when the same refund is applied by two jobs at once', async () => {
+    const db = new FakeRefundDb();
+
+    const outcomes = await Promise.all([
+      db.transaction((tx) => applyRefund(tx, refundOf('REF1'), sale, returnBoth)),
+      db.transaction((tx) => applyRefund(tx, refundOf('REF1'), sale, returnBoth)),
+    ]);
+
+    expect(outcomes.map((o) => o.status).sort()).toEqual(['already_applied', 'applied']);
+    expect(db.batches.get('lot-1')).toBe(2);
+  });
+
+  it('restocks once when two refunds return the same units at once', async () => {
+    const db = new FakeRefundDb();
+
+    const outcomes = await Promise.allSettled([
+      db.transaction((tx) => applyRefund(tx, refundOf('REF1'), sale, returnBoth)),
+      db.transaction((tx) => applyRefund(tx, refundOf('REF2'), sale, returnBoth)),
+    ]);
+
+    expect(outcomes.map((o) => o.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(db.batches.get('lot-1')).toBe(2);
+    expect(db.reversals).toEqual([{ consumptionId: 'c1', quantity: 2 }]);
+  });
+});
@@ -0,0 +1,330 @@
+import { Job } from 'bullmq';
+import { Prisma } from '@prisma/client';
+import { DatabaseTransactionError, SaleValidationError, UnmappedVariationError } from './errors';
+import { mapVariationToProduct } from './catalog.mapper';
+import { debugLog, getPrisma, getSquareClient } from './sale.worker';
+import { allocateRefundToConsumptions, type ReversibleConsumption } from './refund';
+import { orderBatchesForPolicy } from './fifo';
+import { lockPayment } from './payment-lock';
+import { lockStock } from './stock-lock';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface ReturnedLine {
+  productId: string;
+  quantity: number;
+}
+
+export interface RefundInput {
+  squareRefundId: string;
+  paymentId: string;
+  status: string;
+  amount: Prisma.Decimal;
+  reason: string | null;
+  refundedAt: Date;
+}
+
+export type RefundOutcome =
+  | { status: 'applied'; refundId: string; reversalCount: number; totalCost: Prisma.Decimal }
+  | { status: 'already_applied' }
+  | { status: 'voided'; voidStatus: string };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Returned units per product from the refund's order. Square records an
+ * itemized refund as `returns[].returnLineItems` on the order the refund
+ * points at; an amount-only refund has none and moves no stock.
+ */
+async function resolveReturnedLines(order: any, squareLocationId: string): Promise<ReturnedLine[]> {
+  const byProduct = new Map<string, number>();
+
+  for (const ret of order?.returns || []) {
+    for (const line of ret.returnLineItems || []) {
+      if (!line.catalogObjectId) {
+        console.warn('[REFUND] Skipping return line without catalogObjectId:', line.uid);
+        continue;
+      }
+
+      const quantity = line.quantity ? parseInt(line.quantity, 10) : 1;
+      if (!quantity || quantity <= 0) {
+        throw new SaleValidationError('Return line quantity must be positive', { uid: line.uid });
+      }
+
+      let productId: string;
+      try {
+        productId = await mapVariationToProduct(line.catalogObjectId, squareLocationId, getPrisma());
+      } catch (error) {
+        if (error instanceof UnmappedVariationError) {
+          throw new SaleValidationError(
+            `Returned variation is not mapped to a product. Variation ID: ${error.squareVariationId}`,
+            { variationId: error.squareVariationId, locationId: error.locationId },
+          );
+        }
+        throw error;
+      }
+
+      byProduct.set(productId, (byProduct.get(productId) || 0) + quantity);
+    }
+  }
+
+  return Array.from(byProduct.entries()).map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+/**
+ * Record a COMPLETED refund and restock its units, inside the caller's
+ * transaction. Takes the payment lock first (payment-lock.ts), so two jobs
+ * for the same refund — refund.created and refund.updated both COMPLETED —
+ * two refunds of one sale, or a refund and a void can't each read the same
+ * unreversed units; then the stock lock of every returned product, so the
+ * pending-cost positions read below can't be settled under it meanwhile.
+ */
+export async function applyRefund(
+  tx: Prisma.TransactionClient,
+  refund: RefundInput,
+  sale: { id: string; locationId: string },
+  returnedLines: ReturnedLine[],
+): Promise<RefundOutcome> {
+  await lockPayment(tx, refund.paymentId);
+
+  if (await tx.saleRefund.findUnique({ where: { squareRefundId: refund.squareRefundId }, select: { id: true } })) {
+    return { status: 'already_applied' };
+  }
+  const voided = await tx.saleVoid.findUnique({ where: { saleId: sale.id }, select: { status: true } });
+  if (voided) {
+    return { status: 'voided', voidStatus: voided.status };
+  }
+
+  await lockStock(tx, returnedLines.map((l) => ({ productId: l.productId, locationId: sale.locationId })));
+
+  const saleRefund = await tx.saleRefund.create({
+    data: {
+      squareRefundId: refund.squareRefundId,
+      saleId: sale.id,
+      status: refund.status,
+      amount: refund.amount,
+      reason: refund.reason,
+      refundedAt: refund.refundedAt,
+    },
+  });
+
+  let reversalCount = 0;
+  let totalCost = new Prisma.Decimal(0);
+
+  for (const line of returnedLines) {
+    const saleItems = await tx.saleItem.findMany({
+      where: { saleId: sale.id, productId: line.productId },
+      include: {
+        consumptions: {
+          include: {
+            reversals: { select: { quantity: true } },
+            inventory: { select: { receivedAt: true, expiryDate: true } },
+          },
+        },
+        pendingCosts: { where: { remainingQuantity: { gt: 0 } } },
+      },
+    });
+
+    if (saleItems.length === 0) {
+      throw new SaleValidationError(`Returned product ${line.productId} is not part of sale ${sale.id}`, {
+        refundId: refund.squareRefundId,
+      });
+    }
+
+    // In the order the sale consumed them, so "newest-consumed" holds
+    // under FEFO too.
+    const consumptions: ReversibleConsumption[] = saleItems.flatMap((item) =>
+      orderBatchesForPolicy(
+        item.consumptions.map((c) => ({
+          ...c,
+          receivedAt: c.inventory.receivedAt,
+          expiryDate: c.inventory.expiryDate,
+        })),
+        item.consumptionPolicy ?? 'FIFO',
+      ).map((c) => ({
+        consumptionId: c.id,
+        saleItemId: item.id,
+        inventoryId: c.inventoryId,
+        quantity: c.quantity,
+        unitCost: c.unitCost,
+        alreadyReversed: c.reversals.reduce((sum, r) => sum + r.quantity, 0),
+      })),
+    );
+
+    // Units still pending cost were the last ones sold (FIFO had run
+    // dry), so a return cancels them first; they never reached a batch.
+    let toReverse = line.quantity;
+    for (const pending of saleItems.flatMap((item) => item.pendingCosts)) {
+      if (toReverse <= 0) break;
+      const cancelled = Math.min(pending.remainingQuantity, toReverse);
+      await tx.pendingCostConsumption.update({
+        where: { id: pending.id },
+        data: {
+          remainingQuantity: { decrement: cancelled },
+          ...(pending.remainingQuantity === cancelled && { settledAt: refund.refundedAt }),
+        },
+      });
+      toReverse -= cancelled;
+    }
+
+    const allocation = allocateRefundToConsumptions(consumptions, toReverse);
+    if (allocation.unallocatedQuantity > 0) {
+      throw new SaleValidationError(
+        `Refund returns more units of product ${line.productId} than remain unrefunded on the sale`,
+        { refundId: refund.squareRefundId, requested: line.quantity, unallocated: allocation.unallocatedQuantity },
+      );
+    }
+
+    const priceByItem = new Map(saleItems.map((item) => [item.id, item.price]));
+
+    for (const reversal of allocation.reversals) {
+      await tx.inventory.update({
+        where: { id: reversal.inventoryId },
+        data: { quantity: { increment: reversal.quantity } },
+      });
+    }
+
+    await tx.saleItemReversal.createMany({
+      data: allocation.reversals.map((r) => ({
+        refundId: saleRefund.id,
+        saleItemId: r.saleItemId,
+        consumptionId: r.consumptionId,
+        inventoryId: r.inventoryId,
+        quantity: r.quantity,
+        unitCost: r.unitCost,
+        totalCost: r.totalCost,
+        revenue: (priceByItem.get(r.saleItemId) || new Prisma.Decimal(0)).mul(r.quantity),
+      })),
+    });
+
+    reversalCount += allocation.reversals.length;
+    totalCost = totalCost.add(allocation.totalCost);
+  }
+
+  return { status: 'applied', refundId: saleRefund.id, reversalCount, totalCost };
+}
+
+// ============================================================================
+// Main Worker Function
+// ============================================================================
+
+/**
+ * Process a Square refund.created / refund.updated webhook: record the refund
+ * against its Sale and put the returned units back into the exact batches the
+ * sale consumed, at their original unitCost. Only COMPLETED refunds are
+ * applied — refund.created usually arrives PENDING and is followed by a
+ * refund.updated once Square settles it.
+ */
+export async function processRefundJob(job: Job): Promise<void> {
+  const payload = job.data?.payload;
+  const refund = payload?.object?.refund;
+
+  if (!refund?.id) {
+    throw new SaleValidationError('Missing refund object in payload', { jobId: job.id });
+  }
+  if (!refund.payment_id) {
+    throw new SaleValidationError('Refund missing payment_id', { refundId: refund.id });
+  }
+
+  if (refund.status !== 'COMPLETED') {
+    debugLog(`[REFUND] Refund ${refund.id} is ${refund.status}, waiting for COMPLETED`);
+    return;
+  }
+
+  const prisma = getPrisma();
+
+  const existing = await prisma.saleRefund.findUnique({ where: { squareRefundId: refund.id } });
+  if (existing) {
+    debugLog(`[REFUND] Refund ${refund.id} already processed, skipping (idempotent)`);
+    return;
+  }
+
+  // Throwing lets BullMQ retry: the refund can race ahead of its sale's job.
+  const sale = await prisma.sale.findUnique({ where: { squareId: refund.payment_id } });
+  if (!sale) {
+    throw new SaleValidationError(`Sale for payment ${refund.payment_id} not found`, {
+      refundId: refund.id,
+      paymentId: refund.payment_id,
+    });
+  }
+
+  const voided = await prisma.saleVoid.findUnique({ where: { saleId: sale.id } });
+  if (voided) {
+    console.warn(`[REFUND] Sale ${sale.id} was voided (${voided.status}); refund ${refund.id} has nothing left to reverse`);
+    return;
+  }
+  // Both checks are repeated under the payment lock (applyRefund); these
+  // only save the order fetch in the common case.
+
+  let order: any = payload._testOrderData;
+  if (!order && refund.order_id) {
+    try {
+      const response = await getSquareClient().orders.get({ orderId: refund.order_id });
+      order = response.order;
+    } catch (error) {
+      throw new SaleValidationError(
+        `Failed to fetch refund order from Square: ${error instanceof Error ? error.message : String(error)}`,
+        { refundId: refund.id, orderId: refund.order_id },
+      );
+    }
+  }
+
+  const returnedLines = await resolveReturnedLines(order, refund.location_id);
+  const amount = refund.amount_money?.amount != null
+    ? new Prisma.Decimal(refund.amount_money.amount.toString()).div(100)
+    : new Prisma.Decimal(0);
+  const refundedAt = refund.updated_at
+    ? new Date(refund.updated_at)
+    : refund.created_at
+      ? new Date(refund.created_at)
+      : new Date();
+
+  try {
+    const result = await prisma.$transaction(
+      (tx) =>
+        applyRefund(
+          tx,
+          {
+            squareRefundId: refund.id,
+            paymentId: refund.payment_id,
+            status: refund.status,
+            amount,
+            reason: refund.reason ?? null,
+            refundedAt,
+          },
+          sale,
+          returnedLines,
+        ),
+      { timeout: 30000 },
+    );
+
+    if (result.status === 'already_applied') {
+      debugLog(`[REFUND] Refund ${refund.id} applied concurrently, skipping (idempotent)`);
+      return;
+    }
+    if (result.status === 'voided') {
+      console.warn(`[REFUND] Sale ${sale.id} was voided (${result.voidStatus}); refund ${refund.id} has nothing left to reverse`);
+      return;
+    }
+
+    console.log(
+      `[REFUND] Refund ${refund.id} applied to sale ${sale.id}: ${result.reversalCount} batch reversal(s), cost reversed ${result.totalCost.toString()}`,
+    );
+  } catch (error) {
+    if (error instanceof SaleValidationError) {
+      throw error;
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      console.error('Database error processing refund:', { error: error.message, code: error.code, refundId: refund.id });
+      throw new DatabaseTransactionError(error.message, error);
+    }
+    throw new DatabaseTransactionError(
+      `Unknown error: ${error instanceof Error ? error.message : String(error)}`,
+      error,
+    );
+  }
+}
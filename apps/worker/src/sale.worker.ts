@@ -1,5 +1,5 @@
 import { Job } from 'bullmq';
-import { PrismaClient, Prisma } from '@prisma/client';
+import { PrismaClient, Prisma, type ConsumptionPolicy } from '@prisma/client';
 import { PrismaPg } from '@prisma/adapter-pg';
 import { Pool } from 'pg';
 import { SquareClient, SquareEnvironment } from 'square';
@@ -10,7 +10,26 @@ import {
   UnmappedVariationError,
 } from './errors';
 import { mapVariationToProduct } from './catalog.mapper';
-import { consumeBatchesFifo, type ConsumedBatch, type FifoConsumptionResult } from './fifo';
+import {
+  consumeBatchesFifo,
+  orderBatchesForPolicy,
+  resolveConsumptionPolicy,
+  type ConsumedBatch,
+  type FifoConsumptionResult,
+} from './fifo';
+import {
+  lineAmounts,
+  lineDiscountAllocations,
+  orderTenders,
+  orderTotals,
+  type DiscountAllocation,
+  type LineAmounts,
+} from './order-amounts';
+import { unmappedLineData, type UnmappedLineInput, type UnmappedLineReason } from './unmapped-line';
+import { lockStock } from './stock-lock';
+import { paymentBookingBlock } from './payment-lock';
+import { breakBulkSquareChanges, cajasToOpen, costPerLooseUnit, looseUnitsFromCajas } from './break-bulk';
+import { sendOutboxRow } from './square-outbox.worker';
 
 // Step-by-step tracing below runs on every checkout processed by this worker.
 // Unconditional console.log calls add synchronous I/O directly inside the
@@ -18,7 +37,7 @@ import { consumeBatchesFifo, type ConsumedBatch, type FifoConsumptionResult } fr
 // Errors (console.error) are left unconditional — they're rare (exceptional
 // paths only) and error visibility in production matters more than the cost.
 const SALE_WORKER_DEBUG = process.env.SALE_WORKER_DEBUG === 'true';
-function debugLog(...args: unknown[]): void {
+export function debugLog(...args: unknown[]): void {
   if (SALE_WORKER_DEBUG) {
     console.log(...args);
   }
@@ -28,7 +47,7 @@ function debugLog(...args: unknown[]): void {
 let pool: Pool | null = null;
 let prisma: PrismaClient | null = null;
 
-function getPrisma(): PrismaClient {
+export function getPrisma(): PrismaClient {
   if (!prisma) {
     const connectionString = process.env.DATABASE_URL;
     if (!connectionString) {
@@ -75,7 +94,7 @@ function safeStringify(obj: any, space?: number): string {
 // Lazy initialization of Square client (only when needed)
 let squareClient: SquareClient | null = null;
 
-function getSquareClient(): SquareClient {
+export function getSquareClient(): SquareClient {
   if (!squareClient) {
     debugLog('[DEBUG] [SQUARE_CLIENT] Initializing Square client...');
     debugLog('[DEBUG] [SQUARE_CLIENT] Checking for SQUARE_ACCESS_TOKEN...');
@@ -151,20 +170,30 @@ function getSquareClient(): SquareClient {
 // Type Definitions
 // ============================================================================
 
-type FIFOCostResult = FifoConsumptionResult;
+type FIFOCostResult = FifoConsumptionResult & { policy: ConsumptionPolicy };
 
 interface SaleItemInput {
   productId: string;
   quantitySold: number;
   salePrice: Prisma.Decimal | string | number;
+  amounts: LineAmounts;
+  discounts: DiscountAllocation[];
 }
 
 interface SaleItemOutput {
+  id: string;
   saleId: string;
   productId: string;
   quantity: number;
   price: Prisma.Decimal;
   cost: Prisma.Decimal;
+  squareOutboxKeys: string[]; // Break-bulk rows queued for the line, sent once the sale commits
+}
+
+// A caja product the sale may open for a suelto line (Product.autoBreakBulk)
+interface BreakBulkSource {
+  cajaProductId: string;
+  cantidad: number;
 }
 
 interface SaleTotals {
@@ -178,8 +207,50 @@ interface SaleTotals {
 // ============================================================================
 
 /**
- * Calculate FIFO cost for a sale item by consuming inventory batches in chronological order
- * FIFO ordering is mandatory: always order by receivedAt ASC, never by createdAt
+ * The product's consumption policy, falling back through its category and
+ * the category's ancestors (see resolveConsumptionPolicy).
+ */
+async function getConsumptionPolicy(
+  productId: string,
+  client: Omit<
+    PrismaClient,
+    '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+  >,
+): Promise<ConsumptionPolicy> {
+  const product = await client.product.findUnique({
+    where: { id: productId },
+    select: { consumptionPolicy: true, categoryId: true },
+  });
+  if (!product || product.consumptionPolicy) {
+    return product?.consumptionPolicy ?? 'FIFO';
+  }
+
+  const categoryPolicies: (ConsumptionPolicy | null)[] = [];
+  const seen = new Set<string>();
+  let categoryId = product.categoryId;
+  while (categoryId && !seen.has(categoryId)) {
+    seen.add(categoryId);
+    const category = await client.category.findUnique({
+      where: { id: categoryId },
+      select: { consumptionPolicy: true, parentId: true },
+    });
+    if (!category) break;
+    categoryPolicies.push(category.consumptionPolicy);
+    if (category.consumptionPolicy) break;
+    categoryId = category.parentId;
+  }
+
+  return resolveConsumptionPolicy(null, categoryPolicies);
+}
+
+/**
+ * Calculate the cost for a sale item by consuming inventory batches in the
+ * product's consumption order. FIFO order is receivedAt ASC, never createdAt;
+ * FEFO orders by the batch's expiryDate (fifo.ts).
+ *
+ * The caller's transaction must already hold the product's stock lock
+ * (lockStock); otherwise the batches read here can be consumed by another
+ * transaction before deductInventory runs.
  */
 async function calculateFIFOCost(
   productId: string,
@@ -189,11 +260,13 @@ async function calculateFIFOCost(
     PrismaClient,
     '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
   >,
+  allowPendingCost = false,
 ): Promise<FIFOCostResult> {
   const client = tx || getPrisma();
 
-  // Step 1: Query inventory batches (FIFO order - NON-NEGOTIABLE)
-  const batches = await client.inventory.findMany({
+  // Step 1: Query inventory batches and put them in consumption order
+  const policy = await getConsumptionPolicy(productId, client);
+  const rows = await client.inventory.findMany({
     where: {
       productId: productId,
       locationId: locationId,
@@ -203,12 +276,14 @@ async function calculateFIFOCost(
       receivedAt: 'asc', // FIFO ordering - NON-NEGOTIABLE
     },
   });
+  const batches = orderBatchesForPolicy(rows, policy);
 
-  // Step 2 & 3: Consume batches oldest-first (pure logic, see fifo.ts)
+  // Step 2 & 3: Consume batches in that order (pure logic, see fifo.ts)
   const result = consumeBatchesFifo(batches, quantitySold);
 
-  // Step 4: Validate sufficient inventory
-  if (result.remainingQuantity > 0) {
+  // Step 4: Validate sufficient inventory. In pending-cost mode the shortfall
+  // is returned as remainingQuantity for the caller to record instead.
+  if (result.remainingQuantity > 0 && !allowPendingCost) {
     const available = quantitySold - result.remainingQuantity;
     throw new InsufficientInventoryError(
       productId,
@@ -219,7 +294,7 @@ async function calculateFIFOCost(
     );
   }
 
-  return result;
+  return { ...result, policy };
 }
 
 /**
@@ -269,11 +344,164 @@ async function deductInventory(
   }
 }
 
+// ============================================================================
+// Automatic break-bulk
+// ============================================================================
+
+/**
+ * Caja products each suelto may be broken from at sale time, keyed by the
+ * suelto's productId. Read before the stock lock is taken so the cajas'
+ * stock can be locked with the sale's own products.
+ */
+async function getBreakBulkSources(
+  productIds: string[],
+  client: Omit<
+    PrismaClient,
+    '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+  >,
+): Promise<Map<string, BreakBulkSource[]>> {
+  const cajas = await client.product.findMany({
+    where: { sueltoProductId: { in: productIds }, autoBreakBulk: true, cantidad: { gt: 0 } },
+    select: { id: true, sueltoProductId: true, cantidad: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const sources = new Map<string, BreakBulkSource[]>();
+  for (const caja of cajas) {
+    const list = sources.get(caja.sueltoProductId!) ?? [];
+    list.push({ cajaProductId: caja.id, cantidad: caja.cantidad! });
+    sources.set(caja.sueltoProductId!, list);
+  }
+  return sources;
+}
+
+/**
+ * Open enough cajas to cover a suelto line the loose stock can't, booked the
+ * same way as a manual break-bulk (BreakBulkService.breakBulk): a
+ * BREAK_BULK_OUT adjustment drawing the caja batches in the caja's
+ * consumption order, and a BREAK_BULK_IN adjustment creating one loose batch
+ * at costPerLooseUnit. Runs in the sale's transaction, which must hold the
+ * stock lock for the suelto and its cajas. Both legs are queued for Square
+ * in the same transaction as one SquareSyncOutbox row, keyed like a manual
+ * break; processSaleJob sends it once the sale commits, and the scheduled
+ * outbox flush (square-outbox.worker.ts) retries it if that send fails.
+ *
+ * Returns the outbox keys queued, one per caja product opened.
+ */
+async function breakBulkForSale(
+  sueltoProductId: string,
+  locationId: string,
+  quantityNeeded: number,
+  sources: BreakBulkSource[],
+  client: Omit<
+    PrismaClient,
+    '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+  >,
+): Promise<string[]> {
+  const onHand = await client.inventory.aggregate({
+    where: { productId: sueltoProductId, locationId, quantity: { gt: 0 } },
+    _sum: { quantity: true },
+  });
+  let shortfall = quantityNeeded - (onHand._sum.quantity ?? 0);
+  const squareKeys: string[] = [];
+
+  for (const source of sources) {
+    if (shortfall <= 0) break;
+
+    const policy = await getConsumptionPolicy(source.cajaProductId, client);
+    const rows = await client.inventory.findMany({
+      where: { productId: source.cajaProductId, locationId, quantity: { gt: 0 } },
+      orderBy: { receivedAt: 'asc' },
+    });
+    const cajasOnHand = rows.reduce((sum, b) => sum + b.quantity, 0);
+    const cajas = cajasToOpen(shortfall, source.cantidad, cajasOnHand);
+    if (cajas === 0) continue;
+
+    const drawn = consumeBatchesFifo(orderBatchesForPolicy(rows, policy), cajas);
+    await deductInventory(drawn.consumedBatches, client);
+
+    const looseUnits = looseUnitsFromCajas(cajas, source.cantidad);
+    const unitCost = new Prisma.Decimal(costPerLooseUnit(Number(drawn.totalCost), looseUnits));
+    const reason = `Auto break bulk at sale: ${cajas} caja(s) -> ${looseUnits} loose units`;
+
+    const out = await client.inventoryAdjustment.create({
+      data: {
+        locationId,
+        productId: source.cajaProductId,
+        type: 'BREAK_BULK_OUT',
+        quantity: -cajas,
+        reason,
+        unitCost: drawn.totalCost.div(cajas),
+        totalCost: drawn.totalCost,
+      },
+    });
+    const unitCosts = new Map(rows.map((b) => [b.id, b.unitCost]));
+    await client.inventoryConsumption.createMany({
+      data: drawn.consumedBatches.map((b) => ({
+        inventoryId: b.batchId,
+        adjustmentId: out.id,
+        quantity: b.quantityConsumed,
+        unitCost: unitCosts.get(b.batchId)!,
+        totalCost: b.costContribution,
+      })),
+    });
+
+    const batch = await client.inventory.create({
+      data: {
+        locationId,
+        productId: sueltoProductId,
+        quantity: looseUnits,
+        receivedAt: new Date(),
+        unitCost,
+        source: 'ADJUSTMENT',
+      },
+    });
+    await client.inventoryAdjustment.create({
+      data: {
+        locationId,
+        productId: sueltoProductId,
+        type: 'BREAK_BULK_IN',
+        quantity: looseUnits,
+        reason,
+        unitCost,
+        totalCost: unitCost.mul(looseUnits),
+        createdBatchId: batch.id,
+      },
+    });
+
+    const squareKey = `adjustment-${out.id}`;
+    await client.squareSyncOutbox.create({
+      data: {
+        idempotencyKey: squareKey,
+        referenceId: squareKey,
+        changes: breakBulkSquareChanges({ locationId, cajaProductId: source.cajaProductId, cajas, sueltoProductId, looseUnits }),
+        occurredAt: new Date(),
+      },
+    });
+
+    console.log(
+      `[BREAK_BULK] Sale opened ${cajas} caja(s) of ${source.cajaProductId} into ${looseUnits} loose units of ${sueltoProductId} ` +
+        `at $${unitCost.toFixed(4)}/unit`,
+    );
+    shortfall -= looseUnits;
+    squareKeys.push(squareKey);
+  }
+
+  return squareKeys;
+}
+
 /**
  * Process a single sale item: calculate FIFO cost, deduct inventory, create SaleItem record
  * All operations must be in a transaction (handled by caller)
  *
  * FIFO AUDIT TRAIL: Records which inventory batches were consumed in InventoryConsumption table
+ *
+ * PENDING COST: with allowPendingCost, units beyond what the batches hold are
+ * recorded as a PendingCostConsumption and the item is costed for the rest;
+ * the API settles them when stock next arrives (pending-cost.service.ts).
+ *
+ * BREAK-BULK: with breakBulkSources, a suelto short of loose units first
+ * opens cajas of its linked caja products (breakBulkForSale).
  */
 async function processSaleItem(
   saleId: string,
@@ -285,15 +513,25 @@ async function processSaleItem(
     PrismaClient,
     '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
   >,
+  allowPendingCost = false,
+  amounts?: LineAmounts,
+  breakBulkSources: BreakBulkSource[] = [],
 ): Promise<SaleItemOutput> {
   const client = tx || getPrisma();
 
+  // Step 0: Open cajas if the loose stock can't cover the line
+  const squareOutboxKeys =
+    breakBulkSources.length > 0
+      ? await breakBulkForSale(productId, locationId, quantitySold, breakBulkSources, client)
+      : [];
+
   // Step 1: Calculate FIFO cost (this queries inventory)
   const costResult = await calculateFIFOCost(
     productId,
     locationId,
     quantitySold,
     tx,
+    allowPendingCost,
   );
 
   // Step 2: Deduct inventory (atomic update)
@@ -307,6 +545,10 @@ async function processSaleItem(
       quantity: quantitySold,
       price: salePrice,
       cost: costResult.totalCost, // Immutable - never recalculated
+      grossAmount: amounts?.gross,
+      discountAmount: amounts?.discount,
+      taxAmount: amounts?.tax,
+      consumptionPolicy: costResult.policy,
     },
   });
 
@@ -314,12 +556,31 @@ async function processSaleItem(
   // This creates an immutable record of which batches were consumed for this sale
   await recordInventoryConsumption(saleItem.id, costResult.consumedBatches, client);
 
+  // Step 5: Record the uncosted shortfall (pending-cost mode only)
+  if (costResult.remainingQuantity > 0) {
+    await client.pendingCostConsumption.create({
+      data: {
+        saleItemId: saleItem.id,
+        productId,
+        locationId,
+        quantity: costResult.remainingQuantity,
+        remainingQuantity: costResult.remainingQuantity,
+      },
+    });
+    console.warn(
+      `[PENDING_COST] Sale item ${saleItem.id}: ${costResult.remainingQuantity} of ${quantitySold} unit(s) of product ${productId} ` +
+        `sold with no stock on hand — cost pending until the next receiving`,
+    );
+  }
+
   return {
+    id: saleItem.id,
     saleId: saleItem.saleId,
     productId: saleItem.productId,
     quantity: saleItem.quantity,
     price: saleItem.price,
     cost: saleItem.cost,
+    squareOutboxKeys,
   };
 }
 
@@ -399,10 +660,19 @@ function calculateSaleTotals(saleItems: SaleItemOutput[]): SaleTotals {
 // Main Worker Function
 // ============================================================================
 
+/**
+ * What processSaleJob did with the payment: booked it, found it already
+ * booked (earlier or by a concurrent job), or found it voided first.
+ */
+export type SaleJobOutcome = 'created' | 'already_present' | 'voided';
+
 /**
  * Main worker entry point: process Square payment webhook and create sale with FIFO COGS
+ *
+ * Takes only the id and data of the job so the sales backfill
+ * (backfill.worker.ts) can run historical orders through the same path.
  */
-export async function processSaleJob(job: Job): Promise<void> {
+export async function processSaleJob(job: Pick<Job, 'id' | 'data'>): Promise<SaleJobOutcome> {
   debugLog('[DEBUG] ========================================');
   debugLog('[DEBUG] Starting processSaleJob');
   debugLog('[DEBUG] Job ID:', job.id);
@@ -514,8 +784,17 @@ export async function processSaleJob(job: Job): Promise<void> {
   });
   if (existing) {
     debugLog(`[DEBUG] Sale ${squareId} already exists, skipping (idempotent)`);
-    return;
+    return 'already_present';
+  }
+  const voided = await getPrisma().saleVoid.findUnique({
+    where: { squarePaymentId: squareId },
+  });
+  if (voided) {
+    console.log(`[VOID] Payment ${squareId} was ${voided.status} before its sale was booked, skipping`);
+    return 'voided';
   }
+  // Both checks are repeated under the payment lock inside the transaction;
+  // these only save the order fetch in the common case.
   debugLog('[DEBUG] ✓ No existing sale found, proceeding...');
 
   // Phase 2: Fetch Order Data from Square (or use test data)
@@ -531,11 +810,12 @@ export async function processSaleJob(job: Job): Promise<void> {
 
   let order;
   
-  // Check if this is a test event with embedded order data
-  const testOrderData = job.data?.payload?._testOrderData;
-  if (testOrderData) {
-    debugLog('[DEBUG] Using test order data (bypassing Square API)');
-    order = testOrderData;
+  // Test events and backfills embed the order they already have; the
+  // backfill's comes straight from Orders search, in the same SDK shape.
+  const embeddedOrder = job.data?.order ?? job.data?.payload?._testOrderData;
+  if (embeddedOrder) {
+    debugLog('[DEBUG] Using embedded order data (bypassing Square API)');
+    order = embeddedOrder;
   } else {
     try {
       debugLog('[DEBUG] Fetching order from Square API...');
@@ -587,6 +867,8 @@ export async function processSaleJob(job: Job): Promise<void> {
   // You may need to adjust the mapping logic based on your product setup
   debugLog('[DEBUG] Mapping line items to SaleItemInput...');
   const lineItems: SaleItemInput[] = [];
+  // Lines with no product to cost: booked for review instead of failing the sale
+  const unmappedLines: UnmappedLineInput[] = [];
 
   for (let i = 0; i < orderLineItems.length; i++) {
     const orderLineItem = orderLineItems[i];
@@ -611,46 +893,37 @@ export async function processSaleJob(job: Job): Promise<void> {
       itemName,
     });
 
-    // Validate catalogObjectId exists (this is the variation ID)
+    // Map variation to product using CatalogMapping. A custom-amount line
+    // (no catalogObjectId) or an unmapped variation is kept as an unmapped
+    // line instead.
+    let productId: string | null = null;
+    let unmappedReason: UnmappedLineReason | null = null;
     if (!catalogObjectId) {
-      console.warn(`[DEBUG] WARNING: Line item ${i + 1} missing catalogObjectId, skipping`);
-      continue;
-    }
-
-    // Map variation to product using CatalogMapping
-    let productId: string;
-    try {
-      productId = await mapVariationToProduct(
-        catalogObjectId,
-        locationId,
-        getPrisma(),
-      );
-      debugLog(`[DEBUG] ✓ Product mapped for line item ${i + 1}:`, {
-        variationId: catalogObjectId,
-        productId,
-        locationId,
-      });
-    } catch (error) {
-      if (error instanceof UnmappedVariationError) {
-        console.error(`[DEBUG] ERROR: Unmapped variation for line item ${i + 1}:`, {
-          variationId: error.squareVariationId,
+      console.warn(`[UNMAPPED] Line item ${i + 1} (${itemName ?? 'unnamed'}) has no catalogObjectId, holding for review`);
+      unmappedReason = 'CUSTOM_AMOUNT';
+    } else {
+      try {
+        productId = await mapVariationToProduct(
+          catalogObjectId,
+          locationId,
+          getPrisma(),
+        );
+        debugLog(`[DEBUG] ✓ Product mapped for line item ${i + 1}:`, {
+          variationId: catalogObjectId,
+          productId,
+          locationId,
+        });
+      } catch (error) {
+        if (!(error instanceof UnmappedVariationError)) {
+          throw error;
+        }
+        console.warn(`[UNMAPPED] Line item ${i + 1}: variation ${error.squareVariationId} is not mapped, holding for review`, {
           locationId: error.locationId,
-          message: error.message,
+          orderId,
+          squareId,
         });
-        throw new SaleValidationError(
-          `Square variation is not mapped to a product. Variation ID: ${error.squareVariationId}, Location ID: ${error.locationId}. ` +
-            `Please run catalog sync to create mappings.`,
-          {
-            variationId: error.squareVariationId,
-            locationId: error.locationId,
-            orderLineItem: safeStringify(orderLineItem),
-            orderId,
-            squareId,
-          },
-        );
+        unmappedReason = 'UNMAPPED_VARIATION';
       }
-      // Re-throw other errors
-      throw error;
     }
 
     const quantity = orderLineItem.quantity
@@ -689,16 +962,30 @@ export async function processSaleJob(job: Job): Promise<void> {
       unitPrice: unitPrice.toString(),
     });
 
+    if (unmappedReason) {
+      unmappedLines.push({
+        reason: unmappedReason,
+        line: orderLineItem,
+        quantity,
+        salePrice: new Prisma.Decimal(unitPrice),
+        amounts: lineAmounts(orderLineItem),
+        discounts: lineDiscountAllocations(order, orderLineItem),
+      });
+      continue;
+    }
+
     lineItems.push({
-      productId: productId,
+      productId: productId!,
       quantitySold: quantity,
       salePrice: new Prisma.Decimal(unitPrice),
+      amounts: lineAmounts(orderLineItem),
+      discounts: lineDiscountAllocations(order, orderLineItem),
     });
     debugLog(`[DEBUG] ✓ Line item ${i + 1} mapped successfully`);
   }
 
-  debugLog('[DEBUG] Total line items mapped:', lineItems.length);
-  if (lineItems.length === 0) {
+  debugLog('[DEBUG] Total line items mapped:', lineItems.length, 'unmapped:', unmappedLines.length);
+  if (lineItems.length === 0 && unmappedLines.length === 0) {
     console.error('[DEBUG] ERROR: No valid line items found after mapping');
     throw new SaleValidationError(
       'No valid line items found after mapping',
@@ -733,6 +1020,13 @@ export async function processSaleJob(job: Job): Promise<void> {
   try {
     const result = await getPrisma().$transaction(
       async (tx) => {
+        // A void (sale-voids queue) or a duplicate of this job may have
+        // committed since the checks above (payment-lock.ts)
+        const blocked = await paymentBookingBlock(tx, squareId);
+        if (blocked) {
+          return blocked;
+        }
+
         // Find or create Location based on Square location ID
         let location = await tx.location.findUnique({
           where: { squareId: locationId },
@@ -759,6 +1053,7 @@ export async function processSaleJob(job: Job): Promise<void> {
         const sale = await tx.sale.create({
           data: {
             squareId: squareId,
+            squareOrderId: orderId,
             locationId: location.id, // Use Location UUID, not Square location ID
             createdAt: createdAt,
             totalRevenue: new Prisma.Decimal(0), // Temporary
@@ -770,6 +1065,21 @@ export async function processSaleJob(job: Job): Promise<void> {
 
         const saleItems: SaleItemOutput[] = [];
 
+        // Lock every product's stock before the first batch read, so a
+        // concurrent sale or adjustment can't cost the same units
+        // (stock-lock.ts). Cajas a suelto line may open are locked with them.
+        const breakBulkSources = await getBreakBulkSources(
+          lineItems.map((l) => l.productId),
+          tx,
+        );
+        await lockStock(tx, [
+          ...lineItems.map((l) => ({ productId: l.productId, locationId: location.id })),
+          ...[...breakBulkSources.values()].flat().map((s) => ({
+            productId: s.cajaProductId,
+            locationId: location.id,
+          })),
+        ]);
+
         // Process each line item
         debugLog('[DEBUG] [TX] Processing', lineItems.length, 'line items...');
         for (let i = 0; i < lineItems.length; i++) {
@@ -788,6 +1098,9 @@ export async function processSaleJob(job: Job): Promise<void> {
               lineItem.quantitySold,
               new Prisma.Decimal(lineItem.salePrice),
               tx,
+              location.allowPendingCost,
+              lineItem.amounts,
+              breakBulkSources.get(lineItem.productId),
             );
             debugLog(`[DEBUG] [TX] ✓ Line item ${i + 1} processed:`, {
               productId: saleItem.productId,
@@ -795,6 +1108,21 @@ export async function processSaleJob(job: Job): Promise<void> {
               cost: saleItem.cost.toString(),
             });
 
+            for (const discount of lineItem.discounts) {
+              await tx.saleDiscount.create({
+                data: {
+                  saleId: sale.id,
+                  saleItemId: saleItem.id,
+                  discountUid: discount.discountUid,
+                  name: discount.name,
+                  type: discount.type,
+                  percentage: discount.percentage,
+                  scope: discount.scope,
+                  amount: discount.amount,
+                },
+              });
+            }
+
             saleItems.push(saleItem);
           } catch (error) {
             // Log error with full context
@@ -812,6 +1140,13 @@ export async function processSaleJob(job: Job): Promise<void> {
           }
         }
 
+        // Unmapped lines stay out of the totals until they're mapped and costed
+        for (const unmapped of unmappedLines) {
+          await tx.unmappedSaleLine.create({
+            data: unmappedLineData(sale.id, location.id, unmapped),
+          });
+        }
+
         // Calculate sale totals
         debugLog('[DEBUG] [TX] Calculating sale totals...');
         const totals = calculateSaleTotals(saleItems);
@@ -821,6 +1156,30 @@ export async function processSaleJob(job: Job): Promise<void> {
           grossProfit: totals.grossProfit.toString(),
         });
 
+        // Money breakdown: line amounts cover only the lines we recorded
+        // (unmapped lines join when mapped); tips, service charges and
+        // tenders are order-level and taken as Square reports them.
+        const zero = new Prisma.Decimal(0);
+        const grossSales = lineItems.reduce((sum, item) => sum.add(item.amounts.gross), zero);
+        const discountTotal = lineItems.reduce((sum, item) => sum.add(item.amounts.discount), zero);
+        const taxTotal = lineItems.reduce((sum, item) => sum.add(item.amounts.tax), zero);
+        const orderLevel = orderTotals(order);
+
+        for (const tender of orderTenders(order)) {
+          await tx.saleTender.create({
+            data: {
+              saleId: sale.id,
+              squareTenderId: tender.squareTenderId,
+              paymentId: tender.paymentId,
+              type: tender.type,
+              cardBrand: tender.cardBrand,
+              amount: tender.amount,
+              tipAmount: tender.tip,
+              changeBack: tender.changeBack,
+            },
+          });
+        }
+
         // Update Sale record with totals
         debugLog('[DEBUG] [TX] Updating Sale record with totals...');
         await tx.sale.update({
@@ -829,20 +1188,50 @@ export async function processSaleJob(job: Job): Promise<void> {
             totalRevenue: totals.totalRevenue,
             totalCost: totals.totalCost,
             grossProfit: totals.grossProfit,
+            grossSales,
+            discountTotal,
+            taxTotal,
+            tipTotal: orderLevel.tip,
+            serviceChargeTotal: orderLevel.serviceCharge,
+            totalCollected: orderLevel.total,
           },
         });
         debugLog('[DEBUG] [TX] ✓ Sale record updated');
 
-        return { saleId: sale.id, itemCount: saleItems.length };
+        return {
+          saleId: sale.id,
+          itemCount: saleItems.length,
+          squareOutboxKeys: saleItems.flatMap((item) => item.squareOutboxKeys),
+        };
       },
       {
         timeout: 30000, // 30 second timeout
       },
     );
 
+    if ('reason' in result) {
+      if (result.reason === 'VOIDED') {
+        console.log(`[VOID] Payment ${squareId} was ${result.status} while its sale was being prepared, skipping`);
+        return 'voided';
+      }
+      debugLog(`[DEBUG] Sale ${squareId} was booked concurrently as ${result.saleId}, skipping (idempotent)`);
+      return 'already_present';
+    }
+
     saleId = result.saleId;
     itemCount = result.itemCount;
 
+    // Cajas opened for the sale go to Square now that it has committed. A
+    // failed send leaves the row FAILED for the scheduled flush; it must not
+    // fail the job, which would only find the sale already booked.
+    for (const key of result.squareOutboxKeys) {
+      try {
+        await sendOutboxRow(key);
+      } catch (error) {
+        console.error(`[SQUARE_SYNC] Could not send ${key} after sale ${saleId}, left for the scheduled flush:`, error);
+      }
+    }
+
     // Phase 5: Success
     debugLog('[DEBUG] ========================================');
     debugLog('[DEBUG] ✓ Sale processed successfully!');
@@ -851,6 +1240,7 @@ export async function processSaleJob(job: Job): Promise<void> {
     debugLog('[DEBUG] Location ID:', locationId);
     debugLog('[DEBUG] Item Count:', itemCount);
     debugLog('[DEBUG] ========================================');
+    return 'created';
   } catch (error) {
     // Error handling
     if (error instanceof UnmappedVariationError) {
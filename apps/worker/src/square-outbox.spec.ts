@@ -0,0 +1,71 @@
+import {
+  DEFAULT_SQUARE_OUTBOX_FLUSH_CRON,
+  resolveSquareOutboxFlushSchedule,
+  toSquareChanges,
+  type OutboxChange,
+} from './square-outbox';
+
+describe('resolveSquareOutboxFlushSchedule', () => {
+  it('defaults to every five minutes', () => {
+    expect(resolveSquareOutboxFlushSchedule({})).toEqual({ pattern: DEFAULT_SQUARE_OUTBOX_FLUSH_CRON });
+  });
+
+  it('uses the configured cron and timezone', () => {
+    expect(
+      resolveSquareOutboxFlushSchedule({ SQUARE_OUTBOX_FLUSH_CRON: '* * * * *', SQUARE_OUTBOX_FLUSH_TZ: 'America/Mexico_City' }),
+    ).toEqual({ pattern: '* * * * *', tz: 'America/Mexico_City' });
+  });
+
+  it('can be turned off', () => {
+    expect(resolveSquareOutboxFlushSchedule({ SQUARE_OUTBOX_FLUSH_CRON: 'off' })).toBeNull();
+    expect(resolveSquareOutboxFlushSchedule({ SQUARE_OUTBOX_FLUSH_CRON: 'None' })).toBeNull();
+  });
+});
+
+describe('toSquareChanges', () => {
+  const breakBulk: OutboxChange[] = [
+    { type: 'ADJUSTMENT', locationId: 'loc-1', productId: 'caja', quantity: 1, fromState: 'IN_STOCK', toState: 'WASTE' },
+    { type: 'ADJUSTMENT', locationId: 'loc-1', productId: 'loose', quantity: 12, fromState: 'NONE', toState: 'IN_STOCK' },
+  ];
+  const ids = {
+    squareLocations: new Map([['loc-1', 'SQ-LOC']]),
+    variations: new Map([
+      ['caja', 'SQ-CAJA'],
+      ['loose', 'SQ-LOOSE'],
+    ]),
+  };
+
+  it('maps every leg to Square ids with the row reference', () => {
+    const mapped = toSquareChanges(breakBulk, ids, '2026-10-19T12:00:00.000Z', 'adjustment-adj-1');
+
+    expect(mapped).toEqual({
+      changes: [
+        expect.objectContaining({
+          type: 'ADJUSTMENT',
+          adjustment: expect.objectContaining({
+            catalogObjectId: 'SQ-CAJA',
+            locationId: 'SQ-LOC',
+            quantity: '1',
+            fromState: 'IN_STOCK',
+            toState: 'WASTE',
+            referenceId: 'adjustment-adj-1',
+          }),
+        }),
+        expect.objectContaining({
+          adjustment: expect.objectContaining({ catalogObjectId: 'SQ-LOOSE', quantity: '12', toState: 'IN_STOCK' }),
+        }),
+      ],
+    });
+  });
+
+  it('sends nothing when one leg is unmapped', () => {
+    const mapped = toSquareChanges(
+      breakBulk,
+      { ...ids, variations: new Map([['caja', 'SQ-CAJA']]) },
+      '2026-10-19T12:00:00.000Z',
+      'adjustment-adj-1',
+    );
+
+    expect(mapped).toEqual({ unlinkedLocations: [], unmappedProducts: ['loose'] });
+  });
+});
@@ -0,0 +1,116 @@
+import type { Square } from 'square';
+
+/**
+ * Pure helpers for the scheduled Square outbox flush — no DB or network
+ * access. OutboxChange and toSquareChanges mirror the API's
+ * (apps/api/src/inventory/square-outbox.ts), which writes most rows; keep
+ * both in step so a row reads the same whichever side sends it.
+ */
+
+export const DEFAULT_SQUARE_OUTBOX_FLUSH_CRON = '*/5 * * * *'; // Every 5 minutes
+
+export interface SquareOutboxFlushSchedule {
+  pattern: string;
+  tz?: string;
+}
+
+/**
+ * SQUARE_OUTBOX_FLUSH_CRON sets the schedule (standard 5-field cron,
+ * optionally SQUARE_OUTBOX_FLUSH_TZ for its timezone); "off" leaves only
+ * the send right after each movement and the flush button.
+ */
+export function resolveSquareOutboxFlushSchedule(env: NodeJS.ProcessEnv): SquareOutboxFlushSchedule | null {
+  const raw = env.SQUARE_OUTBOX_FLUSH_CRON?.trim();
+  if (raw && ['off', 'false', 'disabled', 'none'].includes(raw.toLowerCase())) {
+    return null;
+  }
+  const tz = env.SQUARE_OUTBOX_FLUSH_TZ?.trim();
+  return { pattern: raw || DEFAULT_SQUARE_OUTBOX_FLUSH_CRON, ...(tz && { tz }) };
+}
+
+export type OutboxState = 'NONE' | 'IN_STOCK' | 'IN_TRANSIT' | 'WASTE' | 'UNLINKED_RETURN';
+
+export type OutboxChange =
+  | {
+      type: 'ADJUSTMENT';
+      locationId: string;
+      productId: string;
+      quantity: number; // Always positive; the states carry the direction
+      fromState: OutboxState;
+      toState: OutboxState;
+    }
+  | {
+      type: 'TRANSFER';
+      fromLocationId: string;
+      toLocationId: string;
+      productId: string;
+      quantity: number;
+      state: OutboxState;
+    };
+
+/** Every location and product a set of changes refers to. */
+export function outboxRefs(changes: OutboxChange[]): { locationIds: string[]; productIds: string[] } {
+  const locationIds = new Set<string>();
+  const productIds = new Set<string>();
+  for (const change of changes) {
+    if (change.type === 'TRANSFER') {
+      locationIds.add(change.fromLocationId);
+      locationIds.add(change.toLocationId);
+    } else {
+      locationIds.add(change.locationId);
+    }
+    productIds.add(change.productId);
+  }
+  return { locationIds: [...locationIds], productIds: [...productIds] };
+}
+
+/**
+ * Map changes to Square ids. Nothing is sent if any location or product
+ * lacks one: a partial batch would leave Square half-moved with no way to
+ * tell which half from the row.
+ */
+export function toSquareChanges(
+  changes: OutboxChange[],
+  ids: { squareLocations: Map<string, string>; variations: Map<string, string> },
+  occurredAt: string,
+  referenceId: string,
+): { changes: Square.InventoryChange[] } | { unlinkedLocations: string[]; unmappedProducts: string[] } {
+  const { locationIds, productIds } = outboxRefs(changes);
+  const unlinkedLocations = locationIds.filter((id) => !ids.squareLocations.has(id));
+  const unmappedProducts = productIds.filter((id) => !ids.variations.has(id));
+  if (unlinkedLocations.length > 0 || unmappedProducts.length > 0) {
+    return { unlinkedLocations, unmappedProducts };
+  }
+
+  return {
+    changes: changes.map((change): Square.InventoryChange => {
+      const catalogObjectId = ids.variations.get(change.productId)!;
+      if (change.type === 'TRANSFER') {
+        return {
+          type: 'TRANSFER',
+          transfer: {
+            catalogObjectId,
+            fromLocationId: ids.squareLocations.get(change.fromLocationId)!,
+            toLocationId: ids.squareLocations.get(change.toLocationId)!,
+            state: change.state,
+            quantity: change.quantity.toString(),
+            occurredAt,
+            referenceId,
+          },
+        };
+      }
+      return {
+        type: 'ADJUSTMENT',
+        adjustment: {
+          catalogObjectId,
+          locationId: ids.squareLocations.get(change.locationId)!,
+          quantity: change.quantity.toString(),
+          fromState: change.fromState,
+          toState: change.toState,
+          occurredAt,
+          referenceId,
+        },
+      };
+    }),
+  };
+}
@@ -0,0 +1,132 @@
+import { Job } from 'bullmq';
+import { getPrisma, getSquareClient } from './sale.worker';
+import { outboxRefs, toSquareChanges, type OutboxChange } from './square-outbox';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface OutboxSendResult {
+  synced: boolean;
+  error?: string;
+}
+
+export interface SquareOutboxFlushJobResult {
+  attempted: number;
+  synced: number;
+  failed: Array<{ idempotencyKey: string; error?: string }>;
+}
+
+// Rows per scheduled flush; the next tick picks up the rest
+const FLUSH_LIMIT = 100;
+
+// ============================================================================
+// Send
+// ============================================================================
+
+/**
+ * Send one queued row to Square under its idempotency key and record the
+ * outcome on it. A row already synced is not sent again, and Square applies
+ * a key only once, so the API sending the same row meanwhile is harmless.
+ */
+export async function sendOutboxRow(idempotencyKey: string): Promise<OutboxSendResult> {
+  const prisma = getPrisma();
+  const row = await prisma.squareSyncOutbox.findUnique({ where: { idempotencyKey } });
+  if (!row || row.status === 'SYNCED') {
+    return { synced: !!row };
+  }
+
+  let result: OutboxSendResult;
+  try {
+    const changes = row.changes as unknown as OutboxChange[];
+    const { locationIds, productIds } = outboxRefs(changes);
+    const [locations, mappings] = await Promise.all([
+      prisma.location.findMany({
+        where: { id: { in: locationIds }, squareId: { not: null } },
+        select: { id: true, squareId: true },
+      }),
+      prisma.catalogMapping.findMany({
+        where: { productId: { in: productIds } },
+        select: { productId: true, squareVariationId: true },
+      }),
+    ]);
+
+    const mapped = toSquareChanges(
+      changes,
+      {
+        squareLocations: new Map(locations.map((l) => [l.id, l.squareId!])),
+        variations: new Map(mappings.map((m) => [m.productId, m.squareVariationId])),
+      },
+      row.occurredAt.toISOString(),
+      row.referenceId,
+    );
+    if ('unlinkedLocations' in mapped) {
+      const products =
+        mapped.unlinkedLocations.length > 0
+          ? []
+          : await prisma.product.findMany({ where: { id: { in: mapped.unmappedProducts } }, select: { name: true } });
+      result = {
+        synced: false,
+        error:
+          mapped.unlinkedLocations.length > 0
+            ? 'Location not linked to Square'
+            : `Products not mapped to Square catalog: ${products.map((p) => p.name).join(', ')}`,
+      };
+    } else {
+      await getSquareClient().inventory.batchCreateChanges({ idempotencyKey, changes: mapped.changes });
+      result = { synced: true };
+    }
+  } catch (error) {
+    result = { synced: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  await prisma.squareSyncOutbox.update({
+    where: { id: row.id },
+    data: {
+      status: result.synced ? 'SYNCED' : 'FAILED',
+      attempts: { increment: 1 },
+      lastError: result.error ?? null,
+      syncedAt: result.synced ? new Date() : null,
+    },
+  });
+  if (!result.synced) {
+    console.error(`[SQUARE_SYNC] Failed to sync ${row.referenceId}: ${result.error}`);
+  }
+  return result;
+}
+
+// ============================================================================
+// Main Worker Function
+// ============================================================================
+
+/**
+ * Send every outbox row not yet synced, oldest first. Queued by the
+ * square-outbox job scheduler (see worker.config.ts), so rows whose first
+ * send failed and rows the sale worker queues (automatic break-bulk) reach
+ * Square without anyone pressing flush.
+ */
+export async function processSquareOutboxFlushJob(job: Pick<Job, 'id'>): Promise<SquareOutboxFlushJobResult> {
+  const rows = await getPrisma().squareSyncOutbox.findMany({
+    where: { status: { in: ['PENDING', 'FAILED'] } },
+    orderBy: { createdAt: 'asc' },
+    take: FLUSH_LIMIT,
+    select: { idempotencyKey: true },
+  });
+
+  const result: SquareOutboxFlushJobResult = { attempted: rows.length, synced: 0, failed: [] };
+  for (const row of rows) {
+    const sent = await sendOutboxRow(row.idempotencyKey);
+    if (sent.synced) {
+      result.synced++;
+    } else {
+      result.failed.push({ idempotencyKey: row.idempotencyKey, error: sent.error });
+    }
+  }
+
+  if (rows.length > 0) {
+    console.log(
+      `[SQUARE_OUTBOX] Flushed ${rows.length} row(s): ${result.synced} synced, ${result.failed.length} failed (job ${job.id})`,
+    );
+  }
+  return result;
+}
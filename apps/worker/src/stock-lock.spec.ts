@@ -0,0 +1,151 @@
+import { Prisma } from '@prisma/client';
+import { consumeBatchesFifo, type FifoConsumptionResult } from './fifo';
+import { lockStock, stockLockKeys } from './stock-lock';
+
+interface Batch {
+  id: string;
+  quantity: number;
+  unitCost: number;
+}
+
+const tick = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * In-memory model of the consumers, not of Postgres: every statement yields,
+ * so concurrent transactions interleave between reading batches and
+ * decrementing them. Its $executeRaw queues per key and releases when the
+ * transaction ends — what pg_advisory_xact_lock is assumed to do. It shows
+ * that taking lockStock first closes the read-then-decrement race under that
+ * assumption; it does not exercise the database's locking.
+ */
+class FakeStockDb {
+  private readonly lockTails = new Map<string, Promise<void>>();
+
+  constructor(readonly batches: Batch[]) {}
+
+  async transaction<T>(fn: (tx: FakeTx) => Promise<T>): Promise<T> {
+    const releases: Array<() => void> = [];
+    const tx: FakeTx = {
+      $executeRaw: async (_sql: TemplateStringsArray, key: string) => {
+        const previous = this.lockTails.get(key) ?? Promise.resolve();
+        let release!: () => void;
+        const held = new Promise<void>((resolve) => (release = resolve));
+        this.lockTails.set(key, previous.then(() => held));
+        releases.push(release);
+        await previous;
+        return 1;
+      },
+      readBatches: async () => {
+        await tick();
+        return this.batches.filter((b) => b.quantity > 0).map((b) => ({ ...b }));
+      },
+      decrement: async (id: string, quantity: number) => {
+        await tick();
+        this.batches.find((b) => b.id === id)!.quantity -= quantity;
+      },
+    };
+    try {
+      return await fn(tx);
+    } finally {
+      releases.forEach((release) => release());
+    }
+  }
+}
+
+interface FakeTx {
+  $executeRaw: (sql: TemplateStringsArray, key: string) => Promise<number>;
+  readBatches: () => Promise<Batch[]>;
+  decrement: (id: string, quantity: number) => Promise<void>;
+}
+
+// Same read-cost-decrement shape as processSaleItem in the worker and
+// processNegativeAdjustment in the API.
+function consume(db: FakeStockDb, quantity: number, withLock: boolean): Promise<FifoConsumptionResult> {
+  return db.transaction(async (tx) => {
+    if (withLock) {
+      await lockStock(tx as unknown as Pick<Prisma.TransactionClient, '$executeRaw'>, [
+        { productId: 'prod-1', locationId: 'loc-1' },
+      ]);
+    }
+    const result = consumeBatchesFifo(await tx.readBatches(), quantity);
+    for (const b of result.consumedBatches) {
+      await tx.decrement(b.batchId, b.quantityConsumed);
+    }
+    return result;
+  });
+}
+
+const startingStock = (): Batch[] => [
+  { id: 'lot-1', quantity: 5, unitCost: 5 },
+  { id: 'lot-2', quantity: 10, unitCost: 8 },
+];
+
+describe('stockLockKeys', () => {
+  // The API builds the same keys (apps/api/src/inventory/stock-lock.ts); both specs pin the format.
+  it('keys stock by location and product', () => {
+    expect(stockLockKeys([{ productId: 'prod-1', locationId: 'loc-1' }])).toEqual(['stock:loc-1:prod-1']);
+  });
+
+  it('deduplicates and sorts so every caller locks in the same order', () => {
+    expect(
+      stockLockKeys([
+        { productId: 'b', locationId: 'loc' },
+        { productId: 'a', locationId: 'loc' },
+        { productId: 'b', locationId: 'loc' },
+      ]),
+    ).toEqual(['stock:loc:a', 'stock:loc:b']);
+  });
+});
+
+describe('lockStock', () => {
+  it('takes one transaction-scoped advisory lock per key, in key order', async () => {
+    const statements: Array<{ sql: string; key: string }> = [];
+    const tx = {
+      $executeRaw: async (sql: TemplateStringsArray, key: string) => {
+        statements.push({ sql: sql.join('?'), key });
+        return 1;
+      },
+    } as unknown as Pick<Prisma.TransactionClient, '$executeRaw'>;
+
+    await lockStock(tx, [
+      { productId: 'prod-2', locationId: 'loc-1' },
+      { productId: 'prod-1', locationId: 'loc-1' },
+      { productId: 'prod-2', locationId: 'loc-1' },
+    ]);
+
+    expect(statements).toEqual([
+      { sql: 'SELECT pg_advisory_xact_lock(hashtextextended(?, 0))', key: 'stock:loc-1:prod-1' },
+      { sql: 'SELECT pg_advisory_xact_lock(hashtextextended(?, 0))', key: 'stock:loc-1:prod-2' },
+    ]);
+  });
+});
+
+describe('read-cost-decrement consumers on an in-memory model (FakeStockDb)', () => {
+  it('without the lock, concurrent consumers cost the same units twice (the race being fixed)', async () => {
+    const db = new FakeStockDb(startingStock());
+
+    await Promise.all([consume(db, 4, false), consume(db, 3, false), consume(db, 2, false)]);
+
+    expect(db.batches.find((b) => b.id === 'lot-1')!.quantity).toBeLessThan(0);
+  });
+
+  it('with lockStock taken first, concurrent sales and adjustments never double-consume a batch', async () => {
+    const db = new FakeStockDb(startingStock());
+
+    // Two sales and a negative adjustment of the same product at once
+    const results = await Promise.all([consume(db, 4, true), consume(db, 3, true), consume(db, 2, true)]);
+
+    expect(db.batches).toEqual([
+      { id: 'lot-1', quantity: 0, unitCost: 5 },
+      { id: 'lot-2', quantity: 6, unitCost: 8 },
+    ]);
+    const consumedFromLot1 = results
+      .flatMap((r) => r.consumedBatches)
+      .filter((b) => b.batchId === 'lot-1')
+      .reduce((sum, b) => sum + b.quantityConsumed, 0);
+    expect(consumedFromLot1).toBe(5);
+    // 5 units at 5 and 4 at 8, however the three were ordered
+    const totalCost = results.reduce((sum, r) => sum.add(r.totalCost), new Prisma.Decimal(0));
+    expect(totalCost.toNumber()).toBe(57);
+  });
+});
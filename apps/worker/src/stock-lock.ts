@@ -0,0 +1,42 @@
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Serializes batch consumption per product and location. Batches are read,
+ * costed and then decremented in separate statements, so two transactions
+ * consuming the same stock (the sales queue runs several jobs at once, and
+ * the API adjusts stock too) must not interleave between the read and the
+ * write. Each takes a transaction-scoped advisory lock on the stock key
+ * before reading batches; the lock is released on commit or rollback.
+ *
+ * An advisory lock rather than SELECT ... FOR UPDATE because it also covers
+ * the rows that don't exist yet: a batch created mid-sale, or an empty
+ * location where the sale goes to pending cost.
+ *
+ * The API takes the same locks (apps/api/src/inventory/stock-lock.ts); the
+ * key format must stay identical in both.
+ */
+
+export interface StockKey {
+  productId: string;
+  locationId: string;
+}
+
+/**
+ * Lock keys for the given stock, deduplicated and sorted. Every caller locks
+ * in this order, so a sale of A and B and a sale of B and A can't deadlock.
+ */
+export function stockLockKeys(stock: StockKey[]): string[] {
+  const keys = new Set(stock.map((s) => `stock:${s.locationId}:${s.productId}`));
+  return [...keys].sort();
+}
+
+/** Take the stock locks inside the caller's transaction; blocks until granted. */
+export async function lockStock(
+  tx: Pick<Prisma.TransactionClient, '$executeRaw'>,
+  stock: StockKey[],
+): Promise<void> {
+  for (const key of stockLockKeys(stock)) {
+    // $executeRaw: pg_advisory_xact_lock returns void, which $queryRaw can't deserialize
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtextextended(${key}, 0))`;
+  }
+}
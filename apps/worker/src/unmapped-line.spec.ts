@@ -0,0 +1,49 @@
+import { Prisma } from '@prisma/client';
+import { unmappedLineData } from './unmapped-line';
+
+const amounts = {
+  gross: new Prisma.Decimal('10'),
+  discount: new Prisma.Decimal('1'),
+  tax: new Prisma.Decimal('0.9'),
+  total: new Prisma.Decimal('9.9'),
+};
+
+describe('unmappedLineData', () => {
+  it('keeps the Square identifiers a manager maps from', () => {
+    const data = unmappedLineData('sale-1', 'loc-1', {
+      reason: 'UNMAPPED_VARIATION',
+      line: { uid: 'L1', catalogObjectId: 'VAR1', name: 'Ibuprofeno', variationName: '400mg' },
+      quantity: 2,
+      salePrice: new Prisma.Decimal('4.95'),
+      amounts,
+      discounts: [],
+    });
+    expect(data).toMatchObject({
+      saleId: 'sale-1',
+      locationId: 'loc-1',
+      reason: 'UNMAPPED_VARIATION',
+      lineUid: 'L1',
+      squareVariationId: 'VAR1',
+      name: 'Ibuprofeno',
+      variationName: '400mg',
+      quantity: 2,
+    });
+  });
+
+  it('stores a custom-amount line without a variation and discounts as JSON-safe strings', () => {
+    const data = unmappedLineData('sale-1', 'loc-1', {
+      reason: 'CUSTOM_AMOUNT',
+      line: { uid: 'L2', name: 'Custom Amount' },
+      quantity: 1,
+      salePrice: new Prisma.Decimal('9.9'),
+      amounts,
+      discounts: [
+        { discountUid: 'D1', name: '10%', type: 'FIXED_PERCENTAGE', percentage: '10', scope: 'ORDER', amount: new Prisma.Decimal('1') },
+      ],
+    });
+    expect(data.squareVariationId).toBeNull();
+    expect(data.discounts).toEqual([
+      { discountUid: 'D1', name: '10%', type: 'FIXED_PERCENTAGE', percentage: '10', scope: 'ORDER', amount: '1' },
+    ]);
+  });
+});
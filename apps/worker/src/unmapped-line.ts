@@ -0,0 +1,44 @@
+import { Prisma } from '@prisma/client';
+import type { DiscountAllocation, LineAmounts } from './order-amounts';
+
+/**
+ * Sale lines the worker can't tie to a Product. Rather than failing the whole
+ * sale, they're stored as UnmappedSaleLine for a manager to map later (the
+ * API costs them then, see unmapped-sale-line.service.ts). Pure — no DB access.
+ */
+
+// CUSTOM_AMOUNT: rung up without a catalog item. UNMAPPED_VARIATION: a
+// catalog variation with no CatalogMapping (usually created after the last sync).
+export type UnmappedLineReason = 'CUSTOM_AMOUNT' | 'UNMAPPED_VARIATION';
+
+export interface UnmappedLineInput {
+  reason: UnmappedLineReason;
+  line: any; // Square order line item (SDK shape)
+  quantity: number;
+  salePrice: Prisma.Decimal;
+  amounts: LineAmounts;
+  discounts: DiscountAllocation[];
+}
+
+/** Row data for UnmappedSaleLine; discount amounts go to JSON as strings. */
+export function unmappedLineData(
+  saleId: string,
+  locationId: string,
+  input: UnmappedLineInput,
+): Prisma.UnmappedSaleLineUncheckedCreateInput {
+  return {
+    saleId,
+    locationId,
+    reason: input.reason,
+    lineUid: input.line?.uid ?? null,
+    squareVariationId: input.line?.catalogObjectId ?? null,
+    name: input.line?.name ?? null,
+    variationName: input.line?.variationName ?? null,
+    quantity: input.quantity,
+    price: input.salePrice,
+    grossAmount: input.amounts.gross,
+    discountAmount: input.amounts.discount,
+    taxAmount: input.amounts.tax,
+    discounts: input.discounts.map(d => ({ ...d, amount: d.amount.toString() })),
+  };
+}
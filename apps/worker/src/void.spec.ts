@@ -0,0 +1,60 @@
+import { planSaleVoid, voidTriggerFromPayload } from './void';
+
+describe('voidTriggerFromPayload', () => {
+  it('treats a CANCELED payment as a void', () => {
+    const trigger = voidTriggerFromPayload({
+      type: 'payment',
+      object: {
+        payment: { id: 'PAY1', status: 'CANCELED', order_id: 'ORD1', updated_at: '2026-10-01T12:00:00Z' },
+      },
+    });
+    expect(trigger).toEqual({
+      source: 'payment.updated',
+      status: 'CANCELED',
+      paymentId: 'PAY1',
+      orderId: 'ORD1',
+      occurredAt: new Date('2026-10-01T12:00:00Z'),
+    });
+  });
+
+  it('ignores payment updates that do not undo the sale', () => {
+    expect(voidTriggerFromPayload({ object: { payment: { id: 'PAY1', status: 'COMPLETED' } } })).toBeNull();
+    expect(voidTriggerFromPayload({ object: { payment: { id: 'PAY1', status: 'APPROVED' } } })).toBeNull();
+  });
+
+  it('treats a CANCELED order as a void of its payments', () => {
+    const trigger = voidTriggerFromPayload({
+      type: 'order_updated',
+      object: { order_updated: { order_id: 'ORD1', state: 'CANCELED', updated_at: '2026-10-01T12:00:00Z' } },
+    });
+    expect(trigger?.source).toBe('order.updated');
+    expect(trigger?.paymentId).toBeNull();
+    expect(trigger?.orderId).toBe('ORD1');
+
+    expect(voidTriggerFromPayload({ object: { order_updated: { order_id: 'ORD1', state: 'OPEN' } } })).toBeNull();
+  });
+});
+
+describe('planSaleVoid', () => {
+  it('returns every unit not already refunded', () => {
+    const plan = planSaleVoid([
+      { consumptionId: 'c1', saleItemId: 's1', inventoryId: 'b1', quantity: 3, unitCost: '2.00', alreadyReversed: 1 },
+      { consumptionId: 'c2', saleItemId: 's1', inventoryId: 'b2', quantity: 2, unitCost: '2.50', alreadyReversed: 0 },
+      { consumptionId: 'c3', saleItemId: 's2', inventoryId: 'b3', quantity: 1, unitCost: '4.00', alreadyReversed: 1 },
+    ]);
+
+    expect(plan.unallocatedQuantity).toBe(0);
+    expect(plan.reversals.map(r => [r.consumptionId, r.quantity])).toEqual([
+      ['c2', 2],
+      ['c1', 2],
+    ]);
+    expect(plan.totalCost.toString()).toBe('9');
+  });
+
+  it('plans nothing for a fully refunded sale', () => {
+    const plan = planSaleVoid([
+      { consumptionId: 'c1', saleItemId: 's1', inventoryId: 'b1', quantity: 2, unitCost: '2.00', alreadyReversed: 2 },
+    ]);
+    expect(plan.reversals).toEqual([]);
+  });
+});
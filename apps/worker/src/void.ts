@@ -0,0 +1,60 @@
+import { allocateRefundToConsumptions, type RefundAllocationResult, type ReversibleConsumption } from './refund';
+
+/**
+ * Pure void detection and planning — no DB access. Square has no "void"
+ * event: a booked payment that is later canceled or failed shows up as a
+ * payment.updated with the new status, and a canceled order as an
+ * order.updated with state CANCELED.
+ */
+
+export const VOID_PAYMENT_STATUSES = ['CANCELED', 'FAILED'];
+
+export interface VoidTrigger {
+  source: 'payment.updated' | 'order.updated';
+  status: string;
+  paymentId: string | null; // Set for payment.updated
+  orderId: string | null;
+  occurredAt: Date;
+}
+
+/**
+ * Classify a queued payload (Square event.data). Returns null for updates
+ * that don't undo a sale — most payment.updated events are the normal
+ * APPROVED → COMPLETED progression.
+ */
+export function voidTriggerFromPayload(payload: any): VoidTrigger | null {
+  const payment = payload?.object?.payment;
+  if (payment?.id) {
+    if (!VOID_PAYMENT_STATUSES.includes(payment.status)) return null;
+    return {
+      source: 'payment.updated',
+      status: payment.status,
+      paymentId: payment.id,
+      orderId: payment.order_id ?? null,
+      occurredAt: new Date(payment.updated_at || payment.created_at || Date.now()),
+    };
+  }
+
+  const order = payload?.object?.order_updated;
+  if (order?.order_id) {
+    if (order.state !== 'CANCELED') return null;
+    return {
+      source: 'order.updated',
+      status: order.state,
+      paymentId: null,
+      orderId: order.order_id,
+      occurredAt: new Date(order.updated_at || order.created_at || Date.now()),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reverse every unit the sale still holds. Earlier refunds already put some
+ * units back, so only each consumption's unreversed remainder is returned.
+ */
+export function planSaleVoid(consumptions: ReversibleConsumption[]): RefundAllocationResult {
+  const stillSold = consumptions.reduce((sum, c) => sum + Math.max(c.quantity - c.alreadyReversed, 0), 0);
+  return allocateRefundToConsumptions(consumptions, stillSold);
+}
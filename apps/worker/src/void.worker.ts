@@ -0,0 +1,213 @@
+import { Job } from 'bullmq';
+import { Prisma } from '@prisma/client';
+import { DatabaseTransactionError, SaleValidationError } from './errors';
+import { debugLog, getPrisma, getSquareClient } from './sale.worker';
+import { type ReversibleConsumption } from './refund';
+import { planSaleVoid, voidTriggerFromPayload, type VoidTrigger } from './void';
+import { lockPayment } from './payment-lock';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Payments a canceled order had. Sales store their order id, so normally the
+ * lookup is local; sales booked before that column existed (or none at all)
+ * fall back to the order's tenders.
+ */
+async function resolveOrderPaymentIds(orderId: string, payload: any): Promise<string[]> {
+  const sales = await getPrisma().sale.findMany({
+    where: { squareOrderId: orderId },
+    select: { squareId: true },
+  });
+  if (sales.length > 0) {
+    return sales.map((s) => s.squareId);
+  }
+
+  let order: any = payload?._testOrderData;
+  if (!order) {
+    try {
+      const response = await getSquareClient().orders.get({ orderId });
+      order = response.order;
+    } catch (error) {
+      throw new SaleValidationError(
+        `Failed to fetch canceled order from Square: ${error instanceof Error ? error.message : String(error)}`,
+        { orderId },
+      );
+    }
+  }
+
+  return (order?.tenders || [])
+    .map((tender: any) => tender.paymentId)
+    .filter((id: string | undefined): id is string => !!id);
+}
+
+/**
+ * Void one payment. Everything happens in one transaction under the payment
+ * lock (payment-lock.ts): the SaleVoid row is the idempotency key, so a
+ * retried job either sees it or rolls back with nothing restored, and the
+ * sale is looked up only once a concurrent payment.created can no longer be
+ * halfway through booking it.
+ */
+async function voidPayment(paymentId: string, trigger: VoidTrigger, squareEventId: string | null): Promise<void> {
+  try {
+    const result = await getPrisma().$transaction(
+      async (tx) => {
+        await lockPayment(tx, paymentId);
+
+        const existing = await tx.saleVoid.findUnique({ where: { squarePaymentId: paymentId } });
+        if (existing) {
+          return 'ALREADY_VOIDED' as const;
+        }
+
+        const sale = await tx.sale.findUnique({
+          where: { squareId: paymentId },
+          include: {
+            items: {
+              include: {
+                consumptions: {
+                  include: { reversals: { select: { quantity: true } } },
+                  orderBy: { inventory: { receivedAt: 'asc' } },
+                },
+                pendingCosts: { where: { remainingQuantity: { gt: 0 } } },
+              },
+            },
+          },
+        });
+
+        // The payment was never booked (its payment.created is still queued
+        // or was skipped). Recording the void now stops the sale worker from
+        // booking it later.
+        if (!sale) {
+          await tx.saleVoid.create({
+            data: {
+              squarePaymentId: paymentId,
+              source: trigger.source,
+              status: trigger.status,
+              squareEventId,
+              voidedAt: trigger.occurredAt,
+            },
+          });
+          return null;
+        }
+
+        const consumptions: ReversibleConsumption[] = sale.items.flatMap((item) =>
+          item.consumptions.map((c) => ({
+            consumptionId: c.id,
+            saleItemId: item.id,
+            inventoryId: c.inventoryId,
+            quantity: c.quantity,
+            unitCost: c.unitCost,
+            alreadyReversed: c.reversals.reduce((sum, r) => sum + r.quantity, 0),
+          })),
+        );
+        const plan = planSaleVoid(consumptions);
+        const units = plan.reversals.reduce((sum, r) => sum + r.quantity, 0);
+
+        const saleVoid = await tx.saleVoid.create({
+          data: {
+            squarePaymentId: paymentId,
+            saleId: sale.id,
+            source: trigger.source,
+            status: trigger.status,
+            squareEventId,
+            units,
+            cost: plan.totalCost,
+            revenue: sale.totalRevenue,
+            voidedAt: trigger.occurredAt,
+          },
+        });
+
+        for (const reversal of plan.reversals) {
+          await tx.inventory.update({
+            where: { id: reversal.inventoryId },
+            data: { quantity: { increment: reversal.quantity } },
+          });
+        }
+
+        await tx.saleVoidLine.createMany({
+          data: plan.reversals.map((r) => ({
+            voidId: saleVoid.id,
+            saleItemId: r.saleItemId,
+            consumptionId: r.consumptionId,
+            inventoryId: r.inventoryId,
+            quantity: r.quantity,
+            unitCost: r.unitCost,
+            totalCost: r.totalCost,
+          })),
+        });
+
+        // Units still waiting on cost never left a batch; nothing to restore,
+        // they just stop being owed.
+        for (const pending of sale.items.flatMap((item) => item.pendingCosts)) {
+          await tx.pendingCostConsumption.update({
+            where: { id: pending.id },
+            data: { remainingQuantity: 0, settledAt: trigger.occurredAt },
+          });
+        }
+
+        return { saleId: sale.id, units, cost: plan.totalCost, lines: plan.reversals.length };
+      },
+      { timeout: 30000 },
+    );
+
+    if (result === 'ALREADY_VOIDED') {
+      debugLog(`[VOID] Payment ${paymentId} already voided, skipping (idempotent)`);
+    } else if (result) {
+      console.log(
+        `[VOID] Payment ${paymentId} (${trigger.source} ${trigger.status}) voided sale ${result.saleId}: ` +
+          `${result.units} unit(s) back to ${result.lines} batch(es), cost reversed ${result.cost.toString()}`,
+      );
+    } else {
+      console.log(`[VOID] Payment ${paymentId} (${trigger.source} ${trigger.status}) has no sale; recorded so it is never booked`);
+    }
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      // A concurrent job for the same payment (payment.updated and
+      // order.updated usually arrive together) committed first.
+      debugLog(`[VOID] Payment ${paymentId} voided concurrently, skipping`);
+      return;
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      console.error('Database error processing void:', { error: error.message, code: error.code, paymentId });
+      throw new DatabaseTransactionError(error.message, error);
+    }
+    throw new DatabaseTransactionError(
+      `Unknown error: ${error instanceof Error ? error.message : String(error)}`,
+      error,
+    );
+  }
+}
+
+// ============================================================================
+// Main Worker Function
+// ============================================================================
+
+/**
+ * Process a Square payment.updated / order.updated webhook. A payment that
+ * ends CANCELED or FAILED, or an order canceled after its payment was booked,
+ * fully reverses the sale: every consumed unit returns to its original batch
+ * at its original cost and a SaleVoid records it. Other updates are ignored.
+ */
+export async function processVoidJob(job: Job): Promise<void> {
+  const payload = job.data?.payload;
+  const trigger = voidTriggerFromPayload(payload);
+
+  if (!trigger) {
+    debugLog(`[VOID] Job ${job.id} is not a cancellation, ignoring`);
+    return;
+  }
+
+  const paymentIds = trigger.paymentId
+    ? [trigger.paymentId]
+    : await resolveOrderPaymentIds(trigger.orderId!, payload);
+
+  if (paymentIds.length === 0) {
+    debugLog(`[VOID] Canceled order ${trigger.orderId} has no payments, nothing to reverse`);
+    return;
+  }
+
+  for (const paymentId of paymentIds) {
+    await voidPayment(paymentId, trigger, job.data?.squareEventId ?? null);
+  }
+}
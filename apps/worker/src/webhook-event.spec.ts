@@ -0,0 +1,22 @@
+import { webhookEventUpdate } from './webhook-event';
+
+describe('webhookEventUpdate', () => {
+  it('marks a running job PROCESSING', () => {
+    expect(webhookEventUpdate('active', { attemptsMade: 0, opts: { attempts: 3 } })).toEqual({ status: 'PROCESSING' });
+  });
+
+  it('keeps an event RETRYING while BullMQ has attempts left', () => {
+    const update = webhookEventUpdate('failed', { attemptsMade: 1, opts: { attempts: 3 } }, new TypeError('boom'));
+    expect(update).toEqual({ status: 'RETRYING', attemptsMade: 1, lastError: 'TypeError: boom' });
+  });
+
+  it('marks the event FAILED on the last attempt', () => {
+    expect(webhookEventUpdate('failed', { attemptsMade: 3, opts: { attempts: 3 } }, new Error('boom')).status).toBe('FAILED');
+  });
+
+  it('clears the last error once a later attempt succeeds', () => {
+    const update = webhookEventUpdate('completed', { attemptsMade: 2, opts: { attempts: 3 } });
+    expect(update).toMatchObject({ status: 'PROCESSED', attemptsMade: 2, lastError: null });
+    expect(update.processedAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,44 @@
+import { Job } from 'bullmq';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from './sale.worker';
+import { isFinalAttempt } from './dead-letter';
+
+/**
+ * Moves a stored WebhookEvent (apps/api webhook-event.service.ts) along as
+ * the sales-queue job for it runs. Like the dead-letter hooks this runs from
+ * WorkerManager's events, not inside a processor, so a failed status write
+ * never fails the job. Jobs carry the Square event_id as squareEventId; jobs
+ * with no stored event (test sales, backfill) simply match no row.
+ */
+
+export type WebhookJobEvent = 'active' | 'completed' | 'failed';
+
+/** Status columns to write for a job lifecycle event. */
+export function webhookEventUpdate(
+  event: WebhookJobEvent,
+  job: Pick<Job, 'attemptsMade' | 'opts'>,
+  err?: unknown,
+): Prisma.WebhookEventUpdateManyMutationInput {
+  switch (event) {
+    case 'active':
+      return { status: 'PROCESSING' };
+    case 'completed':
+      return { status: 'PROCESSED', attemptsMade: job.attemptsMade, lastError: null, processedAt: new Date() };
+    case 'failed':
+      return {
+        status: isFinalAttempt(job) ? 'FAILED' : 'RETRYING',
+        attemptsMade: job.attemptsMade,
+        lastError: err instanceof Error ? `${err.name}: ${err.message}` : String(err),
+      };
+  }
+}
+
+export async function updateWebhookEvent(job: Job, event: WebhookJobEvent, err?: unknown): Promise<void> {
+  const eventId = job.data?.squareEventId;
+  if (!eventId) return;
+
+  await getPrisma().webhookEvent.updateMany({
+    where: { eventId },
+    data: webhookEventUpdate(event, job, err),
+  });
+}
@@ -1,10 +1,34 @@
 import { Job } from 'bullmq';
 import { processSaleJob } from './sale.worker';
+import { processRefundJob } from './refund.worker';
+import { processBackfillJob } from './backfill.worker';
+import { processVoidJob } from './void.worker';
+import { processInventoryCountJob } from './inventory-count.worker';
+import { processCatalogSyncJob } from './catalog-sync.worker';
+import { processInventorySnapshotJob } from './inventory-snapshot.worker';
+import { resolveCatalogSyncSchedule } from './catalog-sync-run';
+import { resolveInventorySnapshotSchedule } from './inventory-snapshot';
+import { processSquareOutboxFlushJob } from './square-outbox.worker';
+import { resolveSquareOutboxFlushSchedule } from './square-outbox';
 
 export interface WorkerConfig {
   queueName: string;
   processor: (job: Job) => Promise<any>;
   concurrency?: number;
+  /** Persist jobs that exhaust their retries to DeadLetterJob (see dead-letter.ts). */
+  deadLetter?: boolean;
+  /** Jobs come from stored Square webhooks; keep WebhookEvent.status current (see webhook-event.ts). */
+  webhookEvents?: boolean;
+  /**
+   * Repeatable job kept on the queue by a BullMQ job scheduler. A null
+   * schedule removes one registered by an earlier deploy.
+   */
+  repeat?: {
+    schedulerId: string;
+    jobName: string;
+    schedule: { pattern: string; tz?: string } | null;
+    data?: Record<string, unknown>;
+  };
   options?: {
     attempts?: number;
     backoff?: {
@@ -23,9 +47,25 @@ export const WORKERS: WorkerConfig[] = [
     processor: (job: Job) => {
       console.log('[DEBUG] [WORKER_CONFIG] Sales worker processor called for job:', job.id);
       console.log('[DEBUG] [WORKER_CONFIG] Job data keys:', Object.keys(job.data || {}));
+      // Refunds share the sales queue so they don't overtake retries of the
+      // sale they reverse on a different queue's schedule. Square count
+      // checks ride along, delayed behind the sales they race.
+      if (job.name === 'process-refund') {
+        return processRefundJob(job);
+      }
+      // Voids queued here before they got their own queue (below); booked
+      // as a sale, a cancellation would take the stock it should give back.
+      if (job.name === 'process-void') {
+        return processVoidJob(job);
+      }
+      if (job.name === 'check-inventory-count') {
+        return processInventoryCountJob(job);
+      }
       return processSaleJob(job);
     },
     concurrency: 5,
+    deadLetter: true,
+    webhookEvents: true,
     options: {
       attempts: 3,
       backoff: {
@@ -34,6 +74,85 @@ export const WORKERS: WorkerConfig[] = [
       },
     },
   },
+  {
+    // Payment cancellations and order voids. Unlike refunds they can arrive
+    // before the sale they reverse: both sides take the payment lock and
+    // check for the other's record under it (payment-lock.ts), so either
+    // order ends with the sale reversed or never booked.
+    queueName: 'sale-voids',
+    processor: processVoidJob,
+    concurrency: 2,
+    deadLetter: true,
+    webhookEvents: true,
+    options: {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 2000,
+      },
+    },
+  },
+  {
+    // Historical order backfill (admin/sales/backfill). One run at a time so
+    // two overlapping ranges can't race each other's FIFO consumption; a run
+    // reports per-order failures itself, so it is never retried wholesale.
+    queueName: 'sales-backfill',
+    processor: processBackfillJob,
+    concurrency: 1,
+    options: {
+      attempts: 1,
+    },
+  },
+  {
+    // Scheduled Square catalog sync (CATALOG_SYNC_CRON). Concurrency 1 and
+    // the RUNNING-row check in the processor keep it to one sync at a time,
+    // including against the manual button; a failed run waits for the next
+    // tick instead of retrying.
+    queueName: 'catalog',
+    processor: processCatalogSyncJob,
+    concurrency: 1,
+    repeat: {
+      schedulerId: 'catalog-sync',
+      jobName: 'sync-catalog',
+      schedule: resolveCatalogSyncSchedule(process.env),
+      data: { locationId: null, forceResync: false },
+    },
+    options: {
+      attempts: 1,
+    },
+  },
+  {
+    // Nightly inventory snapshots (INVENTORY_SNAPSHOT_CRON), the starting
+    // points for valuation as of a past date. A failed run waits for the
+    // next night; valuation rolls from the previous snapshot meanwhile.
+    queueName: 'inventory-snapshots',
+    processor: processInventorySnapshotJob,
+    concurrency: 1,
+    repeat: {
+      schedulerId: 'inventory-snapshot',
+      jobName: 'snapshot-inventory',
+      schedule: resolveInventorySnapshotSchedule(process.env),
+    },
+    options: {
+      attempts: 1,
+    },
+  },
+  {
+    // Scheduled Square outbox flush (SQUARE_OUTBOX_FLUSH_CRON): re-sends
+    // rows whose send after commit failed, from the API or the sale worker.
+    // Each row keeps its own attempt count, so the job itself never retries.
+    queueName: 'square-outbox',
+    processor: processSquareOutboxFlushJob,
+    concurrency: 1,
+    repeat: {
+      schedulerId: 'square-outbox-flush',
+      jobName: 'flush-square-outbox',
+      schedule: resolveSquareOutboxFlushSchedule(process.env),
+    },
+    options: {
+      attempts: 1,
+    },
+  },
   // Add more workers here as needed:
   // {
   //   queueName: 'inventory',
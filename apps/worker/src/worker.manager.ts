@@ -1,5 +1,7 @@
 import { Worker, Queue, Job } from 'bullmq';
 import { WorkerConfig, WORKERS } from './worker.config';
+import { isFinalAttempt, recordDeadLetter, resolveDeadLetter } from './dead-letter';
+import { updateWebhookEvent, type WebhookJobEvent } from './webhook-event';
 
 interface ManagedWorker {
   config: WorkerConfig;
@@ -54,6 +56,7 @@ export class WorkerManager {
       const managedWorker = await this.createWorker(config);
       this.workers.push(managedWorker);
       this.setupWorkerEvents(managedWorker);
+      await this.applyRepeat(managedWorker);
       console.log(`[DEBUG] [WORKER_MANAGER] ✅ Registered worker: ${config.queueName}`);
       
       // Check queue status
@@ -151,6 +154,37 @@ export class WorkerManager {
     return { config, queue, worker };
   }
 
+  /**
+   * Register (or update, or remove) the queue's repeatable job. The scheduler
+   * lives in Redis, so every worker process upserting the same id on boot
+   * still yields a single schedule.
+   */
+  private async applyRepeat(managed: ManagedWorker) {
+    const { queue, config } = managed;
+    if (!config.repeat) return;
+
+    const { schedulerId, jobName, schedule, data } = config.repeat;
+    try {
+      if (!schedule) {
+        await queue.removeJobScheduler(schedulerId);
+        console.log(`[SCHEDULER] [${config.queueName}] ${schedulerId} disabled`);
+        return;
+      }
+
+      await queue.upsertJobScheduler(
+        schedulerId,
+        { pattern: schedule.pattern, ...(schedule.tz && { tz: schedule.tz }) },
+        { name: jobName, data: data ?? {}, opts: { removeOnComplete: 50, removeOnFail: 50 } },
+      );
+      console.log(
+        `[SCHEDULER] [${config.queueName}] ${schedulerId} scheduled: ${schedule.pattern}${schedule.tz ? ` (${schedule.tz})` : ''}`,
+      );
+    } catch (error) {
+      // A bad cron must not keep the other queues from starting.
+      console.error(`[SCHEDULER] [${config.queueName}] Failed to apply ${schedulerId}:`, error);
+    }
+  }
+
   /**
    * Setup event handlers for a worker
    */
@@ -159,14 +193,29 @@ export class WorkerManager {
 
     console.log(`[DEBUG] [WORKER_MANAGER] Setting up event handlers for: ${config.queueName}`);
 
+    const trackWebhookEvent = (job: Job, event: WebhookJobEvent, err?: unknown) => {
+      if (!config.webhookEvents) return;
+      updateWebhookEvent(job, event, err).catch((error) => {
+        console.error(`[WEBHOOK_EVENTS] Failed to update event for job ${job.id}:`, error);
+      });
+    };
+
     worker.on('active', (job) => {
       console.log(`[DEBUG] [WORKER_MANAGER] 🔄 [${config.queueName}] Job ${job.id} started`);
       console.log(`[DEBUG] [WORKER_MANAGER] Job ${job.id} data:`, JSON.stringify(job.data, null, 2));
+      trackWebhookEvent(job, 'active');
     });
 
     worker.on('completed', (job, result) => {
       console.log(`[DEBUG] [WORKER_MANAGER] ✅ [${config.queueName}] Job ${job.id} completed`);
       console.log(`[DEBUG] [WORKER_MANAGER] Job ${job.id} result:`, result);
+      trackWebhookEvent(job, 'completed');
+
+      if (config.deadLetter) {
+        resolveDeadLetter(job).catch((error) => {
+          console.error(`[DEAD_LETTER] Failed to resolve dead-letter entry for job ${job.id}:`, error);
+        });
+      }
     });
 
     worker.on('failed', (job, err) => {
@@ -185,6 +234,18 @@ export class WorkerManager {
         console.error(`[DEBUG] [WORKER_MANAGER] Failed job failedReason:`, job.failedReason);
       }
       console.error(`[DEBUG] [WORKER_MANAGER] ========================================`);
+
+      if (job) {
+        trackWebhookEvent(job, 'failed', err);
+      }
+
+      if (job && config.deadLetter && isFinalAttempt(job)) {
+        recordDeadLetter(config.queueName, job, err)
+          .then(() => console.error(`[DEAD_LETTER] [${config.queueName}] Job ${job.id} stored after ${job.attemptsMade} attempt(s)`))
+          .catch((error) => {
+            console.error(`[DEAD_LETTER] Failed to store job ${job.id}:`, error);
+          });
+      }
     });
 
     worker.on('error', (err) => {
@@ -0,0 +1,73 @@
+-- CreateTable
+CREATE TABLE "SaleRefund" (
+    "id" TEXT NOT NULL,
+    "squareRefundId" TEXT NOT NULL,
+    "saleId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "reason" TEXT,
+    "refundedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SaleRefund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SaleItemReversal" (
+    "id" TEXT NOT NULL,
+    "refundId" TEXT NOT NULL,
+    "saleItemId" TEXT NOT NULL,
+    "consumptionId" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitCost" DECIMAL(65,30) NOT NULL,
+    "totalCost" DECIMAL(65,30) NOT NULL,
+    "revenue" DECIMAL(65,30) NOT NULL,
+    "disposition" TEXT NOT NULL DEFAULT 'RESTOCKED',
+    "writeOffAdjustmentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SaleItemReversal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SaleRefund_squareRefundId_key" ON "SaleRefund"("squareRefundId");
+
+-- CreateIndex
+CREATE INDEX "SaleRefund_saleId_idx" ON "SaleRefund"("saleId");
+
+-- CreateIndex
+CREATE INDEX "SaleRefund_refundedAt_idx" ON "SaleRefund"("refundedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SaleItemReversal_writeOffAdjustmentId_key" ON "SaleItemReversal"("writeOffAdjustmentId");
+
+-- CreateIndex
+CREATE INDEX "SaleItemReversal_refundId_idx" ON "SaleItemReversal"("refundId");
+
+-- CreateIndex
+CREATE INDEX "SaleItemReversal_saleItemId_idx" ON "SaleItemReversal"("saleItemId");
+
+-- CreateIndex
+CREATE INDEX "SaleItemReversal_consumptionId_idx" ON "SaleItemReversal"("consumptionId");
+
+-- CreateIndex
+CREATE INDEX "SaleItemReversal_inventoryId_idx" ON "SaleItemReversal"("inventoryId");
+
+-- AddForeignKey
+ALTER TABLE "SaleRefund" ADD CONSTRAINT "SaleRefund_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Sale"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleItemReversal" ADD CONSTRAINT "SaleItemReversal_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "SaleRefund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleItemReversal" ADD CONSTRAINT "SaleItemReversal_saleItemId_fkey" FOREIGN KEY ("saleItemId") REFERENCES "SaleItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleItemReversal" ADD CONSTRAINT "SaleItemReversal_consumptionId_fkey" FOREIGN KEY ("consumptionId") REFERENCES "InventoryConsumption"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleItemReversal" ADD CONSTRAINT "SaleItemReversal_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "Inventory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleItemReversal" ADD CONSTRAINT "SaleItemReversal_writeOffAdjustmentId_fkey" FOREIGN KEY ("writeOffAdjustmentId") REFERENCES "InventoryAdjustment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "DeadLetterJob" (
+    "id" TEXT NOT NULL,
+    "queueName" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "errorName" TEXT NOT NULL,
+    "errorMessage" TEXT NOT NULL,
+    "errorStack" TEXT,
+    "errorDetails" JSONB,
+    "attemptsMade" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "failureCount" INTEGER NOT NULL DEFAULT 1,
+    "replayCount" INTEGER NOT NULL DEFAULT 0,
+    "lastReplayedAt" TIMESTAMP(3),
+    "lastReplayedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "firstFailedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastFailedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeadLetterJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeadLetterJob_status_idx" ON "DeadLetterJob"("status");
+
+-- CreateIndex
+CREATE INDEX "DeadLetterJob_errorName_idx" ON "DeadLetterJob"("errorName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeadLetterJob_queueName_jobId_key" ON "DeadLetterJob"("queueName", "jobId");
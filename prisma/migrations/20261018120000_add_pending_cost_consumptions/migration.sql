@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Location" ADD COLUMN "allowPendingCost" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "PendingCostConsumption" (
+    "id" TEXT NOT NULL,
+    "saleItemId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "remainingQuantity" INTEGER NOT NULL,
+    "settledCost" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "settledAt" TIMESTAMP(3),
+
+    CONSTRAINT "PendingCostConsumption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PendingCostConsumption_saleItemId_idx" ON "PendingCostConsumption"("saleItemId");
+
+-- CreateIndex
+CREATE INDEX "PendingCostConsumption_productId_locationId_settledAt_idx" ON "PendingCostConsumption"("productId", "locationId", "settledAt");
+
+-- CreateIndex
+CREATE INDEX "PendingCostConsumption_locationId_settledAt_idx" ON "PendingCostConsumption"("locationId", "settledAt");
+
+-- AddForeignKey
+ALTER TABLE "PendingCostConsumption" ADD CONSTRAINT "PendingCostConsumption_saleItemId_fkey" FOREIGN KEY ("saleItemId") REFERENCES "SaleItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PendingCostConsumption" ADD CONSTRAINT "PendingCostConsumption_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PendingCostConsumption" ADD CONSTRAINT "PendingCostConsumption_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "Sale" ADD COLUMN "discountTotal" DECIMAL(65,30),
+ADD COLUMN "grossSales" DECIMAL(65,30),
+ADD COLUMN "serviceChargeTotal" DECIMAL(65,30),
+ADD COLUMN "taxTotal" DECIMAL(65,30),
+ADD COLUMN "tipTotal" DECIMAL(65,30),
+ADD COLUMN "totalCollected" DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "SaleItem" ADD COLUMN "discountAmount" DECIMAL(65,30),
+ADD COLUMN "grossAmount" DECIMAL(65,30),
+ADD COLUMN "taxAmount" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "SaleDiscount" (
+    "id" TEXT NOT NULL,
+    "saleId" TEXT NOT NULL,
+    "saleItemId" TEXT,
+    "discountUid" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT,
+    "percentage" TEXT,
+    "scope" TEXT,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SaleDiscount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SaleTender" (
+    "id" TEXT NOT NULL,
+    "saleId" TEXT NOT NULL,
+    "squareTenderId" TEXT,
+    "paymentId" TEXT,
+    "type" TEXT NOT NULL,
+    "cardBrand" TEXT,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "tipAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "changeBack" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SaleTender_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SaleDiscount_saleId_idx" ON "SaleDiscount"("saleId");
+
+-- CreateIndex
+CREATE INDEX "SaleDiscount_saleItemId_idx" ON "SaleDiscount"("saleItemId");
+
+-- CreateIndex
+CREATE INDEX "SaleTender_saleId_idx" ON "SaleTender"("saleId");
+
+-- CreateIndex
+CREATE INDEX "SaleTender_type_idx" ON "SaleTender"("type");
+
+-- AddForeignKey
+ALTER TABLE "SaleDiscount" ADD CONSTRAINT "SaleDiscount_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Sale"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleDiscount" ADD CONSTRAINT "SaleDiscount_saleItemId_fkey" FOREIGN KEY ("saleItemId") REFERENCES "SaleItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleTender" ADD CONSTRAINT "SaleTender_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Sale"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- AlterTable
+ALTER TABLE "Sale" ADD COLUMN "squareOrderId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SaleVoid" (
+    "id" TEXT NOT NULL,
+    "squarePaymentId" TEXT NOT NULL,
+    "saleId" TEXT,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "squareEventId" TEXT,
+    "units" INTEGER NOT NULL DEFAULT 0,
+    "cost" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "revenue" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "voidedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SaleVoid_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SaleVoidLine" (
+    "id" TEXT NOT NULL,
+    "voidId" TEXT NOT NULL,
+    "saleItemId" TEXT NOT NULL,
+    "consumptionId" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitCost" DECIMAL(65,30) NOT NULL,
+    "totalCost" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SaleVoidLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Sale_squareOrderId_idx" ON "Sale"("squareOrderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SaleVoid_squarePaymentId_key" ON "SaleVoid"("squarePaymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SaleVoid_saleId_key" ON "SaleVoid"("saleId");
+
+-- CreateIndex
+CREATE INDEX "SaleVoid_voidedAt_idx" ON "SaleVoid"("voidedAt");
+
+-- CreateIndex
+CREATE INDEX "SaleVoidLine_voidId_idx" ON "SaleVoidLine"("voidId");
+
+-- CreateIndex
+CREATE INDEX "SaleVoidLine_consumptionId_idx" ON "SaleVoidLine"("consumptionId");
+
+-- CreateIndex
+CREATE INDEX "SaleVoidLine_inventoryId_idx" ON "SaleVoidLine"("inventoryId");
+
+-- AddForeignKey
+ALTER TABLE "SaleVoid" ADD CONSTRAINT "SaleVoid_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Sale"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleVoidLine" ADD CONSTRAINT "SaleVoidLine_voidId_fkey" FOREIGN KEY ("voidId") REFERENCES "SaleVoid"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleVoidLine" ADD CONSTRAINT "SaleVoidLine_saleItemId_fkey" FOREIGN KEY ("saleItemId") REFERENCES "SaleItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleVoidLine" ADD CONSTRAINT "SaleVoidLine_consumptionId_fkey" FOREIGN KEY ("consumptionId") REFERENCES "InventoryConsumption"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SaleVoidLine" ADD CONSTRAINT "SaleVoidLine_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "Inventory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "CatalogSyncRun" (
+    "id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "locationId" TEXT,
+    "forceResync" BOOLEAN NOT NULL DEFAULT false,
+    "jobId" TEXT,
+    "totalVariationsFound" INTEGER NOT NULL DEFAULT 0,
+    "variationsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "productsCreated" INTEGER NOT NULL DEFAULT 0,
+    "mappingsCreated" INTEGER NOT NULL DEFAULT 0,
+    "mappingsSkipped" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB,
+    "errorMessage" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CatalogSyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CatalogSyncRun_startedAt_idx" ON "CatalogSyncRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "CatalogSyncRun_status_idx" ON "CatalogSyncRun"("status");
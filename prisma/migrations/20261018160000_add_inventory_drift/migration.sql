@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "InventoryDrift" (
+    "id" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "squareVariationId" TEXT NOT NULL,
+    "localQuantity" INTEGER NOT NULL,
+    "squareQuantity" INTEGER NOT NULL,
+    "difference" INTEGER NOT NULL,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "resolution" TEXT,
+    "adjustmentId" TEXT,
+    "resolvedBy" TEXT,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "checkedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "InventoryDrift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryDrift_locationId_status_idx" ON "InventoryDrift"("locationId", "status");
+
+-- CreateIndex
+CREATE INDEX "InventoryDrift_productId_locationId_status_idx" ON "InventoryDrift"("productId", "locationId", "status");
+
+-- AddForeignKey
+ALTER TABLE "InventoryDrift" ADD CONSTRAINT "InventoryDrift_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryDrift" ADD CONSTRAINT "InventoryDrift_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "ConsumptionPolicy" AS ENUM ('FIFO', 'FEFO');
+
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN "consumptionPolicy" "ConsumptionPolicy";
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "consumptionPolicy" "ConsumptionPolicy";
+
+-- AlterTable
+ALTER TABLE "SaleItem" ADD COLUMN "consumptionPolicy" "ConsumptionPolicy";
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "UnmappedSaleLine" (
+    "id" TEXT NOT NULL,
+    "saleId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "lineUid" TEXT,
+    "squareVariationId" TEXT,
+    "name" TEXT,
+    "variationName" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "price" DECIMAL(65,30) NOT NULL,
+    "grossAmount" DECIMAL(65,30) NOT NULL,
+    "discountAmount" DECIMAL(65,30) NOT NULL,
+    "taxAmount" DECIMAL(65,30) NOT NULL,
+    "discounts" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "productId" TEXT,
+    "saleItemId" TEXT,
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UnmappedSaleLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UnmappedSaleLine_saleItemId_key" ON "UnmappedSaleLine"("saleItemId");
+
+-- CreateIndex
+CREATE INDEX "UnmappedSaleLine_status_locationId_idx" ON "UnmappedSaleLine"("status", "locationId");
+
+-- CreateIndex
+CREATE INDEX "UnmappedSaleLine_squareVariationId_status_idx" ON "UnmappedSaleLine"("squareVariationId", "status");
+
+-- CreateIndex
+CREATE INDEX "UnmappedSaleLine_saleId_idx" ON "UnmappedSaleLine"("saleId");
+
+-- AddForeignKey
+ALTER TABLE "UnmappedSaleLine" ADD CONSTRAINT "UnmappedSaleLine_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Sale"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UnmappedSaleLine" ADD CONSTRAINT "UnmappedSaleLine_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UnmappedSaleLine" ADD CONSTRAINT "UnmappedSaleLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UnmappedSaleLine" ADD CONSTRAINT "UnmappedSaleLine_saleItemId_fkey" FOREIGN KEY ("saleItemId") REFERENCES "SaleItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,111 @@
+-- CreateEnum
+CREATE TYPE "TransferOrderStatus" AS ENUM ('DRAFT', 'IN_TRANSIT', 'RECEIVED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Inventory" ADD COLUMN     "batchNumber" TEXT,
+ADD COLUMN     "expiryDate" TIMESTAMP(3);
+
+-- Backfill lot/expiry from the receiving that created each batch
+UPDATE "Inventory" AS i
+SET "batchNumber" = r."batchNumber",
+    "expiryDate" = r."expiryDate"
+FROM "InventoryReceiving" AS r
+WHERE r."inventoryBatchId" = i."id";
+
+-- CreateTable
+CREATE TABLE "TransferOrder" (
+    "id" TEXT NOT NULL,
+    "fromLocationId" TEXT NOT NULL,
+    "toLocationId" TEXT NOT NULL,
+    "status" "TransferOrderStatus" NOT NULL DEFAULT 'DRAFT',
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "shippedBy" TEXT,
+    "shippedAt" TIMESTAMP(3),
+    "receivedBy" TEXT,
+    "receivedAt" TIMESTAMP(3),
+    "squareOutSynced" BOOLEAN NOT NULL DEFAULT false,
+    "squareOutSyncError" TEXT,
+    "squareInSynced" BOOLEAN NOT NULL DEFAULT false,
+    "squareInSyncError" TEXT,
+
+    CONSTRAINT "TransferOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TransferOrderLine" (
+    "id" TEXT NOT NULL,
+    "transferOrderId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantityRequested" INTEGER NOT NULL,
+    "quantityShipped" INTEGER,
+    "quantityReceived" INTEGER,
+    "outAdjustmentId" TEXT,
+
+    CONSTRAINT "TransferOrderLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TransferOrderBatch" (
+    "id" TEXT NOT NULL,
+    "lineId" TEXT NOT NULL,
+    "sourceBatchId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "quantityReceived" INTEGER,
+    "unitCost" DECIMAL(65,30) NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL,
+    "batchNumber" TEXT,
+    "expiryDate" TIMESTAMP(3),
+    "destinationBatchId" TEXT,
+
+    CONSTRAINT "TransferOrderBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransferOrder_status_idx" ON "TransferOrder"("status");
+
+-- CreateIndex
+CREATE INDEX "TransferOrder_fromLocationId_idx" ON "TransferOrder"("fromLocationId");
+
+-- CreateIndex
+CREATE INDEX "TransferOrder_toLocationId_idx" ON "TransferOrder"("toLocationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransferOrderLine_outAdjustmentId_key" ON "TransferOrderLine"("outAdjustmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransferOrderLine_transferOrderId_productId_key" ON "TransferOrderLine"("transferOrderId", "productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransferOrderBatch_destinationBatchId_key" ON "TransferOrderBatch"("destinationBatchId");
+
+-- CreateIndex
+CREATE INDEX "TransferOrderBatch_lineId_idx" ON "TransferOrderBatch"("lineId");
+
+-- CreateIndex
+CREATE INDEX "TransferOrderBatch_sourceBatchId_idx" ON "TransferOrderBatch"("sourceBatchId");
+
+-- AddForeignKey
+ALTER TABLE "TransferOrder" ADD CONSTRAINT "TransferOrder_fromLocationId_fkey" FOREIGN KEY ("fromLocationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrder" ADD CONSTRAINT "TransferOrder_toLocationId_fkey" FOREIGN KEY ("toLocationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrderLine" ADD CONSTRAINT "TransferOrderLine_transferOrderId_fkey" FOREIGN KEY ("transferOrderId") REFERENCES "TransferOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrderLine" ADD CONSTRAINT "TransferOrderLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrderLine" ADD CONSTRAINT "TransferOrderLine_outAdjustmentId_fkey" FOREIGN KEY ("outAdjustmentId") REFERENCES "InventoryAdjustment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrderBatch" ADD CONSTRAINT "TransferOrderBatch_lineId_fkey" FOREIGN KEY ("lineId") REFERENCES "TransferOrderLine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrderBatch" ADD CONSTRAINT "TransferOrderBatch_sourceBatchId_fkey" FOREIGN KEY ("sourceBatchId") REFERENCES "Inventory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferOrderBatch" ADD CONSTRAINT "TransferOrderBatch_destinationBatchId_fkey" FOREIGN KEY ("destinationBatchId") REFERENCES "Inventory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "CountSessionStatus" AS ENUM ('OPEN', 'COMMITTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "CountSession" (
+    "id" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "rackId" TEXT,
+    "name" TEXT,
+    "status" "CountSessionStatus" NOT NULL DEFAULT 'OPEN',
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "committedBy" TEXT,
+    "committedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "squareSynced" BOOLEAN NOT NULL DEFAULT false,
+    "squareSyncError" TEXT,
+
+    CONSTRAINT "CountSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CountSessionLine" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "systemQuantity" INTEGER NOT NULL,
+    "countedQuantity" INTEGER NOT NULL DEFAULT 0,
+    "firstCountedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "adjustmentId" TEXT,
+
+    CONSTRAINT "CountSessionLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CountEntry" (
+    "id" TEXT NOT NULL,
+    "lineId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "deviceId" TEXT,
+    "countedBy" TEXT,
+    "countedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "clientRequestId" TEXT,
+
+    CONSTRAINT "CountEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CountSession_locationId_status_idx" ON "CountSession"("locationId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CountSessionLine_adjustmentId_key" ON "CountSessionLine"("adjustmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CountSessionLine_sessionId_productId_key" ON "CountSessionLine"("sessionId", "productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CountEntry_clientRequestId_key" ON "CountEntry"("clientRequestId");
+
+-- CreateIndex
+CREATE INDEX "CountEntry_lineId_idx" ON "CountEntry"("lineId");
+
+-- AddForeignKey
+ALTER TABLE "CountSession" ADD CONSTRAINT "CountSession_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CountSession" ADD CONSTRAINT "CountSession_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CountSession" ADD CONSTRAINT "CountSession_rackId_fkey" FOREIGN KEY ("rackId") REFERENCES "Rack"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CountSessionLine" ADD CONSTRAINT "CountSessionLine_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "CountSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CountSessionLine" ADD CONSTRAINT "CountSessionLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CountSessionLine" ADD CONSTRAINT "CountSessionLine_adjustmentId_fkey" FOREIGN KEY ("adjustmentId") REFERENCES "InventoryAdjustment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CountEntry" ADD CONSTRAINT "CountEntry_lineId_fkey" FOREIGN KEY ("lineId") REFERENCES "CountSessionLine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "InventoryReceiving" ADD COLUMN     "invoiceId" TEXT,
+ADD COLUMN     "invoiceUnitCost" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "ReceivingInvoice" (
+    "id" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "supplierId" TEXT,
+    "invoiceNumber" TEXT,
+    "invoiceDate" TIMESTAMP(3),
+    "subtotal" DECIMAL(65,30) NOT NULL,
+    "charges" JSONB NOT NULL,
+    "chargesTotal" DECIMAL(65,30) NOT NULL,
+    "allocationMethod" TEXT NOT NULL,
+    "invoiceTotal" DECIMAL(65,30) NOT NULL,
+    "clientRequestId" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "receivedBy" TEXT,
+    "notes" TEXT,
+
+    CONSTRAINT "ReceivingInvoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryReceiving_invoiceId_idx" ON "InventoryReceiving"("invoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReceivingInvoice_clientRequestId_key" ON "ReceivingInvoice"("clientRequestId");
+
+-- CreateIndex
+CREATE INDEX "ReceivingInvoice_locationId_idx" ON "ReceivingInvoice"("locationId");
+
+-- CreateIndex
+CREATE INDEX "ReceivingInvoice_supplierId_idx" ON "ReceivingInvoice"("supplierId");
+
+-- CreateIndex
+CREATE INDEX "ReceivingInvoice_invoiceNumber_idx" ON "ReceivingInvoice"("invoiceNumber");
+
+-- AddForeignKey
+ALTER TABLE "InventoryReceiving" ADD CONSTRAINT "InventoryReceiving_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "ReceivingInvoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReceivingInvoice" ADD CONSTRAINT "ReceivingInvoice_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReceivingInvoice" ADD CONSTRAINT "ReceivingInvoice_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Supplier" ADD COLUMN     "leadTimeDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ReorderSetting" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "minQuantity" INTEGER NOT NULL,
+    "maxQuantity" INTEGER,
+    "orderMultiple" INTEGER,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReorderSetting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReorderSetting_locationId_idx" ON "ReorderSetting"("locationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReorderSetting_productId_locationId_key" ON "ReorderSetting"("productId", "locationId");
+
+-- AddForeignKey
+ALTER TABLE "ReorderSetting" ADD CONSTRAINT "ReorderSetting_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReorderSetting" ADD CONSTRAINT "ReorderSetting_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "AdjustmentType" ADD VALUE IF NOT EXISTS 'RECALL';
+
+-- CreateEnum
+CREATE TYPE "RecallStatus" AS ENUM ('OPEN', 'QUARANTINED', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "InventoryAdjustment" ADD COLUMN     "recallCaseId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecallCase" (
+    "id" TEXT NOT NULL,
+    "batchNumber" TEXT NOT NULL,
+    "productId" TEXT,
+    "labId" TEXT,
+    "status" "RecallStatus" NOT NULL DEFAULT 'OPEN',
+    "reason" TEXT NOT NULL,
+    "reference" TEXT,
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "quarantinedAt" TIMESTAMP(3),
+    "quarantinedBy" TEXT,
+    "closedAt" TIMESTAMP(3),
+    "closedBy" TEXT,
+    "squareSynced" BOOLEAN NOT NULL DEFAULT false,
+    "squareSyncError" TEXT,
+
+    CONSTRAINT "RecallCase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryAdjustment_recallCaseId_idx" ON "InventoryAdjustment"("recallCaseId");
+
+-- CreateIndex
+CREATE INDEX "RecallCase_batchNumber_idx" ON "RecallCase"("batchNumber");
+
+-- CreateIndex
+CREATE INDEX "RecallCase_status_idx" ON "RecallCase"("status");
+
+-- AddForeignKey
+ALTER TABLE "InventoryAdjustment" ADD CONSTRAINT "InventoryAdjustment_recallCaseId_fkey" FOREIGN KEY ("recallCaseId") REFERENCES "RecallCase"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecallCase" ADD CONSTRAINT "RecallCase_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecallCase" ADD CONSTRAINT "RecallCase_labId_fkey" FOREIGN KEY ("labId") REFERENCES "Laboratory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
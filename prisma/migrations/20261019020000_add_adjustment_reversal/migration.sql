@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "InventoryAdjustment" ADD COLUMN     "reversesId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryAdjustment_reversesId_key" ON "InventoryAdjustment"("reversesId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryAdjustment" ADD CONSTRAINT "InventoryAdjustment_reversesId_fkey" FOREIGN KEY ("reversesId") REFERENCES "InventoryAdjustment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
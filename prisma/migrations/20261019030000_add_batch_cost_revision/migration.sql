@@ -0,0 +1,69 @@
+-- CreateTable
+CREATE TABLE "BatchCostRevision" (
+    "id" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "previousUnitCost" DECIMAL(65,30) NOT NULL,
+    "newUnitCost" DECIMAL(65,30) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "remainingQuantity" INTEGER NOT NULL,
+    "cogsDelta" DECIMAL(65,30) NOT NULL,
+    "parentRevisionId" TEXT,
+    "revisedBy" TEXT,
+    "revisedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BatchCostRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CostRestatement" (
+    "id" TEXT NOT NULL,
+    "revisionId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "effectiveAt" TIMESTAMP(3) NOT NULL,
+    "saleId" TEXT,
+    "adjustmentId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "previousCost" DECIMAL(65,30) NOT NULL,
+    "newCost" DECIMAL(65,30) NOT NULL,
+    "delta" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CostRestatement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BatchCostRevision_inventoryId_idx" ON "BatchCostRevision"("inventoryId");
+
+-- CreateIndex
+CREATE INDEX "BatchCostRevision_parentRevisionId_idx" ON "BatchCostRevision"("parentRevisionId");
+
+-- CreateIndex
+CREATE INDEX "CostRestatement_revisionId_idx" ON "CostRestatement"("revisionId");
+
+-- CreateIndex
+CREATE INDEX "CostRestatement_kind_effectiveAt_idx" ON "CostRestatement"("kind", "effectiveAt");
+
+-- CreateIndex
+CREATE INDEX "CostRestatement_saleId_idx" ON "CostRestatement"("saleId");
+
+-- CreateIndex
+CREATE INDEX "CostRestatement_adjustmentId_idx" ON "CostRestatement"("adjustmentId");
+
+-- AddForeignKey
+ALTER TABLE "BatchCostRevision" ADD CONSTRAINT "BatchCostRevision_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "Inventory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BatchCostRevision" ADD CONSTRAINT "BatchCostRevision_parentRevisionId_fkey" FOREIGN KEY ("parentRevisionId") REFERENCES "BatchCostRevision"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostRestatement" ADD CONSTRAINT "CostRestatement_revisionId_fkey" FOREIGN KEY ("revisionId") REFERENCES "BatchCostRevision"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostRestatement" ADD CONSTRAINT "CostRestatement_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "Sale"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostRestatement" ADD CONSTRAINT "CostRestatement_adjustmentId_fkey" FOREIGN KEY ("adjustmentId") REFERENCES "InventoryAdjustment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
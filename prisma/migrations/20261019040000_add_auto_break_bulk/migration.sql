@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "autoBreakBulk" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "SquareOutboxStatus" AS ENUM ('PENDING', 'SYNCED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "SquareSyncOutbox" (
+    "id" TEXT NOT NULL,
+    "idempotencyKey" TEXT NOT NULL,
+    "referenceId" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "status" "SquareOutboxStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "syncedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SquareSyncOutbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SquareSyncOutbox_idempotencyKey_key" ON "SquareSyncOutbox"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "SquareSyncOutbox_status_createdAt_idx" ON "SquareSyncOutbox"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SquareSyncOutbox_referenceId_idx" ON "SquareSyncOutbox"("referenceId");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Rack" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "RackSection" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ALTER COLUMN "size" DROP NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "RackSection" DROP CONSTRAINT "RackSection_rackId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "Placement" DROP CONSTRAINT "Placement_rackSectionId_fkey";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Rack_locationId_name_key" ON "Rack"("locationId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RackSection_rackId_label_key" ON "RackSection"("rackId", "label");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Placement_productId_rackSectionId_key" ON "Placement"("productId", "rackSectionId");
+
+-- CreateIndex
+CREATE INDEX "Placement_rackSectionId_idx" ON "Placement"("rackSectionId");
+
+-- AddForeignKey
+ALTER TABLE "RackSection" ADD CONSTRAINT "RackSection_rackId_fkey" FOREIGN KEY ("rackId") REFERENCES "Rack"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Placement" ADD CONSTRAINT "Placement_rackSectionId_fkey" FOREIGN KEY ("rackSectionId") REFERENCES "RackSection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "DemandReason" AS ENUM ('NO_RESULTS', 'OUT_OF_STOCK', 'REQUESTED');
+
+-- AlterTable
+ALTER TABLE "DemandSignal" ADD COLUMN     "normalizedQuery" TEXT,
+ADD COLUMN     "reason" "DemandReason" NOT NULL DEFAULT 'REQUESTED',
+ADD COLUMN     "day" DATE,
+ADD COLUMN     "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill: earlier rows have no reason recorded; keep them as requests
+UPDATE "DemandSignal" SET "normalizedQuery" = lower(trim("query")), "day" = "createdAt"::date, "lastSeenAt" = "createdAt";
+
+-- AlterTable
+ALTER TABLE "DemandSignal" ALTER COLUMN "normalizedQuery" SET NOT NULL,
+ALTER COLUMN "reason" DROP DEFAULT,
+ALTER COLUMN "day" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DemandSignal_locationId_normalizedQuery_reason_day_key" ON "DemandSignal"("locationId", "normalizedQuery", "reason", "day");
+
+-- CreateIndex
+CREATE INDEX "DemandSignal_day_idx" ON "DemandSignal"("day");
+
+-- AddForeignKey
+ALTER TABLE "DemandSignal" ADD CONSTRAINT "DemandSignal_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
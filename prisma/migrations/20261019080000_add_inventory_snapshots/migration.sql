@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "InventorySnapshot" (
+    "id" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "takenAt" TIMESTAMP(3) NOT NULL,
+    "totalUnits" INTEGER NOT NULL,
+    "totalValue" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventorySnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InventorySnapshotLine" (
+    "id" TEXT NOT NULL,
+    "snapshotId" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitCost" DECIMAL(65,30) NOT NULL,
+
+    CONSTRAINT "InventorySnapshotLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventorySnapshot_locationId_takenAt_idx" ON "InventorySnapshot"("locationId", "takenAt");
+
+-- CreateIndex
+CREATE INDEX "InventorySnapshotLine_snapshotId_idx" ON "InventorySnapshotLine"("snapshotId");
+
+-- AddForeignKey
+ALTER TABLE "InventorySnapshot" ADD CONSTRAINT "InventorySnapshot_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventorySnapshotLine" ADD CONSTRAINT "InventorySnapshotLine_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "InventorySnapshot"("id") ON DELETE CASCADE ON UPDATE CASCADE;